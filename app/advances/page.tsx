@@ -0,0 +1,642 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { motion } from "framer-motion"
+import Link from "next/link"
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Calendar,
+  CheckCircle,
+  DollarSign,
+  FileText,
+  HandCoins,
+  Receipt,
+  User,
+} from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AppLayout } from "@/components/layout/AppLayout"
+import { ReceiptPicker } from "@/components/common/ReceiptPicker"
+import { RecipientOptions } from "@/components/common/RecipientOptions"
+import { usePettyCash, firstOpenDate, isClosedDate } from "@/contexts/PettyCashContext"
+import type { Transaction } from "@/contexts/PettyCashContext"
+import { useUser } from "@/contexts/UserContext"
+import { useToast } from "@/hooks/use-toast"
+import { amountStep, formatCurrency, fromMinorUnits, parseMoney } from "@/lib/money"
+import { sanitizeAmount } from "@/lib/security"
+import { getApprovalThreshold } from "@/lib/approvals"
+import { checkBudget } from "@/lib/budgets"
+import { getReceiptThreshold, saveReceipts } from "@/lib/receipts"
+import { getCategories, hasDisbursementErrors, validateDisbursement } from "@/lib/disbursements"
+import { canonicalRecipient, getRecipients } from "@/lib/recipients"
+import { OVERDUE_DAYS, advanceAge, outstandingAdvances } from "@/lib/advances"
+
+interface SettleForm {
+  spent: string
+  category: string
+  purpose: string
+  payee: string
+  reference: string
+  notes: string
+  date: string
+}
+
+const today = () => new Date().toISOString().split("T")[0]
+
+export default function AdvancesPage() {
+  const { state, dispatch } = usePettyCash()
+  const { currentUser } = useUser()
+  const { toast } = useToast()
+
+  // Issue
+  const [amount, setAmount] = useState("")
+  const [recipient, setRecipient] = useState("")
+  const [purpose, setPurpose] = useState("")
+  const [date, setDate] = useState(today())
+  const [notes, setNotes] = useState("")
+
+  // Settle
+  const [settlingId, setSettlingId] = useState<string | null>(null)
+  const [settleForm, setSettleForm] = useState<SettleForm | null>(null)
+  const [receiptFiles, setReceiptFiles] = useState<File[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const customCategories = getCategories()
+  const recipients = getRecipients()
+  const outstanding = outstandingAdvances(state.transactions)
+  const recentlySettled = state.transactions
+    .filter((t) => t.type === "settlement")
+    .slice(-5)
+    .reverse()
+
+  // Held to the same rules as a disbursement, except that what it'll be spent on isn't known yet and there's
+  // no approval step, so amounts that would need one are refused
+  const amountValue = sanitizeAmount(amount, state.currency)
+  const approvalThreshold = getApprovalThreshold(state.currency)
+  const disbursementErrors = validateDisbursement(
+    { date, amount, recipient, category: "", purpose },
+    state,
+    state.balance,
+    customCategories,
+  )
+  const errors = {
+    ...disbursementErrors,
+    amount:
+      disbursementErrors.amount ||
+      (amountValue > approvalThreshold
+        ? `Advances over ${formatCurrency(approvalThreshold, state.currency)} need approval; record a disbursement instead`
+        : ""),
+    category: "",
+  }
+  const hasErrors = hasDisbursementErrors(errors)
+
+  const settling = outstanding.find((t) => t.id === settlingId)
+  const spentParsed = settleForm ? parseMoney(settleForm.spent, state.currency) : NaN
+  const spentValue = isNaN(spentParsed) ? 0 : spentParsed
+  // Positive when change comes back, negative when the drawer pays out the difference
+  const change = settling ? settling.amount - spentValue : 0
+  const receiptThreshold = getReceiptThreshold(state.currency)
+  // The spending is booked as a categorised disbursement, so it's held to the same budget warning
+  const budgetOverrun =
+    settleForm && spentValue > 0
+      ? checkBudget(state.transactions, settleForm.category, spentValue, settleForm.date, state.currency)
+      : null
+
+  const settleErrors =
+    settling && settleForm
+      ? {
+          spent:
+            !settleForm.spent.trim() || isNaN(spentParsed) || spentParsed < 0
+              ? "Enter what was spent, or 0 if it all came back"
+              : -change > state.balance
+                ? "Not enough cash to pay out the difference"
+                : -change > approvalThreshold
+                  ? `Paying out more than ${formatCurrency(approvalThreshold, state.currency)} needs approval; settle for the advance and record the rest as a disbursement`
+                  : "",
+          category:
+            spentValue > 0 && !settleForm.category
+              ? "Category is required"
+              : spentValue > 0 && !customCategories.includes(settleForm.category)
+                ? "Unknown category"
+                : "",
+          purpose: !settleForm.purpose.trim() ? "Purpose is required" : "",
+          date: !settleForm.date
+            ? "Date is required"
+            : settleForm.date < settling.date
+              ? "Cannot settle before the advance was given"
+              : new Date(settleForm.date) > new Date()
+                ? "Date cannot be in the future"
+                : isClosedDate(state, settleForm.date)
+                  ? `Reconciled through ${new Date(state.closedThrough!).toLocaleDateString()}; reopen the period to back-date`
+                  : "",
+        }
+      : null
+  const hasSettleErrors = !settleErrors || Object.values(settleErrors).some((error) => error !== "")
+
+  const updateSettleForm = (changes: Partial<SettleForm>) =>
+    setSettleForm((prev) => (prev ? { ...prev, ...changes } : prev))
+
+  const resetIssueForm = () => {
+    setAmount("")
+    setRecipient("")
+    setPurpose("")
+    setNotes("")
+    setDate(today())
+  }
+
+  const handleIssue = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (hasErrors) {
+      toast({
+        title: "Validation Error",
+        description: "Please fix the errors before submitting",
+        variant: "destructive",
+      })
+      return
+    }
+
+    // Recorded under the directory's spelling so reports group one person together
+    const recipientName = canonicalRecipient(recipient, recipients)
+    dispatch({
+      type: "ADVANCE",
+      payload: {
+        amount: amountValue,
+        date,
+        recipient: recipientName,
+        purpose: purpose.trim(),
+        notes: notes.trim(),
+        enteredBy: currentUser?.name,
+      },
+    })
+    toast({
+      title: "Advance Recorded",
+      description: `${formatCurrency(amountValue, state.currency)} advanced to ${recipientName}`,
+    })
+    resetIssueForm()
+  }
+
+  const handleStartSettle = (advance: Transaction) => {
+    setSettlingId(advance.id)
+    setSettleForm({
+      spent: "",
+      category: "",
+      purpose: advance.purpose || "",
+      payee: "",
+      reference: "",
+      notes: "",
+      date: today(),
+    })
+    setReceiptFiles([])
+  }
+
+  const handleCancelSettle = () => {
+    setSettlingId(null)
+    setSettleForm(null)
+    setReceiptFiles([])
+  }
+
+  const handleSettle = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!settling || !settleForm || hasSettleErrors) return
+
+    setIsSubmitting(true)
+    try {
+      const receiptIds = receiptFiles.length > 0 ? await saveReceipts(receiptFiles) : []
+
+      dispatch({
+        type: "SETTLE_ADVANCE",
+        payload: {
+          advanceId: settling.id,
+          spent: spentValue,
+          date: settleForm.date,
+          purpose: settleForm.purpose.trim(),
+          category: settleForm.category,
+          payee: settleForm.payee.trim(),
+          reference: settleForm.reference.trim(),
+          notes: settleForm.notes.trim(),
+          receiptIds,
+          enteredBy: currentUser?.name,
+        },
+      })
+
+      toast({
+        title: "Advance Settled",
+        description:
+          change > 0
+            ? `${formatCurrency(change, state.currency)} returned by ${settling.recipient}`
+            : change < 0
+              ? `${formatCurrency(-change, state.currency)} paid out to ${settling.recipient}`
+              : `${settling.recipient} spent the full advance`,
+      })
+      handleCancelSettle()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to settle the advance. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!state.isInitialized) {
+    return (
+      <AppLayout>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <Card className="max-w-md w-full">
+            <CardHeader className="text-center">
+              <CardTitle>Fund Not Initialized</CardTitle>
+            </CardHeader>
+            <CardContent className="text-center space-y-4">
+              <p className="text-muted-foreground">Please initialize your petty cash fund first.</p>
+              <Link href="/initialize">
+                <Button>Initialize Fund</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </AppLayout>
+    )
+  }
+
+  return (
+    <AppLayout>
+      <div className="max-w-4xl mx-auto space-y-8">
+        {/* Header */}
+        <div className="flex items-center space-x-4">
+          <Link href="/">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold flex items-center space-x-2">
+              <HandCoins className="h-8 w-8 text-orange-600" />
+              <span>Cash Advances</span>
+            </h1>
+            <p className="text-muted-foreground">Cash handed out ahead of a purchase, settled against the receipt</p>
+          </div>
+        </div>
+
+        {/* Current Balance Alert */}
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+          <Alert className="border-blue-200 bg-blue-50 dark:border-blue-800 dark:bg-blue-950">
+            <DollarSign className="h-4 w-4 text-blue-600" />
+            <AlertDescription className="text-blue-800 dark:text-blue-200">
+              <strong>Current Balance:</strong> {formatCurrency(state.balance, state.currency)} in the drawer,{" "}
+              {formatCurrency(
+                outstanding.reduce((sum, t) => sum + t.amount, 0),
+                state.currency,
+              )}{" "}
+              out on {outstanding.length} advance{outstanding.length === 1 ? "" : "s"}
+            </AlertDescription>
+          </Alert>
+        </motion.div>
+
+        {/* Issue */}
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.1 }}>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <HandCoins className="h-5 w-5" />
+                <span>Issue Advance</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleIssue} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="advance-amount" className="flex items-center space-x-2">
+                      <DollarSign className="h-4 w-4" />
+                      <span>Amount *</span>
+                    </Label>
+                    <Input
+                      id="advance-amount"
+                      type="number"
+                      step={amountStep(state.currency)}
+                      min={amountStep(state.currency)}
+                      max={fromMinorUnits(state.balance, state.currency)}
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      placeholder="0.00"
+                      className={amount && (errors.amount || errors.balance) ? "border-red-500" : ""}
+                    />
+                    {amount && (errors.amount || errors.balance) && (
+                      <p className="text-sm text-red-600">{errors.amount || errors.balance}</p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="advance-recipient" className="flex items-center space-x-2">
+                      <User className="h-4 w-4" />
+                      <span>Given To *</span>
+                    </Label>
+                    <Input
+                      id="advance-recipient"
+                      list="recipient-directory"
+                      autoComplete="off"
+                      value={recipient}
+                      onChange={(e) => setRecipient(e.target.value)}
+                      placeholder="Who is taking the cash?"
+                      className={errors.recipientCap ? "border-red-500" : ""}
+                    />
+                    <RecipientOptions id="recipient-directory" recipients={recipients} />
+                    {errors.recipientCap && <p className="text-sm text-red-600">{errors.recipientCap}</p>}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="advance-date" className="flex items-center space-x-2">
+                      <Calendar className="h-4 w-4" />
+                      <span>Date *</span>
+                    </Label>
+                    <Input
+                      id="advance-date"
+                      type="date"
+                      value={date}
+                      onChange={(e) => setDate(e.target.value)}
+                      min={firstOpenDate(state)}
+                      max={today()}
+                      className={errors.date || errors.futureDate || errors.closedPeriod ? "border-red-500" : ""}
+                    />
+                    {(errors.date || errors.futureDate || errors.closedPeriod) && (
+                      <p className="text-sm text-red-600">{errors.date || errors.futureDate || errors.closedPeriod}</p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="advance-purpose">Purpose *</Label>
+                  <Input
+                    id="advance-purpose"
+                    value={purpose}
+                    onChange={(e) => setPurpose(e.target.value)}
+                    placeholder="What is the cash for?"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="advance-notes">Notes (Optional)</Label>
+                  <Textarea id="advance-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+                </div>
+
+                <p className="text-caption">
+                  The cash leaves the drawer now and is carried as outstanding until it&apos;s settled. Advances count
+                  towards the recipient&apos;s spending cap.
+                </p>
+
+                <Button type="submit" disabled={hasErrors} className="bg-orange-600 hover:bg-orange-700">
+                  Issue Advance
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        {/* Outstanding */}
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.2 }}>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Receipt className="h-5 w-5" />
+                <span>Outstanding ({outstanding.length})</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {outstanding.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">No advances are outstanding.</p>
+              ) : (
+                outstanding.map((advance) => {
+                  const age = advanceAge(advance)
+                  return (
+                    <div key={advance.id} className="border-t pt-4 space-y-4">
+                      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                        <div>
+                          <p className="font-medium">
+                            {advance.recipient} • {formatCurrency(advance.amount, state.currency)}
+                          </p>
+                          <p className="text-caption">
+                            {advance.purpose} • given {new Date(advance.date).toLocaleDateString()}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline" className={age > OVERDUE_DAYS ? "border-red-500 text-red-700" : ""}>
+                            {age} day{age === 1 ? "" : "s"} out
+                          </Badge>
+                          {settlingId !== advance.id && (
+                            <Button size="sm" variant="outline" onClick={() => handleStartSettle(advance)}>
+                              Settle
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+
+                      {settling?.id === advance.id && settleForm && settleErrors && (
+                        <form onSubmit={handleSettle} className="bg-muted/50 rounded-lg p-4 space-y-4">
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div className="space-y-2">
+                              <Label htmlFor="settle-spent">Amount Spent *</Label>
+                              <Input
+                                id="settle-spent"
+                                type="number"
+                                step={amountStep(state.currency)}
+                                min="0"
+                                value={settleForm.spent}
+                                onChange={(e) => updateSettleForm({ spent: e.target.value })}
+                                placeholder="0.00"
+                                className={settleForm.spent && settleErrors.spent ? "border-red-500" : ""}
+                              />
+                              {settleForm.spent && settleErrors.spent && (
+                                <p className="text-sm text-red-600">{settleErrors.spent}</p>
+                              )}
+                            </div>
+
+                            <div className="space-y-2">
+                              <Label className="flex items-center space-x-2">
+                                <FileText className="h-4 w-4" />
+                                <span>Category{spentValue > 0 ? " *" : ""}</span>
+                              </Label>
+                              <Select
+                                value={settleForm.category}
+                                onValueChange={(value) => updateSettleForm({ category: value })}
+                                disabled={spentValue <= 0}
+                              >
+                                <SelectTrigger className={settleErrors.category ? "border-red-500" : ""}>
+                                  <SelectValue placeholder="Select category" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {customCategories.map((cat) => (
+                                    <SelectItem key={cat} value={cat}>
+                                      {cat}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              {settleErrors.category && <p className="text-sm text-red-600">{settleErrors.category}</p>}
+                            </div>
+
+                            <div className="space-y-2">
+                              <Label htmlFor="settle-date">Date *</Label>
+                              <Input
+                                id="settle-date"
+                                type="date"
+                                value={settleForm.date}
+                                onChange={(e) => updateSettleForm({ date: e.target.value })}
+                                min={(firstOpenDate(state) ?? "") > advance.date ? firstOpenDate(state) : advance.date}
+                                max={today()}
+                                className={settleErrors.date ? "border-red-500" : ""}
+                              />
+                              {settleErrors.date && <p className="text-sm text-red-600">{settleErrors.date}</p>}
+                            </div>
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor="settle-purpose">Purpose *</Label>
+                            <Input
+                              id="settle-purpose"
+                              value={settleForm.purpose}
+                              onChange={(e) => updateSettleForm({ purpose: e.target.value })}
+                              placeholder="What was bought?"
+                              className={settleErrors.purpose ? "border-red-500" : ""}
+                            />
+                          </div>
+
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                              <Label htmlFor="settle-payee">Payee / Vendor (Optional)</Label>
+                              <Input
+                                id="settle-payee"
+                                value={settleForm.payee}
+                                onChange={(e) => updateSettleForm({ payee: e.target.value })}
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="settle-reference">Reference (Optional)</Label>
+                              <Input
+                                id="settle-reference"
+                                value={settleForm.reference}
+                                onChange={(e) => updateSettleForm({ reference: e.target.value })}
+                                placeholder="Receipt or invoice number"
+                              />
+                            </div>
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor="settle-notes">Notes (Optional)</Label>
+                            <Textarea
+                              id="settle-notes"
+                              value={settleForm.notes}
+                              onChange={(e) => updateSettleForm({ notes: e.target.value })}
+                              rows={2}
+                            />
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label className="flex items-center space-x-2">
+                              <Receipt className="h-4 w-4" />
+                              <span>Receipts</span>
+                            </Label>
+                            <ReceiptPicker files={receiptFiles} onChange={setReceiptFiles} disabled={isSubmitting} />
+                            {spentValue > receiptThreshold && receiptFiles.length === 0 && (
+                              <p className="text-sm text-yellow-700 dark:text-yellow-300">
+                                A receipt is expected for spending over{" "}
+                                {formatCurrency(receiptThreshold, state.currency)}. The disbursement will be flagged
+                                until a receipt is attached.
+                              </p>
+                            )}
+                          </div>
+
+                          {budgetOverrun && (
+                            <Alert className="border-orange-200 bg-orange-50 dark:border-orange-800 dark:bg-orange-950">
+                              <AlertTriangle className="h-4 w-4 text-orange-600" />
+                              <AlertDescription className="text-orange-800 dark:text-orange-200">
+                                <strong>Over Budget:</strong> {budgetOverrun.category} has{" "}
+                                {formatCurrency(Math.max(budgetOverrun.remaining, 0), state.currency)} left of its{" "}
+                                {formatCurrency(budgetOverrun.budget, state.currency)} budget for{" "}
+                                {budgetOverrun.period.label}. This spending would exceed it by{" "}
+                                {formatCurrency(budgetOverrun.over, state.currency)}.
+                              </AlertDescription>
+                            </Alert>
+                          )}
+
+                          {settleForm.spent && !settleErrors.spent && (
+                            <p className="text-sm font-medium">
+                              {change > 0
+                                ? `Change returned: ${formatCurrency(change, state.currency)}`
+                                : change < 0
+                                  ? `Pay out the difference: ${formatCurrency(-change, state.currency)}`
+                                  : "Advance spent in full; no change"}
+                            </p>
+                          )}
+
+                          <div className="flex space-x-4">
+                            <Button type="button" variant="outline" onClick={handleCancelSettle}>
+                              Cancel
+                            </Button>
+                            <Button type="submit" disabled={hasSettleErrors || isSubmitting}>
+                              {isSubmitting ? "Settling..." : "Settle Advance"}
+                            </Button>
+                          </div>
+                        </form>
+                      )}
+                    </div>
+                  )
+                })
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        {/* Recently Settled */}
+        {recentlySettled.length > 0 && (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.3 }}>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <CheckCircle className="h-5 w-5" />
+                  <span>Recently Settled</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {recentlySettled.map((settlement) => {
+                  const returned = settlement.changeReturned ?? 0
+                  return (
+                    <Link
+                      key={settlement.id}
+                      href={`/history?transaction=${settlement.id}`}
+                      className="flex items-center justify-between text-sm border-t pt-2 hover:underline"
+                    >
+                      <span>
+                        <span className="font-medium">{settlement.recipient}</span>
+                        <span className="text-muted-foreground">
+                          {" "}
+                          • {formatCurrency(settlement.amount, state.currency)} advanced, settled{" "}
+                          {new Date(settlement.date).toLocaleDateString()}
+                        </span>
+                      </span>
+                      <span className="font-mono">
+                        {returned > 0
+                          ? `${formatCurrency(returned, state.currency)} returned`
+                          : returned < 0
+                            ? `${formatCurrency(-returned, state.currency)} paid out`
+                            : "No change"}
+                      </span>
+                    </Link>
+                  )
+                })}
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+      </div>
+    </AppLayout>
+  )
+}
@@ -0,0 +1,312 @@
+"use client"
+
+import { useState } from "react"
+import { motion } from "framer-motion"
+import Link from "next/link"
+import { ClipboardCheck, Check, X, User, Calendar, FileText, Paperclip, Clock, AlertTriangle } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AppLayout } from "@/components/layout/AppLayout"
+import { usePettyCash, isClosedDate, isOwnEntry, isOwnPayment } from "@/contexts/PettyCashContext"
+import type { Transaction } from "@/contexts/PettyCashContext"
+import { useUser } from "@/contexts/UserContext"
+import { useToast } from "@/hooks/use-toast"
+import { formatCurrency } from "@/lib/money"
+import { getApprovalThreshold, getApprovers } from "@/lib/approvals"
+
+export default function ApprovalsPage() {
+  const { state, dispatch } = usePettyCash()
+  const { toast } = useToast()
+  const { currentUser } = useUser()
+
+  // Signed-in users approve as themselves
+  const approvers = currentUser ? [currentUser.name] : getApprovers()
+  const [approver, setApprover] = useState(approvers.length === 1 ? approvers[0] : "")
+  const [rejectingId, setRejectingId] = useState<string | null>(null)
+  const [rejectionReason, setRejectionReason] = useState("")
+
+  // Oldest request first, so nothing sits at the bottom of the queue forever
+  const pending = state.transactions
+    .filter((t) => t.approvalStatus === "pending")
+    .sort((a, b) => a.timestamp - b.timestamp)
+
+  const recentlyReviewed = state.transactions
+    .filter((t) => t.approvalStatus === "approved" || t.approvalStatus === "rejected")
+    .sort((a, b) => (b.reviewedAt ?? 0) - (a.reviewedAt ?? 0))
+    .slice(0, 10)
+
+  // Whoever entered a request can't be the one to review it
+  const reviewError = (transaction: Transaction) =>
+    !approver
+      ? "Select who is approving"
+      : isOwnEntry(transaction, approver)
+        ? "Approver cannot be the person who entered it"
+        : isClosedDate(state, transaction.date)
+          ? "Dated in a closed period"
+          : ""
+
+  // Nor sign off on money paid to themselves
+  const approveError = (transaction: Transaction) =>
+    reviewError(transaction) ||
+    (isOwnPayment(transaction, approver)
+      ? "Approver cannot be the recipient"
+      : transaction.amount > state.balance
+        ? "Insufficient funds"
+        : "")
+
+  const handleApprove = (transaction: Transaction) => {
+    if (approveError(transaction)) return
+
+    dispatch({ type: "APPROVE", payload: { transactionId: transaction.id, approver } })
+
+    toast({
+      title: "Disbursement Approved",
+      description: `${formatCurrency(transaction.amount, state.currency)} to ${transaction.recipient} has been deducted from the balance`,
+    })
+  }
+
+  const handleReject = (transaction: Transaction) => {
+    if (reviewError(transaction) || !rejectionReason.trim()) return
+
+    dispatch({
+      type: "REJECT",
+      payload: { transactionId: transaction.id, approver, reason: rejectionReason.trim() },
+    })
+
+    toast({
+      title: "Disbursement Rejected",
+      description: `${transaction.id} will not be paid out`,
+    })
+
+    setRejectingId(null)
+    setRejectionReason("")
+  }
+
+  if (!state.isInitialized) {
+    return (
+      <AppLayout>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <Card className="max-w-md w-full">
+            <CardHeader className="text-center">
+              <CardTitle>Fund Not Initialized</CardTitle>
+            </CardHeader>
+            <CardContent className="text-center space-y-4">
+              <p className="text-muted-foreground">Please initialize your petty cash fund first.</p>
+              <Link href="/initialize">
+                <Button>Initialize Fund</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </AppLayout>
+    )
+  }
+
+  return (
+    <AppLayout>
+      <div className="max-w-4xl mx-auto space-y-8">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between space-y-4 sm:space-y-0">
+          <div>
+            <h1 className="text-3xl font-bold flex items-center space-x-2">
+              <ClipboardCheck className="h-8 w-8 text-primary" />
+              <span>Approval Queue</span>
+            </h1>
+            <p className="text-muted-foreground">
+              {state.name} • Disbursements over {formatCurrency(getApprovalThreshold(state.currency), state.currency)}{" "}
+              need sign-off
+            </p>
+          </div>
+
+          <div className="w-full sm:w-64 space-y-1">
+            <Label>Approving as</Label>
+            <Select value={approver} onValueChange={setApprover} disabled={approvers.length === 0}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select approver" />
+              </SelectTrigger>
+              <SelectContent>
+                {approvers.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {approvers.length === 0 && (
+          <Alert className="border-yellow-200 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-950">
+            <AlertTriangle className="h-4 w-4 text-yellow-600" />
+            <AlertDescription className="text-yellow-800 dark:text-yellow-200">
+              <strong>No approvers set up.</strong> Add the people allowed to approve disbursements in{" "}
+              <Link href="/settings" className="underline font-medium">
+                Settings
+              </Link>
+              .
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Pending Requests */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Clock className="h-5 w-5" />
+              <span>Pending ({pending.length})</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {pending.length === 0 ? (
+              <div className="text-center py-12">
+                <Check className="h-12 w-12 text-green-600 mx-auto mb-4" />
+                <p className="text-muted-foreground">Nothing waiting for approval</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {pending.map((transaction, index) => {
+                  const error = approveError(transaction)
+                  return (
+                    <motion.div
+                      key={transaction.id}
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: index * 0.05 }}
+                      className="p-4 border rounded-lg space-y-4"
+                    >
+                      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                        <div className="space-y-1 min-w-0">
+                          <div className="text-2xl font-bold text-red-600">
+                            {formatCurrency(transaction.amount, state.currency)}
+                          </div>
+                          <div className="flex items-center space-x-1 text-sm">
+                            <User className="h-4 w-4 text-muted-foreground" />
+                            <span>{transaction.recipient}</span>
+                          </div>
+                          {transaction.purpose && (
+                            <div className="flex items-center space-x-1 text-sm">
+                              <FileText className="h-4 w-4 text-muted-foreground" />
+                              <span className="truncate">
+                                {transaction.purpose}
+                                {transaction.category && ` • ${transaction.category}`}
+                              </span>
+                            </div>
+                          )}
+                          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                            <span className="flex items-center">
+                              <Calendar className="h-3 w-3 mr-1" />
+                              {new Date(transaction.date).toLocaleDateString()}
+                            </span>
+                            <span>Submitted {new Date(transaction.timestamp).toLocaleString()}</span>
+                            <span className="flex items-center">
+                              <Paperclip className="h-3 w-3 mr-1" />
+                              {transaction.receiptIds?.length ?? 0} receipt
+                              {transaction.receiptIds?.length === 1 ? "" : "s"}
+                            </span>
+                          </div>
+                        </div>
+
+                        <div className="flex flex-col items-stretch sm:items-end space-y-2">
+                          <div className="flex space-x-2">
+                            <Button
+                              variant="outline"
+                              className="text-red-600 bg-transparent"
+                              onClick={() => {
+                                setRejectingId(transaction.id)
+                                setRejectionReason("")
+                              }}
+                              disabled={!!reviewError(transaction)}
+                            >
+                              <X className="h-4 w-4 mr-1" />
+                              Reject
+                            </Button>
+                            <Button
+                              className="bg-green-600 hover:bg-green-700"
+                              onClick={() => handleApprove(transaction)}
+                              disabled={!!error}
+                            >
+                              <Check className="h-4 w-4 mr-1" />
+                              Approve
+                            </Button>
+                          </div>
+                          {error && <p className="text-xs text-red-600">{error}</p>}
+                        </div>
+                      </div>
+
+                      {rejectingId === transaction.id && (
+                        <div className="space-y-3 rounded-lg border border-red-200 dark:border-red-800 p-4">
+                          <Label htmlFor={`reject-${transaction.id}`}>Reason for rejecting *</Label>
+                          <Textarea
+                            id={`reject-${transaction.id}`}
+                            value={rejectionReason}
+                            onChange={(e) => setRejectionReason(e.target.value)}
+                            placeholder="Why is this disbursement being rejected?"
+                            rows={2}
+                          />
+                          {!rejectionReason.trim() && <p className="text-sm text-red-600">A reason is required</p>}
+                          <div className="flex space-x-2">
+                            <Button
+                              variant="outline"
+                              className="flex-1 bg-transparent"
+                              onClick={() => setRejectingId(null)}
+                            >
+                              Cancel
+                            </Button>
+                            <Button
+                              variant="destructive"
+                              className="flex-1"
+                              onClick={() => handleReject(transaction)}
+                              disabled={!rejectionReason.trim()}
+                            >
+                              Reject Disbursement
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+                    </motion.div>
+                  )
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Recently Reviewed */}
+        {recentlyReviewed.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Recently Reviewed</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {recentlyReviewed.map((transaction) => (
+                  <div key={transaction.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <Badge variant={transaction.approvalStatus === "approved" ? "default" : "destructive"}>
+                          {transaction.approvalStatus}
+                        </Badge>
+                        <span className="text-sm font-medium truncate">{transaction.recipient}</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        by {transaction.approver}
+                        {transaction.reviewedAt && ` on ${new Date(transaction.reviewedAt).toLocaleString()}`}
+                        {transaction.rejectionReason && ` • ${transaction.rejectionReason}`}
+                      </p>
+                    </div>
+                    <div className="font-medium">{formatCurrency(transaction.amount, state.currency)}</div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </AppLayout>
+  )
+}
@@ -0,0 +1,382 @@
+"use client"
+
+import { useState, useMemo, useEffect } from "react"
+import { motion } from "framer-motion"
+import {
+  Search,
+  Filter,
+  Download,
+  Calendar,
+  User,
+  X,
+  ChevronLeft,
+  ChevronRight,
+  ChevronDown,
+  RefreshCw,
+} from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Badge } from "@/components/ui/badge"
+import { AppLayout } from "@/components/layout/AppLayout"
+import { LoadingSpinner } from "@/components/common/LoadingSpinner"
+import { usePettyCash } from "@/contexts/PettyCashContext"
+import { useToast } from "@/hooks/use-toast"
+import { AUDIT_CATEGORIES, auditToCsv, recordAudit } from "@/lib/audit"
+import { getAuditEntries } from "@/lib/storage"
+import type { AuditEntry } from "@/lib/storage"
+
+const ITEMS_PER_PAGE = 20
+
+const categoryLabel = (category: AuditEntry["category"]) =>
+  AUDIT_CATEGORIES.find((c) => c.value === category)?.label ?? category
+
+const formatValue = (value: unknown) => (value === undefined ? "—" : JSON.stringify(value))
+
+export default function AuditPage() {
+  const { funds } = usePettyCash()
+  const { toast } = useToast()
+
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState("")
+  const [categoryFilter, setCategoryFilter] = useState("all")
+  const [actorFilter, setActorFilter] = useState("all")
+  const [startDate, setStartDate] = useState("")
+  const [endDate, setEndDate] = useState("")
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [currentPage, setCurrentPage] = useState(1)
+
+  const loadEntries = async () => {
+    setIsLoading(true)
+    setEntries(await getAuditEntries())
+    setIsLoading(false)
+  }
+
+  useEffect(() => {
+    loadEntries()
+  }, [])
+
+  // Reset to first page when filters change
+  useEffect(() => {
+    setCurrentPage(1)
+  }, [searchTerm, categoryFilter, actorFilter, startDate, endDate])
+
+  // Entries can outlive their fund, so fall back to the id
+  const fundName = (fundId?: string) => (fundId ? (funds.find((f) => f.id === fundId)?.name ?? fundId) : "")
+
+  const actors = useMemo(
+    () => Array.from(new Set(entries.map((entry) => entry.actor).filter((actor): actor is string => !!actor))).sort(),
+    [entries],
+  )
+
+  const filteredEntries = useMemo(() => {
+    const term = searchTerm.toLowerCase()
+    // Date inputs are local days, so compare against local midnight
+    const from = startDate ? new Date(`${startDate}T00:00`).getTime() : -Infinity
+    const to = endDate ? new Date(`${endDate}T00:00`).getTime() + 24 * 60 * 60 * 1000 : Infinity
+
+    return entries.filter(
+      (entry) =>
+        (categoryFilter === "all" || entry.category === categoryFilter) &&
+        (actorFilter === "all" || (actorFilter === "none" ? !entry.actor : entry.actor === actorFilter)) &&
+        entry.timestamp >= from &&
+        entry.timestamp < to &&
+        (!term ||
+          [entry.action, entry.summary, entry.actor, fundName(entry.fundId), ...entry.changes.map((c) => c.path)].some(
+            (field) => field?.toLowerCase().includes(term),
+          )),
+    )
+  }, [entries, searchTerm, categoryFilter, actorFilter, startDate, endDate, funds])
+
+  const hasActiveFilters = !!searchTerm || categoryFilter !== "all" || actorFilter !== "all" || !!startDate || !!endDate
+
+  // Pagination
+  const totalPages = Math.ceil(filteredEntries.length / ITEMS_PER_PAGE)
+  const paginatedEntries = filteredEntries.slice((currentPage - 1) * ITEMS_PER_PAGE, currentPage * ITEMS_PER_PAGE)
+
+  const clearFilters = () => {
+    setSearchTerm("")
+    setCategoryFilter("all")
+    setActorFilter("all")
+    setStartDate("")
+    setEndDate("")
+    setCurrentPage(1)
+  }
+
+  // Exports the filtered entries; the export itself is logged too
+  const exportEntries = async (format: "csv" | "json") => {
+    const content = format === "csv" ? auditToCsv(filteredEntries) : JSON.stringify(filteredEntries, null, 2)
+    const blob = new Blob([content], { type: format === "csv" ? "text/csv" : "application/json" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `petty-cash-audit-${new Date().toISOString().split("T")[0]}.${format}`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+
+    await recordAudit({
+      category: "export",
+      action: "Audit trail exported",
+      summary: `${filteredEntries.length} entries to ${link.download}`,
+      changes: [],
+    })
+    loadEntries()
+
+    toast({
+      title: "Export Complete",
+      description: `Audit trail has been exported to ${format.toUpperCase()}.`,
+    })
+  }
+
+  return (
+    <AppLayout>
+      <div className="space-y-8">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between space-y-4 sm:space-y-0">
+          <div>
+            <h1 className="text-3xl font-bold">Audit Trail</h1>
+            <p className="text-muted-foreground">
+              {filteredEntries.length} of {entries.length} entries • kept when a fund is reset
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" onClick={loadEntries} disabled={isLoading}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            <Button variant="outline" onClick={() => exportEntries("json")} disabled={filteredEntries.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              JSON
+            </Button>
+            <Button onClick={() => exportEntries("csv")} disabled={filteredEntries.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Filter className="h-5 w-5" />
+              <span>Filters</span>
+              {hasActiveFilters && (
+                <Button variant="ghost" size="sm" onClick={clearFilters} className="ml-auto">
+                  <X className="h-4 w-4 mr-1" />
+                  Clear
+                </Button>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+              {/* Search */}
+              <div className="space-y-2">
+                <Label htmlFor="search">Search</Label>
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="search"
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    placeholder="Action, field, fund..."
+                    className="pl-10"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Categories</SelectItem>
+                    {AUDIT_CATEGORIES.map((category) => (
+                      <SelectItem key={category.value} value={category.value}>
+                        {category.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>User</Label>
+                <Select value={actorFilter} onValueChange={setActorFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Users</SelectItem>
+                    <SelectItem value="none">No user signed in</SelectItem>
+                    {actors.map((actor) => (
+                      <SelectItem key={actor} value={actor}>
+                        {actor}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Date Range */}
+              <div className="space-y-2">
+                <Label htmlFor="startDate">From Date</Label>
+                <Input id="startDate" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="endDate">To Date</Label>
+                <Input id="endDate" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Entries */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Entries</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading && entries.length === 0 ? (
+              <div className="flex justify-center py-12">
+                <LoadingSpinner />
+              </div>
+            ) : paginatedEntries.length === 0 ? (
+              <div className="text-center py-12">
+                <p className="text-muted-foreground">
+                  {hasActiveFilters ? "No entries match your filters" : "Nothing has been recorded yet"}
+                </p>
+                {hasActiveFilters && (
+                  <Button variant="outline" onClick={clearFilters} className="mt-4 bg-transparent">
+                    Clear Filters
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {paginatedEntries.map((entry, index) => (
+                  <motion.div
+                    key={entry.id}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: index * 0.03 }}
+                    className="border rounded-lg"
+                  >
+                    <button
+                      type="button"
+                      onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                      disabled={entry.changes.length === 0}
+                      className="w-full flex items-center justify-between p-4 text-left hover:bg-muted/50 transition-colors"
+                    >
+                      <div className="flex items-center space-x-4 flex-1 min-w-0">
+                        <div className="flex flex-col space-y-1">
+                          <div className="flex items-center space-x-2">
+                            <Calendar className="h-4 w-4 text-muted-foreground" />
+                            <span className="text-sm font-medium">{new Date(entry.timestamp).toLocaleString()}</span>
+                          </div>
+                          <div className="flex items-center space-x-1 text-xs text-muted-foreground">
+                            <User className="h-3 w-3" />
+                            <span>{entry.actor || "No user signed in"}</span>
+                          </div>
+                        </div>
+
+                        <Badge variant="outline">{categoryLabel(entry.category)}</Badge>
+
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium truncate">{entry.action}</p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {[fundName(entry.fundId), entry.summary].filter(Boolean).join(" • ")}
+                          </p>
+                        </div>
+                      </div>
+
+                      {entry.changes.length > 0 && (
+                        <div className="flex items-center space-x-1 text-xs text-muted-foreground">
+                          <span>
+                            {entry.changes.length} {entry.changes.length === 1 ? "change" : "changes"}
+                          </span>
+                          <ChevronDown
+                            className={`h-4 w-4 transition-transform ${expandedId === entry.id ? "rotate-180" : ""}`}
+                          />
+                        </div>
+                      )}
+                    </button>
+
+                    {expandedId === entry.id && (
+                      <div className="border-t p-4 overflow-x-auto">
+                        <table className="w-full text-xs">
+                          <thead>
+                            <tr className="text-left text-muted-foreground">
+                              <th className="pb-2 pr-4 font-medium">Field</th>
+                              <th className="pb-2 pr-4 font-medium">Before</th>
+                              <th className="pb-2 font-medium">After</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {entry.changes.map((change, i) => (
+                              <tr key={i} className="border-t align-top">
+                                <td className="py-2 pr-4 font-mono whitespace-nowrap">{change.path}</td>
+                                <td className="py-2 pr-4 font-mono break-all text-red-700 dark:text-red-300">
+                                  {formatValue(change.before)}
+                                </td>
+                                <td className="py-2 font-mono break-all text-green-700 dark:text-green-300">
+                                  {formatValue(change.after)}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </motion.div>
+                ))}
+              </div>
+            )}
+
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between mt-6">
+                <div className="text-sm text-muted-foreground">
+                  Showing {(currentPage - 1) * ITEMS_PER_PAGE + 1} to{" "}
+                  {Math.min(currentPage * ITEMS_PER_PAGE, filteredEntries.length)} of {filteredEntries.length} entries
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCurrentPage(currentPage - 1)}
+                    disabled={currentPage === 1}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                    Previous
+                  </Button>
+                  <span className="text-sm">
+                    Page {currentPage} of {totalPages}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCurrentPage(currentPage + 1)}
+                    disabled={currentPage === totalPages}
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  )
+}
@@ -0,0 +1,428 @@
+"use client"
+
+import type React from "react"
+import { useState, useMemo } from "react"
+import { motion } from "framer-motion"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { ArrowLeft, ClipboardPaste, Plus, Table, Trash2, Upload } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AppLayout } from "@/components/layout/AppLayout"
+import { RecipientOptions } from "@/components/common/RecipientOptions"
+import { usePettyCash, firstOpenDate } from "@/contexts/PettyCashContext"
+import { useUser } from "@/contexts/UserContext"
+import { useToast } from "@/hooks/use-toast"
+import { amountStep, formatCurrency } from "@/lib/money"
+import { sanitizeAmount } from "@/lib/security"
+import { getApprovalThreshold } from "@/lib/approvals"
+import { getReceiptThreshold } from "@/lib/receipts"
+import {
+  BULK_COLUMNS,
+  getCategories,
+  hasDisbursementErrors,
+  parseDisbursementRows,
+  validateDisbursement,
+} from "@/lib/disbursements"
+import type { DisbursementErrors, DisbursementInput } from "@/lib/disbursements"
+import { canonicalRecipient, getRecipients } from "@/lib/recipients"
+import type { RecipientPayment } from "@/lib/recipients"
+
+// Blank rows the grid starts with
+const INITIAL_ROWS = 3
+
+interface BulkRow extends DisbursementInput {
+  key: string
+}
+
+const today = () => new Date().toISOString().split("T")[0]
+
+let nextKey = 0
+const newRow = (input: Partial<DisbursementInput> = {}): BulkRow => ({
+  key: `row-${nextKey++}`,
+  date: today(),
+  amount: "",
+  recipient: "",
+  category: "",
+  purpose: "",
+  ...input,
+})
+
+// Rows with nothing but the pre-filled date are ignored
+const isBlank = (row: BulkRow) => !row.amount && !row.recipient.trim() && !row.category && !row.purpose.trim()
+
+export default function BulkDisbursePage() {
+  const { state, dispatch } = usePettyCash()
+  const { currentUser } = useUser()
+  const { toast } = useToast()
+  const router = useRouter()
+
+  const [rows, setRows] = useState<BulkRow[]>(() => Array.from({ length: INITIAL_ROWS }, () => newRow()))
+  const [pasteText, setPasteText] = useState("")
+
+  const categories = getCategories()
+  const recipients = getRecipients()
+  const approvalThreshold = getApprovalThreshold(state.currency)
+  const receiptThreshold = getReceiptThreshold(state.currency)
+
+  // Each row is checked against what the rows above it leave in the fund, and in recipients' caps
+  const checkedRows = useMemo(() => {
+    let available = state.balance
+    const earlier: RecipientPayment[] = []
+    return rows.map((row) => {
+      if (isBlank(row)) return { row, blank: true as const }
+      const errors = validateDisbursement(row, state, available, categories, earlier)
+      const amountValue = sanitizeAmount(row.amount, state.currency)
+      const requiresApproval = amountValue > approvalThreshold
+      // Disbursements waiting for approval don't touch the balance yet
+      if (!requiresApproval && !errors.balance) available -= amountValue
+      if (amountValue > 0) earlier.push({ recipient: row.recipient, amount: amountValue, date: row.date })
+      return { row, blank: false as const, errors, amountValue, requiresApproval, balanceAfter: available }
+    })
+  }, [rows, state, categories, approvalThreshold])
+
+  const entered = checkedRows.flatMap((checked) => (checked.blank ? [] : [checked]))
+  const invalidCount = entered.filter((checked) => hasDisbursementErrors(checked.errors)).length
+  const total = entered.reduce((sum, checked) => sum + checked.amountValue, 0)
+  const finalBalance = entered.length > 0 ? entered[entered.length - 1].balanceAfter : state.balance
+
+  const updateRow = (key: string, changes: Partial<DisbursementInput>) =>
+    setRows((prev) => prev.map((row) => (row.key === key ? { ...row, ...changes } : row)))
+
+  const removeRow = (key: string) => setRows((prev) => prev.filter((row) => row.key !== key))
+
+  // Pasted or uploaded rows replace the blank ones
+  const addParsedRows = (text: string) => {
+    const parsed = parseDisbursementRows(text, categories)
+    if (parsed.length === 0) {
+      toast({ title: "Nothing to Add", description: "No rows were found.", variant: "destructive" })
+      return
+    }
+    setRows((prev) => [...prev.filter((row) => !isBlank(row)), ...parsed.map((input) => newRow(input))])
+    toast({ title: "Rows Added", description: `${parsed.length} rows added to the grid.` })
+  }
+
+  const handlePaste = () => {
+    addParsedRows(pasteText)
+    setPasteText("")
+  }
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    if (file.size > 2 * 1024 * 1024) {
+      toast({
+        title: "File Too Large",
+        description: "Please select a file smaller than 2MB.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const reader = new FileReader()
+    reader.onload = (e) => addParsedRows(e.target?.result as string)
+    reader.onerror = () => {
+      toast({
+        title: "File Read Error",
+        description: "Failed to read the selected file.",
+        variant: "destructive",
+      })
+    }
+    reader.readAsText(file)
+    event.target.value = "" // Reset input
+  }
+
+  const handleSubmit = () => {
+    if (entered.length === 0 || invalidCount > 0) {
+      toast({
+        title: "Validation Error",
+        description: "Please fix the errors before submitting",
+        variant: "destructive",
+      })
+      return
+    }
+
+    dispatch({
+      type: "DISBURSE_BATCH",
+      payload: {
+        disbursements: entered.map(({ row, amountValue, requiresApproval }) => ({
+          amount: amountValue,
+          date: row.date,
+          purpose: row.purpose.trim(),
+          category: row.category,
+          recipient: canonicalRecipient(row.recipient, recipients),
+          requiresApproval,
+          enteredBy: currentUser?.name,
+        })),
+      },
+    })
+
+    const pending = entered.filter((checked) => checked.requiresApproval).length
+    toast({
+      title: "Disbursements Recorded",
+      description: `${entered.length} disbursements totalling ${formatCurrency(total, state.currency)}${
+        pending > 0 ? `; ${pending} waiting for approval` : ""
+      }`,
+    })
+    router.push("/history")
+  }
+
+  const rowErrors = (errors: DisbursementErrors) => Object.values(errors).filter(Boolean).join(" • ")
+
+  if (!state.isInitialized) {
+    return (
+      <AppLayout>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <Card className="max-w-md w-full">
+            <CardHeader className="text-center">
+              <CardTitle>Fund Not Initialized</CardTitle>
+            </CardHeader>
+            <CardContent className="text-center space-y-4">
+              <p className="text-muted-foreground">Please initialize your petty cash fund first.</p>
+              <Link href="/initialize">
+                <Button>Initialize Fund</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </AppLayout>
+    )
+  }
+
+  return (
+    <AppLayout>
+      <div className="max-w-6xl mx-auto space-y-8">
+        {/* Header */}
+        <div className="flex items-center space-x-4">
+          <Link href="/disburse">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold flex items-center space-x-2">
+              <Table className="h-8 w-8 text-red-600" />
+              <span>Bulk Disbursements</span>
+            </h1>
+            <p className="text-muted-foreground">Enter several receipts for {state.name} at once</p>
+          </div>
+        </div>
+
+        {/* Balance */}
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+          <Alert className="border-blue-200 bg-blue-50 dark:border-blue-800 dark:bg-blue-950">
+            <AlertDescription className="text-blue-800 dark:text-blue-200">
+              <strong>Current Balance:</strong> {formatCurrency(state.balance, state.currency)} •{" "}
+              <strong>After These Rows:</strong> {formatCurrency(finalBalance, state.currency)}
+            </AlertDescription>
+          </Alert>
+        </motion.div>
+
+        {/* Paste or upload */}
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.1 }}>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <ClipboardPaste className="h-5 w-5" />
+                <span>Paste from a Spreadsheet</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Copy rows with the columns {BULK_COLUMNS.join(", ")} (in that order, or with a header row naming them).
+                Dates are YYYY-MM-DD.
+              </p>
+              <Textarea
+                value={pasteText}
+                onChange={(e) => setPasteText(e.target.value)}
+                placeholder={`2024-03-04\t12.50\tJane Doe\tTransportation\tTaxi to the post office`}
+                rows={4}
+                className="font-mono text-sm"
+              />
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Button onClick={handlePaste} disabled={!pasteText.trim()}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Rows
+                </Button>
+                <Label htmlFor="bulk-file" className="cursor-pointer">
+                  <Button variant="outline" className="w-full bg-transparent" asChild>
+                    <span>
+                      <Upload className="h-4 w-4 mr-2" />
+                      Upload CSV
+                    </span>
+                  </Button>
+                </Label>
+                <input id="bulk-file" type="file" accept=".csv,.txt" onChange={handleFile} className="hidden" />
+              </div>
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        {/* Grid */}
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.2 }}>
+          <Card>
+            <CardHeader>
+              <CardTitle>Rows</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="pb-2 pr-2 font-medium w-8">#</th>
+                      <th className="pb-2 pr-2 font-medium">Date</th>
+                      <th className="pb-2 pr-2 font-medium">Amount</th>
+                      <th className="pb-2 pr-2 font-medium">Recipient</th>
+                      <th className="pb-2 pr-2 font-medium">Category</th>
+                      <th className="pb-2 pr-2 font-medium">Purpose</th>
+                      <th className="pb-2 pr-2 font-medium text-right">Balance After</th>
+                      <th className="pb-2 w-10" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {checkedRows.map((checked, index) => {
+                      const { row } = checked
+                      const errors = checked.blank ? null : checked.errors
+                      return (
+                        <tr key={row.key} className="border-t align-top">
+                          <td className="py-2 pr-2 text-muted-foreground">{index + 1}</td>
+                          <td className="py-2 pr-2 min-w-[9rem]">
+                            <Input
+                              type="date"
+                              value={row.date}
+                              onChange={(e) => updateRow(row.key, { date: e.target.value })}
+                              min={firstOpenDate(state)}
+                              max={today()}
+                              className={
+                                errors?.date || errors?.futureDate || errors?.closedPeriod ? "border-red-500" : ""
+                              }
+                            />
+                          </td>
+                          <td className="py-2 pr-2 min-w-[7rem]">
+                            <Input
+                              type="number"
+                              step={amountStep(state.currency)}
+                              min={amountStep(state.currency)}
+                              value={row.amount}
+                              onChange={(e) => updateRow(row.key, { amount: e.target.value })}
+                              placeholder="0.00"
+                              className={errors?.amount || errors?.balance ? "border-red-500" : ""}
+                            />
+                          </td>
+                          <td className="py-2 pr-2 min-w-[9rem]">
+                            <Input
+                              list="recipient-directory"
+                              autoComplete="off"
+                              value={row.recipient}
+                              onChange={(e) => updateRow(row.key, { recipient: e.target.value })}
+                              maxLength={100}
+                              className={errors?.recipient || errors?.recipientCap ? "border-red-500" : ""}
+                            />
+                          </td>
+                          <td className="py-2 pr-2 min-w-[10rem]">
+                            <Select
+                              value={row.category}
+                              onValueChange={(value) => updateRow(row.key, { category: value })}
+                            >
+                              <SelectTrigger className={errors?.category ? "border-red-500" : ""}>
+                                <SelectValue placeholder="Category" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {categories.map((cat) => (
+                                  <SelectItem key={cat} value={cat}>
+                                    {cat}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </td>
+                          <td className="py-2 pr-2 min-w-[12rem]">
+                            <Input
+                              value={row.purpose}
+                              onChange={(e) => updateRow(row.key, { purpose: e.target.value })}
+                              maxLength={200}
+                              className={errors?.purpose ? "border-red-500" : ""}
+                            />
+                            {errors && hasDisbursementErrors(errors) && (
+                              <p className="text-xs text-red-600 mt-1">{rowErrors(errors)}</p>
+                            )}
+                            {!checked.blank && (checked.requiresApproval || checked.amountValue > receiptThreshold) && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {checked.requiresApproval && (
+                                  <Badge variant="outline" className="border-orange-500 text-orange-700 text-xs">
+                                    needs approval
+                                  </Badge>
+                                )}
+                                {checked.amountValue > receiptThreshold && (
+                                  <Badge variant="outline" className="border-yellow-500 text-yellow-700 text-xs">
+                                    receipt required
+                                  </Badge>
+                                )}
+                              </div>
+                            )}
+                          </td>
+                          <td className="py-2 pr-2 text-right whitespace-nowrap pt-4">
+                            {checked.blank ? "" : formatCurrency(checked.balanceAfter, state.currency)}
+                          </td>
+                          <td className="py-2">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => removeRow(row.key)}
+                              aria-label={`Remove row ${index + 1}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+                <RecipientOptions id="recipient-directory" recipients={recipients} />
+              </div>
+
+              <Button variant="outline" onClick={() => setRows((prev) => [...prev, newRow()])}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Row
+              </Button>
+
+              <p className="text-sm text-muted-foreground">
+                Receipts can be attached to each disbursement afterwards from Transaction History.
+              </p>
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        {/* Actions */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            {entered.length} rows • {formatCurrency(total, state.currency)}
+            {invalidCount > 0 && <span className="text-red-600"> • {invalidCount} with errors</span>}
+          </p>
+          <div className="flex space-x-4">
+            <Link href="/disburse">
+              <Button type="button" variant="outline" className="bg-transparent">
+                Cancel
+              </Button>
+            </Link>
+            <Button
+              onClick={handleSubmit}
+              disabled={entered.length === 0 || invalidCount > 0}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Record {entered.length} Disbursements
+            </Button>
+          </div>
+        </div>
+      </div>
+    </AppLayout>
+  )
+}
@@ -5,7 +5,7 @@ import type React from "react"
 import { useState } from "react"
 import { motion } from "framer-motion"
 import { useRouter } from "next/navigation"
-import { Minus, AlertTriangle, Receipt, User, Calendar, DollarSign, FileText, ArrowLeft } from "lucide-react"
+import { Minus, AlertTriangle, Receipt, User, Calendar, DollarSign, FileText, ArrowLeft, Table } from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -14,25 +14,23 @@ import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { AppLayout } from "@/components/layout/AppLayout"
-import { usePettyCash } from "@/contexts/PettyCashContext"
+import { ReceiptPicker } from "@/components/common/ReceiptPicker"
+import { RecipientOptions } from "@/components/common/RecipientOptions"
+import { usePettyCash, firstOpenDate } from "@/contexts/PettyCashContext"
+import { useUser } from "@/contexts/UserContext"
 import { useToast } from "@/hooks/use-toast"
+import { amountStep, formatCurrency, fromMinorUnits } from "@/lib/money"
+import { sanitizeAmount } from "@/lib/security"
+import { getReceiptThreshold, saveReceipts } from "@/lib/receipts"
+import { getCategories, hasDisbursementErrors, validateDisbursement } from "@/lib/disbursements"
+import { getApprovalThreshold } from "@/lib/approvals"
+import { checkBudget } from "@/lib/budgets"
+import { canonicalRecipient, findRecipient, getRecipients } from "@/lib/recipients"
 import Link from "next/link"
 
-const DEFAULT_CATEGORIES = [
-  "Office Supplies",
-  "Transportation",
-  "Postage & Shipping",
-  "Cleaning Supplies",
-  "Minor Repairs",
-  "Refreshments",
-  "Stationery",
-  "Utilities",
-  "Emergency Expenses",
-  "Other",
-]
-
 export default function DisbursePage() {
   const { state, dispatch } = usePettyCash()
+  const { currentUser } = useUser()
   const { toast } = useToast()
   const router = useRouter()
 
@@ -42,31 +40,34 @@ export default function DisbursePage() {
   const [category, setCategory] = useState("")
   const [date, setDate] = useState(new Date().toISOString().split("T")[0])
   const [notes, setNotes] = useState("")
+  const [payee, setPayee] = useState("")
+  const [reference, setReference] = useState("")
+  const [receiptFiles, setReceiptFiles] = useState<File[]>([])
   const [isSubmitting, setIsSubmitting] = useState(false)
 
-  // Get custom categories from localStorage
-  const customCategories = (() => {
-    if (typeof window !== "undefined") {
-      const stored = localStorage.getItem("customCategories")
-      return stored ? JSON.parse(stored) : DEFAULT_CATEGORIES
-    }
-    return DEFAULT_CATEGORIES
-  })()
+  const customCategories = getCategories()
+  const recipients = getRecipients()
+  const directoryMatch = findRecipient(recipient, recipients)
+
+  // Amounts are handled in minor units from here on
+  const amountValue = sanitizeAmount(amount, state.currency)
 
   // Validation
-  const errors = {
-    amount: !amount || Number.parseFloat(amount) <= 0 ? "Amount must be greater than 0" : "",
-    recipient: !recipient.trim() ? "Recipient is required" : "",
-    purpose: !purpose.trim() ? "Purpose is required" : "",
-    category: !category ? "Category is required" : "",
-    date: !date ? "Date is required" : "",
-    balance: Number.parseFloat(amount) > state.balance ? "Insufficient funds" : "",
-    futureDate: new Date(date) > new Date() ? "Date cannot be in the future" : "",
-  }
+  const errors = validateDisbursement(
+    { date, amount, recipient, category, purpose },
+    state,
+    state.balance,
+    customCategories,
+  )
 
-  const hasErrors = Object.values(errors).some((error) => error !== "")
-  const amountValue = Number.parseFloat(amount) || 0
-  const isLargeAmount = amountValue > 500 // Warning threshold
+  const hasErrors = hasDisbursementErrors(errors)
+  const approvalThreshold = getApprovalThreshold(state.currency)
+  const requiresApproval = amountValue > approvalThreshold
+  const receiptThreshold = getReceiptThreshold(state.currency)
+  const needsReceipt = amountValue > receiptThreshold && receiptFiles.length === 0
+  // A warning only; going over budget doesn't block the disbursement
+  const budgetOverrun =
+    amountValue > 0 ? checkBudget(state.transactions, category, amountValue, date, state.currency) : null
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -81,25 +82,43 @@ export default function DisbursePage() {
     }
 
     setIsSubmitting(true)
+    // Recorded under the directory's spelling so reports group one person together
+    const recipientName = canonicalRecipient(recipient, recipients)
 
     try {
       // Simulate processing delay
       await new Promise((resolve) => setTimeout(resolve, 500))
 
+      const receiptIds = receiptFiles.length > 0 ? await saveReceipts(receiptFiles) : []
+
       dispatch({
         type: "DISBURSE",
         payload: {
           amount: amountValue,
           date,
-          purpose: `${category}: ${purpose}${notes ? ` (${notes})` : ""}`,
-          recipient,
+          purpose: purpose.trim(),
+          category,
+          notes: notes.trim(),
+          reference: reference.trim(),
+          payee: payee.trim(),
+          recipient: recipientName,
+          receiptIds,
+          requiresApproval,
+          enteredBy: currentUser?.name,
         },
       })
 
-      toast({
-        title: "Disbursement Recorded",
-        description: `$${amountValue.toFixed(2)} disbursed to ${recipient}`,
-      })
+      toast(
+        requiresApproval
+          ? {
+              title: "Submitted for Approval",
+              description: `${formatCurrency(amountValue, state.currency)} to ${recipientName} is waiting for an approver`,
+            }
+          : {
+              title: "Disbursement Recorded",
+              description: `${formatCurrency(amountValue, state.currency)} disbursed to ${recipientName}`,
+            },
+      )
 
       // Reset form
       setAmount("")
@@ -107,6 +126,9 @@ export default function DisbursePage() {
       setPurpose("")
       setCategory("")
       setNotes("")
+      setPayee("")
+      setReference("")
+      setReceiptFiles([])
       setDate(new Date().toISOString().split("T")[0])
 
       // Navigate to dashboard after short delay
@@ -159,8 +181,14 @@ export default function DisbursePage() {
               <Minus className="h-8 w-8 text-red-600" />
               <span>Record Disbursement</span>
             </h1>
-            <p className="text-muted-foreground">Record money going out of the petty cash fund</p>
+            <p className="text-muted-foreground">Record money going out of {state.name}</p>
           </div>
+          <Link href="/disburse/bulk" className="ml-auto">
+            <Button variant="outline">
+              <Table className="h-4 w-4 mr-2" />
+              Bulk Entry
+            </Button>
+          </Link>
         </div>
 
         {/* Current Balance Alert */}
@@ -168,18 +196,36 @@ export default function DisbursePage() {
           <Alert className="border-blue-200 bg-blue-50 dark:border-blue-800 dark:bg-blue-950">
             <DollarSign className="h-4 w-4 text-blue-600" />
             <AlertDescription className="text-blue-800 dark:text-blue-200">
-              <strong>Current Balance:</strong> ${state.balance.toFixed(2)} available for disbursement
+              <strong>Current Balance:</strong> {formatCurrency(state.balance, state.currency)} available for
+              disbursement
             </AlertDescription>
           </Alert>
         </motion.div>
 
-        {/* Large Amount Warning */}
-        {isLargeAmount && (
+        {/* Approval Notice */}
+        {requiresApproval && (
           <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
             <Alert className="border-yellow-200 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-950">
               <AlertTriangle className="h-4 w-4 text-yellow-600" />
               <AlertDescription className="text-yellow-800 dark:text-yellow-200">
-                <strong>Large Amount:</strong> This disbursement exceeds $500. Please ensure proper authorization.
+                <strong>Approval Required:</strong> Disbursements over{" "}
+                {formatCurrency(approvalThreshold, state.currency)} are held as pending and are not deducted from the
+                balance until an approver signs off.
+              </AlertDescription>
+            </Alert>
+          </motion.div>
+        )}
+
+        {/* Budget Warning */}
+        {budgetOverrun && (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+            <Alert className="border-orange-200 bg-orange-50 dark:border-orange-800 dark:bg-orange-950">
+              <AlertTriangle className="h-4 w-4 text-orange-600" />
+              <AlertDescription className="text-orange-800 dark:text-orange-200">
+                <strong>Over Budget:</strong> {budgetOverrun.category} has{" "}
+                {formatCurrency(Math.max(budgetOverrun.remaining, 0), state.currency)} left of its{" "}
+                {formatCurrency(budgetOverrun.budget, state.currency)} budget for {budgetOverrun.period.label}. This
+                disbursement would exceed it by {formatCurrency(budgetOverrun.over, state.currency)}.
               </AlertDescription>
             </Alert>
           </motion.div>
@@ -206,9 +252,9 @@ export default function DisbursePage() {
                     <Input
                       id="amount"
                       type="number"
-                      step="0.01"
-                      min="0.01"
-                      max={state.balance}
+                      step={amountStep(state.currency)}
+                      min={amountStep(state.currency)}
+                      max={fromMinorUnits(state.balance, state.currency)}
                       value={amount}
                       onChange={(e) => setAmount(e.target.value)}
                       placeholder="0.00"
@@ -230,11 +276,12 @@ export default function DisbursePage() {
                       type="date"
                       value={date}
                       onChange={(e) => setDate(e.target.value)}
+                      min={firstOpenDate(state)}
                       max={new Date().toISOString().split("T")[0]}
-                      className={errors.date || errors.futureDate ? "border-red-500" : ""}
+                      className={errors.date || errors.futureDate || errors.closedPeriod ? "border-red-500" : ""}
                     />
-                    {(errors.date || errors.futureDate) && (
-                      <p className="text-sm text-red-600">{errors.date || errors.futureDate}</p>
+                    {(errors.date || errors.futureDate || errors.closedPeriod) && (
+                      <p className="text-sm text-red-600">{errors.date || errors.futureDate || errors.closedPeriod}</p>
                     )}
                   </div>
 
@@ -246,12 +293,26 @@ export default function DisbursePage() {
                     </Label>
                     <Input
                       id="recipient"
+                      list="recipient-directory"
+                      autoComplete="off"
                       value={recipient}
                       onChange={(e) => setRecipient(e.target.value)}
                       placeholder="Who received the money?"
-                      className={errors.recipient ? "border-red-500" : ""}
+                      className={errors.recipient || errors.recipientCap ? "border-red-500" : ""}
                     />
-                    {errors.recipient && <p className="text-sm text-red-600">{errors.recipient}</p>}
+                    <RecipientOptions id="recipient-directory" recipients={recipients} />
+                    {errors.recipient || errors.recipientCap ? (
+                      <p className="text-sm text-red-600">{errors.recipient || errors.recipientCap}</p>
+                    ) : directoryMatch ? (
+                      (directoryMatch.department || directoryMatch.employeeId) && (
+                        <p className="text-caption">
+                          {[directoryMatch.department, directoryMatch.employeeId].filter(Boolean).join(" • ")}
+                        </p>
+                      )
+                    ) : (
+                      recipient.trim() &&
+                      recipients.length > 0 && <p className="text-caption">Not in the recipient directory</p>
+                    )}
                   </div>
 
                   {/* Category */}
@@ -289,6 +350,30 @@ export default function DisbursePage() {
                   {errors.purpose && <p className="text-sm text-red-600">{errors.purpose}</p>}
                 </div>
 
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {/* Payee */}
+                  <div className="space-y-2">
+                    <Label htmlFor="payee">Payee / Vendor (Optional)</Label>
+                    <Input
+                      id="payee"
+                      value={payee}
+                      onChange={(e) => setPayee(e.target.value)}
+                      placeholder="Where was the money spent?"
+                    />
+                  </div>
+
+                  {/* Reference */}
+                  <div className="space-y-2">
+                    <Label htmlFor="reference">Reference (Optional)</Label>
+                    <Input
+                      id="reference"
+                      value={reference}
+                      onChange={(e) => setReference(e.target.value)}
+                      placeholder="Receipt or invoice number"
+                    />
+                  </div>
+                </div>
+
                 {/* Additional Notes */}
                 <div className="space-y-2">
                   <Label htmlFor="notes">Additional Notes (Optional)</Label>
@@ -301,6 +386,21 @@ export default function DisbursePage() {
                   />
                 </div>
 
+                {/* Receipts */}
+                <div className="space-y-2">
+                  <Label className="flex items-center space-x-2">
+                    <Receipt className="h-4 w-4" />
+                    <span>Receipts</span>
+                  </Label>
+                  <ReceiptPicker files={receiptFiles} onChange={setReceiptFiles} disabled={isSubmitting} />
+                  {needsReceipt && (
+                    <p className="text-sm text-yellow-700 dark:text-yellow-300">
+                      A receipt is expected for disbursements over {formatCurrency(receiptThreshold, state.currency)}.
+                      This one will be flagged until a receipt is attached.
+                    </p>
+                  )}
+                </div>
+
                 {/* Summary */}
                 {amount && recipient && (
                   <motion.div
@@ -311,10 +411,10 @@ export default function DisbursePage() {
                     <h3 className="font-medium mb-2">Transaction Summary</h3>
                     <div className="text-sm space-y-1">
                       <p>
-                        <strong>Amount:</strong> ${amountValue.toFixed(2)}
+                        <strong>Amount:</strong> {formatCurrency(amountValue, state.currency)}
                       </p>
                       <p>
-                        <strong>Recipient:</strong> {recipient}
+                        <strong>Recipient:</strong> {directoryMatch?.name ?? recipient}
                       </p>
                       <p>
                         <strong>Category:</strong> {category}
@@ -322,11 +422,25 @@ export default function DisbursePage() {
                       <p>
                         <strong>Purpose:</strong> {purpose}
                       </p>
+                      {payee && (
+                        <p>
+                          <strong>Payee:</strong> {payee}
+                        </p>
+                      )}
+                      {reference && (
+                        <p>
+                          <strong>Reference:</strong> {reference}
+                        </p>
+                      )}
                       <p>
                         <strong>Date:</strong> {new Date(date).toLocaleDateString()}
                       </p>
                       <p>
-                        <strong>Remaining Balance:</strong> ${(state.balance - amountValue).toFixed(2)}
+                        <strong>Receipts:</strong> {receiptFiles.length || "None"}
+                      </p>
+                      <p>
+                        <strong>Remaining Balance:</strong>{" "}
+                        {formatCurrency(state.balance - amountValue, state.currency)}
                       </p>
                     </div>
                   </motion.div>
@@ -344,7 +458,7 @@ export default function DisbursePage() {
                     disabled={hasErrors || isSubmitting}
                     className="flex-1 bg-red-600 hover:bg-red-700"
                   >
-                    {isSubmitting ? "Recording..." : "Record Disbursement"}
+                    {isSubmitting ? "Recording..." : requiresApproval ? "Submit for Approval" : "Record Disbursement"}
                   </Button>
                 </div>
               </form>
@@ -1,25 +1,57 @@
 "use client"
 
-import { useState, useMemo, useEffect } from "react"
+import type React from "react"
+
+import { useState, useMemo, useEffect, useRef } from "react"
 import { motion } from "framer-motion"
 import { useSearchParams } from "next/navigation"
-import { Search, Filter, Download, Eye, Calendar, User, FileText, X, ChevronLeft, ChevronRight } from "lucide-react"
+import {
+  Search,
+  Filter,
+  Download,
+  Eye,
+  Calendar,
+  User,
+  FileText,
+  X,
+  ChevronLeft,
+  ChevronRight,
+  Ban,
+  Link2,
+  Paperclip,
+  Lock,
+} from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
 import { AppLayout } from "@/components/layout/AppLayout"
-import { Modal } from "@/components/ui/modal"
-import { usePettyCash } from "@/contexts/PettyCashContext"
+import { Modal, ModalContent, ModalHeader, ModalTitle } from "@/components/ui/modal"
+import { ReceiptThumbnails } from "@/components/common/ReceiptThumbnails"
+import { usePettyCash, balanceEffect, canVoid, isClosedDate, isPosted } from "@/contexts/PettyCashContext"
+import { useUser } from "@/contexts/UserContext"
 import { useToast } from "@/hooks/use-toast"
+import { slugify } from "@/lib/utils"
+import { recordAudit } from "@/lib/audit"
+import { formatAmount, formatCurrency } from "@/lib/money"
+import { settlementOf } from "@/lib/advances"
+import {
+  RECEIPT_ACCEPT,
+  getReceiptThreshold,
+  isMissingReceipt,
+  saveReceipts,
+  validateReceiptFile,
+} from "@/lib/receipts"
 import type { Transaction } from "@/contexts/PettyCashContext"
 
 const ITEMS_PER_PAGE = 10
 
 export default function HistoryPage() {
-  const { state } = usePettyCash()
+  const { state, dispatch } = usePettyCash()
+  const { currentUser, can } = useUser()
   const { toast } = useToast()
   const searchParams = useSearchParams()
 
@@ -27,23 +59,117 @@ export default function HistoryPage() {
   const [typeFilter, setTypeFilter] = useState("all")
   const [startDate, setStartDate] = useState("")
   const [endDate, setEndDate] = useState("")
-  const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null)
+  const [selectedTransactionId, setSelectedTransactionId] = useState<string | null>(null)
   const [currentPage, setCurrentPage] = useState(1)
+  const [showVoidForm, setShowVoidForm] = useState(false)
+  const [voidReason, setVoidReason] = useState("")
+  const [isAttaching, setIsAttaching] = useState(false)
+  const receiptInputRef = useRef<HTMLInputElement>(null)
+
+  const receiptThreshold = getReceiptThreshold(state.currency)
+
+  // Look the selection up on every render so it reflects a void recorded from the dialog
+  const selectedTransaction = state.transactions.find((t) => t.id === selectedTransactionId) ?? null
+  const linkedId = selectedTransaction?.voidedBy ?? selectedTransaction?.reversalOf ?? selectedTransaction?.advanceId
+  const linkedTransaction = selectedTransaction
+    ? (state.transactions.find((t) => t.id === linkedId) ??
+      (selectedTransaction.type === "advance" ? settlementOf(state, selectedTransaction) : undefined) ??
+      null)
+    : null
+
+  const setSelectedTransaction = (transaction: Transaction | null) => setSelectedTransactionId(transaction?.id ?? null)
+
+  const closeDetails = () => {
+    setSelectedTransactionId(null)
+    setShowVoidForm(false)
+    setVoidReason("")
+  }
+
+  // Voiding a replenishment takes money back out, so it needs the cash to be there
+  const voidError = !voidReason.trim()
+    ? "A reason is required"
+    : selectedTransaction && balanceEffect(selectedTransaction) > 0 && selectedTransaction.amount > state.balance
+      ? "Insufficient funds to reverse this replenishment"
+      : isClosedDate(state, new Date().toISOString().split("T")[0])
+        ? "Today is in a closed period, so the reversal can't be dated"
+        : ""
+
+  const handleVoid = () => {
+    if (!selectedTransaction || voidError) return
+
+    dispatch({
+      type: "VOID",
+      payload: {
+        transactionId: selectedTransaction.id,
+        reason: voidReason.trim(),
+        date: new Date().toISOString().split("T")[0],
+        enteredBy: currentUser?.name,
+      },
+    })
+
+    toast({
+      title: "Transaction Voided",
+      description: `${selectedTransaction.id} has been reversed`,
+    })
+
+    setShowVoidForm(false)
+    setVoidReason("")
+  }
+
+  // Receipts can be added after the fact, e.g. when the paper copy turns up later
+  const handleAttachReceipts = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    e.target.value = ""
+    if (!selectedTransaction || files.length === 0) return
+
+    const rejected = files.map(validateReceiptFile).find((error) => error !== "")
+    if (rejected) {
+      toast({ title: "Receipt Not Attached", description: rejected, variant: "destructive" })
+      return
+    }
+
+    setIsAttaching(true)
+    try {
+      const receiptIds = await saveReceipts(files)
+      dispatch({ type: "ATTACH_RECEIPTS", payload: { transactionId: selectedTransaction.id, receiptIds } })
+      toast({
+        title: "Receipts Attached",
+        description: `${files.length} file${files.length === 1 ? "" : "s"} added to ${selectedTransaction.id}`,
+      })
+    } catch (error) {
+      console.error("Error saving receipts:", error)
+      toast({
+        title: "Error",
+        description: "Failed to save the receipt. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsAttaching(false)
+    }
+  }
 
   // Handle URL parameters for filtering
   useEffect(() => {
     const filterParam = searchParams.get("filter")
     const transactionParam = searchParams.get("transaction")
 
-    if (filterParam && ["disbursement", "replenishment", "initialization"].includes(filterParam)) {
+    if (
+      filterParam &&
+      [
+        "disbursement",
+        "replenishment",
+        "initialization",
+        "reversal",
+        "adjustment",
+        "pending",
+        "missing-receipt",
+      ].includes(filterParam)
+    ) {
       setTypeFilter(filterParam)
     }
 
-    if (transactionParam) {
-      const transaction = state.transactions.find((t) => t.id === transactionParam)
-      if (transaction) {
-        setSelectedTransaction(transaction)
-      }
+    if (transactionParam && state.transactions.some((t) => t.id === transactionParam)) {
+      setSelectedTransactionId(transactionParam)
     }
   }, [searchParams, state.transactions])
 
@@ -56,14 +182,23 @@ export default function HistoryPage() {
       filtered = filtered.filter(
         (t) =>
           t.purpose?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+          t.category?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+          t.notes?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+          t.reference?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+          t.payee?.toLowerCase().includes(searchTerm.toLowerCase()) ||
           t.recipient?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          t.amount.toString().includes(searchTerm) ||
+          t.reason?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+          formatAmount(t.amount, state.currency).includes(searchTerm) ||
           t.id.toLowerCase().includes(searchTerm.toLowerCase()),
       )
     }
 
     // Apply type filter
-    if (typeFilter !== "all") {
+    if (typeFilter === "pending") {
+      filtered = filtered.filter((t) => t.approvalStatus === "pending")
+    } else if (typeFilter === "missing-receipt") {
+      filtered = filtered.filter((t) => isMissingReceipt(t, receiptThreshold))
+    } else if (typeFilter !== "all") {
       filtered = filtered.filter((t) => t.type === typeFilter)
     }
 
@@ -77,7 +212,7 @@ export default function HistoryPage() {
 
     // Sort by date (newest first)
     return filtered.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-  }, [state.transactions, searchTerm, typeFilter, startDate, endDate])
+  }, [state.transactions, searchTerm, typeFilter, startDate, endDate, receiptThreshold])
 
   // Pagination
   const totalPages = Math.ceil(filteredTransactions.length / ITEMS_PER_PAGE)
@@ -97,27 +232,72 @@ export default function HistoryPage() {
 
   // Export to CSV
   const exportToCSV = () => {
-    const headers = ["Date", "Type", "Amount", "Purpose", "Recipient", "Transaction ID"]
+    const headers = [
+      "Date",
+      "Type",
+      "Amount",
+      "Currency",
+      "Category",
+      "Purpose",
+      "Notes",
+      "Reference",
+      "Payee",
+      "Recipient",
+      "Transaction ID",
+      "Voided By",
+      "Reverses",
+      "Advance",
+      "Reason",
+      "Receipts",
+      "Approval Status",
+      "Approver",
+      "Rejection Reason",
+      "Entered By",
+    ]
     const csvData = filteredTransactions.map((t) => [
       new Date(t.date).toLocaleDateString(),
       t.type,
-      t.amount.toFixed(2),
+      formatAmount(t.amount, state.currency),
+      state.currency,
+      t.category || "",
       t.purpose || "",
+      t.notes || "",
+      t.reference || "",
+      t.payee || "",
       t.recipient || "",
       t.id,
+      t.voidedBy || "",
+      t.reversalOf || "",
+      t.advanceId || "",
+      t.reason || "",
+      t.receiptIds?.length ?? 0,
+      t.approvalStatus || "",
+      t.approver || "",
+      t.rejectionReason || "",
+      t.enteredBy || "",
     ])
 
-    const csvContent = [headers, ...csvData].map((row) => row.map((field) => `"${field}"`).join(",")).join("\n")
+    // Notes are free text, so quotes inside a field are doubled
+    const csvContent = [headers, ...csvData]
+      .map((row) => row.map((field) => `"${String(field).replace(/"/g, '""')}"`).join(","))
+      .join("\n")
 
     const blob = new Blob([csvContent], { type: "text/csv" })
     const url = URL.createObjectURL(blob)
     const link = document.createElement("a")
     link.href = url
-    link.download = `petty-cash-history-${new Date().toISOString().split("T")[0]}.csv`
+    link.download = `petty-cash-history-${slugify(state.name)}-${new Date().toISOString().split("T")[0]}.csv`
     document.body.appendChild(link)
     link.click()
     document.body.removeChild(link)
     URL.revokeObjectURL(url)
+    recordAudit({
+      category: "export",
+      action: "History exported",
+      fundId: state.id,
+      summary: `${csvData.length} transactions to ${link.download}`,
+      changes: [],
+    })
 
     toast({
       title: "Export Complete",
@@ -153,7 +333,7 @@ export default function HistoryPage() {
           <div>
             <h1 className="text-3xl font-bold">Transaction History</h1>
             <p className="text-muted-foreground">
-              {filteredTransactions.length} of {state.transactions.length} transactions
+              {state.name} • {filteredTransactions.length} of {state.transactions.length} transactions
             </p>
           </div>
           <Button onClick={exportToCSV} disabled={filteredTransactions.length === 0}>
@@ -205,6 +385,12 @@ export default function HistoryPage() {
                     <SelectItem value="disbursement">Disbursements</SelectItem>
                     <SelectItem value="replenishment">Replenishments</SelectItem>
                     <SelectItem value="initialization">Initialization</SelectItem>
+                    <SelectItem value="reversal">Reversals</SelectItem>
+                    <SelectItem value="adjustment">Over/Short Adjustments</SelectItem>
+                    <SelectItem value="advance">Cash Advances</SelectItem>
+                    <SelectItem value="settlement">Advance Settlements</SelectItem>
+                    <SelectItem value="pending">Pending Approval</SelectItem>
+                    <SelectItem value="missing-receipt">Missing Receipt</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -259,23 +445,31 @@ export default function HistoryPage() {
                         <div className="text-xs text-muted-foreground">ID: {transaction.id}</div>
                       </div>
 
-                      <Badge
-                        variant={
-                          transaction.type === "disbursement"
-                            ? "destructive"
-                            : transaction.type === "replenishment"
-                              ? "default"
-                              : "secondary"
-                        }
-                      >
-                        {transaction.type}
-                      </Badge>
+                      <Badge variant={typeBadgeVariant(transaction.type)}>{transaction.type}</Badge>
+                      {transaction.voidedBy && <Badge variant="outline">voided</Badge>}
+                      <ApprovalBadge transaction={transaction} />
+                      {isMissingReceipt(transaction, receiptThreshold) && (
+                        <Badge variant="outline" className="border-yellow-500 text-yellow-700 dark:text-yellow-300">
+                          no receipt
+                        </Badge>
+                      )}
+                      {!!transaction.receiptIds?.length && (
+                        <span className="flex items-center text-xs text-muted-foreground">
+                          <Paperclip className="h-3 w-3 mr-1" />
+                          {transaction.receiptIds.length}
+                        </span>
+                      )}
 
-                      <div className="flex-1 min-w-0">
+                      <div className={`flex-1 min-w-0 ${transaction.voidedBy ? "line-through opacity-60" : ""}`}>
                         {transaction.purpose && (
                           <div className="flex items-center space-x-1 mb-1">
                             <FileText className="h-4 w-4 text-muted-foreground" />
                             <span className="text-sm font-medium truncate">{transaction.purpose}</span>
+                            {transaction.category && (
+                              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                                • {transaction.category}
+                              </span>
+                            )}
                           </div>
                         )}
                         {transaction.recipient && (
@@ -290,11 +484,11 @@ export default function HistoryPage() {
                     <div className="flex items-center space-x-4">
                       <div className="text-right">
                         <div
-                          className={`text-lg font-bold ${
-                            transaction.type === "disbursement" ? "text-red-600" : "text-green-600"
-                          }`}
+                          className={`text-lg font-bold ${balanceEffect(transaction) < 0 ? "text-red-600" : "text-green-600"} ${
+                            transaction.voidedBy ? "line-through opacity-60" : ""
+                          } ${isPosted(transaction) ? "" : "opacity-60"}`}
                         >
-                          {transaction.type === "disbursement" ? "-" : "+"}${transaction.amount.toFixed(2)}
+                          {formatCurrency(balanceEffect(transaction), state.currency, "always")}
                         </div>
                       </div>
                       <Button variant="ghost" size="sm" onClick={() => setSelectedTransaction(transaction)}>
@@ -343,65 +537,282 @@ export default function HistoryPage() {
         </Card>
 
         {/* Transaction Detail Modal */}
-        <Modal isOpen={!!selectedTransaction} onClose={() => setSelectedTransaction(null)} title="Transaction Details">
-          {selectedTransaction && (
-            <div className="space-y-6">
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <Label className="text-sm font-medium text-muted-foreground">Transaction ID</Label>
-                  <p className="font-mono text-sm">{selectedTransaction.id}</p>
-                </div>
-                <div>
-                  <Label className="text-sm font-medium text-muted-foreground">Type</Label>
-                  <div className="mt-1">
-                    <Badge
-                      variant={
-                        selectedTransaction.type === "disbursement"
-                          ? "destructive"
-                          : selectedTransaction.type === "replenishment"
-                            ? "default"
-                            : "secondary"
-                      }
-                    >
-                      {selectedTransaction.type}
-                    </Badge>
+        <Modal
+          open={!!selectedTransaction}
+          onOpenChange={(open) => {
+            if (!open) closeDetails()
+          }}
+        >
+          <ModalContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+            <ModalHeader>
+              <ModalTitle>Transaction Details</ModalTitle>
+            </ModalHeader>
+            {selectedTransaction && (
+              <div className="space-y-6">
+                <TransactionDetails transaction={selectedTransaction} currency={state.currency} />
+
+                {selectedTransaction.type === "disbursement" && (
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2 text-sm font-medium">
+                        <Paperclip className="h-4 w-4 text-muted-foreground" />
+                        <span>Receipts</span>
+                        {isMissingReceipt(selectedTransaction, receiptThreshold) && (
+                          <Badge variant="outline" className="border-yellow-500 text-yellow-700 dark:text-yellow-300">
+                            missing
+                          </Badge>
+                        )}
+                      </div>
+                      <input
+                        ref={receiptInputRef}
+                        type="file"
+                        accept={RECEIPT_ACCEPT}
+                        multiple
+                        className="hidden"
+                        onChange={handleAttachReceipts}
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="bg-transparent"
+                        onClick={() => receiptInputRef.current?.click()}
+                        disabled={isAttaching || !can("record") || isClosedDate(state, selectedTransaction.date)}
+                      >
+                        {isAttaching ? "Saving..." : "Attach"}
+                      </Button>
+                    </div>
+                    {selectedTransaction.receiptIds?.length ? (
+                      <ReceiptThumbnails receiptIds={selectedTransaction.receiptIds} />
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No receipts attached</p>
+                    )}
                   </div>
-                </div>
-                <div>
-                  <Label className="text-sm font-medium text-muted-foreground">Date</Label>
-                  <p>{new Date(selectedTransaction.date).toLocaleDateString()}</p>
-                </div>
-                <div>
-                  <Label className="text-sm font-medium text-muted-foreground">Amount</Label>
-                  <p
-                    className={`text-lg font-bold ${
-                      selectedTransaction.type === "disbursement" ? "text-red-600" : "text-green-600"
-                    }`}
-                  >
-                    {selectedTransaction.type === "disbursement" ? "-" : "+"}${selectedTransaction.amount.toFixed(2)}
-                  </p>
-                </div>
-                {selectedTransaction.purpose && (
-                  <div className="col-span-2">
-                    <Label className="text-sm font-medium text-muted-foreground">Purpose</Label>
-                    <p>{selectedTransaction.purpose}</p>
+                )}
+
+                {linkedTransaction && (
+                  <div className="space-y-3">
+                    <div className="flex items-center space-x-2 text-sm font-medium">
+                      <Link2 className="h-4 w-4 text-muted-foreground" />
+                      <span>
+                        {selectedTransaction.voidedBy
+                          ? "Reversed by"
+                          : selectedTransaction.reversalOf
+                            ? "Reverses"
+                            : selectedTransaction.advanceId
+                              ? "Advance"
+                              : "Settled by"}
+                      </span>
+                    </div>
+                    <div className="rounded-lg border bg-muted/30 p-4">
+                      <TransactionDetails transaction={linkedTransaction} currency={state.currency} />
+                    </div>
                   </div>
                 )}
-                {selectedTransaction.recipient && (
-                  <div className="col-span-2">
-                    <Label className="text-sm font-medium text-muted-foreground">Recipient</Label>
-                    <p>{selectedTransaction.recipient}</p>
+
+                {canVoid(selectedTransaction) && isClosedDate(state, selectedTransaction.date) && (
+                  <p className="flex items-center justify-center text-sm text-muted-foreground">
+                    <Lock className="h-4 w-4 mr-2" />
+                    Locked: this period was closed by reconciliation on{" "}
+                    {new Date(state.closedThrough!).toLocaleDateString()}
+                  </p>
+                )}
+
+                {canVoid(selectedTransaction) &&
+                  can("record") &&
+                  !isClosedDate(state, selectedTransaction.date) &&
+                  !showVoidForm && (
+                    <Button variant="outline" className="w-full text-red-600" onClick={() => setShowVoidForm(true)}>
+                      <Ban className="h-4 w-4 mr-2" />
+                      Void Transaction
+                    </Button>
+                  )}
+
+                {showVoidForm && (
+                  <div className="space-y-3 rounded-lg border border-red-200 dark:border-red-800 p-4">
+                    <Label htmlFor="voidReason">Reason for voiding *</Label>
+                    <Textarea
+                      id="voidReason"
+                      value={voidReason}
+                      onChange={(e) => setVoidReason(e.target.value)}
+                      placeholder="Why is this entry being reversed?"
+                      rows={2}
+                    />
+                    {voidError && <p className="text-sm text-red-600">{voidError}</p>}
+                    <p className="text-xs text-muted-foreground">
+                      An offsetting reversal dated today will be recorded. The original entry is kept for the audit
+                      trail.
+                    </p>
+                    <div className="flex space-x-2">
+                      <Button
+                        variant="outline"
+                        className="flex-1 bg-transparent"
+                        onClick={() => setShowVoidForm(false)}
+                      >
+                        Cancel
+                      </Button>
+                      <Button variant="destructive" className="flex-1" onClick={handleVoid} disabled={!!voidError}>
+                        Record Reversal
+                      </Button>
+                    </div>
                   </div>
                 )}
-                <div>
-                  <Label className="text-sm font-medium text-muted-foreground">Timestamp</Label>
-                  <p className="text-sm">{new Date(selectedTransaction.timestamp).toLocaleString()}</p>
-                </div>
               </div>
-            </div>
-          )}
+            )}
+          </ModalContent>
         </Modal>
       </div>
     </AppLayout>
   )
 }
+
+function TransactionDetails({ transaction, currency }: { transaction: Transaction; currency: string }) {
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <Label className="text-sm font-medium text-muted-foreground">Transaction ID</Label>
+        <p className="font-mono text-sm break-all">{transaction.id}</p>
+      </div>
+      <div>
+        <Label className="text-sm font-medium text-muted-foreground">Type</Label>
+        <div className="mt-1 flex items-center space-x-2">
+          <Badge variant={typeBadgeVariant(transaction.type)}>{transaction.type}</Badge>
+          {transaction.voidedBy && <Badge variant="outline">voided</Badge>}
+          <ApprovalBadge transaction={transaction} />
+        </div>
+      </div>
+      <div>
+        <Label className="text-sm font-medium text-muted-foreground">Date</Label>
+        <p>{new Date(transaction.date).toLocaleDateString()}</p>
+      </div>
+      <div>
+        <Label className="text-sm font-medium text-muted-foreground">Amount</Label>
+        <p
+          className={`text-lg font-bold ${balanceEffect(transaction) < 0 ? "text-red-600" : "text-green-600"} ${
+            transaction.voidedBy ? "line-through opacity-60" : ""
+          }`}
+        >
+          {formatCurrency(balanceEffect(transaction), currency, "always")}
+        </p>
+      </div>
+      {transaction.category && (
+        <div>
+          <Label className="text-sm font-medium text-muted-foreground">Category</Label>
+          <p>{transaction.category}</p>
+        </div>
+      )}
+      {transaction.reference && (
+        <div>
+          <Label className="text-sm font-medium text-muted-foreground">Reference</Label>
+          <p className="font-mono text-sm">{transaction.reference}</p>
+        </div>
+      )}
+      {transaction.purpose && (
+        <div className="col-span-2">
+          <Label className="text-sm font-medium text-muted-foreground">Purpose</Label>
+          <p>{transaction.purpose}</p>
+        </div>
+      )}
+      {transaction.payee && (
+        <div className="col-span-2">
+          <Label className="text-sm font-medium text-muted-foreground">Payee</Label>
+          <p>{transaction.payee}</p>
+        </div>
+      )}
+      {transaction.notes && (
+        <div className="col-span-2">
+          <Label className="text-sm font-medium text-muted-foreground">Notes</Label>
+          <p className="whitespace-pre-wrap">{transaction.notes}</p>
+        </div>
+      )}
+      {transaction.recipient && (
+        <div className="col-span-2">
+          <Label className="text-sm font-medium text-muted-foreground">Recipient</Label>
+          <p>{transaction.recipient}</p>
+        </div>
+      )}
+      {transaction.changeReturned !== undefined && (
+        <div className="col-span-2">
+          <Label className="text-sm font-medium text-muted-foreground">
+            {transaction.changeReturned < 0 ? "Paid Out on Settlement" : "Change Returned"}
+          </Label>
+          <p>
+            {formatCurrency(Math.abs(transaction.changeReturned), currency)} of{" "}
+            {formatCurrency(transaction.amount, currency)} advanced
+          </p>
+        </div>
+      )}
+      {transaction.reason && (
+        <div className="col-span-2">
+          <Label className="text-sm font-medium text-muted-foreground">
+            {transaction.type === "adjustment" ? "Explanation" : "Void Reason"}
+          </Label>
+          <p>{transaction.reason}</p>
+        </div>
+      )}
+      {transaction.approver && (
+        <div className="col-span-2">
+          <Label className="text-sm font-medium text-muted-foreground">
+            {transaction.approvalStatus === "rejected" ? "Rejected By" : "Approved By"}
+          </Label>
+          <p>
+            {transaction.approver}
+            {transaction.reviewedAt && (
+              <span className="text-sm text-muted-foreground">
+                {" "}
+                on {new Date(transaction.reviewedAt).toLocaleString()}
+              </span>
+            )}
+          </p>
+        </div>
+      )}
+      {transaction.rejectionReason && (
+        <div className="col-span-2">
+          <Label className="text-sm font-medium text-muted-foreground">Rejection Reason</Label>
+          <p>{transaction.rejectionReason}</p>
+        </div>
+      )}
+      {transaction.enteredBy && (
+        <div className="col-span-2">
+          <Label className="text-sm font-medium text-muted-foreground">Entered By</Label>
+          <p>{transaction.enteredBy}</p>
+        </div>
+      )}
+      <div>
+        <Label className="text-sm font-medium text-muted-foreground">Timestamp</Label>
+        <p className="text-sm">{new Date(transaction.timestamp).toLocaleString()}</p>
+      </div>
+    </div>
+  )
+}
+
+// Approved disbursements read like any other, so only pending and rejected get a badge
+function ApprovalBadge({ transaction }: { transaction: Transaction }) {
+  if (transaction.approvalStatus === "pending") {
+    return (
+      <Badge variant="outline" className="border-blue-500 text-blue-700 dark:text-blue-300">
+        pending approval
+      </Badge>
+    )
+  }
+  if (transaction.approvalStatus === "rejected") {
+    return (
+      <Badge variant="outline" className="border-red-500 text-red-700 dark:text-red-300">
+        rejected
+      </Badge>
+    )
+  }
+  return null
+}
+
+function typeBadgeVariant(type: Transaction["type"]) {
+  switch (type) {
+    case "disbursement":
+      return "destructive" as const
+    case "replenishment":
+      return "default" as const
+    case "reversal":
+      return "outline" as const
+    default:
+      return "secondary" as const
+  }
+}
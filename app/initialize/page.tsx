@@ -5,31 +5,28 @@ import type React from "react"
 import { useState, useEffect } from "react"
 import { motion } from "framer-motion"
 import { useRouter } from "next/navigation"
-import { DollarSign, Zap, CheckCircle, ArrowRight, Info } from "lucide-react"
+import { DollarSign, Zap, CheckCircle, ArrowRight, Info, Wallet, User } from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { AppLayout } from "@/components/layout/AppLayout"
 import { ConfirmDialog } from "@/components/common/ConfirmDialog"
 import { GuidedTour } from "@/components/common/GuidedTour"
 import { usePettyCash } from "@/contexts/PettyCashContext"
+import { useUser } from "@/contexts/UserContext"
 import { useToast } from "@/hooks/use-toast"
-import { sanitizeAmount, validateAmount, validateDate, rateLimiter, logError } from "@/lib/security"
+import { sanitizeAmount, sanitizeInput, validateAmount, validateDate, rateLimiter, logError } from "@/lib/security"
+import { CURRENCIES, amountStep, currencySymbol, formatCurrency } from "@/lib/money"
+import { getSetting, setSetting } from "@/lib/storage"
 import Link from "next/link"
 
 // Suggested initial amounts for quick selection
 const SUGGESTED_AMOUNTS = [100, 250, 500, 1000]
 
-// Supported currencies (for future expansion)
-const CURRENCIES = [
-  { code: "USD", symbol: "$", name: "US Dollar" },
-  { code: "EUR", symbol: "€", name: "Euro" },
-  { code: "GBP", symbol: "£", name: "British Pound" },
-  { code: "CAD", symbol: "C$", name: "Canadian Dollar" },
-]
-
 const tourSteps = [
   {
     target: '[data-tour="amount-input"]',
@@ -52,38 +49,44 @@ const tourSteps = [
 ]
 
 export default function InitializePage() {
-  const { state, dispatch } = usePettyCash()
+  const { funds, dispatch } = usePettyCash()
+  const { currentUser } = useUser()
   const { toast } = useToast()
   const router = useRouter()
 
+  const [name, setName] = useState("")
+  const [custodian, setCustodian] = useState("")
   const [amount, setAmount] = useState("")
   const [currency, setCurrency] = useState("USD")
   const [date, setDate] = useState(new Date().toISOString().split("T")[0])
+  const [imprest, setImprest] = useState(false)
   const [showConfirmDialog, setShowConfirmDialog] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [showTour, setShowTour] = useState(false)
 
+  // Existing funds mean this page is adding another fund rather than the first one
+  const isAdditionalFund = funds.length > 0
+
   // Check if user wants to see the tour
   useEffect(() => {
-    const hasSeenTour = localStorage.getItem("hasSeenInitializeTour")
-    if (!hasSeenTour && !state.isInitialized) {
+    const hasSeenTour = getSetting("hasSeenInitializeTour", "")
+    if (!hasSeenTour && !isAdditionalFund) {
       setShowTour(true)
     }
-  }, [state.isInitialized])
-
-  // Redirect if already initialized
-  useEffect(() => {
-    if (state.isInitialized) {
-      router.push("/")
-    }
-  }, [state.isInitialized, router])
+  }, [isAdditionalFund])
 
   // Real-time validation
-  const amountValue = sanitizeAmount(amount)
-  const validation = validateAmount(amountValue)
+  const amountValue = sanitizeAmount(amount, currency)
+  const validation = validateAmount(amountValue, undefined, currency)
   const dateValidation = validateDate(date)
+  const fundName = sanitizeInput(name)
+  const nameError = !fundName
+    ? "Fund name is required"
+    : funds.some((f) => f.name.toLowerCase() === fundName.toLowerCase())
+      ? "A fund with this name already exists"
+      : ""
 
-  const hasErrors = !validation.isValid || !dateValidation.isValid || amountValue === 0
+  const hasErrors = !validation.isValid || !dateValidation.isValid || amountValue === 0 || nameError !== ""
 
   const handleAmountChange = (value: string) => {
     // Rate limiting for rapid input changes
@@ -104,7 +107,7 @@ export default function InitializePage() {
     if (hasErrors) {
       toast({
         title: "Validation Error",
-        description: validation.error || dateValidation.error || "Please fix the errors before submitting",
+        description: nameError || validation.error || dateValidation.error || "Please fix the errors before submitting",
         variant: "destructive",
       })
       return
@@ -135,15 +138,17 @@ export default function InitializePage() {
         payload: {
           amount: amountValue,
           date,
+          name: fundName,
+          custodian: sanitizeInput(custodian),
+          currency,
+          imprest,
+          enteredBy: currentUser?.name,
         },
       })
 
-      // Store currency preference
-      localStorage.setItem("preferredCurrency", currency)
-
       toast({
         title: "Fund Initialized Successfully!",
-        description: `Your petty cash fund has been set up with $${amountValue.toFixed(2)}`,
+        description: `${fundName} has been set up with ${formatCurrency(amountValue, currency)}`,
       })
 
       setShowConfirmDialog(false)
@@ -153,7 +158,7 @@ export default function InitializePage() {
         router.push("/")
       }, 1500)
     } catch (error) {
-      logError(error as Error, { amount: amountValue, date, currency })
+      logError(error as Error, { amount: amountValue, date, currency, name: fundName })
       toast({
         title: "Initialization Failed",
         description: "Failed to initialize fund. Please try again.",
@@ -165,7 +170,7 @@ export default function InitializePage() {
   }
 
   const handleTourComplete = () => {
-    localStorage.setItem("hasSeenInitializeTour", "true")
+    setSetting("hasSeenInitializeTour", "true")
     setShowTour(false)
   }
 
@@ -179,9 +184,13 @@ export default function InitializePage() {
           <div className="mx-auto w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mb-4">
             <DollarSign className="h-8 w-8 text-primary" />
           </div>
-          <h1 className="text-3xl font-bold mb-2">Initialize Your Petty Cash Fund</h1>
+          <h1 className="text-3xl font-bold mb-2">
+            {isAdditionalFund ? "Add a Petty Cash Fund" : "Initialize Your Petty Cash Fund"}
+          </h1>
           <p className="text-muted-foreground text-lg">
-            Set up your fund with an initial amount to start tracking transactions
+            {isAdditionalFund
+              ? "Each fund keeps its own balance, custodian, currency and transaction history"
+              : "Set up your fund with an initial amount to start tracking transactions"}
           </p>
         </motion.div>
 
@@ -207,16 +216,56 @@ export default function InitializePage() {
             </CardHeader>
             <CardContent>
               <form onSubmit={handleSubmit} className="space-y-6">
-                {/* Currency Selection (for future use) */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {/* Fund Name */}
+                  <div className="space-y-2">
+                    <Label htmlFor="fundName" className="flex items-center space-x-2">
+                      <Wallet className="h-4 w-4" />
+                      <span>Fund Name *</span>
+                    </Label>
+                    <Input
+                      id="fundName"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      placeholder="e.g. Reception, Warehouse, Field Crew"
+                      maxLength={50}
+                      className={nameError && name ? "border-red-500" : ""}
+                      required
+                    />
+                    {nameError && name && <p className="text-sm text-red-600">{nameError}</p>}
+                  </div>
+
+                  {/* Custodian */}
+                  <div className="space-y-2">
+                    <Label htmlFor="custodian" className="flex items-center space-x-2">
+                      <User className="h-4 w-4" />
+                      <span>Custodian</span>
+                    </Label>
+                    <Input
+                      id="custodian"
+                      value={custodian}
+                      onChange={(e) => setCustodian(e.target.value)}
+                      placeholder="Who is responsible for this fund?"
+                      maxLength={100}
+                    />
+                  </div>
+                </div>
+
+                {/* Currency Selection */}
                 <div className="space-y-2">
                   <Label htmlFor="currency">Currency</Label>
-                  <div className="flex items-center space-x-2 p-3 bg-muted/50 rounded-lg">
-                    <span className="text-2xl">{selectedCurrency.symbol}</span>
-                    <div>
-                      <p className="font-medium">{selectedCurrency.name}</p>
-                      <p className="text-sm text-muted-foreground">{selectedCurrency.code}</p>
-                    </div>
-                  </div>
+                  <Select value={currency} onValueChange={setCurrency}>
+                    <SelectTrigger id="currency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CURRENCIES.map((c) => (
+                        <SelectItem key={c.code} value={c.code}>
+                          {currencySymbol(c.code)} {c.name} ({c.code})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
 
                 {/* Suggested Amounts */}
@@ -231,7 +280,7 @@ export default function InitializePage() {
                         onClick={() => handleSuggestedAmount(suggestedAmount)}
                         className="h-12 bg-transparent"
                       >
-                        {selectedCurrency.symbol}
+                        {currencySymbol(currency)}
                         {suggestedAmount}
                       </Button>
                     ))}
@@ -247,13 +296,13 @@ export default function InitializePage() {
                     </Label>
                     <div className="relative">
                       <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground">
-                        {selectedCurrency.symbol}
+                        {currencySymbol(currency)}
                       </span>
                       <Input
                         id="amount"
                         type="number"
-                        step="0.01"
-                        min="0.01"
+                        step={amountStep(currency)}
+                        min={amountStep(currency)}
                         value={amount}
                         onChange={(e) => handleAmountChange(e.target.value)}
                         placeholder="0.00"
@@ -268,10 +317,7 @@ export default function InitializePage() {
                       </p>
                     )}
                     {validation.isValid && amountValue > 0 && (
-                      <p className="text-sm text-green-600">
-                        ✓ Valid amount: {selectedCurrency.symbol}
-                        {amountValue.toFixed(2)}
-                      </p>
+                      <p className="text-sm text-green-600">✓ Valid amount: {formatCurrency(amountValue, currency)}</p>
                     )}
                   </div>
 
@@ -296,6 +342,18 @@ export default function InitializePage() {
                   </div>
                 </div>
 
+                {/* Imprest */}
+                <div className="flex items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="imprest">Imprest Fund</Label>
+                    <p className="text-caption">
+                      Always top the fund back up to the initial amount; replenishments are worked out from what was
+                      spent
+                    </p>
+                  </div>
+                  <Switch id="imprest" checked={imprest} onCheckedChange={setImprest} />
+                </div>
+
                 {/* Summary */}
                 {amountValue > 0 && validation.isValid && dateValidation.isValid && (
                   <motion.div
@@ -309,8 +367,16 @@ export default function InitializePage() {
                     </h3>
                     <div className="text-sm space-y-1 text-green-800 dark:text-green-200">
                       <p>
-                        <strong>Initial Amount:</strong> {selectedCurrency.symbol}
-                        {amountValue.toFixed(2)}
+                        <strong>Fund:</strong> {fundName || "—"}
+                      </p>
+                      {custodian && (
+                        <p>
+                          <strong>Custodian:</strong> {custodian}
+                        </p>
+                      )}
+                      <p>
+                        <strong>{imprest ? "Imprest Amount" : "Initial Amount"}:</strong>{" "}
+                        {formatCurrency(amountValue, currency)}
                       </p>
                       <p>
                         <strong>Currency:</strong> {selectedCurrency.name} ({selectedCurrency.code})
@@ -363,7 +429,7 @@ export default function InitializePage() {
           onClose={() => setShowConfirmDialog(false)}
           onConfirm={handleConfirmInitialization}
           title="Initialize Petty Cash Fund"
-          description={`Are you sure you want to initialize your petty cash fund with ${selectedCurrency.symbol}${amountValue.toFixed(2)}? This will create your fund and you can start recording transactions.`}
+          description={`Are you sure you want to initialize "${fundName}" with ${formatCurrency(amountValue, currency)}? This will create the fund, make it the active fund and you can start recording transactions.`}
           confirmText="Initialize Fund"
           variant="success"
           isLoading={isSubmitting}
@@ -3,6 +3,7 @@ import type { Metadata } from "next"
 import { Inter } from "next/font/google"
 import "./globals.css"
 import { PettyCashProvider } from "@/contexts/PettyCashContext"
+import { UserProvider } from "@/contexts/UserContext"
 import { ThemeProvider } from "@/components/theme-provider"
 import { Toaster } from "@/components/ui/toaster"
 
@@ -24,7 +25,7 @@ export default function RootLayout({
       <body className={inter.className}>
         <ThemeProvider attribute="class" defaultTheme="system" enableSystem disableTransitionOnChange>
           <PettyCashProvider>
-            {children}
+            <UserProvider>{children}</UserProvider>
             <Toaster />
           </PettyCashProvider>
         </ThemeProvider>
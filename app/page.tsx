@@ -18,6 +18,8 @@ import {
   Zap,
   Target,
   ArrowRight,
+  PiggyBank,
+  HandCoins,
 } from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
@@ -25,12 +27,21 @@ import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Input } from "@/components/ui/input"
+import { Progress } from "@/components/ui/progress"
 import { AppLayout } from "@/components/layout/AppLayout"
-import { usePettyCash } from "@/contexts/PettyCashContext"
+import { usePettyCash, balanceEffect, isCounted, isPosted } from "@/contexts/PettyCashContext"
+import { useUser } from "@/contexts/UserContext"
 import { ChartContainer } from "@/components/ui/chart"
 import { XAxis, YAxis, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell, Tooltip } from "recharts"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
+import { formatAmount, formatCurrency } from "@/lib/money"
+import { sanitizeAmount } from "@/lib/security"
+import { getReceiptThreshold, isMissingReceipt } from "@/lib/receipts"
+import { getSetting } from "@/lib/storage"
+import { budgetStatuses, budgetWindow, getBudgetSettings } from "@/lib/budgets"
+import { getCategories } from "@/lib/disbursements"
+import { OVERDUE_DAYS, advanceAge, ageAdvances, outstandingAdvances } from "@/lib/advances"
 
 const COLORS = ["#0088FE", "#00C49F", "#FFBB28", "#FF8042", "#8884D8"]
 
@@ -38,19 +49,38 @@ type DateRange = "7days" | "30days" | "90days" | "custom"
 
 export default function Dashboard() {
   const { state } = usePettyCash()
+  const { can } = useUser()
   const router = useRouter()
 
   const [dateRange, setDateRange] = useState<DateRange>("30days")
   const [customStartDate, setCustomStartDate] = useState("")
   const [customEndDate, setCustomEndDate] = useState("")
 
-  // Get low balance threshold from localStorage
-  const lowBalanceThreshold = useMemo(() => {
-    if (typeof window !== "undefined") {
-      return Number.parseFloat(localStorage.getItem("lowBalanceThreshold") || "100")
+  // Low balance threshold from settings, in the active fund's minor units
+  const lowBalanceThreshold = useMemo(
+    () => sanitizeAmount(getSetting("lowBalanceThreshold", "100"), state.currency),
+    [state.currency],
+  )
+
+  // Budget against committed spending, pending approvals included, for the current month or quarter
+  const budgets = useMemo(() => {
+    const settings = getBudgetSettings()
+    const period = budgetWindow(settings.period, new Date().toISOString().split("T")[0])
+    return {
+      period,
+      statuses: budgetStatuses(state.transactions, getCategories(), state.currency, [period], settings),
+    }
+  }, [state.transactions, state.currency])
+
+  // Cash handed out against receipts still to come back, oldest first
+  const advances = useMemo(() => {
+    const outstanding = outstandingAdvances(state.transactions)
+    return {
+      outstanding,
+      total: outstanding.reduce((sum, t) => sum + t.amount, 0),
+      aging: ageAdvances(outstanding),
     }
-    return 100
-  }, [])
+  }, [state.transactions])
 
   // Calculate date range
   const getDateRange = () => {
@@ -87,41 +117,46 @@ export default function Dashboard() {
       return transactionDate >= start && transactionDate <= end
     })
 
-    const totalDisbursed = state.transactions
+    // Voided entries cancel out and pending ones haven't moved money, so totals only count live transactions
+    const countedTransactions = state.transactions.filter(isCounted)
+    const countedInPeriod = filteredTransactions.filter(isCounted)
+
+    const totalDisbursed = countedTransactions
       .filter((t) => t.type === "disbursement")
       .reduce((sum, t) => sum + t.amount, 0)
 
-    const totalReplenished = state.transactions
+    const totalReplenished = countedTransactions
       .filter((t) => t.type === "replenishment")
       .reduce((sum, t) => sum + t.amount, 0)
 
-    const periodDisbursed = filteredTransactions
+    const periodDisbursed = countedInPeriod
       .filter((t) => t.type === "disbursement")
       .reduce((sum, t) => sum + t.amount, 0)
 
-    const periodReplenished = filteredTransactions
+    const periodReplenished = countedInPeriod
       .filter((t) => t.type === "replenishment")
       .reduce((sum, t) => sum + t.amount, 0)
 
-    // Group disbursements by purpose for category analysis
-    const disbursementsByPurpose = filteredTransactions
-      .filter((t) => t.type === "disbursement" && t.purpose)
+    // Group disbursements by category for the breakdown chart
+    const disbursementsByCategory = countedInPeriod
+      .filter((t) => t.type === "disbursement")
       .reduce(
         (acc, t) => {
-          const purpose = t.purpose || "Other"
-          acc[purpose] = (acc[purpose] || 0) + t.amount
+          const category = t.category || "Uncategorized"
+          acc[category] = (acc[category] || 0) + t.amount
           return acc
         },
         {} as Record<string, number>,
       )
 
-    const categoryData = Object.entries(disbursementsByPurpose)
+    const categoryData = Object.entries(disbursementsByCategory)
       .map(([name, value]) => ({ name, value }))
       .sort((a, b) => b.value - a.value)
       .slice(0, 5)
 
     // Balance trend over time (last 10 transactions or filtered)
-    const relevantTransactions = dateRange === "custom" ? filteredTransactions : state.transactions.slice(-10)
+    const relevantTransactions =
+      dateRange === "custom" ? filteredTransactions.filter(isPosted) : state.transactions.filter(isPosted).slice(-10)
     const balanceHistory = relevantTransactions.reduce(
       (acc, transaction, index) => {
         const prevBalance =
@@ -129,14 +164,8 @@ export default function Dashboard() {
             ? state.transactions.find((t) => t.type === "initialization")?.amount || 0
             : acc[index - 1].balance
 
-        let newBalance = prevBalance
-        if (transaction.type === "disbursement") {
-          newBalance = prevBalance - transaction.amount
-        } else if (transaction.type === "replenishment") {
-          newBalance = prevBalance + transaction.amount
-        } else if (transaction.type === "initialization") {
-          newBalance = transaction.amount
-        }
+        const newBalance =
+          transaction.type === "initialization" ? transaction.amount : prevBalance + balanceEffect(transaction)
 
         acc.push({
           date: new Date(transaction.date).toLocaleDateString(),
@@ -164,6 +193,12 @@ export default function Dashboard() {
   // Low balance warning
   const isLowBalance = state.balance < lowBalanceThreshold
 
+  // Disbursements over the receipt threshold that have nothing attached
+  const receiptThreshold = useMemo(() => getReceiptThreshold(state.currency), [state.currency])
+  const missingReceiptCount = state.transactions.filter((t) => isMissingReceipt(t, receiptThreshold)).length
+
+  const pendingApprovalCount = state.transactions.filter((t) => t.approvalStatus === "pending").length
+
   // Handle card clicks for drill-down
   const handleCardClick = (type: "disbursement" | "replenishment") => {
     router.push(`/history?filter=${type}`)
@@ -302,7 +337,10 @@ export default function Dashboard() {
         <div className="flex flex-col lg:flex-row lg:items-center justify-between space-y-4 lg:space-y-0">
           <div>
             <h1 className="text-3xl font-bold">Dashboard</h1>
-            <p className="text-muted-foreground">Overview of your petty cash fund</p>
+            <p className="text-muted-foreground">
+              Overview of {state.name}
+              {state.custodian && ` • Custodian: ${state.custodian}`}
+            </p>
           </div>
 
           <div className="flex flex-col sm:flex-row items-start sm:items-center space-y-2 sm:space-y-0 sm:space-x-4">
@@ -342,23 +380,25 @@ export default function Dashboard() {
             )}
 
             {/* Action Buttons */}
-            <div className="flex space-x-2">
-              <Link href="/disburse">
-                <Button className="bg-red-600 hover:bg-red-700">
-                  <Minus className="h-4 w-4 mr-2" />
-                  Record Disbursement
-                </Button>
-              </Link>
-              <Link href="/replenish">
-                <Button
-                  variant="outline"
-                  className="border-green-600 text-green-600 hover:bg-green-50 dark:hover:bg-green-950 bg-transparent"
-                >
-                  <Plus className="h-4 w-4 mr-2" />
-                  Replenish Fund
-                </Button>
-              </Link>
-            </div>
+            {can("record") && (
+              <div className="flex space-x-2">
+                <Link href="/disburse">
+                  <Button className="bg-red-600 hover:bg-red-700">
+                    <Minus className="h-4 w-4 mr-2" />
+                    Record Disbursement
+                  </Button>
+                </Link>
+                <Link href="/replenish">
+                  <Button
+                    variant="outline"
+                    className="border-green-600 text-green-600 hover:bg-green-50 dark:hover:bg-green-950 bg-transparent"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Replenish Fund
+                  </Button>
+                </Link>
+              </div>
+            )}
           </div>
         </div>
 
@@ -368,8 +408,46 @@ export default function Dashboard() {
             <Alert className="border-yellow-200 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-950">
               <AlertTriangle className="h-4 w-4 text-yellow-600" />
               <AlertDescription className="text-yellow-800 dark:text-yellow-200">
-                <strong>Low Balance Warning:</strong> Your petty cash balance is below ${lowBalanceThreshold.toFixed(2)}
-                . Consider replenishing the fund soon.
+                <strong>Low Balance Warning:</strong> Your petty cash balance is below{" "}
+                {formatCurrency(lowBalanceThreshold, state.currency)}. Consider replenishing the fund soon.
+              </AlertDescription>
+            </Alert>
+          </motion.div>
+        )}
+
+        {/* Pending Approvals Alert */}
+        {pendingApprovalCount > 0 && (
+          <motion.div initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }}>
+            <Alert className="border-blue-200 bg-blue-50 dark:border-blue-800 dark:bg-blue-950">
+              <Clock className="h-4 w-4 text-blue-600" />
+              <AlertDescription className="flex items-center justify-between text-blue-800 dark:text-blue-200">
+                <span>
+                  <strong>Awaiting Approval:</strong> {pendingApprovalCount} disbursement
+                  {pendingApprovalCount === 1 ? " is" : "s are"} waiting for an approver and not yet deducted from the
+                  balance.
+                </span>
+                <Link href="/approvals" className="ml-4 whitespace-nowrap font-medium underline">
+                  Review
+                </Link>
+              </AlertDescription>
+            </Alert>
+          </motion.div>
+        )}
+
+        {/* Missing Receipts Alert */}
+        {missingReceiptCount > 0 && (
+          <motion.div initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }}>
+            <Alert className="border-yellow-200 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-950">
+              <Receipt className="h-4 w-4 text-yellow-600" />
+              <AlertDescription className="flex items-center justify-between text-yellow-800 dark:text-yellow-200">
+                <span>
+                  <strong>Missing Receipts:</strong> {missingReceiptCount} disbursement
+                  {missingReceiptCount === 1 ? "" : "s"} over {formatCurrency(receiptThreshold, state.currency)}{" "}
+                  {missingReceiptCount === 1 ? "has" : "have"} no receipt attached.
+                </span>
+                <Link href="/history?filter=missing-receipt" className="ml-4 whitespace-nowrap font-medium underline">
+                  Review
+                </Link>
               </AlertDescription>
             </Alert>
           </motion.div>
@@ -381,11 +459,13 @@ export default function Dashboard() {
             <CardContent className="p-6">
               <div className="flex items-center justify-between">
                 <div>
-                  <h2 className="text-xl font-semibold text-blue-900 dark:text-blue-100 mb-2">Fund Overview</h2>
+                  <h2 className="text-xl font-semibold text-blue-900 dark:text-blue-100 mb-2">{state.name}</h2>
                   <div className="flex items-center space-x-6">
                     <div>
                       <p className="text-sm text-blue-700 dark:text-blue-300">Current Balance</p>
-                      <p className="text-2xl font-bold text-blue-900 dark:text-blue-100">${state.balance.toFixed(2)}</p>
+                      <p className="text-2xl font-bold text-blue-900 dark:text-blue-100">
+                        {formatCurrency(state.balance, state.currency)}
+                      </p>
                     </div>
                     <div>
                       <p className="text-sm text-blue-700 dark:text-blue-300">Total Transactions</p>
@@ -422,7 +502,7 @@ export default function Dashboard() {
                 <DollarSign className="h-4 w-4 text-blue-500" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold text-blue-600">${state.balance.toFixed(2)}</div>
+                <div className="text-2xl font-bold text-blue-600">{formatCurrency(state.balance, state.currency)}</div>
                 <p className="text-xs text-muted-foreground">Available funds</p>
               </CardContent>
             </Card>
@@ -438,8 +518,12 @@ export default function Dashboard() {
                 <TrendingDown className="h-4 w-4 text-red-500" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold text-red-600">${metrics.totalDisbursed.toFixed(2)}</div>
-                <p className="text-xs text-muted-foreground">Selected period: ${metrics.periodDisbursed.toFixed(2)}</p>
+                <div className="text-2xl font-bold text-red-600">
+                  {formatCurrency(metrics.totalDisbursed, state.currency)}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Selected period: {formatCurrency(metrics.periodDisbursed, state.currency)}
+                </p>
               </CardContent>
             </Card>
           </motion.div>
@@ -454,9 +538,11 @@ export default function Dashboard() {
                 <TrendingUp className="h-4 w-4 text-green-500" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold text-green-600">${metrics.totalReplenished.toFixed(2)}</div>
+                <div className="text-2xl font-bold text-green-600">
+                  {formatCurrency(metrics.totalReplenished, state.currency)}
+                </div>
                 <p className="text-xs text-muted-foreground">
-                  Selected period: ${metrics.periodReplenished.toFixed(2)}
+                  Selected period: {formatCurrency(metrics.periodReplenished, state.currency)}
                 </p>
               </CardContent>
             </Card>
@@ -501,7 +587,7 @@ export default function Dashboard() {
                     <ResponsiveContainer width="100%" height="100%">
                       <LineChart data={metrics.balanceHistory}>
                         <XAxis dataKey="date" />
-                        <YAxis />
+                        <YAxis tickFormatter={(value: number) => formatAmount(Number(value), state.currency)} />
                         <Tooltip
                           content={({ active, payload, label }) => {
                             if (active && payload && payload.length) {
@@ -510,13 +596,15 @@ export default function Dashboard() {
                                 <div className="bg-background border rounded-lg p-3 shadow-lg">
                                   <p className="font-medium">{label}</p>
                                   <p className="text-sm">
-                                    Balance: <span className="font-medium">${data.balance.toFixed(2)}</span>
+                                    Balance:{" "}
+                                    <span className="font-medium">{formatCurrency(data.balance, state.currency)}</span>
                                   </p>
                                   <p className="text-sm">
                                     Transaction: <span className="font-medium">{data.transaction}</span>
                                   </p>
                                   <p className="text-sm">
-                                    Amount: <span className="font-medium">${data.amount.toFixed(2)}</span>
+                                    Amount:{" "}
+                                    <span className="font-medium">{formatCurrency(data.amount, state.currency)}</span>
                                   </p>
                                 </div>
                               )
@@ -565,7 +653,7 @@ export default function Dashboard() {
                           cy="50%"
                           labelLine={false}
                           label={({ name, value, percent }) =>
-                            `${name}: $${value.toFixed(2)} (${(percent * 100).toFixed(1)}%)`
+                            `${name}: ${formatCurrency(Number(value), state.currency)} (${(percent * 100).toFixed(1)}%)`
                           }
                           outerRadius={80}
                           fill="#8884d8"
@@ -582,7 +670,7 @@ export default function Dashboard() {
                               return (
                                 <div className="bg-background border rounded-lg p-3 shadow-lg">
                                   <p className="font-medium">{data.name}</p>
-                                  <p className="text-sm">Amount: ${data.value.toFixed(2)}</p>
+                                  <p className="text-sm">Amount: {formatCurrency(data.value, state.currency)}</p>
                                 </div>
                               )
                             }
@@ -598,6 +686,117 @@ export default function Dashboard() {
           )}
         </div>
 
+        {/* Category Budgets */}
+        {budgets.statuses.length > 0 && (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.65 }}>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle className="flex items-center space-x-2">
+                  <PiggyBank className="h-5 w-5" />
+                  <span>Budgets • {budgets.period.label}</span>
+                </CardTitle>
+                {can("manageSettings") && (
+                  <Link href="/settings">
+                    <Button variant="ghost" size="sm">
+                      Edit Budgets
+                    </Button>
+                  </Link>
+                )}
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+                {budgets.statuses.map((status) => {
+                  const percent = Math.round((status.spent / status.budget) * 100)
+                  const isOver = status.remaining < 0
+                  return (
+                    <div key={status.category} className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span className="font-medium">{status.category}</span>
+                        <span className={isOver ? "text-red-600 font-medium" : "text-muted-foreground"}>
+                          {formatCurrency(status.spent, state.currency)} of{" "}
+                          {formatCurrency(status.budget, state.currency)}
+                        </span>
+                      </div>
+                      <Progress
+                        value={Math.min(percent, 100)}
+                        className={`h-2 ${isOver ? "[&>div]:bg-red-600" : percent >= 80 ? "[&>div]:bg-yellow-500" : ""}`}
+                      />
+                      <p className={`text-xs ${isOver ? "text-red-600" : "text-muted-foreground"}`}>
+                        {isOver
+                          ? `${formatCurrency(-status.remaining, state.currency)} over budget`
+                          : `${formatCurrency(status.remaining, state.currency)} left (${percent}% used)`}
+                      </p>
+                    </div>
+                  )
+                })}
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
+        {/* Outstanding Advances */}
+        {advances.outstanding.length > 0 && (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.68 }}>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle className="flex items-center space-x-2">
+                  <HandCoins className="h-5 w-5" />
+                  <span>Outstanding Advances • {formatCurrency(advances.total, state.currency)}</span>
+                </CardTitle>
+                {can("record") && (
+                  <Link href="/advances">
+                    <Button variant="outline" size="sm">
+                      Settle
+                      <ArrowRight className="h-4 w-4 ml-1" />
+                    </Button>
+                  </Link>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {advances.aging.map((bucket) => (
+                    <div
+                      key={bucket.label}
+                      className={`rounded-lg border p-3 ${
+                        bucket.overdue && bucket.count > 0
+                          ? "border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950"
+                          : ""
+                      }`}
+                    >
+                      <p className="text-caption">{bucket.label}</p>
+                      <p className="text-lg font-semibold">{formatCurrency(bucket.amount, state.currency)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {bucket.count} advance{bucket.count === 1 ? "" : "s"}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  {advances.outstanding.slice(0, 5).map((advance) => {
+                    const age = advanceAge(advance)
+                    return (
+                      <div key={advance.id} className="flex items-center justify-between text-sm border-t pt-2">
+                        <div>
+                          <span className="font-medium">{advance.recipient}</span>
+                          <span className="text-muted-foreground"> • {advance.purpose}</span>
+                        </div>
+                        <div className="flex items-center space-x-3">
+                          <Badge variant="outline" className={age > OVERDUE_DAYS ? "border-red-500 text-red-700" : ""}>
+                            {age} day{age === 1 ? "" : "s"}
+                          </Badge>
+                          <span className="font-mono">{formatCurrency(advance.amount, state.currency)}</span>
+                        </div>
+                      </div>
+                    )
+                  })}
+                  {advances.outstanding.length > 5 && (
+                    <p className="text-caption">and {advances.outstanding.length - 5} more</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
         {/* Recent Activity Widget */}
         <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.7 }}>
           <Card>
@@ -646,17 +845,26 @@ export default function Dashboard() {
                         >
                           {transaction.type}
                         </Badge>
-                        {transaction.purpose && <div className="text-sm font-medium">{transaction.purpose}</div>}
+                        {transaction.approvalStatus && transaction.approvalStatus !== "approved" && (
+                          <Badge variant="outline">{transaction.approvalStatus}</Badge>
+                        )}
+                        {transaction.purpose && (
+                          <div
+                            className={`text-sm font-medium ${transaction.voidedBy ? "line-through opacity-60" : ""}`}
+                          >
+                            {transaction.purpose}
+                          </div>
+                        )}
                         {transaction.recipient && (
                           <div className="text-sm text-muted-foreground">to {transaction.recipient}</div>
                         )}
                       </div>
                       <div
-                        className={`font-medium ${
-                          transaction.type === "disbursement" ? "text-red-600" : "text-green-600"
-                        }`}
+                        className={`font-medium ${balanceEffect(transaction) < 0 ? "text-red-600" : "text-green-600"} ${
+                          transaction.voidedBy ? "line-through opacity-60" : ""
+                        } ${isPosted(transaction) ? "" : "opacity-60"}`}
                       >
-                        {transaction.type === "disbursement" ? "-" : "+"}${transaction.amount.toFixed(2)}
+                        {formatCurrency(balanceEffect(transaction), state.currency, "always")}
                       </div>
                     </motion.div>
                   ))}
@@ -667,53 +875,63 @@ export default function Dashboard() {
         </motion.div>
 
         {/* Quick Actions */}
-        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.8 }}>
-          <Card>
-            <CardHeader>
-              <CardTitle>Quick Actions</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                <Link href="/disburse">
-                  <Button
-                    variant="outline"
-                    className="w-full h-20 flex flex-col space-y-2 bg-red-50 hover:bg-red-100 border-red-200 text-red-700 dark:bg-red-950/20 dark:hover:bg-red-950/30 dark:border-red-800 dark:text-red-300"
-                  >
-                    <Minus className="h-6 w-6" />
-                    <span>Record Disbursement</span>
-                  </Button>
-                </Link>
-                <Link href="/replenish">
-                  <Button
-                    variant="outline"
-                    className="w-full h-20 flex flex-col space-y-2 bg-green-50 hover:bg-green-100 border-green-200 text-green-700 dark:bg-green-950/20 dark:hover:bg-green-950/30 dark:border-green-800 dark:text-green-300"
-                  >
-                    <Plus className="h-6 w-6" />
-                    <span>Replenish Fund</span>
-                  </Button>
-                </Link>
-                <Link href="/reconcile">
-                  <Button
-                    variant="outline"
-                    className="w-full h-20 flex flex-col space-y-2 bg-blue-50 hover:bg-blue-100 border-blue-200 text-blue-700 dark:bg-blue-950/20 dark:hover:bg-blue-950/30 dark:border-blue-800 dark:text-blue-300"
-                  >
-                    <BarChart3 className="h-6 w-6" />
-                    <span>Reconcile</span>
-                  </Button>
-                </Link>
-                <Link href="/report">
-                  <Button
-                    variant="outline"
-                    className="w-full h-20 flex flex-col space-y-2 bg-purple-50 hover:bg-purple-100 border-purple-200 text-purple-700 dark:bg-purple-950/20 dark:hover:bg-purple-950/30 dark:border-purple-800 dark:text-purple-300"
-                  >
-                    <FileText className="h-6 w-6" />
-                    <span>Generate Report</span>
-                  </Button>
-                </Link>
-              </div>
-            </CardContent>
-          </Card>
-        </motion.div>
+        {(can("record") || can("reconcile") || can("viewReports")) && (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.8 }}>
+            <Card>
+              <CardHeader>
+                <CardTitle>Quick Actions</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {can("record") && (
+                    <Link href="/disburse">
+                      <Button
+                        variant="outline"
+                        className="w-full h-20 flex flex-col space-y-2 bg-red-50 hover:bg-red-100 border-red-200 text-red-700 dark:bg-red-950/20 dark:hover:bg-red-950/30 dark:border-red-800 dark:text-red-300"
+                      >
+                        <Minus className="h-6 w-6" />
+                        <span>Record Disbursement</span>
+                      </Button>
+                    </Link>
+                  )}
+                  {can("record") && (
+                    <Link href="/replenish">
+                      <Button
+                        variant="outline"
+                        className="w-full h-20 flex flex-col space-y-2 bg-green-50 hover:bg-green-100 border-green-200 text-green-700 dark:bg-green-950/20 dark:hover:bg-green-950/30 dark:border-green-800 dark:text-green-300"
+                      >
+                        <Plus className="h-6 w-6" />
+                        <span>Replenish Fund</span>
+                      </Button>
+                    </Link>
+                  )}
+                  {can("reconcile") && (
+                    <Link href="/reconcile">
+                      <Button
+                        variant="outline"
+                        className="w-full h-20 flex flex-col space-y-2 bg-blue-50 hover:bg-blue-100 border-blue-200 text-blue-700 dark:bg-blue-950/20 dark:hover:bg-blue-950/30 dark:border-blue-800 dark:text-blue-300"
+                      >
+                        <BarChart3 className="h-6 w-6" />
+                        <span>Reconcile</span>
+                      </Button>
+                    </Link>
+                  )}
+                  {can("viewReports") && (
+                    <Link href="/report">
+                      <Button
+                        variant="outline"
+                        className="w-full h-20 flex flex-col space-y-2 bg-purple-50 hover:bg-purple-100 border-purple-200 text-purple-700 dark:bg-purple-950/20 dark:hover:bg-purple-950/30 dark:border-purple-800 dark:text-purple-300"
+                      >
+                        <FileText className="h-6 w-6" />
+                        <span>Generate Report</span>
+                      </Button>
+                    </Link>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
       </div>
     </AppLayout>
   )
@@ -0,0 +1,356 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { motion } from "framer-motion"
+import Link from "next/link"
+import { ArrowLeft, Contact, Pencil, Plus, Search, Trash2 } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AppLayout } from "@/components/layout/AppLayout"
+import { usePettyCash } from "@/contexts/PettyCashContext"
+import { useToast } from "@/hooks/use-toast"
+import { diffById, recordAudit } from "@/lib/audit"
+import { BUDGET_PERIODS, budgetWindow } from "@/lib/budgets"
+import type { BudgetPeriod } from "@/lib/budgets"
+import { formatCurrency, parseMoney } from "@/lib/money"
+import { sanitizeInput } from "@/lib/security"
+import { createRecipient, getRecipientCap, getRecipients, recipientSpend, saveRecipients } from "@/lib/recipients"
+import type { Recipient } from "@/lib/recipients"
+
+interface RecipientForm {
+  name: string
+  department: string
+  employeeId: string
+  cap: string
+  capPeriod: BudgetPeriod
+}
+
+const EMPTY_FORM: RecipientForm = { name: "", department: "", employeeId: "", cap: "", capPeriod: "monthly" }
+
+const sameText = (a: string | undefined, b: string) => !!a && a.trim().toLowerCase() === b.trim().toLowerCase()
+
+export default function RecipientsPage() {
+  const { state } = usePettyCash()
+  const { toast } = useToast()
+
+  const [recipients, setRecipients] = useState<Recipient[]>(() => getRecipients())
+  const [form, setForm] = useState<RecipientForm>(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [search, setSearch] = useState("")
+
+  const today = new Date().toISOString().split("T")[0]
+
+  // Names and employee IDs are what disbursements are matched by, so neither can be shared
+  const others = recipients.filter((r) => r.id !== editingId)
+  const formError = !form.name.trim()
+    ? "Name is required"
+    : others.some((r) => sameText(r.name, form.name) || sameText(r.employeeId, form.name))
+      ? "Another recipient already has this name"
+      : form.employeeId.trim() &&
+          others.some((r) => sameText(r.employeeId, form.employeeId) || sameText(r.name, form.employeeId))
+        ? "Another recipient already has this employee ID"
+        : form.cap.trim() && !(parseMoney(form.cap, state.currency) >= 0)
+          ? "Cap must be a positive amount"
+          : ""
+
+  const updateForm = (changes: Partial<RecipientForm>) => setForm((prev) => ({ ...prev, ...changes }))
+
+  const persist = async (next: Recipient[], action: string, summary: string) => {
+    const changes = diffById("recipients", recipients, next)
+    setRecipients(next)
+    await saveRecipients(next)
+    recordAudit({ category: "settings", action, summary, changes })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (formError) return
+
+    const fields = {
+      name: sanitizeInput(form.name),
+      department: sanitizeInput(form.department) || undefined,
+      employeeId: sanitizeInput(form.employeeId) || undefined,
+      cap: form.cap.trim() || undefined,
+      capPeriod: form.cap.trim() ? form.capPeriod : undefined,
+    }
+
+    try {
+      if (editingId) {
+        await persist(
+          recipients.map((r) => (r.id === editingId ? { id: r.id, ...fields } : r)),
+          "Recipient updated",
+          fields.name,
+        )
+        toast({ title: "Recipient Updated", description: `${fields.name} has been updated.` })
+      } else {
+        await persist([...recipients, createRecipient(fields)], "Recipient added", fields.name)
+        toast({ title: "Recipient Added", description: `${fields.name} has been added to the directory.` })
+      }
+      setForm(EMPTY_FORM)
+      setEditingId(null)
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: "The recipient directory could not be saved. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleEdit = (recipient: Recipient) => {
+    setEditingId(recipient.id)
+    setForm({
+      name: recipient.name,
+      department: recipient.department ?? "",
+      employeeId: recipient.employeeId ?? "",
+      cap: recipient.cap ?? "",
+      capPeriod: recipient.capPeriod ?? "monthly",
+    })
+  }
+
+  const handleCancelEdit = () => {
+    setEditingId(null)
+    setForm(EMPTY_FORM)
+  }
+
+  // Past disbursements keep the name they were recorded under
+  const handleRemove = async (recipient: Recipient) => {
+    try {
+      await persist(
+        recipients.filter((r) => r.id !== recipient.id),
+        "Recipient removed",
+        recipient.name,
+      )
+      if (editingId === recipient.id) handleCancelEdit()
+      toast({ title: "Recipient Removed", description: `${recipient.name} has been removed from the directory.` })
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: "The recipient directory could not be saved. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  // What each recipient has been paid from this fund in their current cap period
+  const spentThisPeriod = (recipient: Recipient) => {
+    const period = budgetWindow(recipient.capPeriod ?? "monthly", today)
+    return { period, spent: recipientSpend(state.transactions, recipient, period, [], recipients) }
+  }
+
+  const query = search.trim().toLowerCase()
+  const filtered = recipients
+    .filter(
+      (r) =>
+        !query || [r.name, r.department, r.employeeId].some((field) => field && field.toLowerCase().includes(query)),
+    )
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+  return (
+    <AppLayout>
+      <div className="max-w-4xl mx-auto space-y-8">
+        {/* Header */}
+        <div className="flex items-center space-x-4">
+          <Link href="/">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold flex items-center space-x-2">
+              <Contact className="h-8 w-8 text-blue-600" />
+              <span>Recipients</span>
+            </h1>
+            <p className="text-muted-foreground">People cash is paid to, and how much each may receive</p>
+          </div>
+        </div>
+
+        {/* Add / Edit */}
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                {editingId ? <Pencil className="h-5 w-5" /> : <Plus className="h-5 w-5" />}
+                <span>{editingId ? "Edit Recipient" : "Add Recipient"}</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="recipient-name">Name *</Label>
+                    <Input
+                      id="recipient-name"
+                      value={form.name}
+                      onChange={(e) => updateForm({ name: e.target.value })}
+                      placeholder="Full name"
+                      maxLength={100}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="recipient-department">Department</Label>
+                    <Input
+                      id="recipient-department"
+                      value={form.department}
+                      onChange={(e) => updateForm({ department: e.target.value })}
+                      placeholder="e.g. Facilities"
+                      maxLength={50}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="recipient-employee-id">Employee ID</Label>
+                    <Input
+                      id="recipient-employee-id"
+                      value={form.employeeId}
+                      onChange={(e) => updateForm({ employeeId: e.target.value })}
+                      maxLength={30}
+                      className="font-mono"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="recipient-cap">Spending Cap ({state.currency})</Label>
+                    <Input
+                      id="recipient-cap"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={form.cap}
+                      onChange={(e) => updateForm({ cap: e.target.value })}
+                      placeholder="No cap"
+                      className="font-mono"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="recipient-cap-period">Cap Period</Label>
+                    <Select
+                      value={form.capPeriod}
+                      onValueChange={(value) => updateForm({ capPeriod: value as BudgetPeriod })}
+                      disabled={!form.cap.trim()}
+                    >
+                      <SelectTrigger id="recipient-cap-period">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {BUDGET_PERIODS.map((period) => (
+                          <SelectItem key={period.value} value={period.value}>
+                            {period.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <p className="text-caption">
+                  Disbursements that would take a recipient past their cap are refused. Pending approvals count towards
+                  the cap.
+                </p>
+
+                {form.name.trim() && formError && <p className="text-sm text-red-600">{formError}</p>}
+
+                <div className="flex space-x-4">
+                  {editingId && (
+                    <Button type="button" variant="outline" onClick={handleCancelEdit}>
+                      Cancel
+                    </Button>
+                  )}
+                  <Button type="submit" disabled={!!formError}>
+                    {editingId ? "Save Changes" : "Add Recipient"}
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        {/* Directory */}
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.1 }}>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Contact className="h-5 w-5" />
+                <span>Directory ({recipients.length})</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {recipients.length > 0 && (
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search by name, department or employee ID"
+                    className="pl-9"
+                  />
+                </div>
+              )}
+
+              {filtered.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  {recipients.length === 0 ? "No recipients yet." : "No recipients match your search."}
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {filtered.map((recipient) => {
+                    const cap = getRecipientCap(recipient, state.currency)
+                    const usage = cap ? spentThisPeriod(recipient) : null
+                    return (
+                      <div
+                        key={recipient.id}
+                        className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 border-t pt-2"
+                      >
+                        <div>
+                          <p className="font-medium">{recipient.name}</p>
+                          <p className="text-caption">
+                            {[recipient.department, recipient.employeeId].filter(Boolean).join(" • ") || "—"}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {usage ? (
+                            <Badge
+                              variant="outline"
+                              className={usage.spent >= cap ? "border-red-500 text-red-700" : ""}
+                            >
+                              {formatCurrency(usage.spent, state.currency)} of {formatCurrency(cap, state.currency)} •{" "}
+                              {usage.period.label}
+                            </Badge>
+                          ) : (
+                            <span className="text-caption">No cap</span>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleEdit(recipient)}
+                            aria-label={`Edit ${recipient.name}`}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleRemove(recipient)}
+                            aria-label={`Remove ${recipient.name}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+    </AppLayout>
+  )
+}
@@ -1,56 +1,141 @@
 "use client"
 
-import { useState, useMemo } from "react"
+import { useState, useMemo, useEffect } from "react"
+import Link from "next/link"
 import { motion } from "framer-motion"
-import { Scale, CheckCircle, AlertTriangle, Calculator, FileText, Calendar } from "lucide-react"
+import {
+  Scale,
+  CheckCircle,
+  AlertTriangle,
+  Calculator,
+  FileText,
+  Calendar,
+  Coins,
+  Printer,
+  Lock,
+  LockOpen,
+} from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Modal, ModalContent, ModalHeader, ModalTitle } from "@/components/ui/modal"
 import { AppLayout } from "@/components/layout/AppLayout"
-import { usePettyCash } from "@/contexts/PettyCashContext"
+import { DenominationCounter } from "@/components/common/DenominationCounter"
+import { usePettyCash, firstOpenDate, isClosedDate, pendingThrough } from "@/contexts/PettyCashContext"
+import { useUser } from "@/contexts/UserContext"
 import { useToast } from "@/hooks/use-toast"
+import { amountStep, formatCurrency, toMinorUnits } from "@/lib/money"
+import { sanitizeAmount } from "@/lib/security"
+import { countTotal, toDenominationCounts } from "@/lib/denominations"
+import { outstandingAdvances } from "@/lib/advances"
+import { getReconciliations, saveReconciliation } from "@/lib/storage"
+import type { ReconciliationRecord } from "@/lib/storage"
 
-interface ReconciliationRecord {
-  id: string
-  date: string
-  systemBalance: number
-  physicalBalance: number
-  difference: number
-  notes?: string
-  timestamp: number
+function normalizeRecord(record: ReconciliationRecord, currency: string): ReconciliationRecord {
+  if (record.currency) return record
+  return {
+    ...record,
+    currency,
+    systemBalance: toMinorUnits(record.systemBalance, currency),
+    physicalBalance: toMinorUnits(record.physicalBalance, currency),
+    difference: toMinorUnits(record.difference, currency),
+  }
+}
+
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+
+// Open a plain printable sheet of a past count in a new window
+function printCount(record: ReconciliationRecord, fundName: string) {
+  const currency = record.currency ?? "USD"
+  const rows = (record.denominations ?? [])
+    .map(
+      (count) =>
+        `<tr><td>${formatCurrency(count.value, currency)} ${count.kind}</td><td>${count.quantity}</td><td>${formatCurrency(count.value * count.quantity, currency)}</td></tr>`,
+    )
+    .join("")
+
+  const printWindow = window.open("", "_blank")
+  if (!printWindow) return
+  printWindow.document.write(`<!DOCTYPE html>
+<html><head><title>Cash Count ${escapeHtml(record.date)}</title>
+<style>body{font-family:sans-serif;margin:2rem}table{border-collapse:collapse;width:100%}td,th{border-bottom:1px solid #ccc;padding:.4rem;text-align:right}td:first-child,th:first-child{text-align:left}</style>
+</head><body>
+<h1>Cash Count</h1>
+<p>${escapeHtml(fundName)} &bull; ${new Date(record.date).toLocaleDateString()}</p>
+<table><thead><tr><th>Denomination</th><th>Quantity</th><th>Amount</th></tr></thead><tbody>${rows}</tbody></table>
+<p>Counted: ${formatCurrency(record.physicalBalance, currency)}<br>System: ${formatCurrency(record.systemBalance, currency)}<br>Difference: ${formatCurrency(record.difference, currency, "exceptZero")}</p>
+${record.outstandingAdvances ? `<p>Outstanding advances: ${formatCurrency(record.outstandingAdvances, currency)}<br>Cash plus advances: ${formatCurrency(record.physicalBalance + record.outstandingAdvances, currency)}</p>` : ""}
+${record.notes ? `<p>Notes: ${escapeHtml(record.notes)}</p>` : ""}
+<p style="margin-top:3rem">Counted by: ${record.enteredBy ? escapeHtml(record.enteredBy) : "______________________"} &nbsp; Verified by: ______________________</p>
+</body></html>`)
+  printWindow.document.close()
+  printWindow.print()
 }
 
 export default function ReconcilePage() {
-  const { state } = usePettyCash()
+  const { state, funds, dispatch } = usePettyCash()
+  const { currentUser } = useUser()
   const { toast } = useToast()
 
   const [physicalBalance, setPhysicalBalance] = useState("")
+  const [countByDenomination, setCountByDenomination] = useState(false)
+  const [quantities, setQuantities] = useState<Record<number, string>>({})
+  const [viewingCount, setViewingCount] = useState<ReconciliationRecord | null>(null)
   const [notes, setNotes] = useState("")
+  const [postAdjustment, setPostAdjustment] = useState(false)
+  const [adjustmentReason, setAdjustmentReason] = useState("")
+  const [closeThrough, setCloseThrough] = useState(new Date().toISOString().split("T")[0])
+  const [showReopenForm, setShowReopenForm] = useState(false)
+  const [reopenReason, setReopenReason] = useState("")
+
+  const today = new Date().toISOString().split("T")[0]
+  // Adjustments are dated today, so they can't be posted once today is closed
+  const todayClosed = isClosedDate(state, today)
   const [isReconciling, setIsReconciling] = useState(false)
-  const [reconciliationHistory, setReconciliationHistory] = useState<ReconciliationRecord[]>(() => {
-    if (typeof window !== "undefined") {
-      const stored = localStorage.getItem("reconciliationHistory")
-      return stored ? JSON.parse(stored) : []
-    }
-    return []
-  })
+  const [reconciliationHistory, setReconciliationHistory] = useState<ReconciliationRecord[]>([])
+
+  // Approvals would be refused once their date is locked, so these hold the period open
+  const heldInPeriod = closeThrough ? pendingThrough(state, closeThrough) : []
+
+  // Cash handed out and not yet settled is still the fund's, just not in the drawer
+  const advances = outstandingAdvances(state.transactions)
+  const advancesTotal = advances.reduce((sum, t) => sum + t.amount, 0)
+
+  useEffect(() => {
+    getReconciliations()
+      .then(setReconciliationHistory)
+      .catch((error) => console.error("Error loading reconciliation history:", error))
+  }, [])
+
+  // Records written before multi-fund support carry no fundId and belong to the first fund
+  const fundHistory = useMemo(
+    () =>
+      reconciliationHistory
+        .filter((record) => (record.fundId ?? funds[0]?.id) === state.id)
+        .map((record) => normalizeRecord(record, state.currency)),
+    [reconciliationHistory, funds, state.id, state.currency],
+  )
 
   const reconciliationData = useMemo(() => {
-    const physicalAmount = Number.parseFloat(physicalBalance) || 0
+    const denominations = countByDenomination ? toDenominationCounts(state.currency, quantities) : undefined
+    const physicalAmount = denominations ? countTotal(denominations) : sanitizeAmount(physicalBalance, state.currency)
     const difference = physicalAmount - state.balance
-    const isBalanced = Math.abs(difference) < 0.01 // Allow for small rounding differences
+    const isBalanced = difference === 0
 
     return {
       systemBalance: state.balance,
       physicalBalance: physicalAmount,
       difference,
       isBalanced,
-      hasPhysicalInput: physicalBalance !== "",
+      denominations,
+      hasPhysicalInput: denominations ? denominations.length > 0 : physicalBalance !== "",
     }
-  }, [state.balance, physicalBalance])
+  }, [state.balance, state.currency, physicalBalance, countByDenomination, quantities])
 
   const handleReconcile = async () => {
     if (!reconciliationData.hasPhysicalInput) {
@@ -62,6 +147,22 @@ export default function ReconcilePage() {
       return
     }
 
+    const adjusting = postAdjustment && !reconciliationData.isBalanced && !todayClosed
+    // A count that matches, or is brought into line by an adjustment, closes the period
+    const closing =
+      (reconciliationData.isBalanced || adjusting) &&
+      !!closeThrough &&
+      !isClosedDate(state, closeThrough) &&
+      heldInPeriod.length === 0
+    if (adjusting && !adjustmentReason.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Explain the discrepancy before posting an adjustment",
+        variant: "destructive",
+      })
+      return
+    }
+
     setIsReconciling(true)
 
     try {
@@ -70,29 +171,65 @@ export default function ReconcilePage() {
 
       const reconciliationRecord: ReconciliationRecord = {
         id: `REC-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        date: new Date().toISOString().split("T")[0],
+        fundId: state.id,
+        currency: state.currency,
+        date: today,
         systemBalance: reconciliationData.systemBalance,
         physicalBalance: reconciliationData.physicalBalance,
         difference: reconciliationData.difference,
+        denominations: reconciliationData.denominations,
+        outstandingAdvances: advancesTotal || undefined,
+        closedThrough: closing ? closeThrough : undefined,
         notes,
+        enteredBy: currentUser?.name,
         timestamp: Date.now(),
       }
 
-      const updatedHistory = [reconciliationRecord, ...reconciliationHistory]
-      setReconciliationHistory(updatedHistory)
-      localStorage.setItem("reconciliationHistory", JSON.stringify(updatedHistory))
+      setReconciliationHistory([reconciliationRecord, ...reconciliationHistory])
+      await saveReconciliation(reconciliationRecord)
+
+      // Bring the system balance in line with the count so the next reconciliation starts clean
+      if (adjusting) {
+        dispatch({
+          type: "ADJUST",
+          payload: {
+            difference: reconciliationData.difference,
+            date: reconciliationRecord.date,
+            reason: adjustmentReason.trim(),
+            reconciliationId: reconciliationRecord.id,
+            enteredBy: currentUser?.name,
+          },
+        })
+      }
+
+      if (closing) {
+        dispatch({
+          type: "CLOSE_PERIOD",
+          payload: { through: closeThrough, reconciliationId: reconciliationRecord.id, enteredBy: currentUser?.name },
+        })
+      }
 
       toast({
-        title: reconciliationData.isBalanced ? "Reconciliation Complete" : "Discrepancy Recorded",
+        title: reconciliationData.isBalanced
+          ? "Reconciliation Complete"
+          : adjusting
+            ? "Adjustment Posted"
+            : "Discrepancy Recorded",
         description: reconciliationData.isBalanced
           ? "Your cash count matches the system balance"
-          : `Discrepancy of $${Math.abs(reconciliationData.difference).toFixed(2)} has been recorded`,
-        variant: reconciliationData.isBalanced ? "default" : "destructive",
+          : adjusting
+            ? `Cash ${reconciliationData.difference > 0 ? "over" : "short"} of ${formatCurrency(Math.abs(reconciliationData.difference), state.currency)} has been posted`
+            : `Discrepancy of ${formatCurrency(Math.abs(reconciliationData.difference), state.currency)} has been recorded`,
+        variant: reconciliationData.isBalanced || adjusting ? "default" : "destructive",
       })
 
       // Reset form
       setPhysicalBalance("")
+      setQuantities({})
       setNotes("")
+      setPostAdjustment(false)
+      setAdjustmentReason("")
+      setCloseThrough(today)
     } catch (error) {
       toast({
         title: "Error",
@@ -104,6 +241,20 @@ export default function ReconcilePage() {
     }
   }
 
+  const handleReopen = () => {
+    if (!reopenReason.trim()) return
+
+    dispatch({ type: "REOPEN_PERIOD", payload: { reason: reopenReason.trim(), enteredBy: currentUser?.name } })
+
+    toast({
+      title: "Period Reopened",
+      description: `Transactions through ${new Date(state.closedThrough!).toLocaleDateString()} can be changed again`,
+    })
+
+    setShowReopenForm(false)
+    setReopenReason("")
+  }
+
   if (!state.isInitialized) {
     return (
       <AppLayout>
@@ -126,7 +277,7 @@ export default function ReconcilePage() {
     <AppLayout>
       <div className="max-w-4xl mx-auto space-y-8">
         <div>
-          <h1 className="text-3xl font-bold">Reconcile Cash</h1>
+          <h1 className="text-3xl font-bold">Reconcile {state.name}</h1>
           <p className="text-muted-foreground">
             Compare your physical cash count with the system balance to ensure accuracy
           </p>
@@ -137,8 +288,8 @@ export default function ReconcilePage() {
           <Alert className="border-blue-200 bg-blue-50 dark:border-blue-800 dark:bg-blue-950">
             <Calculator className="h-4 w-4 text-blue-600" />
             <AlertDescription className="text-blue-800 dark:text-blue-200">
-              <strong>System Balance:</strong> ${state.balance.toFixed(2)} based on {state.transactions.length} recorded
-              transactions
+              <strong>System Balance:</strong> {formatCurrency(state.balance, state.currency)} based on{" "}
+              {state.transactions.length} recorded transactions
             </AlertDescription>
           </Alert>
         </motion.div>
@@ -156,25 +307,107 @@ export default function ReconcilePage() {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="space-y-2">
                   <Label htmlFor="systemBalance">System Balance</Label>
-                  <Input id="systemBalance" value={`$${state.balance.toFixed(2)}`} disabled className="bg-muted" />
+                  <Input
+                    id="systemBalance"
+                    value={formatCurrency(state.balance, state.currency)}
+                    disabled
+                    className="bg-muted"
+                  />
                   <p className="text-sm text-muted-foreground">Calculated from transaction history</p>
                 </div>
 
                 <div className="space-y-2">
                   <Label htmlFor="physicalBalance">Physical Cash Count *</Label>
-                  <Input
-                    id="physicalBalance"
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    value={physicalBalance}
-                    onChange={(e) => setPhysicalBalance(e.target.value)}
-                    placeholder="0.00"
-                  />
-                  <p className="text-sm text-muted-foreground">Count all physical cash and enter the total</p>
+                  {countByDenomination ? (
+                    <Input
+                      id="physicalBalance"
+                      value={formatCurrency(reconciliationData.physicalBalance, state.currency)}
+                      disabled
+                      className="bg-muted"
+                    />
+                  ) : (
+                    <Input
+                      id="physicalBalance"
+                      type="number"
+                      step={amountStep(state.currency)}
+                      min="0"
+                      value={physicalBalance}
+                      onChange={(e) => setPhysicalBalance(e.target.value)}
+                      placeholder="0.00"
+                    />
+                  )}
+                  <p className="text-sm text-muted-foreground">
+                    {countByDenomination
+                      ? "Totalled from the denominations below"
+                      : "Count all physical cash and enter the total"}
+                  </p>
+                </div>
+              </div>
+
+              {advances.length > 0 && (
+                <div className="rounded-lg border p-4 space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span>{reconciliationData.hasPhysicalInput ? "Cash Counted" : "Cash on Hand (System)"}</span>
+                    <span className="font-mono">
+                      {formatCurrency(
+                        reconciliationData.hasPhysicalInput ? reconciliationData.physicalBalance : state.balance,
+                        state.currency,
+                      )}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>
+                      <Link href="/advances" className="underline">
+                        Outstanding Advances
+                      </Link>{" "}
+                      ({advances.length})
+                    </span>
+                    <span className="font-mono">{formatCurrency(advancesTotal, state.currency)}</span>
+                  </div>
+                  <div className="flex justify-between border-t pt-2 font-semibold">
+                    <span>Total Fund Assets</span>
+                    <span className="font-mono">
+                      {formatCurrency(
+                        (reconciliationData.hasPhysicalInput ? reconciliationData.physicalBalance : state.balance) +
+                          advancesTotal,
+                        state.currency,
+                      )}
+                    </span>
+                  </div>
+                  {state.imprestAmount !== undefined && (
+                    <div className="flex justify-between text-muted-foreground">
+                      <span>Imprest Amount</span>
+                      <span className="font-mono">{formatCurrency(state.imprestAmount, state.currency)}</span>
+                    </div>
+                  )}
+                  <p className="text-caption">
+                    Advances aren&apos;t in the drawer, so only cash is counted; they&apos;re carried as an asset until
+                    settled.
+                  </p>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="countByDenomination" className="flex items-center space-x-2">
+                    <Coins className="h-4 w-4" />
+                    <span>Count by denomination</span>
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    Enter how many of each bill and coin are in the drawer
+                  </p>
                 </div>
+                <Switch
+                  id="countByDenomination"
+                  checked={countByDenomination}
+                  onCheckedChange={setCountByDenomination}
+                />
               </div>
 
+              {countByDenomination && (
+                <DenominationCounter currency={state.currency} quantities={quantities} onChange={setQuantities} />
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="notes">Notes (Optional)</Label>
                 <Input
@@ -216,11 +449,15 @@ export default function ReconcilePage() {
                   <div className="grid grid-cols-3 gap-4 text-sm">
                     <div>
                       <span className="text-muted-foreground">System:</span>
-                      <p className="font-semibold">${reconciliationData.systemBalance.toFixed(2)}</p>
+                      <p className="font-semibold">
+                        {formatCurrency(reconciliationData.systemBalance, state.currency)}
+                      </p>
                     </div>
                     <div>
                       <span className="text-muted-foreground">Physical:</span>
-                      <p className="font-semibold">${reconciliationData.physicalBalance.toFixed(2)}</p>
+                      <p className="font-semibold">
+                        {formatCurrency(reconciliationData.physicalBalance, state.currency)}
+                      </p>
                     </div>
                     <div>
                       <span className="text-muted-foreground">Difference:</span>
@@ -233,7 +470,7 @@ export default function ReconcilePage() {
                               : "text-red-600"
                         }`}
                       >
-                        {reconciliationData.difference >= 0 ? "+" : ""}${reconciliationData.difference.toFixed(2)}
+                        {formatCurrency(reconciliationData.difference, state.currency, "exceptZero")}
                       </p>
                     </div>
                   </div>
@@ -248,9 +485,100 @@ export default function ReconcilePage() {
                 </motion.div>
               )}
 
+              {/* Over/Short Adjustment */}
+              {reconciliationData.hasPhysicalInput && !reconciliationData.isBalanced && (
+                <div className="space-y-4 rounded-lg border p-4">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="postAdjustment">Post over/short adjustment</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Records a cash {reconciliationData.difference > 0 ? "over" : "short"} entry of{" "}
+                        {formatCurrency(Math.abs(reconciliationData.difference), state.currency)} so the system balance
+                        matches this count
+                      </p>
+                    </div>
+                    <Switch
+                      id="postAdjustment"
+                      checked={postAdjustment && !todayClosed}
+                      onCheckedChange={setPostAdjustment}
+                      disabled={todayClosed}
+                    />
+                  </div>
+                  {todayClosed && (
+                    <p className="text-sm text-muted-foreground">Today is in a closed period. Reopen it to post.</p>
+                  )}
+                  {postAdjustment && (
+                    <div className="space-y-2">
+                      <Label htmlFor="adjustmentReason">Explanation *</Label>
+                      <Textarea
+                        id="adjustmentReason"
+                        value={adjustmentReason}
+                        onChange={(e) => setAdjustmentReason(e.target.value)}
+                        placeholder="What caused the difference?"
+                        rows={2}
+                        className={adjustmentReason.trim() ? "" : "border-red-500"}
+                      />
+                      {!adjustmentReason.trim() && (
+                        <p className="text-sm text-red-600">An explanation is required to post an adjustment</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Period Close */}
+              {reconciliationData.hasPhysicalInput &&
+                (reconciliationData.isBalanced || (postAdjustment && !todayClosed)) && (
+                  <div className="space-y-2">
+                    <Label htmlFor="closeThrough" className="flex items-center space-x-2">
+                      <Lock className="h-4 w-4" />
+                      <span>Close period through</span>
+                    </Label>
+                    <Input
+                      id="closeThrough"
+                      type="date"
+                      value={closeThrough}
+                      onChange={(e) => setCloseThrough(e.target.value)}
+                      min={firstOpenDate(state)}
+                      max={today}
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      {closeThrough && isClosedDate(state, closeThrough)
+                        ? "Already closed; this count won't move the lock"
+                        : "Transactions dated on or before this date will be locked"}
+                    </p>
+                    {heldInPeriod.length > 0 && !isClosedDate(state, closeThrough) && (
+                      <Alert className="border-yellow-200 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-950">
+                        <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                        <AlertDescription className="text-yellow-800 dark:text-yellow-200 space-y-1">
+                          <p>
+                            <strong>Awaiting Approval:</strong> the period can&apos;t close while these are pending. The
+                            count will still be recorded.{" "}
+                            <Link href="/approvals" className="underline font-medium">
+                              Review
+                            </Link>
+                          </p>
+                          <ul className="text-sm list-disc pl-5">
+                            {heldInPeriod.map((t) => (
+                              <li key={t.id}>
+                                {new Date(t.date).toLocaleDateString()} • {t.recipient} •{" "}
+                                {formatCurrency(t.amount, state.currency)}
+                              </li>
+                            ))}
+                          </ul>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                  </div>
+                )}
+
               <Button
                 onClick={handleReconcile}
-                disabled={!reconciliationData.hasPhysicalInput || isReconciling}
+                disabled={
+                  !reconciliationData.hasPhysicalInput ||
+                  isReconciling ||
+                  (postAdjustment && !reconciliationData.isBalanced && !adjustmentReason.trim())
+                }
                 className="w-full"
               >
                 {isReconciling ? "Recording Reconciliation..." : "Complete Reconciliation"}
@@ -259,8 +587,86 @@ export default function ReconcilePage() {
           </Card>
         </motion.div>
 
+        {/* Period Lock */}
+        {state.closedThrough && (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.15 }}>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Lock className="h-5 w-5" />
+                  <span>Closed Through {new Date(state.closedThrough).toLocaleDateString()}</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Transactions on or before this date can't be added, voided or changed, and backups that would rewrite
+                  them are refused on import.
+                </p>
+
+                {showReopenForm ? (
+                  <div className="space-y-3 rounded-lg border border-yellow-200 dark:border-yellow-800 p-4">
+                    <Label htmlFor="reopenReason">Reason for reopening *</Label>
+                    <Textarea
+                      id="reopenReason"
+                      value={reopenReason}
+                      onChange={(e) => setReopenReason(e.target.value)}
+                      placeholder="Why does this reconciled period need to change?"
+                      rows={2}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      The lock moves back to the previous close, or is removed if there is none.
+                    </p>
+                    <div className="flex space-x-2">
+                      <Button
+                        variant="outline"
+                        className="flex-1 bg-transparent"
+                        onClick={() => setShowReopenForm(false)}
+                      >
+                        Cancel
+                      </Button>
+                      <Button className="flex-1" onClick={handleReopen} disabled={!reopenReason.trim()}>
+                        Reopen Period
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <Button variant="outline" className="bg-transparent" onClick={() => setShowReopenForm(true)}>
+                    <LockOpen className="h-4 w-4 mr-2" />
+                    Reopen Period
+                  </Button>
+                )}
+
+                {!!state.periodLog?.length && (
+                  <div className="space-y-2">
+                    {state.periodLog
+                      .slice(-5)
+                      .reverse()
+                      .map((event) => (
+                        <div key={event.timestamp} className="flex items-start justify-between text-sm border-t pt-2">
+                          <div>
+                            <Badge variant={event.action === "close" ? "secondary" : "outline"} className="text-xs">
+                              {event.action === "close" ? "Closed" : "Reopened"}
+                            </Badge>{" "}
+                            {event.closedThrough
+                              ? `through ${new Date(event.closedThrough).toLocaleDateString()}`
+                              : "fully open"}
+                            {event.reason && <span className="text-muted-foreground"> • {event.reason}</span>}
+                            {event.enteredBy && <span className="text-muted-foreground"> • by {event.enteredBy}</span>}
+                          </div>
+                          <span className="text-xs text-muted-foreground whitespace-nowrap">
+                            {new Date(event.timestamp).toLocaleString()}
+                          </span>
+                        </div>
+                      ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
         {/* Reconciliation History */}
-        {reconciliationHistory.length > 0 && (
+        {fundHistory.length > 0 && (
           <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.2 }}>
             <Card>
               <CardHeader>
@@ -271,7 +677,7 @@ export default function ReconcilePage() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4 max-h-96 overflow-y-auto">
-                  {reconciliationHistory.slice(0, 10).map((record, index) => (
+                  {fundHistory.slice(0, 10).map((record, index) => (
                     <motion.div
                       key={record.id}
                       initial={{ opacity: 0, x: -20 }}
@@ -283,29 +689,48 @@ export default function ReconcilePage() {
                         <div className="flex items-center space-x-2">
                           <Calendar className="h-4 w-4 text-muted-foreground" />
                           <span className="text-sm font-medium">{new Date(record.date).toLocaleDateString()}</span>
+                          {record.enteredBy && (
+                            <span className="text-xs text-muted-foreground">by {record.enteredBy}</span>
+                          )}
                         </div>
-                        <Badge
-                          variant={Math.abs(record.difference) < 0.01 ? "default" : "destructive"}
-                          className="text-xs"
-                        >
-                          {Math.abs(record.difference) < 0.01 ? "Balanced" : "Discrepancy"}
+                        <Badge variant={record.difference === 0 ? "default" : "destructive"} className="text-xs">
+                          {record.difference === 0 ? "Balanced" : "Discrepancy"}
                         </Badge>
+                        {state.transactions.some((t) => t.reconciliationId === record.id) && (
+                          <Badge variant="outline" className="text-xs">
+                            Adjusted
+                          </Badge>
+                        )}
+                        {record.denominations?.length ? (
+                          <Button variant="ghost" size="sm" onClick={() => setViewingCount(record)}>
+                            <Coins className="h-4 w-4 mr-1" />
+                            Count
+                          </Button>
+                        ) : null}
                       </div>
                       <div className="text-right">
                         <div className="text-sm">
-                          System: ${record.systemBalance.toFixed(2)} | Physical: ${record.physicalBalance.toFixed(2)}
+                          System: {formatCurrency(record.systemBalance, record.currency ?? state.currency)} | Physical:
+                          {formatCurrency(record.physicalBalance, record.currency ?? state.currency)}
                         </div>
                         <div
                           className={`text-sm font-medium ${
-                            Math.abs(record.difference) < 0.01
+                            record.difference === 0
                               ? "text-green-600"
                               : record.difference > 0
                                 ? "text-green-600"
                                 : "text-red-600"
                           }`}
                         >
-                          Difference: {record.difference >= 0 ? "+" : ""}${record.difference.toFixed(2)}
+                          Difference:{" "}
+                          {formatCurrency(record.difference, record.currency ?? state.currency, "exceptZero")}
                         </div>
+                        {record.outstandingAdvances ? (
+                          <div className="text-xs text-muted-foreground">
+                            Advances out:{" "}
+                            {formatCurrency(record.outstandingAdvances, record.currency ?? state.currency)}
+                          </div>
+                        ) : null}
                       </div>
                     </motion.div>
                   ))}
@@ -314,6 +739,45 @@ export default function ReconcilePage() {
             </Card>
           </motion.div>
         )}
+
+        {/* Denomination Breakdown */}
+        <Modal open={!!viewingCount} onOpenChange={(open) => !open && setViewingCount(null)}>
+          <ModalContent className="sm:max-w-md">
+            <ModalHeader>
+              <ModalTitle>
+                Cash Count {viewingCount && `• ${new Date(viewingCount.date).toLocaleDateString()}`}
+              </ModalTitle>
+            </ModalHeader>
+            {viewingCount && (
+              <div className="space-y-4">
+                <div className="space-y-1 text-sm">
+                  {viewingCount.denominations?.map((count) => (
+                    <div key={`${count.kind}-${count.value}`} className="flex justify-between py-1 border-b">
+                      <span>
+                        {formatCurrency(count.value, viewingCount.currency ?? state.currency)} {count.kind} ×{" "}
+                        {count.quantity}
+                      </span>
+                      <span className="font-mono">
+                        {formatCurrency(count.value * count.quantity, viewingCount.currency ?? state.currency)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between font-semibold">
+                  <span>Counted Total</span>
+                  <span className="font-mono">
+                    {formatCurrency(viewingCount.physicalBalance, viewingCount.currency ?? state.currency)}
+                  </span>
+                </div>
+                {viewingCount.notes && <p className="text-sm text-muted-foreground">{viewingCount.notes}</p>}
+                <Button variant="outline" className="w-full" onClick={() => printCount(viewingCount, state.name)}>
+                  <Printer className="h-4 w-4 mr-2" />
+                  Print Count Sheet
+                </Button>
+              </div>
+            )}
+          </ModalContent>
+        </Modal>
       </div>
     </AppLayout>
   )
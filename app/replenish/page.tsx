@@ -5,7 +5,19 @@ import type React from "react"
 import { useState } from "react"
 import { motion } from "framer-motion"
 import { useRouter } from "next/navigation"
-import { Plus, DollarSign, Calendar, Building, FileText, ArrowLeft, TrendingUp } from "lucide-react"
+import {
+  Plus,
+  DollarSign,
+  Calendar,
+  Building,
+  FileText,
+  ArrowLeft,
+  TrendingUp,
+  FileUp,
+  RefreshCw,
+  AlertTriangle,
+  Printer,
+} from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -14,40 +26,49 @@ import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { AppLayout } from "@/components/layout/AppLayout"
-import { usePettyCash } from "@/contexts/PettyCashContext"
+import { usePettyCash, firstOpenDate, isClosedDate } from "@/contexts/PettyCashContext"
+import { useUser } from "@/contexts/UserContext"
 import { useToast } from "@/hooks/use-toast"
+import { amountStep, formatAmount, formatCurrency } from "@/lib/money"
+import { sanitizeAmount } from "@/lib/security"
+import { REPLENISHMENT_SOURCES } from "@/lib/ledger"
+import { computeImprestReplenishment } from "@/lib/imprest"
 import Link from "next/link"
 
-const REPLENISHMENT_SOURCES = [
-  "Petty Cash Account",
-  "Operating Account",
-  "Main Bank Account",
-  "Cash Advance",
-  "Expense Reimbursement",
-  "Other",
-]
-
 export default function ReplenishPage() {
   const { state, dispatch } = usePettyCash()
+  const { currentUser } = useUser()
   const { toast } = useToast()
   const router = useRouter()
 
-  const [amount, setAmount] = useState("")
+  // Imprest funds start from the top-up the disbursements since the last one call for
+  const imprest = computeImprestReplenishment(state)
+  const [amount, setAmount] = useState(() =>
+    imprest && imprest.expected > 0 ? formatAmount(imprest.expected, state.currency) : "",
+  )
   const [source, setSource] = useState("")
   const [date, setDate] = useState(new Date().toISOString().split("T")[0])
   const [notes, setNotes] = useState("")
   const [isSubmitting, setIsSubmitting] = useState(false)
 
+  // Amounts are handled in minor units from here on
+  const amountValue = sanitizeAmount(amount, state.currency)
+
   // Validation
   const errors = {
-    amount: !amount || Number.parseFloat(amount) <= 0 ? "Amount must be greater than 0" : "",
+    amount: !amount || amountValue <= 0 ? "Amount must be greater than 0" : "",
     source: !source ? "Source is required" : "",
     date: !date ? "Date is required" : "",
     futureDate: new Date(date) > new Date() ? "Date cannot be in the future" : "",
+    closedPeriod: isClosedDate(state, date)
+      ? `Reconciled through ${new Date(state.closedThrough!).toLocaleDateString()}; reopen the period to back-date`
+      : "",
   }
 
   const hasErrors = Object.values(errors).some((error) => error !== "")
-  const amountValue = Number.parseFloat(amount) || 0
+
+  // Entered amount less the imprest top-up; flagged when it isn't zero
+  const imprestDifference = imprest && amount ? amountValue - imprest.expected : 0
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -73,12 +94,19 @@ export default function ReplenishPage() {
           amount: amountValue,
           date,
           source,
+          notes: notes.trim(),
+          expectedAmount: imprest?.expected,
+          enteredBy: currentUser?.name,
         },
       })
 
       toast({
         title: "Fund Replenished",
-        description: `$${amountValue.toFixed(2)} added from ${source}`,
+        description: `${formatCurrency(amountValue, state.currency)} added from ${source}${
+          imprestDifference !== 0
+            ? `; ${formatCurrency(Math.abs(imprestDifference), state.currency)} ${imprestDifference > 0 ? "over" : "under"} the imprest top-up`
+            : ""
+        }`,
       })
 
       // Reset form
@@ -137,7 +165,21 @@ export default function ReplenishPage() {
               <Plus className="h-8 w-8 text-green-600" />
               <span>Replenish Fund</span>
             </h1>
-            <p className="text-muted-foreground">Add money to your petty cash fund</p>
+            <p className="text-muted-foreground">Add money to {state.name}</p>
+          </div>
+          <div className="ml-auto flex flex-col sm:flex-row gap-2">
+            <Link href="/replenish/voucher">
+              <Button variant="outline" className="w-full">
+                <Printer className="h-4 w-4 mr-2" />
+                Generate Voucher
+              </Button>
+            </Link>
+            <Link href="/replenish/statement">
+              <Button variant="outline" className="w-full">
+                <FileUp className="h-4 w-4 mr-2" />
+                Import Statement
+              </Button>
+            </Link>
           </div>
         </div>
 
@@ -146,12 +188,104 @@ export default function ReplenishPage() {
           <Alert className="border-green-200 bg-green-50 dark:border-green-800 dark:bg-green-950">
             <TrendingUp className="h-4 w-4 text-green-600" />
             <AlertDescription className="text-green-800 dark:text-green-200">
-              <strong>Current Balance:</strong> ${state.balance.toFixed(2)} • Adding funds will increase your available
-              balance
+              <strong>Current Balance:</strong> {formatCurrency(state.balance, state.currency)} • Adding funds will
+              increase your available balance
             </AlertDescription>
           </Alert>
         </motion.div>
 
+        {/* Imprest */}
+        {imprest && (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.05 }}>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <RefreshCw className="h-5 w-5" />
+                  <span>Imprest Replenishment</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Disbursements since the last top-up
+                  {imprest.since && ` on ${new Date(imprest.since.date).toLocaleDateString()}`}, by category
+                </p>
+                {imprest.byCategory.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No disbursements since the last top-up.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground">
+                        <th className="pb-2 font-medium">Category</th>
+                        <th className="pb-2 font-medium text-right">Items</th>
+                        <th className="pb-2 font-medium text-right">Amount</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {imprest.byCategory.map((total) => (
+                        <tr key={total.category} className="border-t">
+                          <td className="py-2">{total.category}</td>
+                          <td className="py-2 text-right">{total.count}</td>
+                          <td className="py-2 text-right font-mono">{formatCurrency(total.amount, state.currency)}</td>
+                        </tr>
+                      ))}
+                      <tr className="border-t font-medium">
+                        <td className="py-2">Total Disbursed</td>
+                        <td className="py-2 text-right">{imprest.disbursements.length}</td>
+                        <td className="py-2 text-right font-mono">
+                          {formatCurrency(imprest.disbursed, state.currency)}
+                        </td>
+                      </tr>
+                    </tbody>
+                  </table>
+                )}
+
+                <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Imprest Amount</p>
+                    <p className="font-mono font-medium">{formatCurrency(state.imprestAmount!, state.currency)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Cash on Hand</p>
+                    <p className="font-mono font-medium">{formatCurrency(state.balance, state.currency)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Outstanding Advances</p>
+                    <p className="font-mono font-medium">
+                      {formatCurrency(imprest.outstandingAdvances, state.currency)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Required Top-Up</p>
+                    <p className="font-mono font-medium text-green-600">
+                      {formatCurrency(imprest.expected, state.currency)}
+                    </p>
+                  </div>
+                </div>
+
+                {imprest.unexplained !== 0 && (
+                  <Alert className="border-yellow-200 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-950">
+                    <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                    <AlertDescription className="text-yellow-800 dark:text-yellow-200">
+                      The required top-up is {formatCurrency(Math.abs(imprest.unexplained), state.currency)}{" "}
+                      {imprest.unexplained > 0 ? "more" : "less"} than the disbursements above. Voids of earlier entries
+                      or over/short adjustments since the last top-up account for the difference.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setAmount(formatAmount(imprest.expected, state.currency))}
+                  disabled={imprest.expected === 0}
+                >
+                  Use Required Top-Up
+                </Button>
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
         {/* Form */}
         <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.1 }}>
           <Card>
@@ -173,14 +307,21 @@ export default function ReplenishPage() {
                     <Input
                       id="amount"
                       type="number"
-                      step="0.01"
-                      min="0.01"
+                      step={amountStep(state.currency)}
+                      min={amountStep(state.currency)}
                       value={amount}
                       onChange={(e) => setAmount(e.target.value)}
                       placeholder="0.00"
                       className={errors.amount ? "border-red-500" : ""}
                     />
                     {errors.amount && <p className="text-sm text-red-600">{errors.amount}</p>}
+                    {!errors.amount && imprestDifference !== 0 && (
+                      <p className="text-sm text-yellow-600">
+                        {formatCurrency(Math.abs(imprestDifference), state.currency)}{" "}
+                        {imprestDifference > 0 ? "over" : "under"} the required top-up; the fund won't end at its
+                        imprest amount
+                      </p>
+                    )}
                   </div>
 
                   {/* Date */}
@@ -194,11 +335,12 @@ export default function ReplenishPage() {
                       type="date"
                       value={date}
                       onChange={(e) => setDate(e.target.value)}
+                      min={firstOpenDate(state)}
                       max={new Date().toISOString().split("T")[0]}
-                      className={errors.date || errors.futureDate ? "border-red-500" : ""}
+                      className={errors.date || errors.futureDate || errors.closedPeriod ? "border-red-500" : ""}
                     />
-                    {(errors.date || errors.futureDate) && (
-                      <p className="text-sm text-red-600">{errors.date || errors.futureDate}</p>
+                    {(errors.date || errors.futureDate || errors.closedPeriod) && (
+                      <p className="text-sm text-red-600">{errors.date || errors.futureDate || errors.closedPeriod}</p>
                     )}
                   </div>
 
@@ -249,7 +391,7 @@ export default function ReplenishPage() {
                     <h3 className="font-medium mb-2 text-green-900 dark:text-green-100">Replenishment Summary</h3>
                     <div className="text-sm space-y-1 text-green-800 dark:text-green-200">
                       <p>
-                        <strong>Amount:</strong> ${amountValue.toFixed(2)}
+                        <strong>Amount:</strong> {formatCurrency(amountValue, state.currency)}
                       </p>
                       <p>
                         <strong>Source:</strong> {source}
@@ -258,11 +400,16 @@ export default function ReplenishPage() {
                         <strong>Date:</strong> {new Date(date).toLocaleDateString()}
                       </p>
                       <p>
-                        <strong>Current Balance:</strong> ${state.balance.toFixed(2)}
+                        <strong>Current Balance:</strong> {formatCurrency(state.balance, state.currency)}
                       </p>
                       <p>
-                        <strong>New Balance:</strong> ${(state.balance + amountValue).toFixed(2)}
+                        <strong>New Balance:</strong> {formatCurrency(state.balance + amountValue, state.currency)}
                       </p>
+                      {imprest && (
+                        <p>
+                          <strong>Imprest Amount:</strong> {formatCurrency(state.imprestAmount!, state.currency)}
+                        </p>
+                      )}
                     </div>
                   </motion.div>
                 )}
@@ -0,0 +1,671 @@
+"use client"
+
+import type React from "react"
+import { useState, useMemo } from "react"
+import { motion } from "framer-motion"
+import Link from "next/link"
+import { ArrowLeft, ArrowRight, CheckCircle, FileUp, Link2, Lock, Plus, Save, Upload } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AppLayout } from "@/components/layout/AppLayout"
+import { usePettyCash, isClosedDate } from "@/contexts/PettyCashContext"
+import { useUser } from "@/contexts/UserContext"
+import { useToast } from "@/hooks/use-toast"
+import { recordAudit } from "@/lib/audit"
+import { parseCsv } from "@/lib/csv"
+import { REPLENISHMENT_SOURCES } from "@/lib/ledger"
+import { formatCurrency } from "@/lib/money"
+import { sanitizeInput } from "@/lib/security"
+import {
+  DATE_FORMATS,
+  MATCH_TOLERANCE_DAYS,
+  applyMapping,
+  getStatementMappings,
+  guessMapping,
+  isLikelyPettyCash,
+  isOfx,
+  matchStatement,
+  parseOfx,
+  saveStatementMapping,
+} from "@/lib/statements"
+import type { DateFormat, StatementLine, StatementMapping } from "@/lib/statements"
+
+// Rows shown under the mapping so the columns can be checked
+const PREVIEW_ROWS = 5
+
+type Step = "upload" | "map" | "review"
+
+const columnValue = (column?: number) => (column === undefined ? "none" : String(column))
+const parseColumn = (value: string) => (value === "none" ? undefined : Number(value))
+
+export default function StatementImportPage() {
+  const { state, dispatch } = usePettyCash()
+  const { currentUser } = useUser()
+  const { toast } = useToast()
+
+  const [step, setStep] = useState<Step>("upload")
+  const [fileName, setFileName] = useState("")
+  const [rows, setRows] = useState<string[][]>([])
+  const [lines, setLines] = useState<StatementLine[]>([])
+  const [mapping, setMapping] = useState<StatementMapping | null>(null)
+  const [savedMappings, setSavedMappings] = useState(() => getStatementMappings())
+  const [source, setSource] = useState(REPLENISHMENT_SOURCES[0])
+  const [showAll, setShowAll] = useState(false)
+
+  const mapped = useMemo(
+    () => (mapping ? applyMapping(rows, mapping, state.currency) : { lines: [], skippedRows: [] }),
+    [rows, mapping, state.currency],
+  )
+
+  // Recomputed from the fund's transactions, so a replenishment created below shows as matched straight away
+  const matches = useMemo(() => matchStatement(lines, state.transactions), [lines, state.transactions])
+  const visibleMatches = showAll ? matches : matches.filter((m) => m.match || isLikelyPettyCash(m.line))
+  const creatable = visibleMatches.filter((m) => !m.match && !isClosedDate(state, m.line.date))
+
+  const headers = rows[0] ?? []
+  const columnLabel = (index: number) =>
+    mapping?.hasHeader && headers[index] ? headers[index] : `Column ${index + 1} (${rows[0]?.[index] ?? ""})`
+
+  const updateMapping = (changes: Partial<StatementMapping>) =>
+    setMapping((prev) => (prev ? { ...prev, ...changes } : prev))
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    if (file.size > 5 * 1024 * 1024) {
+      toast({
+        title: "File Too Large",
+        description: "Please select a statement smaller than 5MB.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const reader = new FileReader()
+    reader.onload = (e) => {
+      const text = e.target?.result as string
+      setFileName(file.name)
+
+      // OFX carries its own structure, so it goes straight to review
+      if (isOfx(text)) {
+        const parsed = parseOfx(text, state.currency)
+        if (parsed.length === 0) {
+          toast({
+            title: "Nothing to Import",
+            description: "No transactions were found in this OFX file.",
+            variant: "destructive",
+          })
+          return
+        }
+        setLines(parsed)
+        setStep("review")
+        return
+      }
+
+      const parsedRows = parseCsv(text)
+      if (parsedRows.length === 0) {
+        toast({ title: "Nothing to Import", description: "This file is empty.", variant: "destructive" })
+        return
+      }
+      setRows(parsedRows)
+      setMapping({ name: "", source, ...guessMapping(parsedRows[0]) })
+      setStep("map")
+    }
+    reader.onerror = () => {
+      toast({
+        title: "File Read Error",
+        description: "Failed to read the selected file.",
+        variant: "destructive",
+      })
+    }
+    reader.readAsText(file)
+    event.target.value = "" // Reset input
+  }
+
+  const applySavedMapping = (name: string) => {
+    const saved = savedMappings.find((m) => m.name === name)
+    if (!saved) return
+    setMapping(saved)
+    setSource(saved.source)
+  }
+
+  const handleContinue = async () => {
+    if (!mapping) return
+    if (mapped.lines.length === 0) {
+      toast({
+        title: "No Rows Read",
+        description: "Check the date format and amount columns.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const name = sanitizeInput(mapping.name)
+    if (name) {
+      const next = { ...mapping, name, source }
+      await saveStatementMapping(next)
+      recordAudit({ category: "settings", action: "Statement mapping saved", summary: name, changes: [] })
+      setSavedMappings(getStatementMappings())
+    }
+    setLines(mapped.lines)
+    setStep("review")
+  }
+
+  const createReplenishment = (line: StatementLine) =>
+    dispatch({
+      type: "REPLENISH",
+      payload: {
+        amount: -line.amount,
+        date: line.date,
+        source,
+        notes: line.description,
+        reference: line.reference,
+        enteredBy: currentUser?.name,
+      },
+    })
+
+  const handleCreate = (line: StatementLine) => {
+    createReplenishment(line)
+    toast({
+      title: "Replenishment Recorded",
+      description: `${formatCurrency(-line.amount, state.currency)} on ${new Date(line.date).toLocaleDateString()}`,
+    })
+  }
+
+  const handleCreateAll = () => {
+    creatable.forEach((m) => createReplenishment(m.line))
+    toast({
+      title: "Replenishments Recorded",
+      description: `${creatable.length} replenishments added from ${fileName}`,
+    })
+  }
+
+  const startOver = () => {
+    setStep("upload")
+    setRows([])
+    setLines([])
+    setMapping(null)
+  }
+
+  if (!state.isInitialized) {
+    return (
+      <AppLayout>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <Card className="max-w-md w-full">
+            <CardHeader className="text-center">
+              <CardTitle>Fund Not Initialized</CardTitle>
+            </CardHeader>
+            <CardContent className="text-center space-y-4">
+              <p className="text-muted-foreground">Please initialize your petty cash fund first.</p>
+              <Link href="/initialize">
+                <Button>Initialize Fund</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </AppLayout>
+    )
+  }
+
+  return (
+    <AppLayout>
+      <div className="max-w-4xl mx-auto space-y-8">
+        {/* Header */}
+        <div className="flex items-center space-x-4">
+          <Link href="/replenish">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold flex items-center space-x-2">
+              <FileUp className="h-8 w-8 text-green-600" />
+              <span>Import Bank Statement</span>
+            </h1>
+            <p className="text-muted-foreground">
+              Match withdrawals to replenishments of {state.name}
+              {fileName && ` • ${fileName}`}
+            </p>
+          </div>
+        </div>
+
+        {step === "upload" && (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Upload className="h-5 w-5" />
+                  <span>Choose a Statement</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Upload a CSV export or an OFX/QFX file from your bank or card provider. CSV columns are mapped in the
+                  next step, and the mapping can be saved for next time.
+                </p>
+                <Label htmlFor="statement-file" className="cursor-pointer">
+                  <Button variant="outline" className="w-full justify-center bg-transparent" asChild>
+                    <span>
+                      <Upload className="h-4 w-4 mr-2" />
+                      Select File
+                    </span>
+                  </Button>
+                </Label>
+                <input
+                  id="statement-file"
+                  type="file"
+                  accept=".csv,.ofx,.qfx,.txt"
+                  onChange={handleFile}
+                  className="hidden"
+                />
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
+        {step === "map" && mapping && (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Map Columns</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {savedMappings.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Saved Mapping</Label>
+                    <Select onValueChange={applySavedMapping}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Use a saved bank mapping" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {savedMappings.map((m) => (
+                          <SelectItem key={m.name} value={m.name}>
+                            {m.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="has-header">First row is a header</Label>
+                  <Switch
+                    id="has-header"
+                    checked={mapping.hasHeader}
+                    onCheckedChange={(checked) => updateMapping({ hasHeader: checked })}
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Date Column</Label>
+                    <Select
+                      value={columnValue(mapping.dateColumn)}
+                      onValueChange={(value) => updateMapping({ dateColumn: Number(value) })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {headers.map((_, i) => (
+                          <SelectItem key={i} value={String(i)}>
+                            {columnLabel(i)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Date Format</Label>
+                    <Select
+                      value={mapping.dateFormat}
+                      onValueChange={(value) => updateMapping({ dateFormat: value as DateFormat })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DATE_FORMATS.map((format) => (
+                          <SelectItem key={format} value={format}>
+                            {format}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Description Column</Label>
+                    <Select
+                      value={columnValue(mapping.descriptionColumn)}
+                      onValueChange={(value) => updateMapping({ descriptionColumn: Number(value) })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {headers.map((_, i) => (
+                          <SelectItem key={i} value={String(i)}>
+                            {columnLabel(i)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Reference Column</Label>
+                    <Select
+                      value={columnValue(mapping.referenceColumn)}
+                      onValueChange={(value) => updateMapping({ referenceColumn: parseColumn(value) })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">None</SelectItem>
+                        {headers.map((_, i) => (
+                          <SelectItem key={i} value={String(i)}>
+                            {columnLabel(i)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Amounts</Label>
+                    <Select
+                      value={mapping.amountColumn !== undefined ? "single" : "split"}
+                      onValueChange={(value) =>
+                        updateMapping(
+                          value === "single"
+                            ? {
+                                amountColumn: mapping.debitColumn ?? 0,
+                                debitColumn: undefined,
+                                creditColumn: undefined,
+                              }
+                            : { amountColumn: undefined, debitColumn: mapping.amountColumn ?? 0, creditColumn: 0 },
+                        )
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="single">One amount column</SelectItem>
+                        <SelectItem value="split">Separate debit and credit columns</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {mapping.amountColumn !== undefined ? (
+                    <div className="space-y-2">
+                      <Label>Amount Column</Label>
+                      <Select
+                        value={columnValue(mapping.amountColumn)}
+                        onValueChange={(value) => updateMapping({ amountColumn: Number(value) })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {headers.map((_, i) => (
+                            <SelectItem key={i} value={String(i)}>
+                              {columnLabel(i)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ) : (
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-2">
+                        <Label>Debit Column</Label>
+                        <Select
+                          value={columnValue(mapping.debitColumn)}
+                          onValueChange={(value) => updateMapping({ debitColumn: Number(value) })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {headers.map((_, i) => (
+                              <SelectItem key={i} value={String(i)}>
+                                {columnLabel(i)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Credit Column</Label>
+                        <Select
+                          value={columnValue(mapping.creditColumn)}
+                          onValueChange={(value) => updateMapping({ creditColumn: Number(value) })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {headers.map((_, i) => (
+                              <SelectItem key={i} value={String(i)}>
+                                {columnLabel(i)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-3">
+                  {mapping.amountColumn !== undefined && (
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="withdrawals-positive">Withdrawals are shown as positive amounts</Label>
+                      <Switch
+                        id="withdrawals-positive"
+                        checked={!!mapping.withdrawalsPositive}
+                        onCheckedChange={(checked) => updateMapping({ withdrawalsPositive: checked })}
+                      />
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="decimal-comma">Amounts use a decimal comma (1.234,56)</Label>
+                    <Switch
+                      id="decimal-comma"
+                      checked={!!mapping.decimalComma}
+                      onCheckedChange={(checked) => updateMapping({ decimalComma: checked })}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Replenishment Source</Label>
+                    <Select value={source} onValueChange={setSource}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {REPLENISHMENT_SOURCES.map((src) => (
+                          <SelectItem key={src} value={src}>
+                            {src}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="mapping-name">Save Mapping As (Optional)</Label>
+                    <Input
+                      id="mapping-name"
+                      value={mapping.name}
+                      onChange={(e) => updateMapping({ name: e.target.value })}
+                      placeholder="e.g., First National checking"
+                      maxLength={60}
+                    />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Preview */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Preview</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {mapped.lines.slice(0, PREVIEW_ROWS).map((line) => (
+                  <div key={line.id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{line.description || "No description"}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(line.date).toLocaleDateString()}
+                        {line.reference && ` • Ref: ${line.reference}`}
+                      </p>
+                    </div>
+                    <span className={line.amount < 0 ? "text-red-600" : "text-green-600"}>
+                      {formatCurrency(line.amount, state.currency)}
+                    </span>
+                  </div>
+                ))}
+                <p className="text-sm text-muted-foreground">
+                  {mapped.lines.length} rows read
+                  {mapped.skippedRows.length > 0 &&
+                    ` • ${mapped.skippedRows.length} skipped (rows ${mapped.skippedRows.slice(0, 10).join(", ")}${mapped.skippedRows.length > 10 ? ", …" : ""})`}
+                </p>
+              </CardContent>
+            </Card>
+
+            <div className="flex space-x-4">
+              <Button variant="outline" onClick={startOver} className="flex-1 bg-transparent">
+                Choose Another File
+              </Button>
+              <Button onClick={handleContinue} className="flex-1">
+                {mapping.name.trim() ? <Save className="h-4 w-4 mr-2" /> : <ArrowRight className="h-4 w-4 mr-2" />}
+                {mapping.name.trim() ? "Save Mapping and Continue" : "Continue"}
+              </Button>
+            </div>
+          </motion.div>
+        )}
+
+        {step === "review" && (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                  <span>Withdrawals</span>
+                  <div className="flex items-center space-x-2 text-sm font-normal">
+                    <Switch id="show-all" checked={showAll} onCheckedChange={setShowAll} />
+                    <Label htmlFor="show-all">Show all withdrawals</Label>
+                  </div>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  {showAll
+                    ? "Every withdrawal on the statement."
+                    : "Withdrawals that look like petty cash (cash, ATM, petty) and any already matched."}{" "}
+                  Replenishments with the same amount within {MATCH_TOLERANCE_DAYS} days count as a match.
+                </p>
+
+                {visibleMatches.length === 0 ? (
+                  <div className="text-center py-8">
+                    <p className="text-muted-foreground">No petty cash withdrawals found</p>
+                    {!showAll && (
+                      <Button variant="outline" onClick={() => setShowAll(true)} className="mt-4 bg-transparent">
+                        Show All Withdrawals
+                      </Button>
+                    )}
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {visibleMatches.map(({ line, match }) => (
+                      <div key={line.id} className="flex items-center justify-between p-4 border rounded-lg">
+                        <div className="min-w-0 flex-1">
+                          <p className="text-sm font-medium truncate">{line.description || "No description"}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {new Date(line.date).toLocaleDateString()}
+                            {line.reference && ` • Ref: ${line.reference}`}
+                          </p>
+                        </div>
+                        <span className="font-semibold mx-4">{formatCurrency(-line.amount, state.currency)}</span>
+                        {match ? (
+                          <Link href={`/history?transaction=${match.id}`}>
+                            <Badge variant="outline" className="border-green-500 text-green-700 dark:text-green-300">
+                              <Link2 className="h-3 w-3 mr-1" />
+                              Matched {new Date(match.date).toLocaleDateString()}
+                            </Badge>
+                          </Link>
+                        ) : isClosedDate(state, line.date) ? (
+                          <Badge variant="outline">
+                            <Lock className="h-3 w-3 mr-1" />
+                            Period closed
+                          </Badge>
+                        ) : (
+                          <Button
+                            size="sm"
+                            onClick={() => handleCreate(line)}
+                            className="bg-green-600 hover:bg-green-700"
+                          >
+                            <Plus className="h-4 w-4 mr-1" />
+                            Create
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="flex flex-col sm:flex-row gap-4">
+              <div className="flex-1 space-y-2">
+                <Label>Source for New Replenishments</Label>
+                <Select value={source} onValueChange={setSource}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPLENISHMENT_SOURCES.map((src) => (
+                      <SelectItem key={src} value={src}>
+                        {src}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-end gap-4">
+                <Button variant="outline" onClick={startOver} className="bg-transparent">
+                  Import Another
+                </Button>
+                <Button
+                  onClick={handleCreateAll}
+                  disabled={creatable.length === 0}
+                  className="bg-green-600 hover:bg-green-700"
+                >
+                  {creatable.length === 0 ? (
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                  ) : (
+                    <Plus className="h-4 w-4 mr-2" />
+                  )}
+                  {creatable.length === 0 ? "All Matched" : `Create ${creatable.length} Unmatched`}
+                </Button>
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </div>
+    </AppLayout>
+  )
+}
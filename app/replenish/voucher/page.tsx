@@ -0,0 +1,242 @@
+"use client"
+
+import Link from "next/link"
+import { ArrowLeft, Printer } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { AppLayout } from "@/components/layout/AppLayout"
+import { usePettyCash } from "@/contexts/PettyCashContext"
+import type { Transaction } from "@/contexts/PettyCashContext"
+import { recordAudit } from "@/lib/audit"
+import { formatCurrency } from "@/lib/money"
+import { computeImprestReplenishment, currentPeriod } from "@/lib/imprest"
+
+const SIGNATURES = [
+  { role: "Prepared by (Custodian)", field: "custodian" },
+  { role: "Approved by", field: "approver" },
+] as const
+
+export default function ReplenishmentVoucherPage() {
+  const { state } = usePettyCash()
+
+  const period = currentPeriod(state)
+  const imprest = computeImprestReplenishment(state)
+  // Imprest funds ask for whatever restores the imprest; others for what was spent
+  const requested = imprest ? imprest.expected : period.disbursed
+  // Voids of earlier entries and over/short adjustments in the period
+  const otherMovements = period.closingBalance - period.openingBalance + period.disbursed + period.advanced
+  const generatedAt = new Date()
+
+  // Disbursements grouped under their category, in the order of the category totals
+  const groups = period.byCategory.map((total) => ({
+    ...total,
+    disbursements: period.disbursements.filter((t) => (t.category || "Uncategorized") === total.category),
+  }))
+
+  const handlePrint = () => {
+    recordAudit({
+      category: "export",
+      action: "Replenishment voucher printed",
+      fundId: state.id,
+      summary: `${period.disbursements.length} disbursements, ${formatCurrency(requested, state.currency)} requested`,
+      changes: [],
+    })
+    window.print()
+  }
+
+  const payeeOf = (t: Transaction) => [t.recipient, t.payee].filter(Boolean).join(" / ")
+
+  if (!state.isInitialized) {
+    return (
+      <AppLayout>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <Card className="max-w-md w-full">
+            <CardHeader className="text-center">
+              <CardTitle>Fund Not Initialized</CardTitle>
+            </CardHeader>
+            <CardContent className="text-center space-y-4">
+              <p className="text-muted-foreground">Please initialize your petty cash fund first.</p>
+              <Link href="/initialize">
+                <Button>Initialize Fund</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </AppLayout>
+    )
+  }
+
+  return (
+    <AppLayout>
+      <div className="max-w-4xl mx-auto space-y-8">
+        {/* Header */}
+        <div className="flex items-center space-x-4">
+          <Link href="/replenish">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold flex items-center space-x-2">
+              <Printer className="h-8 w-8 text-green-600" />
+              <span>Replenishment Voucher</span>
+            </h1>
+            <p className="text-muted-foreground">Print it, or choose "Save as PDF" in the print dialog</p>
+          </div>
+          <Button onClick={handlePrint} className="ml-auto">
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+        </div>
+
+        {/* Voucher */}
+        <div data-print-area className="bg-white text-black rounded-lg border p-8 space-y-8 text-sm">
+          <div className="flex justify-between items-start gap-4">
+            <div>
+              <h2 className="text-2xl font-bold">Petty Cash Replenishment Request</h2>
+              <p>
+                {state.name}
+                {state.custodian && ` • Custodian: ${state.custodian}`}
+              </p>
+            </div>
+            <div className="text-right">
+              <p>
+                <strong>Date:</strong> {generatedAt.toLocaleDateString()}
+              </p>
+              <p>
+                <strong>Period:</strong> {period.since ? new Date(period.since.date).toLocaleDateString() : "Start"} –{" "}
+                {generatedAt.toLocaleDateString()}
+              </p>
+              <p>
+                <strong>Currency:</strong> {state.currency}
+              </p>
+            </div>
+          </div>
+
+          {/* Disbursements */}
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="border-b-2 border-black text-left">
+                <th className="py-2 pr-2">Date</th>
+                <th className="py-2 pr-2">Ref</th>
+                <th className="py-2 pr-2">Paid To</th>
+                <th className="py-2 pr-2">Purpose</th>
+                <th className="py-2 text-right">Amount</th>
+              </tr>
+            </thead>
+            {groups.length === 0 ? (
+              <tbody>
+                <tr>
+                  <td colSpan={5} className="py-4 text-center">
+                    No disbursements since the last replenishment.
+                  </td>
+                </tr>
+              </tbody>
+            ) : (
+              groups.map((group) => (
+                <tbody key={group.category} className="break-inside-avoid">
+                  <tr>
+                    <td colSpan={5} className="pt-4 pb-1 font-semibold">
+                      {group.category}
+                    </td>
+                  </tr>
+                  {group.disbursements.map((t) => (
+                    <tr key={t.id} className="border-b border-gray-300">
+                      <td className="py-1 pr-2 whitespace-nowrap">{new Date(t.date).toLocaleDateString()}</td>
+                      <td className="py-1 pr-2">{t.reference || ""}</td>
+                      <td className="py-1 pr-2">{payeeOf(t)}</td>
+                      <td className="py-1 pr-2">{t.purpose}</td>
+                      <td className="py-1 text-right font-mono">{formatCurrency(t.amount, state.currency)}</td>
+                    </tr>
+                  ))}
+                  <tr>
+                    <td colSpan={4} className="py-1 pr-2 text-right">
+                      Subtotal {group.category} ({group.count})
+                    </td>
+                    <td className="py-1 text-right font-mono font-semibold">
+                      {formatCurrency(group.amount, state.currency)}
+                    </td>
+                  </tr>
+                </tbody>
+              ))
+            )}
+            <tfoot>
+              <tr className="border-t-2 border-black font-bold">
+                <td colSpan={4} className="py-2 pr-2 text-right">
+                  Total Disbursed ({period.disbursements.length})
+                </td>
+                <td className="py-2 text-right font-mono">{formatCurrency(period.disbursed, state.currency)}</td>
+              </tr>
+            </tfoot>
+          </table>
+
+          {/* Balances */}
+          <div className="ml-auto max-w-sm space-y-1 break-inside-avoid">
+            <div className="flex justify-between">
+              <span>Opening Balance</span>
+              <span className="font-mono">{formatCurrency(period.openingBalance, state.currency)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Less Disbursements</span>
+              <span className="font-mono">{formatCurrency(-period.disbursed, state.currency)}</span>
+            </div>
+            {period.advanced !== 0 && (
+              <div className="flex justify-between">
+                <span>Cash Advances, Net of Settlements</span>
+                <span className="font-mono">{formatCurrency(-period.advanced, state.currency, "exceptZero")}</span>
+              </div>
+            )}
+            {otherMovements !== 0 && (
+              <div className="flex justify-between">
+                <span>Voids and Adjustments</span>
+                <span className="font-mono">{formatCurrency(otherMovements, state.currency, "exceptZero")}</span>
+              </div>
+            )}
+            <div className="flex justify-between border-t border-black pt-1 font-semibold">
+              <span>Closing Balance (Cash on Hand)</span>
+              <span className="font-mono">{formatCurrency(period.closingBalance, state.currency)}</span>
+            </div>
+            {period.outstandingAdvances > 0 && (
+              <div className="flex justify-between">
+                <span>Outstanding Advances</span>
+                <span className="font-mono">{formatCurrency(period.outstandingAdvances, state.currency)}</span>
+              </div>
+            )}
+            {imprest && (
+              <div className="flex justify-between">
+                <span>Imprest Amount</span>
+                <span className="font-mono">{formatCurrency(state.imprestAmount!, state.currency)}</span>
+              </div>
+            )}
+            <div className="flex justify-between border-t-2 border-black pt-1 text-base font-bold">
+              <span>Replenishment Requested</span>
+              <span className="font-mono">{formatCurrency(requested, state.currency)}</span>
+            </div>
+          </div>
+
+          {/* Signatures */}
+          <div className="grid grid-cols-2 gap-12 pt-8 break-inside-avoid">
+            {SIGNATURES.map((signature) => (
+              <div key={signature.field} className="space-y-6">
+                <p className="font-semibold">{signature.role}</p>
+                <div className="border-b border-black h-10" />
+                <p>Signature</p>
+                <p>
+                  Name:{" "}
+                  {signature.field === "custodian" && state.custodian ? (
+                    state.custodian
+                  ) : (
+                    <span className="inline-block w-48 border-b border-black" />
+                  )}
+                </p>
+                <p>
+                  Date: <span className="inline-block w-32 border-b border-black" />
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </AppLayout>
+  )
+}
@@ -1,14 +1,42 @@
 "use client"
 
-import { useState, useMemo } from "react"
+import { useState, useMemo, useRef } from "react"
+import Link from "next/link"
 import { motion } from "framer-motion"
-import { Calendar, Download, TrendingUp, TrendingDown, DollarSign } from "lucide-react"
+import {
+  Calendar,
+  Download,
+  TrendingUp,
+  TrendingDown,
+  DollarSign,
+  Receipt,
+  BookOpen,
+  Scale,
+  FileText,
+  FileSpreadsheet,
+  PiggyBank,
+  Contact,
+} from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { AppLayout } from "@/components/layout/AppLayout"
-import { usePettyCash } from "@/contexts/PettyCashContext"
+import { usePettyCash, balanceEffect, isCounted, isPosted, isVoidEntry } from "@/contexts/PettyCashContext"
+import { useToast } from "@/hooks/use-toast"
+import { slugify } from "@/lib/utils"
+import { recordAudit } from "@/lib/audit"
+import { formatAmount, formatCurrency } from "@/lib/money"
+import { getReceiptThreshold, isMissingReceipt } from "@/lib/receipts"
+import { LEDGER_FORMATS, buildJournal, formatJournal, getLedgerAccounts } from "@/lib/ledger"
+import type { LedgerFormat } from "@/lib/ledger"
+import { svgToJpeg } from "@/lib/pdf"
+import { budgetStatuses, budgetWindows, getBudgetSettings } from "@/lib/budgets"
+import { getCategories } from "@/lib/disbursements"
+import { recipientTotals } from "@/lib/recipients"
+import { buildReportPdf, buildReportXlsx } from "@/lib/reports"
+import type { ReportCharts, ReportData, ReportOptions } from "@/lib/reports"
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart"
 import { BarChart, Bar, XAxis, YAxis, ResponsiveContainer, PieChart, Pie, Cell } from "recharts"
 
@@ -16,11 +44,19 @@ const COLORS = ["#0088FE", "#00C49F", "#FFBB28", "#FF8042"]
 
 export default function ReportPage() {
   const { state } = usePettyCash()
+  const { toast } = useToast()
   const [startDate, setStartDate] = useState("")
   const [endDate, setEndDate] = useState("")
   const [hasGenerated, setHasGenerated] = useState(false)
+  const [ledgerFormat, setLedgerFormat] = useState<LedgerFormat>("csv")
+  const [isExporting, setIsExporting] = useState(false)
+  // Rendered charts, captured into the PDF
+  const monthlyChartRef = useRef<HTMLDivElement>(null)
+  const distributionChartRef = useRef<HTMLDivElement>(null)
 
-  const reportData = useMemo(() => {
+  const receiptThreshold = getReceiptThreshold(state.currency)
+
+  const reportData = useMemo((): ReportData | null => {
     if (!startDate || !endDate) return null
 
     const start = new Date(startDate)
@@ -31,18 +67,38 @@ export default function ReportPage() {
       return transactionDate >= start && transactionDate <= end
     })
 
-    const totalDisbursed = filteredTransactions
+    // Voided entries cancel out and pending ones haven't moved money, so totals only count live transactions
+    const countedTransactions = filteredTransactions.filter(isCounted)
+
+    const totalDisbursed = countedTransactions
       .filter((t) => t.type === "disbursement")
       .reduce((sum, t) => sum + t.amount, 0)
 
-    const totalReplenished = filteredTransactions
+    const totalReplenished = countedTransactions
       .filter((t) => t.type === "replenishment")
       .reduce((sum, t) => sum + t.amount, 0)
 
-    const netChange = totalReplenished - totalDisbursed
+    // Reconciliation adjustments, totalled per month
+    const adjustments = countedTransactions.filter((t) => t.type === "adjustment")
+    const totalOver = adjustments.filter((t) => t.overShort === "over").reduce((sum, t) => sum + t.amount, 0)
+    const totalShort = adjustments.filter((t) => t.overShort === "short").reduce((sum, t) => sum + t.amount, 0)
+    const overShortByMonth = Object.values(
+      adjustments.reduce(
+        (acc, t) => {
+          const month = new Date(t.date).toLocaleDateString("en-US", { year: "numeric", month: "short" })
+          acc[month] = acc[month] || { month, over: 0, short: 0, count: 0 }
+          acc[month][t.overShort === "short" ? "short" : "over"] += t.amount
+          acc[month].count += 1
+          return acc
+        },
+        {} as Record<string, { month: string; over: number; short: number; count: number }>,
+      ),
+    )
+
+    const netChange = totalReplenished - totalDisbursed + totalOver - totalShort
 
     // Group transactions by month for chart
-    const monthlyData = filteredTransactions.reduce(
+    const monthlyData = countedTransactions.reduce(
       (acc, transaction) => {
         const month = new Date(transaction.date).toLocaleDateString("en-US", {
           year: "numeric",
@@ -71,66 +127,149 @@ export default function ReportPage() {
       {
         name: "Disbursements",
         value: totalDisbursed,
-        count: filteredTransactions.filter((t) => t.type === "disbursement").length,
+        count: countedTransactions.filter((t) => t.type === "disbursement").length,
       },
       {
         name: "Replenishments",
         value: totalReplenished,
-        count: filteredTransactions.filter((t) => t.type === "replenishment").length,
+        count: countedTransactions.filter((t) => t.type === "replenishment").length,
       },
     ].filter((item) => item.value > 0)
 
+    // Disbursement totals per category, largest first
+    const categoryTotals = Object.values(
+      countedTransactions
+        .filter((t) => t.type === "disbursement")
+        .reduce(
+          (acc, t) => {
+            const category = t.category || "Uncategorized"
+            acc[category] = acc[category] || { category, amount: 0, count: 0 }
+            acc[category].amount += t.amount
+            acc[category].count += 1
+            return acc
+          },
+          {} as Record<string, { category: string; amount: number; count: number }>,
+        ),
+    ).sort((a, b) => b.amount - a.amount)
+
+    const missingReceipts = countedTransactions.filter((t) => isMissingReceipt(t, receiptThreshold))
+
     return {
       totalDisbursed,
       totalReplenished,
       netChange,
-      transactionCount: filteredTransactions.length,
+      transactionCount: countedTransactions.length,
+      voidedCount: filteredTransactions.filter(isVoidEntry).length,
+      unpostedCount: filteredTransactions.filter((t) => !isPosted(t)).length,
       chartData,
       typeDistribution,
+      categoryTotals,
+      // Grouped through the recipient directory, so differently typed names for one person count together
+      recipientTotals: recipientTotals(countedTransactions),
+      totalOver,
+      totalShort,
+      overShortByMonth,
+      missingReceipts,
       transactions: filteredTransactions,
     }
-  }, [state.transactions, startDate, endDate])
+  }, [state.transactions, startDate, endDate, receiptThreshold])
+
+  // Budgets are set per month or quarter, so variance covers every whole period the report touches
+  const budgetVariance = useMemo(() => {
+    if (!startDate || !endDate || startDate > endDate) return null
+
+    const settings = getBudgetSettings()
+    const windows = budgetWindows(settings.period, startDate, endDate)
+    const statuses = budgetStatuses(state.transactions, getCategories(), state.currency, windows, settings)
+    if (statuses.length === 0) return null
+
+    return {
+      from: windows[0],
+      to: windows[windows.length - 1],
+      statuses,
+      totalBudget: statuses.reduce((sum, s) => sum + s.budget, 0),
+      totalSpent: statuses.reduce((sum, s) => sum + s.spent, 0),
+    }
+  }, [state.transactions, state.currency, startDate, endDate])
+
+  // Chart values are minor units; show them the way the rest of the page does
+  const formatTooltipAmount = (value: unknown, name: unknown) => (
+    <div className="flex w-full justify-between gap-2">
+      <span className="text-muted-foreground">{String(name)}</span>
+      <span className="font-mono font-medium tabular-nums">{formatCurrency(Number(value), state.currency)}</span>
+    </div>
+  )
 
   const generateReport = () => {
     if (!startDate || !endDate) return
     setHasGenerated(true)
   }
 
-  const downloadReport = () => {
+  const reportOptions = (): ReportOptions => ({ fund: state, startDate, endDate, receiptThreshold })
+
+  const saveExport = (blob: Blob, extension: string) => {
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `petty-cash-report-${slugify(state.name)}-${startDate}-to-${endDate}.${extension}`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+    recordAudit({ category: "export", action: "Report exported", fundId: state.id, summary: a.download, changes: [] })
+  }
+
+  // A chart that can't be captured is left out rather than failing the whole PDF
+  const captureChart = async (container: HTMLDivElement | null) => {
+    const svg = container?.querySelector<SVGSVGElement>("svg.recharts-surface")
+    if (!svg) return undefined
+    try {
+      return await svgToJpeg(svg)
+    } catch (error) {
+      console.error("Chart capture failed:", error)
+      return undefined
+    }
+  }
+
+  const downloadPdf = async () => {
     if (!reportData) return
 
-    const reportContent = `
-PETTY CASH REPORT
-Period: ${new Date(startDate).toLocaleDateString()} - ${new Date(endDate).toLocaleDateString()}
-Generated: ${new Date().toLocaleString()}
-
-SUMMARY
-=======
-Total Disbursed: $${reportData.totalDisbursed.toFixed(2)}
-Total Replenished: $${reportData.totalReplenished.toFixed(2)}
-Net Change: $${reportData.netChange.toFixed(2)}
-Total Transactions: ${reportData.transactionCount}
-Current Balance: $${state.balance.toFixed(2)}
-
-TRANSACTIONS
-============
-${reportData.transactions
-  .map(
-    (t) =>
-      `${new Date(t.date).toLocaleDateString()} | ${t.type.toUpperCase()} | $${t.amount.toFixed(2)} | ${t.purpose || "N/A"} | ${t.recipient || "N/A"}`,
-  )
-  .join("\n")}
-    `.trim()
+    setIsExporting(true)
+    try {
+      const charts: ReportCharts = {
+        monthly: await captureChart(monthlyChartRef.current),
+        distribution: await captureChart(distributionChartRef.current),
+      }
+      saveExport(buildReportPdf(reportData, reportOptions(), charts), "pdf")
+    } catch (error) {
+      console.error("PDF export failed:", error)
+      toast({ title: "Export Failed", description: "The PDF could not be created.", variant: "destructive" })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const downloadSpreadsheet = () => {
+    if (!reportData) return
+    saveExport(buildReportXlsx(reportData, reportOptions()), "xlsx")
+  }
 
-    const blob = new Blob([reportContent], { type: "text/plain" })
+  // Journal entries for the same period, in the format the accounting system imports
+  const downloadJournal = () => {
+    if (!startDate || !endDate) return
+
+    const entries = buildJournal(state.transactions, getLedgerAccounts(), startDate, endDate)
+    const format = LEDGER_FORMATS.find((f) => f.value === ledgerFormat)!
+    const blob = new Blob([formatJournal(entries, ledgerFormat, state.currency)], { type: format.mimeType })
     const url = URL.createObjectURL(blob)
     const a = document.createElement("a")
     a.href = url
-    a.download = `petty-cash-report-${startDate}-to-${endDate}.txt`
+    a.download = `petty-cash-journal-${ledgerFormat}-${slugify(state.name)}-${startDate}-to-${endDate}.${format.extension}`
     document.body.appendChild(a)
     a.click()
     document.body.removeChild(a)
     URL.revokeObjectURL(url)
+    recordAudit({ category: "export", action: "Journal exported", fundId: state.id, summary: a.download, changes: [] })
   }
 
   if (!state.isInitialized) {
@@ -156,7 +295,9 @@ ${reportData.transactions
       <div className="space-y-8">
         <div>
           <h1 className="text-3xl font-bold">Generate Report</h1>
-          <p className="text-muted-foreground">Create a comprehensive summary report for any date range</p>
+          <p className="text-muted-foreground">
+            Create a comprehensive summary report of {state.name} for any date range
+          </p>
         </div>
 
         {/* Date Range Selection */}
@@ -203,7 +344,9 @@ ${reportData.transactions
                   <TrendingDown className="h-4 w-4 text-red-500" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold text-red-600">${reportData.totalDisbursed.toFixed(2)}</div>
+                  <div className="text-2xl font-bold text-red-600">
+                    {formatCurrency(reportData.totalDisbursed, state.currency)}
+                  </div>
                 </CardContent>
               </Card>
 
@@ -213,7 +356,9 @@ ${reportData.transactions
                   <TrendingUp className="h-4 w-4 text-green-500" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold text-green-600">${reportData.totalReplenished.toFixed(2)}</div>
+                  <div className="text-2xl font-bold text-green-600">
+                    {formatCurrency(reportData.totalReplenished, state.currency)}
+                  </div>
                 </CardContent>
               </Card>
 
@@ -226,7 +371,7 @@ ${reportData.transactions
                   <div
                     className={`text-2xl font-bold ${reportData.netChange >= 0 ? "text-green-600" : "text-red-600"}`}
                   >
-                    {reportData.netChange >= 0 ? "+" : ""}${reportData.netChange.toFixed(2)}
+                    {formatCurrency(reportData.netChange, state.currency, "exceptZero")}
                   </div>
                 </CardContent>
               </Card>
@@ -237,11 +382,171 @@ ${reportData.transactions
                   <DollarSign className="h-4 w-4 text-blue-500" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold text-blue-600">${state.balance.toFixed(2)}</div>
+                  <div className="text-2xl font-bold text-blue-600">
+                    {formatCurrency(state.balance, state.currency)}
+                  </div>
                 </CardContent>
               </Card>
             </div>
 
+            {reportData.missingReceipts.length > 0 && (
+              <Card className="border-yellow-200 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-950">
+                <CardContent className="flex items-center space-x-2 p-4 text-sm text-yellow-800 dark:text-yellow-200">
+                  <Receipt className="h-4 w-4 text-yellow-600" />
+                  <span>
+                    <strong>Missing Receipts:</strong> {reportData.missingReceipts.length} disbursement
+                    {reportData.missingReceipts.length === 1 ? "" : "s"} in this period over{" "}
+                    {formatCurrency(receiptThreshold, state.currency)}{" "}
+                    {reportData.missingReceipts.length === 1 ? "has" : "have"} no receipt attached.
+                  </span>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Cash Over/Short */}
+            {reportData.overShortByMonth.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Scale className="h-5 w-5" />
+                    <span>Cash Over/Short</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2 text-sm">
+                    <div className="grid grid-cols-4 gap-4 font-medium text-muted-foreground">
+                      <span>Month</span>
+                      <span className="text-right">Over</span>
+                      <span className="text-right">Short</span>
+                      <span className="text-right">Net</span>
+                    </div>
+                    {[
+                      ...reportData.overShortByMonth,
+                      { month: "Total", over: reportData.totalOver, short: reportData.totalShort, count: 0 },
+                    ].map((row) => (
+                      <div
+                        key={row.month}
+                        className={`grid grid-cols-4 gap-4 border-t pt-2 ${row.month === "Total" ? "font-semibold" : ""}`}
+                      >
+                        <span>
+                          {row.month}
+                          {row.count > 0 && (
+                            <span className="text-xs text-muted-foreground">
+                              {" "}
+                              ({row.count} adjustment{row.count === 1 ? "" : "s"})
+                            </span>
+                          )}
+                        </span>
+                        <span className="text-right font-mono text-green-600">
+                          {formatCurrency(row.over, state.currency)}
+                        </span>
+                        <span className="text-right font-mono text-red-600">
+                          {formatCurrency(row.short, state.currency)}
+                        </span>
+                        <span className="text-right font-mono">
+                          {formatCurrency(row.over - row.short, state.currency, "exceptZero")}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Budget Variance */}
+            {budgetVariance && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <PiggyBank className="h-5 w-5" />
+                    <span>Budget Variance</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    Budgets for{" "}
+                    {budgetVariance.from === budgetVariance.to
+                      ? budgetVariance.from.label
+                      : `${budgetVariance.from.label} – ${budgetVariance.to.label}`}
+                    , against spending from {new Date(budgetVariance.from.start).toLocaleDateString()} to{" "}
+                    {new Date(budgetVariance.to.end).toLocaleDateString()}.
+                  </p>
+                  <div className="space-y-2 text-sm">
+                    <div className="grid grid-cols-5 gap-4 font-medium text-muted-foreground">
+                      <span>Category</span>
+                      <span className="text-right">Budget</span>
+                      <span className="text-right">Actual</span>
+                      <span className="text-right">Variance</span>
+                      <span className="text-right">Used</span>
+                    </div>
+                    {[
+                      ...budgetVariance.statuses,
+                      {
+                        category: "Total",
+                        budget: budgetVariance.totalBudget,
+                        spent: budgetVariance.totalSpent,
+                        remaining: budgetVariance.totalBudget - budgetVariance.totalSpent,
+                      },
+                    ].map((row) => (
+                      <div
+                        key={row.category}
+                        className={`grid grid-cols-5 gap-4 border-t pt-2 ${row.category === "Total" ? "font-semibold" : ""}`}
+                      >
+                        <span>{row.category}</span>
+                        <span className="text-right font-mono">{formatCurrency(row.budget, state.currency)}</span>
+                        <span className="text-right font-mono">{formatCurrency(row.spent, state.currency)}</span>
+                        <span
+                          className={`text-right font-mono ${row.remaining < 0 ? "text-red-600" : "text-green-600"}`}
+                        >
+                          {formatCurrency(row.remaining, state.currency, "exceptZero")}
+                        </span>
+                        <span className="text-right">{Math.round((row.spent / row.budget) * 100)}%</span>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Spending by Recipient */}
+            {reportData.recipientTotals.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Contact className="h-5 w-5" />
+                    <span>Spending by Recipient</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2 text-sm">
+                    <div className="grid grid-cols-5 gap-4 font-medium text-muted-foreground">
+                      <span className="col-span-2">Recipient</span>
+                      <span className="text-right">Disbursements</span>
+                      <span className="text-right">Amount</span>
+                      <span className="text-right">Share</span>
+                    </div>
+                    {reportData.recipientTotals.map((row) => (
+                      <div key={row.recipient} className="grid grid-cols-5 gap-4 border-t pt-2">
+                        <div className="col-span-2">
+                          <p>{row.recipient}</p>
+                          <p className="text-caption">
+                            {row.inDirectory
+                              ? [row.department, row.employeeId].filter(Boolean).join(" • ")
+                              : "Not in the recipient directory"}
+                          </p>
+                        </div>
+                        <span className="text-right">{row.count}</span>
+                        <span className="text-right font-mono">{formatCurrency(row.amount, state.currency)}</span>
+                        <span className="text-right">
+                          {((row.amount / reportData.totalDisbursed) * 100).toFixed(1)}%
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Charts */}
             {reportData.chartData.length > 0 && (
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -251,6 +556,7 @@ ${reportData.transactions
                   </CardHeader>
                   <CardContent>
                     <ChartContainer
+                      ref={monthlyChartRef}
                       config={{
                         disbursed: {
                           label: "Disbursed",
@@ -266,8 +572,8 @@ ${reportData.transactions
                       <ResponsiveContainer width="100%" height="100%">
                         <BarChart data={reportData.chartData}>
                           <XAxis dataKey="month" />
-                          <YAxis />
-                          <ChartTooltip content={<ChartTooltipContent />} />
+                          <YAxis tickFormatter={(value: number) => formatAmount(Number(value), state.currency)} />
+                          <ChartTooltip content={<ChartTooltipContent formatter={formatTooltipAmount} />} />
                           <Bar dataKey="disbursed" fill="var(--color-disbursed)" />
                           <Bar dataKey="replenished" fill="var(--color-replenished)" />
                         </BarChart>
@@ -282,6 +588,7 @@ ${reportData.transactions
                   </CardHeader>
                   <CardContent>
                     <ChartContainer
+                      ref={distributionChartRef}
                       config={{
                         disbursements: {
                           label: "Disbursements",
@@ -301,7 +608,7 @@ ${reportData.transactions
                             cx="50%"
                             cy="50%"
                             labelLine={false}
-                            label={({ name, value }) => `${name}: $${value.toFixed(2)}`}
+                            label={({ name, value }) => `${name}: ${formatCurrency(Number(value), state.currency)}`}
                             outerRadius={80}
                             fill="#8884d8"
                             dataKey="value"
@@ -310,7 +617,7 @@ ${reportData.transactions
                               <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                             ))}
                           </Pie>
-                          <ChartTooltip content={<ChartTooltipContent />} />
+                          <ChartTooltip content={<ChartTooltipContent formatter={formatTooltipAmount} />} />
                         </PieChart>
                       </ResponsiveContainer>
                     </ChartContainer>
@@ -324,11 +631,58 @@ ${reportData.transactions
               <CardHeader>
                 <CardTitle>Export Report</CardTitle>
               </CardHeader>
-              <CardContent>
-                <Button onClick={downloadReport} className="w-full sm:w-auto">
-                  <Download className="h-4 w-4 mr-2" />
-                  Download Report
-                </Button>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  The PDF has the summary, charts and every transaction in the period; the Excel workbook has Summary,
+                  Transactions and By Category sheets.
+                </p>
+                <div className="flex flex-col sm:flex-row gap-4">
+                  <Button onClick={downloadPdf} disabled={isExporting} className="w-full sm:w-auto">
+                    <FileText className="h-4 w-4 mr-2" />
+                    {isExporting ? "Preparing PDF..." : "Download PDF"}
+                  </Button>
+                  <Button onClick={downloadSpreadsheet} variant="outline" className="w-full sm:w-auto bg-transparent">
+                    <FileSpreadsheet className="h-4 w-4 mr-2" />
+                    Download Excel (XLSX)
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Journal Export */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <BookOpen className="h-5 w-5" />
+                  <span>Export Journal Entries</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Double-entry journal for this period using the GL accounts mapped in{" "}
+                  <Link href="/settings" className="underline">
+                    Settings
+                  </Link>
+                  . Voided transactions are included alongside their reversals.
+                </p>
+                <div className="flex flex-col sm:flex-row gap-4">
+                  <Select value={ledgerFormat} onValueChange={(value) => setLedgerFormat(value as LedgerFormat)}>
+                    <SelectTrigger className="w-full sm:w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LEDGER_FORMATS.map((format) => (
+                        <SelectItem key={format.value} value={format.value}>
+                          {format.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={downloadJournal} variant="outline" className="w-full sm:w-auto bg-transparent">
+                    <Download className="h-4 w-4 mr-2" />
+                    Download Journal
+                  </Button>
+                </div>
               </CardContent>
             </Card>
 
@@ -346,7 +700,9 @@ ${reportData.transactions
                         initial={{ opacity: 0, x: -20 }}
                         animate={{ opacity: 1, x: 0 }}
                         transition={{ delay: index * 0.05 }}
-                        className="flex items-center justify-between p-3 border rounded-lg"
+                        className={`flex items-center justify-between p-3 border rounded-lg ${
+                          transaction.voidedBy ? "line-through opacity-60" : ""
+                        }`}
                       >
                         <div className="flex items-center space-x-4">
                           <div className="text-sm text-muted-foreground">
@@ -354,24 +710,35 @@ ${reportData.transactions
                           </div>
                           <div
                             className={`px-2 py-1 rounded text-xs font-medium ${
-                              transaction.type === "disbursement"
+                              balanceEffect(transaction) < 0
                                 ? "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
                                 : "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
                             }`}
                           >
                             {transaction.type}
                           </div>
+                          {transaction.approvalStatus && transaction.approvalStatus !== "approved" && (
+                            <div className="px-2 py-1 rounded text-xs font-medium bg-muted text-muted-foreground">
+                              {transaction.approvalStatus}
+                            </div>
+                          )}
+                          {isMissingReceipt(transaction, receiptThreshold) && (
+                            <div className="px-2 py-1 rounded text-xs font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200">
+                              no receipt
+                            </div>
+                          )}
                         </div>
                         <div className="text-right">
                           <div
-                            className={`font-medium ${
-                              transaction.type === "disbursement" ? "text-red-600" : "text-green-600"
-                            }`}
+                            className={`font-medium ${balanceEffect(transaction) < 0 ? "text-red-600" : "text-green-600"}`}
                           >
-                            {transaction.type === "disbursement" ? "-" : "+"}${transaction.amount.toFixed(2)}
+                            {formatCurrency(balanceEffect(transaction), state.currency, "always")}
                           </div>
                           {transaction.purpose && (
-                            <div className="text-sm text-muted-foreground">{transaction.purpose}</div>
+                            <div className="text-sm text-muted-foreground">
+                              {transaction.purpose}
+                              {transaction.category && ` • ${transaction.category}`}
+                            </div>
                           )}
                         </div>
                       </motion.div>
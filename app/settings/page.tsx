@@ -18,6 +18,13 @@ import {
   Bell,
   HelpCircle,
   ChevronRight,
+  ClipboardCheck,
+  BookOpen,
+  Lock,
+  KeyRound,
+  Users,
+  Undo2,
+  PiggyBank,
 } from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
@@ -28,12 +35,47 @@ import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { Switch } from "@/components/ui/switch"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { AppLayout } from "@/components/layout/AppLayout"
 import { ConfirmDialog } from "@/components/common/ConfirmDialog"
+import { ImportPreviewDialog } from "@/components/common/ImportPreviewDialog"
 import { LoadingSpinner } from "@/components/common/LoadingSpinner"
 import { usePettyCash } from "@/contexts/PettyCashContext"
+import { useUser } from "@/contexts/UserContext"
 import { useToast } from "@/hooks/use-toast"
-import { validateAmount, sanitizeInput, rateLimiter } from "@/lib/security"
+import { DEFAULT_AUTO_LOCK_MINUTES, isEncryptionAvailable, sanitizeInput, rateLimiter } from "@/lib/security"
+import { formatCurrency, parseMoney } from "@/lib/money"
+import { DEFAULT_RECEIPT_THRESHOLD, deleteReceipts } from "@/lib/receipts"
+import { DEFAULT_APPROVAL_THRESHOLD } from "@/lib/approvals"
+import { getRecipients, saveRecipients } from "@/lib/recipients"
+import { getStatementMappings } from "@/lib/statements"
+import type { StatementMapping } from "@/lib/statements"
+import { DEFAULT_LEDGER_ACCOUNTS, REPLENISHMENT_SOURCES } from "@/lib/ledger"
+import { BUDGET_PERIODS, DEFAULT_BUDGETS } from "@/lib/budgets"
+import type { BudgetPeriod, BudgetSettings } from "@/lib/budgets"
+import { diffById, diffRecords, recordAudit } from "@/lib/audit"
+import {
+  createBackup,
+  getRollbackSnapshot,
+  mergeReconciliations,
+  mergeRecipients,
+  mergeStates,
+  parseBackup,
+  previewImport,
+  setRollbackSnapshot,
+} from "@/lib/backup"
+import type { Backup, BackupSettings, ImportPreview } from "@/lib/backup"
+import { ROLES, createUser, isValidPin, roleLabel } from "@/lib/users"
+import type { Role, UserProfile } from "@/lib/users"
+import type { LedgerAccounts } from "@/lib/ledger"
+import {
+  deleteReconciliations,
+  getReconciliations,
+  getSetting,
+  replaceReconciliations,
+  setSetting,
+  storageBackendName,
+} from "@/lib/storage"
 
 const DEFAULT_CATEGORIES = [
   "Office Supplies",
@@ -48,9 +90,18 @@ const DEFAULT_CATEGORIES = [
   "Other",
 ]
 
+const MIN_PASSPHRASE_LENGTH = 8
+const AUTO_LOCK_OPTIONS = ["1", "5", "15", "30", "60"]
+
 interface SettingsState {
   lowBalanceThreshold: string
+  receiptRequiredThreshold: string
+  approvalThreshold: string
+  approvers: string[]
   customCategories: string[]
+  ledgerAccounts: LedgerAccounts
+  categoryBudgets: BudgetSettings
+  autoLockMinutes: string
   notifications: {
     lowBalance: boolean
     transactions: boolean
@@ -60,54 +111,107 @@ interface SettingsState {
     compactMode: boolean
     showAnimations: boolean
   }
+  // Saved from the statement import wizard; kept here so backups carry them
+  statementMappings: StatementMapping[]
+}
+
+const DEFAULT_SETTINGS: SettingsState = {
+  lowBalanceThreshold: "100",
+  receiptRequiredThreshold: DEFAULT_RECEIPT_THRESHOLD,
+  approvalThreshold: DEFAULT_APPROVAL_THRESHOLD,
+  approvers: [],
+  customCategories: DEFAULT_CATEGORIES,
+  ledgerAccounts: DEFAULT_LEDGER_ACCOUNTS,
+  categoryBudgets: DEFAULT_BUDGETS,
+  autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+  notifications: {
+    lowBalance: true,
+    transactions: false,
+    reconciliation: true,
+  },
+  appearance: {
+    compactMode: false,
+    showAnimations: true,
+  },
+  statementMappings: [],
+}
+
+// Settings as stored, whatever the form holds; backups and rollback snapshots are built from these
+const loadSettings = (): SettingsState => ({
+  lowBalanceThreshold: getSetting("lowBalanceThreshold", DEFAULT_SETTINGS.lowBalanceThreshold),
+  receiptRequiredThreshold: getSetting("receiptRequiredThreshold", DEFAULT_SETTINGS.receiptRequiredThreshold),
+  approvalThreshold: getSetting("approvalThreshold", DEFAULT_SETTINGS.approvalThreshold),
+  approvers: getSetting("approvers", DEFAULT_SETTINGS.approvers),
+  customCategories: getSetting("customCategories", DEFAULT_SETTINGS.customCategories),
+  ledgerAccounts: { ...DEFAULT_SETTINGS.ledgerAccounts, ...getSetting("ledgerAccounts", {}) },
+  categoryBudgets: { ...DEFAULT_SETTINGS.categoryBudgets, ...getSetting("categoryBudgets", {}) },
+  autoLockMinutes: getSetting("autoLockMinutes", DEFAULT_SETTINGS.autoLockMinutes),
+  notifications: getSetting("notificationSettings", DEFAULT_SETTINGS.notifications),
+  appearance: getSetting("appearanceSettings", DEFAULT_SETTINGS.appearance),
+  statementMappings: getStatementMappings(),
+})
+
+// Settings are stored under the keys the rest of the app reads them by
+const saveSettings = (settings: SettingsState, action = "Settings saved") => {
+  const stored: Record<string, unknown> = {
+    lowBalanceThreshold: settings.lowBalanceThreshold,
+    receiptRequiredThreshold: settings.receiptRequiredThreshold,
+    approvalThreshold: settings.approvalThreshold,
+    approvers: settings.approvers,
+    customCategories: settings.customCategories,
+    ledgerAccounts: settings.ledgerAccounts,
+    categoryBudgets: settings.categoryBudgets,
+    autoLockMinutes: settings.autoLockMinutes,
+    notificationSettings: settings.notifications,
+    appearanceSettings: settings.appearance,
+    statementMappings: settings.statementMappings,
+  }
+  const previous = Object.fromEntries(Object.keys(stored).map((key) => [key, getSetting<unknown>(key, undefined)]))
+  recordAudit({ category: "settings", action, changes: diffRecords("settings", previous, stored) })
+  return Promise.all(Object.entries(stored).map(([key, value]) => setSetting(key, value)))
 }
 
 export default function SettingsPage() {
-  const { state, dispatch } = usePettyCash()
+  const { state, funds, activeFundId, isEncrypted, lock, setPassphrase, dispatch } = usePettyCash()
+  const { users, currentUser, updateUsers, can } = useUser()
   const { toast } = useToast()
 
   // Modal states
   const [showResetModal, setShowResetModal] = useState(false)
   const [showExportModal, setShowExportModal] = useState(false)
   const [showImportModal, setShowImportModal] = useState(false)
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string
+    backup: Backup | null
+    preview: ImportPreview | null
+    errors: string[]
+  } | null>(null)
+  const [canRollback, setCanRollback] = useState(() => !!getRollbackSnapshot())
 
   // Form states
   const [resetConfirmation, setResetConfirmation] = useState("")
   const [newCategory, setNewCategory] = useState("")
+  const [newApprover, setNewApprover] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false)
+  const [passphraseForm, setPassphraseForm] = useState({ current: "", next: "", confirm: "" })
+  const [isChangingPassphrase, setIsChangingPassphrase] = useState(false)
+  const [newUser, setNewUser] = useState<{ name: string; role: Role; pin: string; confirmPin: string }>({
+    name: "",
+    role: "custodian",
+    pin: "",
+    confirmPin: "",
+  })
+  const [isAddingUser, setIsAddingUser] = useState(false)
 
   // Settings state
-  const [settings, setSettings] = useState<SettingsState>({
-    lowBalanceThreshold: "100",
-    customCategories: DEFAULT_CATEGORIES,
-    notifications: {
-      lowBalance: true,
-      transactions: false,
-      reconciliation: true,
-    },
-    appearance: {
-      compactMode: false,
-      showAnimations: true,
-    },
-  })
+  const [settings, setSettings] = useState<SettingsState>(DEFAULT_SETTINGS)
 
-  // Load settings from localStorage on mount
+  // Load saved settings on mount
   useEffect(() => {
     try {
-      const storedThreshold = localStorage.getItem("lowBalanceThreshold") || "100"
-      const storedCategories = localStorage.getItem("customCategories")
-      const storedNotifications = localStorage.getItem("notificationSettings")
-      const storedAppearance = localStorage.getItem("appearanceSettings")
-
-      setSettings((prev) => ({
-        ...prev,
-        lowBalanceThreshold: storedThreshold,
-        customCategories: storedCategories ? JSON.parse(storedCategories) : DEFAULT_CATEGORIES,
-        notifications: storedNotifications ? JSON.parse(storedNotifications) : prev.notifications,
-        appearance: storedAppearance ? JSON.parse(storedAppearance) : prev.appearance,
-      }))
+      setSettings(loadSettings())
     } catch (error) {
       console.error("Failed to load settings:", error)
       toast({
@@ -136,6 +240,19 @@ export default function SettingsPage() {
     setHasUnsavedChanges(true)
   }
 
+  // GL account codes, either one of the fixed accounts or a category/source mapping
+  const updateLedgerAccount = (
+    key: "pettyCash" | "defaultExpense" | "defaultBank" | "overShort" | "advances",
+    code: string,
+  ) => updateNestedSetting("ledgerAccounts", key, code)
+
+  const updateLedgerMapping = (key: "categories" | "sources", name: string, code: string) =>
+    updateNestedSetting("ledgerAccounts", key, { ...settings.ledgerAccounts[key], [name]: code })
+
+  // Per-period budget for a category; blank removes it
+  const updateCategoryBudget = (category: string, amount: string) =>
+    updateNestedSetting("categoryBudgets", "amounts", { ...settings.categoryBudgets.amounts, [category]: amount })
+
   // Save all settings
   const handleSaveSettings = async () => {
     if (!rateLimiter.isAllowed("save-settings", 10, 60000)) {
@@ -150,16 +267,31 @@ export default function SettingsPage() {
     setIsSaving(true)
 
     try {
-      // Validate threshold
-      if (!validateAmount(settings.lowBalanceThreshold)) {
+      // Validate threshold (zero is allowed and turns the alert off)
+      const threshold = parseMoney(settings.lowBalanceThreshold, state.currency)
+      if (isNaN(threshold) || threshold < 0) {
         throw new Error("Invalid threshold amount")
       }
+      const receiptThreshold = parseMoney(settings.receiptRequiredThreshold, state.currency)
+      if (isNaN(receiptThreshold) || receiptThreshold < 0) {
+        throw new Error("Invalid receipt threshold amount")
+      }
+      const approvalThreshold = parseMoney(settings.approvalThreshold, state.currency)
+      if (isNaN(approvalThreshold) || approvalThreshold < 0) {
+        throw new Error("Invalid approval threshold amount")
+      }
+      const { pettyCash, defaultExpense, defaultBank, overShort, advances } = settings.ledgerAccounts
+      if (![pettyCash, defaultExpense, defaultBank, overShort, advances].every((code) => code.trim())) {
+        throw new Error("Ledger accounts are required")
+      }
+      const budgets = Object.values(settings.categoryBudgets.amounts).filter((amount) => amount.trim())
+      if (
+        budgets.some((amount) => isNaN(parseMoney(amount, state.currency)) || parseMoney(amount, state.currency) < 0)
+      ) {
+        throw new Error("Invalid category budget amount")
+      }
 
-      // Save to localStorage
-      localStorage.setItem("lowBalanceThreshold", settings.lowBalanceThreshold)
-      localStorage.setItem("customCategories", JSON.stringify(settings.customCategories))
-      localStorage.setItem("notificationSettings", JSON.stringify(settings.notifications))
-      localStorage.setItem("appearanceSettings", JSON.stringify(settings.appearance))
+      await saveSettings(settings)
 
       setHasUnsavedChanges(false)
 
@@ -231,8 +363,165 @@ export default function SettingsPage() {
     )
   }
 
+  // Approver management
+  const handleAddApprover = () => {
+    const sanitized = sanitizeInput(newApprover.trim())
+
+    if (!sanitized) {
+      toast({
+        title: "Invalid Name",
+        description: "Please enter the approver's name.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (settings.approvers.some((name) => name.toLowerCase() === sanitized.toLowerCase())) {
+      toast({
+        title: "Approver Exists",
+        description: "This person is already an approver.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    updateSetting("approvers", [...settings.approvers, sanitized])
+    setNewApprover("")
+  }
+
+  const handleRemoveApprover = (nameToRemove: string) => {
+    updateSetting(
+      "approvers",
+      settings.approvers.filter((name) => name !== nameToRemove),
+    )
+  }
+
+  // Passphrase encryption
+  const passphraseError =
+    isEncrypted && !passphraseForm.current
+      ? "Enter your current passphrase"
+      : passphraseForm.next.length < MIN_PASSPHRASE_LENGTH
+        ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+        : passphraseForm.next !== passphraseForm.confirm
+          ? "Passphrases don't match"
+          : ""
+
+  // Re-encrypts everything under the new passphrase, or decrypts it when removing
+  const handleChangePassphrase = async (remove = false) => {
+    if (remove ? !passphraseForm.current : passphraseError) return
+
+    setIsChangingPassphrase(true)
+    try {
+      const changed = await setPassphrase(
+        isEncrypted ? passphraseForm.current : null,
+        remove ? null : passphraseForm.next,
+      )
+      if (!changed) {
+        toast({
+          title: "Incorrect Passphrase",
+          description: "Your current passphrase doesn't match.",
+          variant: "destructive",
+        })
+        return
+      }
+
+      setPassphraseForm({ current: "", next: "", confirm: "" })
+      toast({
+        title: remove ? "Encryption Removed" : isEncrypted ? "Passphrase Changed" : "Data Encrypted",
+        description: remove
+          ? "Your data is now stored unencrypted on this device."
+          : "Funds, reconciliation history and receipts are encrypted with your passphrase.",
+      })
+    } catch (error) {
+      console.error("Passphrase change failed:", error)
+      toast({
+        title: "Encryption Failed",
+        description: "Nothing was changed and your current passphrase still applies. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsChangingPassphrase(false)
+    }
+  }
+
+  // User management
+  const newUserError = !sanitizeInput(newUser.name)
+    ? "Enter a name"
+    : users.some((u) => u.name.toLowerCase() === sanitizeInput(newUser.name).toLowerCase())
+      ? "A user with this name already exists"
+      : !isValidPin(newUser.pin)
+        ? "PIN must be 4 to 8 digits"
+        : newUser.pin !== newUser.confirmPin
+          ? "PINs don't match"
+          : ""
+
+  const adminCount = users.filter((u) => u.role === "admin").length
+
+  const handleAddUser = async () => {
+    if (newUserError) return
+
+    setIsAddingUser(true)
+    try {
+      // The first profile has to be able to manage the rest
+      const role = users.length === 0 ? "admin" : newUser.role
+      const user = await createUser(sanitizeInput(newUser.name), role, newUser.pin)
+      await updateUsers([...users, user])
+      setNewUser({ name: "", role: "custodian", pin: "", confirmPin: "" })
+      toast({
+        title: "User Added",
+        description:
+          users.length === 0
+            ? `You're signed in as ${user.name}. Everyone now signs in with a PIN.`
+            : `${user.name} can now sign in as ${roleLabel(role)}.`,
+      })
+    } catch (error) {
+      console.error("Failed to add user:", error)
+      toast({
+        title: "User Not Added",
+        description: "PINs need the Web Crypto API, which this browser only offers over HTTPS.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsAddingUser(false)
+    }
+  }
+
+  const handleChangeRole = (user: UserProfile, role: Role) => {
+    if (user.role === "admin" && role !== "admin" && adminCount === 1) {
+      toast({
+        title: "Admin Required",
+        description: "At least one user must stay an admin.",
+        variant: "destructive",
+      })
+      return
+    }
+    updateUsers(users.map((u) => (u.id === user.id ? { ...u, role } : u)))
+  }
+
+  const handleRemoveUser = (user: UserProfile) => {
+    if (user.id === currentUser?.id) {
+      toast({
+        title: "Cannot Remove",
+        description: "You can't remove the user you're signed in as.",
+        variant: "destructive",
+      })
+      return
+    }
+    if (user.role === "admin" && adminCount === 1) {
+      toast({
+        title: "Admin Required",
+        description: "At least one user must stay an admin.",
+        variant: "destructive",
+      })
+      return
+    }
+    updateUsers(users.filter((u) => u.id !== user.id))
+  }
+
   // Data management
   const handleResetFund = async () => {
+    if (!can("manageData")) return
+
     if (resetConfirmation !== "RESET") {
       toast({
         title: "Invalid Confirmation",
@@ -245,11 +534,16 @@ export default function SettingsPage() {
     setIsLoading(true)
 
     try {
-      // Clear all data
-      localStorage.removeItem("pettyCashData")
-      localStorage.removeItem("reconciliationHistory")
+      // Drop the active fund's reconciliation history; records without a fundId belong to the first fund
+      const storedHistory = await getReconciliations()
+      await deleteReconciliations(
+        storedHistory.filter((record) => (record.fundId ?? funds[0]?.id) === state.id).map((record) => record.id),
+      )
 
-      // Reset state
+      // Receipt files live in IndexedDB and aren't removed along with the fund
+      await deleteReceipts(state.transactions.flatMap((t) => t.receiptIds ?? []))
+
+      // Remove the active fund
       dispatch({ type: "RESET_FUND" })
 
       setShowResetModal(false)
@@ -257,7 +551,7 @@ export default function SettingsPage() {
 
       toast({
         title: "Fund Reset Complete",
-        description: "All data has been cleared. You can now initialize a new fund.",
+        description: `${state.name} and its data have been removed.`,
       })
     } catch (error) {
       toast({
@@ -270,20 +564,14 @@ export default function SettingsPage() {
     }
   }
 
-  const handleExportData = () => {
+  const handleExportData = async () => {
     try {
-      const exportData = {
-        fundData: state,
-        reconciliationHistory: JSON.parse(localStorage.getItem("reconciliationHistory") || "[]"),
-        settings: {
-          lowBalanceThreshold: settings.lowBalanceThreshold,
-          customCategories: settings.customCategories,
-          notifications: settings.notifications,
-          appearance: settings.appearance,
-        },
-        exportDate: new Date().toISOString(),
-        version: "1.0.0",
-      }
+      const exportData = createBackup(
+        { funds, activeFundId },
+        await getReconciliations(),
+        loadSettings(),
+        getRecipients(),
+      )
 
       const dataStr = JSON.stringify(exportData, null, 2)
       const dataBlob = new Blob([dataStr], { type: "application/json" })
@@ -296,6 +584,7 @@ export default function SettingsPage() {
       link.click()
       document.body.removeChild(link)
       URL.revokeObjectURL(url)
+      recordAudit({ category: "export", action: "Backup exported", summary: link.download, changes: [] })
 
       setShowExportModal(false)
       toast({
@@ -311,9 +600,10 @@ export default function SettingsPage() {
     }
   }
 
+  // Reading a file only validates it and builds the preview; nothing changes until a mode is chosen
   const handleImportData = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
-    if (!file) return
+    if (!file || !can("manageData")) return
 
     if (file.size > 10 * 1024 * 1024) {
       // 10MB limit
@@ -328,48 +618,14 @@ export default function SettingsPage() {
     setIsLoading(true)
 
     const reader = new FileReader()
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       try {
-        const importData = JSON.parse(e.target?.result as string)
-
-        // Validate import data structure
-        if (!importData.fundData && !importData.settings) {
-          throw new Error("Invalid backup file format")
-        }
-
-        // Import fund data
-        if (importData.fundData) {
-          localStorage.setItem("pettyCashData", JSON.stringify(importData.fundData))
-          dispatch({ type: "LOAD_FROM_STORAGE", payload: importData.fundData })
-        }
-
-        // Import reconciliation history
-        if (importData.reconciliationHistory) {
-          localStorage.setItem("reconciliationHistory", JSON.stringify(importData.reconciliationHistory))
-        }
-
-        // Import settings
-        if (importData.settings) {
-          const newSettings = { ...settings, ...importData.settings }
-          setSettings(newSettings)
-
-          localStorage.setItem("lowBalanceThreshold", newSettings.lowBalanceThreshold)
-          localStorage.setItem("customCategories", JSON.stringify(newSettings.customCategories))
-          localStorage.setItem("notificationSettings", JSON.stringify(newSettings.notifications))
-          localStorage.setItem("appearanceSettings", JSON.stringify(newSettings.appearance))
-        }
-
-        setShowImportModal(false)
-        toast({
-          title: "Data Imported",
-          description: "Your petty cash data has been imported successfully.",
-        })
-      } catch (error) {
-        toast({
-          title: "Import Failed",
-          description: "Invalid file format. Please select a valid backup file.",
-          variant: "destructive",
-        })
+        const { backup, errors } = parseBackup(e.target?.result as string)
+        const preview = backup
+          ? previewImport({ funds, activeFundId }, await getReconciliations(), getRecipients(), backup)
+          : null
+        setPendingImport({ fileName: file.name, backup, preview, errors })
+        setShowImportModal(true)
       } finally {
         setIsLoading(false)
       }
@@ -388,6 +644,111 @@ export default function SettingsPage() {
     event.target.value = "" // Reset input
   }
 
+  const closeImport = () => {
+    setShowImportModal(false)
+    setPendingImport(null)
+  }
+
+  // Laid over the stored settings, so edits not yet saved on this page aren't written along with them
+  const applySettings = (imported: BackupSettings, action: string) => {
+    const next = { ...loadSettings(), ...imported } as SettingsState
+    setSettings(next)
+    setHasUnsavedChanges(false)
+    return saveSettings(next, action)
+  }
+
+  const handleApplyImport = async (mode: "replace" | "merge") => {
+    const backup = pendingImport?.backup
+    if (!backup || !can("manageData")) return
+
+    setIsLoading(true)
+    try {
+      const history = await getReconciliations()
+      setRollbackSnapshot(createBackup({ funds, activeFundId }, history, loadSettings(), getRecipients()))
+
+      if (backup.fundData) {
+        dispatch({
+          type: "LOAD_FROM_STORAGE",
+          payload: mode === "replace" ? backup.fundData : mergeStates({ funds, activeFundId }, backup.fundData),
+        })
+      }
+
+      if (backup.reconciliationHistory) {
+        const next =
+          mode === "replace"
+            ? backup.reconciliationHistory
+            : mergeReconciliations(history, backup.reconciliationHistory)
+        recordAudit({
+          category: "import",
+          action: "Reconciliation history imported",
+          changes: diffById("reconciliations", history, next),
+        })
+        await replaceReconciliations(next)
+      }
+
+      if (backup.recipients) {
+        const current = getRecipients()
+        const next = mode === "replace" ? backup.recipients : mergeRecipients(current, backup.recipients)
+        recordAudit({
+          category: "import",
+          action: "Recipients imported",
+          changes: diffById("recipients", current, next),
+        })
+        await saveRecipients(next)
+      }
+
+      // Merging keeps the settings here
+      if (backup.settings && mode === "replace") {
+        await applySettings(backup.settings, "Settings imported")
+      }
+
+      recordAudit({
+        category: "import",
+        action: mode === "replace" ? "Backup imported" : "Backup merged",
+        summary: `${pendingImport.fileName} (version ${backup.version})`,
+        changes: [],
+      })
+      setCanRollback(true)
+      closeImport()
+      toast({
+        title: mode === "replace" ? "Data Imported" : "Data Merged",
+        description: "You can roll the import back from Data Management.",
+      })
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: "The backup couldn't be applied. Nothing was rolled back automatically.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Puts back funds, reconciliations and settings exactly as they were before the last import
+  const handleRollbackImport = async () => {
+    const snapshot = getRollbackSnapshot()
+    if (!snapshot || !can("manageData")) return
+
+    setIsLoading(true)
+    try {
+      if (snapshot.fundData) dispatch({ type: "LOAD_FROM_STORAGE", payload: snapshot.fundData })
+      if (snapshot.reconciliationHistory) await replaceReconciliations(snapshot.reconciliationHistory)
+      if (snapshot.recipients) await saveRecipients(snapshot.recipients)
+      if (snapshot.settings) await applySettings(snapshot.settings, "Settings rolled back")
+      recordAudit({ category: "import", action: "Import rolled back", changes: [] })
+
+      setRollbackSnapshot(null)
+      setCanRollback(false)
+      toast({
+        title: "Import Rolled Back",
+        description: "Your data is back to how it was before the import.",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   return (
     <AppLayout>
       <div className="max-w-6xl mx-auto space-y-8">
@@ -419,7 +780,7 @@ export default function SettingsPage() {
 
         {/* Settings Tabs */}
         <Tabs defaultValue="general" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2 lg:grid-cols-4">
+          <TabsList className="grid w-full grid-cols-2 lg:grid-cols-6">
             <TabsTrigger value="general" className="flex items-center space-x-2">
               <Settings className="h-4 w-4" />
               <span className="hidden sm:inline">General</span>
@@ -428,10 +789,20 @@ export default function SettingsPage() {
               <Palette className="h-4 w-4" />
               <span className="hidden sm:inline">Categories</span>
             </TabsTrigger>
+            <TabsTrigger value="ledger" className="flex items-center space-x-2">
+              <BookOpen className="h-4 w-4" />
+              <span className="hidden sm:inline">Ledger</span>
+            </TabsTrigger>
             <TabsTrigger value="notifications" className="flex items-center space-x-2">
               <Bell className="h-4 w-4" />
               <span className="hidden sm:inline">Notifications</span>
             </TabsTrigger>
+            {can("manageUsers") && (
+              <TabsTrigger value="security" className="flex items-center space-x-2">
+                <Lock className="h-4 w-4" />
+                <span className="hidden sm:inline">Security</span>
+              </TabsTrigger>
+            )}
             <TabsTrigger value="data" className="flex items-center space-x-2">
               <Database className="h-4 w-4" />
               <span className="hidden sm:inline">Data</span>
@@ -450,7 +821,7 @@ export default function SettingsPage() {
                 </CardHeader>
                 <CardContent className="space-y-6">
                   <div className="space-y-2">
-                    <Label htmlFor="threshold">Low Balance Alert Threshold ($)</Label>
+                    <Label htmlFor="threshold">Low Balance Alert Threshold ({state.currency})</Label>
                     <Input
                       id="threshold"
                       type="number"
@@ -464,6 +835,24 @@ export default function SettingsPage() {
                     <p className="text-caption">You'll receive alerts when the balance falls below this amount</p>
                   </div>
 
+                  <div className="space-y-2">
+                    <Label htmlFor="receiptThreshold">Receipt Required Above ({state.currency})</Label>
+                    <Input
+                      id="receiptThreshold"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max="999999.99"
+                      value={settings.receiptRequiredThreshold}
+                      onChange={(e) => updateSetting("receiptRequiredThreshold", e.target.value)}
+                      className="font-mono"
+                    />
+                    <p className="text-caption">
+                      Disbursements above this amount are flagged on the dashboard and in reports until a receipt is
+                      attached
+                    </p>
+                  </div>
+
                   <Separator />
 
                   <div className="space-y-4">
@@ -494,6 +883,68 @@ export default function SettingsPage() {
                 </CardContent>
               </Card>
 
+              {/* Approvals */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <ClipboardCheck className="h-5 w-5" />
+                    <span>Approvals</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="approvalThreshold">Approval Required Above ({state.currency})</Label>
+                    <Input
+                      id="approvalThreshold"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max="999999.99"
+                      value={settings.approvalThreshold}
+                      onChange={(e) => updateSetting("approvalThreshold", e.target.value)}
+                      className="font-mono"
+                    />
+                    <p className="text-caption">
+                      Larger disbursements stay pending and don't affect the balance until approved
+                    </p>
+                  </div>
+
+                  <div className="space-y-3">
+                    <Label>Approvers</Label>
+                    <div className="flex flex-wrap gap-2">
+                      {settings.approvers.length === 0 && (
+                        <p className="text-caption">No approvers yet. Pending disbursements can't be approved.</p>
+                      )}
+                      {settings.approvers.map((name) => (
+                        <Badge key={name} variant="secondary" className="flex items-center space-x-2 px-3 py-1 text-sm">
+                          <span>{name}</span>
+                          <button
+                            onClick={() => handleRemoveApprover(name)}
+                            className="ml-2 text-red-500 hover:text-red-700 transition-colors"
+                            aria-label={`Remove approver ${name}`}
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                    </div>
+                    <div className="flex space-x-2">
+                      <Input
+                        value={newApprover}
+                        onChange={(e) => setNewApprover(e.target.value)}
+                        placeholder="Add approver name"
+                        maxLength={50}
+                        onKeyPress={(e) => e.key === "Enter" && handleAddApprover()}
+                        className="flex-1"
+                      />
+                      <Button onClick={handleAddApprover} disabled={!newApprover.trim()} size="icon">
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
               {/* System Information */}
               {state.isInitialized && (
                 <Card>
@@ -505,6 +956,40 @@ export default function SettingsPage() {
                   </CardHeader>
                   <CardContent className="space-y-4">
                     <div className="grid grid-cols-1 gap-4 text-sm">
+                      <div className="flex justify-between items-center py-2 border-b">
+                        <span className="text-muted-foreground">Active Fund:</span>
+                        <span className="font-medium">{state.name}</span>
+                      </div>
+
+                      <div className="flex justify-between items-center py-2 border-b">
+                        <span className="text-muted-foreground">Custodian:</span>
+                        <span className="font-medium">{state.custodian || "Not assigned"}</span>
+                      </div>
+
+                      <div className="flex justify-between items-center py-2 border-b">
+                        <span className="text-muted-foreground">Currency:</span>
+                        <span className="font-medium">{state.currency}</span>
+                      </div>
+
+                      {state.imprestAmount !== undefined && (
+                        <div className="flex justify-between items-center py-2 border-b">
+                          <span className="text-muted-foreground">Imprest Amount:</span>
+                          <span className="font-medium font-mono">
+                            {formatCurrency(state.imprestAmount, state.currency)}
+                          </span>
+                        </div>
+                      )}
+
+                      <div className="flex justify-between items-center py-2 border-b">
+                        <span className="text-muted-foreground">Total Funds:</span>
+                        <Badge variant="secondary">{funds.length}</Badge>
+                      </div>
+
+                      <div className="flex justify-between items-center py-2 border-b">
+                        <span className="text-muted-foreground">Storage:</span>
+                        <span className="font-medium">{storageBackendName()}</span>
+                      </div>
+
                       <div className="flex justify-between items-center py-2 border-b">
                         <span className="text-muted-foreground">Fund Initialized:</span>
                         <span className="font-medium">
@@ -523,7 +1008,9 @@ export default function SettingsPage() {
 
                       <div className="flex justify-between items-center py-2 border-b">
                         <span className="text-muted-foreground">Current Balance:</span>
-                        <span className="font-medium font-mono text-lg">${state.balance.toFixed(2)}</span>
+                        <span className="font-medium font-mono text-lg">
+                          {formatCurrency(state.balance, state.currency)}
+                        </span>
                       </div>
 
                       <div className="flex justify-between items-center py-2">
@@ -601,6 +1088,172 @@ export default function SettingsPage() {
                 </p>
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <PiggyBank className="h-5 w-5" />
+                  <span>Category Budgets</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="space-y-2 max-w-xs">
+                  <Label htmlFor="budget-period">Budget period</Label>
+                  <Select
+                    value={settings.categoryBudgets.period}
+                    onValueChange={(value) => updateNestedSetting("categoryBudgets", "period", value as BudgetPeriod)}
+                  >
+                    <SelectTrigger id="budget-period">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {BUDGET_PERIODS.map((period) => (
+                        <SelectItem key={period.value} value={period.value}>
+                          {period.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-3">
+                  {settings.customCategories.map((category) => (
+                    <div key={category} className="flex items-center justify-between gap-4">
+                      <Label htmlFor={`budget-${category}`} className="font-normal">
+                        {category}
+                      </Label>
+                      <Input
+                        id={`budget-${category}`}
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={settings.categoryBudgets.amounts[category] ?? ""}
+                        onChange={(e) => updateCategoryBudget(category, e.target.value)}
+                        placeholder="No budget"
+                        className="w-40 font-mono"
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <p className="text-caption">
+                  Amounts are in {state.currency} per period. Disbursements that would go over budget are flagged but
+                  not blocked.
+                </p>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Ledger Account Mapping */}
+          <TabsContent value="ledger" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <BookOpen className="h-5 w-5" />
+                  <span>General Ledger Accounts</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="glPettyCash">Petty Cash</Label>
+                    <Input
+                      id="glPettyCash"
+                      value={settings.ledgerAccounts.pettyCash}
+                      onChange={(e) => updateLedgerAccount("pettyCash", e.target.value)}
+                      maxLength={30}
+                      className="font-mono"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="glDefaultExpense">Default Expense</Label>
+                    <Input
+                      id="glDefaultExpense"
+                      value={settings.ledgerAccounts.defaultExpense}
+                      onChange={(e) => updateLedgerAccount("defaultExpense", e.target.value)}
+                      maxLength={30}
+                      className="font-mono"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="glDefaultBank">Default Bank</Label>
+                    <Input
+                      id="glDefaultBank"
+                      value={settings.ledgerAccounts.defaultBank}
+                      onChange={(e) => updateLedgerAccount("defaultBank", e.target.value)}
+                      maxLength={30}
+                      className="font-mono"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="glOverShort">Cash Over/Short</Label>
+                    <Input
+                      id="glOverShort"
+                      value={settings.ledgerAccounts.overShort}
+                      onChange={(e) => updateLedgerAccount("overShort", e.target.value)}
+                      maxLength={30}
+                      className="font-mono"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="glAdvances">Cash Advances</Label>
+                    <Input
+                      id="glAdvances"
+                      value={settings.ledgerAccounts.advances}
+                      onChange={(e) => updateLedgerAccount("advances", e.target.value)}
+                      maxLength={30}
+                      className="font-mono"
+                    />
+                  </div>
+                </div>
+                <p className="text-caption">
+                  Categories and sources left blank post to the default expense or bank account. QuickBooks IIF imports
+                  match on account name, so use names there if your chart of accounts has no numbers.
+                </p>
+
+                <Separator />
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                  <div className="space-y-3">
+                    <h4 className="font-medium">Expense account by category</h4>
+                    {settings.customCategories.map((category) => (
+                      <div key={category} className="flex items-center justify-between gap-4">
+                        <Label htmlFor={`gl-category-${category}`} className="font-normal">
+                          {category}
+                        </Label>
+                        <Input
+                          id={`gl-category-${category}`}
+                          value={settings.ledgerAccounts.categories[category] ?? ""}
+                          onChange={(e) => updateLedgerMapping("categories", category, e.target.value)}
+                          placeholder={settings.ledgerAccounts.defaultExpense}
+                          maxLength={30}
+                          className="w-40 font-mono"
+                        />
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="space-y-3">
+                    <h4 className="font-medium">Bank account by replenishment source</h4>
+                    {REPLENISHMENT_SOURCES.map((source) => (
+                      <div key={source} className="flex items-center justify-between gap-4">
+                        <Label htmlFor={`gl-source-${source}`} className="font-normal">
+                          {source}
+                        </Label>
+                        <Input
+                          id={`gl-source-${source}`}
+                          value={settings.ledgerAccounts.sources[source] ?? ""}
+                          onChange={(e) => updateLedgerMapping("sources", source, e.target.value)}
+                          placeholder={settings.ledgerAccounts.defaultBank}
+                          maxLength={30}
+                          className="w-40 font-mono"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
           </TabsContent>
 
           {/* Notifications Settings */}
@@ -663,6 +1316,279 @@ export default function SettingsPage() {
             </Card>
           </TabsContent>
 
+          {/* Security Settings */}
+          {can("manageUsers") && (
+            <TabsContent value="security" className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Users className="h-5 w-5" />
+                    <span>Users & Roles</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <p className="text-caption">
+                    {users.length === 0
+                      ? "Nobody needs to sign in yet. Add the first user (an admin) to require a PIN and record who enters each transaction."
+                      : "Each user signs in with their own PIN. Roles decide which pages and actions they can use."}
+                  </p>
+
+                  {users.length > 0 && (
+                    <div className="space-y-2">
+                      {users.map((user) => (
+                        <div key={user.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">
+                              {user.name}
+                              {user.id === currentUser?.id && (
+                                <Badge variant="secondary" className="ml-2 text-xs">
+                                  You
+                                </Badge>
+                              )}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              Added {new Date(user.createdAt).toLocaleDateString()}
+                            </p>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <Select value={user.role} onValueChange={(value) => handleChangeRole(user, value as Role)}>
+                              <SelectTrigger className="w-36">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {ROLES.map((role) => (
+                                  <SelectItem key={role.value} value={role.value}>
+                                    {role.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleRemoveUser(user)}
+                              aria-label={`Remove ${user.name}`}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <Separator />
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="new-user-name">Name</Label>
+                      <Input
+                        id="new-user-name"
+                        value={newUser.name}
+                        onChange={(e) => setNewUser((prev) => ({ ...prev, name: e.target.value }))}
+                        maxLength={50}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="new-user-role">Role</Label>
+                      <Select
+                        value={users.length === 0 ? "admin" : newUser.role}
+                        onValueChange={(value) => setNewUser((prev) => ({ ...prev, role: value as Role }))}
+                        disabled={users.length === 0}
+                      >
+                        <SelectTrigger id="new-user-role">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLES.map((role) => (
+                            <SelectItem key={role.value} value={role.value}>
+                              {role.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-caption">
+                        {
+                          ROLES.find((role) => role.value === (users.length === 0 ? "admin" : newUser.role))
+                            ?.description
+                        }
+                      </p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="new-user-pin">PIN</Label>
+                      <Input
+                        id="new-user-pin"
+                        type="password"
+                        inputMode="numeric"
+                        autoComplete="new-password"
+                        maxLength={8}
+                        value={newUser.pin}
+                        onChange={(e) => setNewUser((prev) => ({ ...prev, pin: e.target.value.replace(/\D/g, "") }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="new-user-confirm-pin">Confirm PIN</Label>
+                      <Input
+                        id="new-user-confirm-pin"
+                        type="password"
+                        inputMode="numeric"
+                        autoComplete="new-password"
+                        maxLength={8}
+                        value={newUser.confirmPin}
+                        onChange={(e) =>
+                          setNewUser((prev) => ({ ...prev, confirmPin: e.target.value.replace(/\D/g, "") }))
+                        }
+                      />
+                    </div>
+                  </div>
+                  {newUser.name && newUserError && <p className="text-sm text-red-600">{newUserError}</p>}
+                  <Button onClick={handleAddUser} disabled={isAddingUser || !!newUserError}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    {users.length === 0 ? "Add Admin" : "Add User"}
+                  </Button>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <span className="flex items-center space-x-2">
+                      <KeyRound className="h-5 w-5" />
+                      <span>Passphrase Encryption</span>
+                    </span>
+                    <Badge variant={isEncrypted ? "default" : "secondary"}>
+                      {isEncrypted ? "Encrypted" : "Not encrypted"}
+                    </Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <p className="text-caption">
+                    With a passphrase set, funds, reconciliation history and receipts are encrypted on this device and
+                    the app asks for the passphrase when it opens. Settings are not encrypted.
+                  </p>
+
+                  {!isEncryptionAvailable() ? (
+                    <Alert>
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertDescription>
+                        Encryption needs the Web Crypto API, which this browser only offers over HTTPS.
+                      </AlertDescription>
+                    </Alert>
+                  ) : (
+                    <div className="space-y-4 max-w-md">
+                      {isEncrypted && (
+                        <div className="space-y-2">
+                          <Label htmlFor="current-passphrase">Current Passphrase</Label>
+                          <Input
+                            id="current-passphrase"
+                            type="password"
+                            autoComplete="current-password"
+                            value={passphraseForm.current}
+                            onChange={(e) => setPassphraseForm((prev) => ({ ...prev, current: e.target.value }))}
+                            disabled={isChangingPassphrase}
+                          />
+                        </div>
+                      )}
+                      <div className="space-y-2">
+                        <Label htmlFor="new-passphrase">{isEncrypted ? "New Passphrase" : "Passphrase"}</Label>
+                        <Input
+                          id="new-passphrase"
+                          type="password"
+                          autoComplete="new-password"
+                          value={passphraseForm.next}
+                          onChange={(e) => setPassphraseForm((prev) => ({ ...prev, next: e.target.value }))}
+                          disabled={isChangingPassphrase}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="confirm-passphrase">Confirm Passphrase</Label>
+                        <Input
+                          id="confirm-passphrase"
+                          type="password"
+                          autoComplete="new-password"
+                          value={passphraseForm.confirm}
+                          onChange={(e) => setPassphraseForm((prev) => ({ ...prev, confirm: e.target.value }))}
+                          disabled={isChangingPassphrase}
+                        />
+                        {passphraseForm.next && passphraseError && (
+                          <p className="text-sm text-red-600">{passphraseError}</p>
+                        )}
+                      </div>
+
+                      <Alert className="border-yellow-200 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-950">
+                        <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                        <AlertDescription className="text-yellow-800 dark:text-yellow-200">
+                          A forgotten passphrase can&apos;t be recovered. Export a backup first and keep it somewhere
+                          safe.
+                        </AlertDescription>
+                      </Alert>
+
+                      <div className="flex flex-col sm:flex-row gap-2">
+                        <Button
+                          onClick={() => handleChangePassphrase()}
+                          disabled={isChangingPassphrase || !!passphraseError}
+                        >
+                          {isChangingPassphrase ? (
+                            <LoadingSpinner size="sm" className="mr-2" />
+                          ) : (
+                            <KeyRound className="h-4 w-4 mr-2" />
+                          )}
+                          {isEncrypted ? "Change Passphrase" : "Encrypt Data"}
+                        </Button>
+                        {isEncrypted && (
+                          <Button
+                            variant="outline"
+                            className="text-red-600 bg-transparent"
+                            onClick={() => handleChangePassphrase(true)}
+                            disabled={isChangingPassphrase || !passphraseForm.current}
+                          >
+                            Remove Passphrase
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {isEncrypted && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2">
+                      <Lock className="h-5 w-5" />
+                      <span>Auto-Lock</span>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2 max-w-xs">
+                      <Label htmlFor="auto-lock">Lock after inactivity</Label>
+                      <Select
+                        value={settings.autoLockMinutes}
+                        onValueChange={(value) => updateSetting("autoLockMinutes", value)}
+                      >
+                        <SelectTrigger id="auto-lock">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {AUTO_LOCK_OPTIONS.map((minutes) => (
+                            <SelectItem key={minutes} value={minutes}>
+                              {minutes} minute{minutes === "1" ? "" : "s"}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-caption">The app locks and clears decrypted data from memory</p>
+                    </div>
+                    <Button variant="outline" onClick={lock}>
+                      <Lock className="h-4 w-4 mr-2" />
+                      Lock Now
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+          )}
+
           {/* Data Management */}
           <TabsContent value="data" className="space-y-6">
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -683,51 +1609,79 @@ export default function SettingsPage() {
                     <p className="text-caption">Download a backup of all your data</p>
                   </div>
 
-                  <Separator />
+                  {can("manageData") && (
+                    <>
+                      <Separator />
+
+                      <div className="space-y-2">
+                        <Label htmlFor="import-file" className="cursor-pointer">
+                          <Button variant="outline" className="w-full justify-start bg-transparent" asChild>
+                            <span>
+                              <Upload className="h-4 w-4 mr-2" />
+                              Import Data
+                              <ChevronRight className="h-4 w-4 ml-auto" />
+                            </span>
+                          </Button>
+                        </Label>
+                        <input
+                          id="import-file"
+                          type="file"
+                          accept=".json"
+                          onChange={handleImportData}
+                          className="hidden"
+                        />
+                        <p className="text-caption">Preview a backup file, then merge it in or replace your data</p>
+                      </div>
 
-                  <div className="space-y-2">
-                    <Label htmlFor="import-file" className="cursor-pointer">
-                      <Button variant="outline" className="w-full justify-start bg-transparent" asChild>
-                        <span>
-                          <Upload className="h-4 w-4 mr-2" />
-                          Import Data
-                          <ChevronRight className="h-4 w-4 ml-auto" />
-                        </span>
-                      </Button>
-                    </Label>
-                    <input id="import-file" type="file" accept=".json" onChange={handleImportData} className="hidden" />
-                    <p className="text-caption">Restore data from a backup file</p>
-                  </div>
+                      {canRollback && (
+                        <div className="space-y-2">
+                          <Button
+                            onClick={handleRollbackImport}
+                            variant="outline"
+                            className="w-full justify-start"
+                            disabled={isLoading}
+                          >
+                            <Undo2 className="h-4 w-4 mr-2" />
+                            Roll Back Last Import
+                            <ChevronRight className="h-4 w-4 ml-auto" />
+                          </Button>
+                          <p className="text-caption">Restore the snapshot taken before the last import</p>
+                        </div>
+                      )}
+                    </>
+                  )}
                 </CardContent>
               </Card>
 
-              <Card className="border-red-200 dark:border-red-800">
-                <CardHeader>
-                  <CardTitle className="flex items-center space-x-2 text-red-600">
-                    <AlertTriangle className="h-5 w-5" />
-                    <span>Danger Zone</span>
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <Alert className="border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950">
-                    <AlertTriangle className="h-4 w-4 text-red-600" />
-                    <AlertDescription className="text-red-800 dark:text-red-200">
-                      These actions cannot be undone. Please proceed with caution.
-                    </AlertDescription>
-                  </Alert>
-
-                  <Button
-                    onClick={() => setShowResetModal(true)}
-                    variant="destructive"
-                    className="w-full"
-                    disabled={!state.isInitialized}
-                  >
-                    <Trash2 className="h-4 w-4 mr-2" />
-                    Reset Fund
-                  </Button>
-                  <p className="text-caption">Permanently delete all data and start fresh</p>
-                </CardContent>
-              </Card>
+              {can("manageData") && (
+                <Card className="border-red-200 dark:border-red-800">
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2 text-red-600">
+                      <AlertTriangle className="h-5 w-5" />
+                      <span>Danger Zone</span>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <Alert className="border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950">
+                      <AlertTriangle className="h-4 w-4 text-red-600" />
+                      <AlertDescription className="text-red-800 dark:text-red-200">
+                        These actions cannot be undone. Please proceed with caution.
+                      </AlertDescription>
+                    </Alert>
+
+                    <Button
+                      onClick={() => setShowResetModal(true)}
+                      variant="destructive"
+                      className="w-full"
+                      disabled={!state.isInitialized}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Reset Fund
+                    </Button>
+                    <p className="text-caption">Permanently delete the active fund and its history</p>
+                  </CardContent>
+                </Card>
+              )}
             </div>
           </TabsContent>
         </Tabs>
@@ -744,8 +1698,8 @@ export default function SettingsPage() {
           description={
             <div className="space-y-4">
               <p>
-                This action will permanently delete all transactions, reconciliation history, and reset your fund. This
-                cannot be undone.
+                This action will permanently delete {state.name}, including its transactions and reconciliation history.
+                Other funds are not affected. This cannot be undone.
               </p>
               <div className="space-y-2">
                 <Label htmlFor="reset-confirmation">
@@ -774,7 +1728,7 @@ export default function SettingsPage() {
             <div className="space-y-4">
               <p>This will download a JSON file containing:</p>
               <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
-                <li>All transaction data</li>
+                <li>All funds and their transaction data</li>
                 <li>Reconciliation history</li>
                 <li>System settings</li>
                 <li>Custom categories</li>
@@ -787,6 +1741,17 @@ export default function SettingsPage() {
           confirmText="Export"
           variant="default"
         />
+
+        <ImportPreviewDialog
+          isOpen={showImportModal}
+          onClose={closeImport}
+          fileName={pendingImport?.fileName ?? ""}
+          backup={pendingImport?.backup ?? null}
+          preview={pendingImport?.preview ?? null}
+          errors={pendingImport?.errors ?? []}
+          onApply={handleApplyImport}
+          isLoading={isLoading}
+        />
       </div>
     </AppLayout>
   )
@@ -0,0 +1,71 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { formatCurrency } from "@/lib/money"
+import { countTotal, getDenominations, toDenominationCounts } from "@/lib/denominations"
+import type { Denomination } from "@/lib/denominations"
+
+interface DenominationCounterProps {
+  currency: string
+  // Quantity typed for each denomination, keyed by its value in minor units
+  quantities: Record<number, string>
+  onChange: (quantities: Record<number, string>) => void
+  disabled?: boolean
+}
+
+export function DenominationCounter({ currency, quantities, onChange, disabled }: DenominationCounterProps) {
+  const denominations = getDenominations(currency)
+  const counts = toDenominationCounts(currency, quantities)
+
+  const renderGroup = (title: string, group: Denomination[]) => (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium text-muted-foreground">{title}</h4>
+      {group.map((denomination) => {
+        const quantity = counts.find((count) => count.value === denomination.value)?.quantity ?? 0
+        const id = `denomination-${denomination.kind}-${denomination.value}`
+        return (
+          <div key={id} className="grid grid-cols-[1fr_5rem_1fr] items-center gap-3">
+            <Label htmlFor={id} className="font-mono font-normal">
+              {formatCurrency(denomination.value, currency)}
+            </Label>
+            <Input
+              id={id}
+              type="number"
+              min="0"
+              step="1"
+              inputMode="numeric"
+              value={quantities[denomination.value] ?? ""}
+              onChange={(e) => onChange({ ...quantities, [denomination.value]: e.target.value })}
+              placeholder="0"
+              disabled={disabled}
+              className="text-right"
+            />
+            <span className={`text-right font-mono text-sm ${quantity ? "" : "text-muted-foreground"}`}>
+              {formatCurrency(denomination.value * quantity, currency)}
+            </span>
+          </div>
+        )
+      })}
+    </div>
+  )
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {renderGroup(
+          "Bills",
+          denominations.filter((d) => d.kind === "bill"),
+        )}
+        {renderGroup(
+          "Coins",
+          denominations.filter((d) => d.kind === "coin"),
+        )}
+      </div>
+      <div className="flex items-center justify-between border-t pt-3">
+        <span className="font-medium">Counted Total</span>
+        <span className="font-mono text-lg font-semibold">{formatCurrency(countTotal(counts), currency)}</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,213 @@
+"use client"
+
+import { AlertTriangle, FileWarning, GitMerge, Replace } from "lucide-react"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Modal, ModalContent, ModalDescription, ModalFooter, ModalHeader, ModalTitle } from "@/components/ui/modal"
+import { LoadingSpinner } from "./LoadingSpinner"
+import { diffRecords } from "@/lib/audit"
+import { BACKUP_VERSION } from "@/lib/backup"
+import type { Backup, ImportPreview } from "@/lib/backup"
+import { formatCurrency } from "@/lib/money"
+
+// Conflicts listed per fund before the rest are summed up
+const MAX_CONFLICTS_SHOWN = 5
+
+interface ImportPreviewDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  fileName: string
+  // Set when the file validated
+  backup: Backup | null
+  preview: ImportPreview | null
+  // Set when it didn't
+  errors: string[]
+  onApply: (mode: "replace" | "merge") => void
+  isLoading?: boolean
+}
+
+export function ImportPreviewDialog({
+  isOpen,
+  onClose,
+  fileName,
+  backup,
+  preview,
+  errors,
+  onApply,
+  isLoading = false,
+}: ImportPreviewDialogProps) {
+  const blockedMessage = (funds: string[]) =>
+    `This would change reconciled periods in ${funds.join(", ")}. Reopen them first.`
+
+  return (
+    <Modal open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <ModalContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <ModalHeader>
+          <ModalTitle>Import Backup</ModalTitle>
+          <ModalDescription>
+            {fileName}
+            {backup && (
+              <>
+                {" "}
+                • version {backup.version}
+                {backup.exportDate && <> • exported {new Date(backup.exportDate).toLocaleString()}</>}
+              </>
+            )}
+          </ModalDescription>
+        </ModalHeader>
+
+        {errors.length > 0 ? (
+          <Alert className="border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950">
+            <FileWarning className="h-4 w-4 text-red-600" />
+            <AlertDescription className="text-red-800 dark:text-red-200">
+              <p className="font-medium mb-2">This file can&apos;t be imported. Nothing has been changed.</p>
+              <ul className="list-disc list-inside space-y-1 text-sm">
+                {errors.map((error, i) => (
+                  <li key={i}>{error}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        ) : (
+          backup &&
+          preview && (
+            <div className="space-y-4">
+              {backup.version !== BACKUP_VERSION && (
+                <p className="text-sm text-muted-foreground">
+                  This backup comes from an older version and has been converted to the current format.
+                </p>
+              )}
+
+              {preview.funds.map((fund) => (
+                <div key={fund.fundId} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{fund.name}</span>
+                    {fund.isNew && <Badge variant="secondary">New fund</Badge>}
+                  </div>
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    <Badge variant="outline" className="border-green-500 text-green-700 dark:text-green-300">
+                      {fund.added.length} new
+                    </Badge>
+                    <Badge variant="outline">{fund.duplicates.length} already here</Badge>
+                    {fund.conflicts.length > 0 && (
+                      <Badge variant="outline" className="border-yellow-500 text-yellow-700 dark:text-yellow-300">
+                        {fund.conflicts.length} conflicting
+                      </Badge>
+                    )}
+                    {fund.voids.length > 0 && <Badge variant="outline">{fund.voids.length} voided by merge</Badge>}
+                    {fund.skippedReversals.length > 0 && (
+                      <Badge variant="outline" className="border-yellow-500 text-yellow-700 dark:text-yellow-300">
+                        {fund.skippedReversals.length} reversals skipped
+                      </Badge>
+                    )}
+                  </div>
+                  {fund.skippedReversals.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Skipped reversals undo transactions that were already voided here by a different reversal.
+                    </p>
+                  )}
+                  {fund.conflicts.length > 0 && (
+                    <ul className="text-xs text-muted-foreground space-y-1">
+                      {fund.conflicts.slice(0, MAX_CONFLICTS_SHOWN).map(({ current, incoming }) => (
+                        <li key={current.id}>
+                          <span className="font-mono">{current.id}</span> •{" "}
+                          {new Date(current.date).toLocaleDateString()} •{" "}
+                          {formatCurrency(current.amount, fund.currency)} • differs in{" "}
+                          {diffRecords("", current, incoming)
+                            .map((change) => change.path.slice(1))
+                            .join(", ")}
+                        </li>
+                      ))}
+                      {fund.conflicts.length > MAX_CONFLICTS_SHOWN && (
+                        <li>…and {fund.conflicts.length - MAX_CONFLICTS_SHOWN} more</li>
+                      )}
+                    </ul>
+                  )}
+                </div>
+              ))}
+
+              <div className="text-sm text-muted-foreground space-y-1">
+                {backup.reconciliationHistory && (
+                  <p>
+                    Reconciliations: {preview.reconciliations.added} new, {preview.reconciliations.duplicates} already
+                    here
+                  </p>
+                )}
+                {preview.recipients && (
+                  <p>
+                    Recipients: {preview.recipients.added} new, {preview.recipients.duplicates} already here
+                  </p>
+                )}
+                {backup.settings && <p>Settings are included.</p>}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+                <div className="p-3 border rounded-lg space-y-1">
+                  <p className="font-medium flex items-center">
+                    <GitMerge className="h-4 w-4 mr-2" />
+                    Merge
+                  </p>
+                  <p className="text-muted-foreground">
+                    Adds new funds, transactions, reconciliations and recipients. Conflicting transactions and settings
+                    keep the version here.
+                  </p>
+                  {preview.mergeBlockedBy.length > 0 && (
+                    <p className="text-red-600">{blockedMessage(preview.mergeBlockedBy)}</p>
+                  )}
+                </div>
+                <div className="p-3 border rounded-lg space-y-1">
+                  <p className="font-medium flex items-center">
+                    <Replace className="h-4 w-4 mr-2" />
+                    Replace
+                  </p>
+                  <p className="text-muted-foreground">
+                    Everything here is swapped for the backup
+                    {preview.missingFunds.length > 0 && <>, removing {preview.missingFunds.join(", ")}</>}.
+                  </p>
+                  {preview.replaceBlockedBy.length > 0 && (
+                    <p className="text-red-600">{blockedMessage(preview.replaceBlockedBy)}</p>
+                  )}
+                </div>
+              </div>
+
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  A snapshot is taken first, so the import can be rolled back from Data Management until the app is
+                  closed.
+                </AlertDescription>
+              </Alert>
+            </div>
+          )
+        )}
+
+        <ModalFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={onClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          {errors.length === 0 && preview && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => onApply("merge")}
+                disabled={isLoading || preview.mergeBlockedBy.length > 0}
+              >
+                {isLoading ? <LoadingSpinner size="sm" className="mr-2" /> : <GitMerge className="h-4 w-4 mr-2" />}
+                Merge
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => onApply("replace")}
+                disabled={isLoading || preview.replaceBlockedBy.length > 0}
+              >
+                {isLoading ? <LoadingSpinner size="sm" className="mr-2" /> : <Replace className="h-4 w-4 mr-2" />}
+                Replace
+              </Button>
+            </>
+          )}
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  )
+}
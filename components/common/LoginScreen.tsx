@@ -0,0 +1,105 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { LogIn, UserCircle } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { LoadingSpinner } from "@/components/common/LoadingSpinner"
+import { rateLimiter } from "@/lib/security"
+import { roleLabel } from "@/lib/users"
+import type { UserProfile } from "@/lib/users"
+import { cn } from "@/lib/utils"
+
+interface LoginScreenProps {
+  users: UserProfile[]
+  // Resolves false when the PIN is wrong
+  onLogin: (userId: string, pin: string) => Promise<boolean>
+}
+
+export function LoginScreen({ users, onLogin }: LoginScreenProps) {
+  const [userId, setUserId] = useState(users.length === 1 ? users[0].id : "")
+  const [pin, setPin] = useState("")
+  const [error, setError] = useState("")
+  const [isSigningIn, setIsSigningIn] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!userId || !pin) return
+
+    if (!rateLimiter.isAllowed(`login-${userId}`, 5, 60_000)) {
+      setError("Too many attempts. Wait a minute and try again.")
+      return
+    }
+
+    setIsSigningIn(true)
+    setError("")
+    if (await onLogin(userId, pin)) {
+      rateLimiter.reset(`login-${userId}`)
+      return
+    }
+    setIsSigningIn(false)
+    setError("Incorrect PIN")
+    setPin("")
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <Card className="max-w-md w-full">
+        <CardHeader className="text-center">
+          <CardTitle>Sign In</CardTitle>
+          <CardDescription>Choose your profile and enter your PIN.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              {users.map((user) => (
+                <button
+                  key={user.id}
+                  type="button"
+                  onClick={() => {
+                    setUserId(user.id)
+                    setError("")
+                  }}
+                  className={cn(
+                    "w-full flex items-center space-x-3 p-3 border rounded-lg text-left transition-colors",
+                    userId === user.id ? "border-primary bg-primary/5" : "hover:bg-muted/50",
+                  )}
+                >
+                  <UserCircle className="h-6 w-6 text-muted-foreground" />
+                  <div>
+                    <p className="font-medium">{user.name}</p>
+                    <p className="text-xs text-muted-foreground">{roleLabel(user.role)}</p>
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="login-pin">PIN</Label>
+              <Input
+                id="login-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                maxLength={8}
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+                disabled={!userId || isSigningIn}
+                className={error ? "border-red-500" : ""}
+              />
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+
+            <Button type="submit" className="w-full" disabled={!userId || !pin || isSigningIn}>
+              {isSigningIn ? <LoadingSpinner size="sm" className="mr-2" /> : <LogIn className="h-4 w-4 mr-2" />}
+              Sign In
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+"use client"
+
+import type React from "react"
+
+import { useRef, useState } from "react"
+import { Paperclip, FileText, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { RECEIPT_ACCEPT, validateReceiptFile } from "@/lib/receipts"
+
+interface ReceiptPickerProps {
+  files: File[]
+  onChange: (files: File[]) => void
+  disabled?: boolean
+}
+
+// Collects receipt files for a form; nothing is stored until the form is submitted
+export function ReceiptPicker({ files, onChange, disabled }: ReceiptPickerProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [errors, setErrors] = useState<string[]>([])
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? [])
+    const rejected = selected.map(validateReceiptFile).filter((error) => error !== "")
+    setErrors(rejected)
+    onChange([...files, ...selected.filter((file) => validateReceiptFile(file) === "")])
+
+    // Allow picking the same file again after removing it
+    e.target.value = ""
+  }
+
+  const removeFile = (index: number) => {
+    onChange(files.filter((_, i) => i !== index))
+  }
+
+  return (
+    <div className="space-y-3">
+      <input
+        ref={inputRef}
+        type="file"
+        accept={RECEIPT_ACCEPT}
+        multiple
+        className="hidden"
+        onChange={handleSelect}
+        disabled={disabled}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        className="bg-transparent"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+      >
+        <Paperclip className="h-4 w-4 mr-2" />
+        Attach Receipt
+      </Button>
+
+      {files.length > 0 && (
+        <ul className="space-y-2">
+          {files.map((file, index) => (
+            <li
+              key={`${file.name}-${index}`}
+              className="flex items-center justify-between rounded-md border p-2 text-sm"
+            >
+              <div className="flex items-center space-x-2 min-w-0">
+                <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <span className="truncate">{file.name}</span>
+                <span className="text-xs text-muted-foreground flex-shrink-0">{Math.ceil(file.size / 1024)} KB</span>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => removeFile(index)}
+                aria-label={`Remove ${file.name}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {errors.map((error) => (
+        <p key={error} className="text-sm text-red-600">
+          {error}
+        </p>
+      ))}
+    </div>
+  )
+}
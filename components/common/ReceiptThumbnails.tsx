@@ -0,0 +1,95 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { FileText, ImageOff } from "lucide-react"
+import { getReceipts } from "@/lib/receipts"
+
+interface ReceiptThumbnailsProps {
+  receiptIds: string[]
+}
+
+interface ReceiptPreview {
+  id: string
+  name: string
+  type: string
+  url: string
+}
+
+export function ReceiptThumbnails({ receiptIds }: ReceiptThumbnailsProps) {
+  const [previews, setPreviews] = useState<ReceiptPreview[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  // Join the ids so a new array with the same receipts doesn't reload them
+  const idsKey = receiptIds.join(",")
+
+  useEffect(() => {
+    let cancelled = false
+    let urls: string[] = []
+
+    setIsLoading(true)
+    getReceipts(idsKey ? idsKey.split(",") : [])
+      .then((receipts) => {
+        if (cancelled) return
+        const loaded = receipts.map((receipt) => ({
+          id: receipt.id,
+          name: receipt.name,
+          type: receipt.type,
+          url: URL.createObjectURL(receipt.data),
+        }))
+        urls = loaded.map((preview) => preview.url)
+        setPreviews(loaded)
+      })
+      .catch((error) => {
+        console.error("Error loading receipts:", error)
+        if (!cancelled) setPreviews([])
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+      urls.forEach((url) => URL.revokeObjectURL(url))
+    }
+  }, [idsKey])
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading receipts...</p>
+  }
+
+  const missingCount = receiptIds.length - previews.length
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+        {previews.map((preview) => (
+          <a
+            key={preview.id}
+            href={preview.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={preview.name}
+            className="group block overflow-hidden rounded-md border hover:border-primary transition-colors"
+          >
+            {preview.type.startsWith("image/") ? (
+              <img src={preview.url} alt={preview.name} className="h-24 w-full object-cover" />
+            ) : (
+              <div className="flex h-24 flex-col items-center justify-center space-y-1 bg-muted/50 p-2">
+                <FileText className="h-8 w-8 text-muted-foreground" />
+                <span className="w-full truncate text-center text-xs">{preview.name}</span>
+              </div>
+            )}
+          </a>
+        ))}
+      </div>
+      {missingCount > 0 && (
+        <p className="flex items-center space-x-1 text-xs text-muted-foreground">
+          <ImageOff className="h-3 w-3" />
+          <span>
+            {missingCount} receipt{missingCount === 1 ? " is" : "s are"} not stored on this device
+          </span>
+        </p>
+      )}
+    </div>
+  )
+}
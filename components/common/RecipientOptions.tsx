@@ -0,0 +1,24 @@
+"use client"
+
+import type { Recipient } from "@/lib/recipients"
+
+interface RecipientOptionsProps {
+  // Referenced by the recipient inputs' list attribute
+  id: string
+  recipients: Recipient[]
+}
+
+// Directory suggestions for a recipient Input, with department and employee ID as the hint
+export function RecipientOptions({ id, recipients }: RecipientOptionsProps) {
+  return (
+    <datalist id={id}>
+      {recipients.map((recipient) => (
+        <option
+          key={recipient.id}
+          value={recipient.name}
+          label={[recipient.department, recipient.employeeId].filter(Boolean).join(" • ") || undefined}
+        />
+      ))}
+    </datalist>
+  )
+}
@@ -0,0 +1,87 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Lock } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { LoadingSpinner } from "@/components/common/LoadingSpinner"
+import { rateLimiter } from "@/lib/security"
+
+interface UnlockScreenProps {
+  // Resolves false when the passphrase is wrong
+  onUnlock: (passphrase: string) => Promise<boolean>
+}
+
+export function UnlockScreen({ onUnlock }: UnlockScreenProps) {
+  const [passphrase, setPassphrase] = useState("")
+  const [error, setError] = useState("")
+  const [isUnlocking, setIsUnlocking] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!passphrase) return
+
+    // Each attempt runs PBKDF2, but guessing should still be slow
+    if (!rateLimiter.isAllowed("unlock", 5, 60_000)) {
+      setError("Too many attempts. Wait a minute and try again.")
+      return
+    }
+
+    setIsUnlocking(true)
+    setError("")
+    try {
+      if (await onUnlock(passphrase)) {
+        rateLimiter.reset("unlock")
+        return
+      }
+      setError("Incorrect passphrase")
+    } catch (err) {
+      console.error("Unlock failed:", err)
+      setError("Your data could not be decrypted")
+    }
+    setIsUnlocking(false)
+    setPassphrase("")
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <Card className="max-w-md w-full">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+            <Lock className="h-6 w-6 text-primary" />
+          </div>
+          <CardTitle>Petty Cash is Locked</CardTitle>
+          <CardDescription>Enter your passphrase to decrypt your data on this device.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="unlock-passphrase">Passphrase</Label>
+              <Input
+                id="unlock-passphrase"
+                type="password"
+                autoComplete="current-password"
+                autoFocus
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                disabled={isUnlocking}
+                className={error ? "border-red-500" : ""}
+              />
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+            <Button type="submit" className="w-full" disabled={!passphrase || isUnlocking}>
+              {isUnlocking ? <LoadingSpinner size="sm" className="mr-2" /> : <Lock className="h-4 w-4 mr-2" />}
+              {isUnlocking ? "Unlocking..." : "Unlock"}
+            </Button>
+            <p className="text-xs text-center text-muted-foreground">
+              A forgotten passphrase can't be recovered. Keep a backup export somewhere safe.
+            </p>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -3,14 +3,29 @@
 import type React from "react"
 import { useState, useEffect } from "react"
 import { motion } from "framer-motion"
-import { Menu, Bell, User, Shield, Wifi, WifiOff } from "lucide-react"
+import { usePathname } from "next/navigation"
+import Link from "next/link"
+import { Menu, Bell, User, Shield, ShieldCheck, ShieldAlert, Wifi, WifiOff, Lock, LogOut } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import { Sidebar } from "./Sidebar"
 import { ErrorBoundary } from "@/components/common/ErrorBoundary"
+import { ConfirmDialog } from "@/components/common/ConfirmDialog"
 import { ThemeToggle } from "@/components/theme-toggle"
 import { isSecureContext } from "@/lib/security"
+import { usePettyCash } from "@/contexts/PettyCashContext"
+import { useUser } from "@/contexts/UserContext"
+import { ROUTE_PERMISSIONS, roleLabel } from "@/lib/users"
 
 interface AppLayoutProps {
   children: React.ReactNode
@@ -20,6 +35,14 @@ export function AppLayout({ children }: AppLayoutProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false)
   const [isOnline, setIsOnline] = useState(true)
   const [isSecure, setIsSecure] = useState(true)
+  const [showResealDialog, setShowResealDialog] = useState(false)
+  const { state, integrity, resealFund, isEncrypted, lock } = usePettyCash()
+  const { currentUser, logout, can } = useUser()
+  const pathname = usePathname()
+
+  const report = integrity[state.id]
+  const requiredPermission = ROUTE_PERMISSIONS[pathname]
+  const isAllowed = !requiredPermission || can(requiredPermission)
 
   // Monitor online status
   useEffect(() => {
@@ -65,6 +88,44 @@ export function AppLayout({ children }: AppLayoutProps) {
           </Alert>
         )}
 
+        {/* Integrity Warning */}
+        {report?.status === "broken" && (
+          <Alert className="rounded-none border-red-500 bg-red-50 dark:bg-red-950">
+            <ShieldAlert className="h-4 w-4 text-red-600" />
+            <AlertDescription className="flex flex-col sm:flex-row sm:items-center gap-2 text-red-800 dark:text-red-200">
+              <span>
+                <strong>Integrity Warning:</strong> {report.reason} in {state.name}
+                {report.brokenAt &&
+                  ` (first broken link: ${report.brokenAt.transactionId}, #${report.brokenAt.index + 1})`}
+                . The data may have been edited outside the app.
+              </span>
+              {can("manageData") && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="sm:ml-auto bg-transparent"
+                  onClick={() => setShowResealDialog(true)}
+                >
+                  Accept & Re-seal
+                </Button>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <ConfirmDialog
+          isOpen={showResealDialog}
+          onClose={() => setShowResealDialog(false)}
+          onConfirm={() => {
+            resealFund(state.id)
+            setShowResealDialog(false)
+          }}
+          title="Re-seal Transaction Log?"
+          description={`The current transactions of ${state.name} will be treated as correct and a new hash chain built over them. Only do this after checking the data.`}
+          confirmText="Re-seal"
+          variant="warning"
+        />
+
         {/* Header */}
         <header className="sticky top-0 z-40 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
           <div className="flex h-16 items-center justify-between px-4">
@@ -107,6 +168,45 @@ export function AppLayout({ children }: AppLayoutProps) {
                 )}
               </div>
 
+              {/* Integrity Status */}
+              {state.isInitialized && report && (
+                <div className="hidden sm:flex items-center space-x-2">
+                  {report.status === "verified" ? (
+                    <div
+                      className="flex items-center space-x-1 text-green-600"
+                      title={`Hash chain verified ${new Date(report.checkedAt).toLocaleString()}`}
+                    >
+                      <ShieldCheck className="h-4 w-4" />
+                      <span className="text-xs">Verified</span>
+                    </div>
+                  ) : report.status === "broken" ? (
+                    <div className="flex items-center space-x-1 text-red-600" title={report.reason}>
+                      <ShieldAlert className="h-4 w-4" />
+                      <span className="text-xs">Tampered</span>
+                    </div>
+                  ) : (
+                    <div
+                      className="flex items-center space-x-1 text-muted-foreground"
+                      title={
+                        report.status === "unavailable"
+                          ? "Integrity checks need a secure (HTTPS) connection"
+                          : "Sealing transaction log"
+                      }
+                    >
+                      <Shield className="h-4 w-4" />
+                      <span className="text-xs">{report.status === "unavailable" ? "Unverified" : "Sealing"}</span>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Lock (only with a passphrase set) */}
+              {isEncrypted && (
+                <Button variant="ghost" size="icon" onClick={lock} aria-label="Lock" title="Lock">
+                  <Lock className="h-5 w-5" />
+                </Button>
+              )}
+
               {/* Notifications (placeholder for future) */}
               <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
                 <Bell className="h-5 w-5" />
@@ -115,10 +215,32 @@ export function AppLayout({ children }: AppLayoutProps) {
                 </Badge>
               </Button>
 
-              {/* User Menu (placeholder for future) */}
-              <Button variant="ghost" size="icon" aria-label="User menu">
-                <User className="h-5 w-5" />
-              </Button>
+              {/* User Menu */}
+              {currentUser ? (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" className="space-x-2" aria-label="User menu">
+                      <User className="h-5 w-5" />
+                      <span className="hidden md:inline text-sm">{currentUser.name}</span>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel>
+                      <p>{currentUser.name}</p>
+                      <p className="text-xs font-normal text-muted-foreground">{roleLabel(currentUser.role)}</p>
+                    </DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={logout}>
+                      <LogOut className="h-4 w-4 mr-2" />
+                      Sign Out
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              ) : (
+                <Button variant="ghost" size="icon" aria-label="User menu">
+                  <User className="h-5 w-5" />
+                </Button>
+              )}
 
               {/* Theme Toggle */}
               <ThemeToggle />
@@ -139,7 +261,25 @@ export function AppLayout({ children }: AppLayoutProps) {
           <main className="flex-1 lg:ml-0">
             <div className="container mx-auto px-4 py-8">
               <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.3 }}>
-                {children}
+                {isAllowed ? (
+                  children
+                ) : (
+                  <div className="flex items-center justify-center min-h-[60vh]">
+                    <Card className="max-w-md w-full">
+                      <CardHeader className="text-center">
+                        <CardTitle>Access Denied</CardTitle>
+                      </CardHeader>
+                      <CardContent className="text-center space-y-4">
+                        <p className="text-muted-foreground">
+                          Your role ({currentUser ? roleLabel(currentUser.role) : "none"}) can&apos;t open this page.
+                        </p>
+                        <Link href="/">
+                          <Button>Back to Dashboard</Button>
+                        </Link>
+                      </CardContent>
+                    </Card>
+                  </div>
+                )}
               </motion.div>
             </div>
           </main>
@@ -0,0 +1,54 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import { Wallet, Plus } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { usePettyCash } from "@/contexts/PettyCashContext"
+import { cn } from "@/lib/utils"
+
+const NEW_FUND_VALUE = "__new__"
+
+interface FundSwitcherProps {
+  className?: string
+}
+
+export function FundSwitcher({ className }: FundSwitcherProps) {
+  const { funds, activeFundId, dispatch } = usePettyCash()
+  const router = useRouter()
+
+  const handleChange = (value: string) => {
+    if (value === NEW_FUND_VALUE) {
+      router.push("/initialize")
+      return
+    }
+    dispatch({ type: "SWITCH_FUND", payload: { fundId: value } })
+  }
+
+  if (funds.length === 0) return null
+
+  return (
+    <Select value={activeFundId ?? undefined} onValueChange={handleChange}>
+      <SelectTrigger className={cn("w-full", className)} aria-label="Switch fund">
+        <div className="flex items-center space-x-2 min-w-0">
+          <Wallet className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+          <SelectValue placeholder="Select fund" />
+        </div>
+      </SelectTrigger>
+      <SelectContent>
+        {funds.map((fund) => (
+          <SelectItem key={fund.id} value={fund.id}>
+            <span className="truncate">{fund.name}</span>
+            <span className="ml-2 text-xs text-muted-foreground">{fund.currency}</span>
+          </SelectItem>
+        ))}
+        <SelectSeparator />
+        <SelectItem value={NEW_FUND_VALUE}>
+          <div className="flex items-center space-x-2">
+            <Plus className="h-4 w-4" />
+            <span>New fund</span>
+          </div>
+        </SelectItem>
+      </SelectContent>
+    </Select>
+  )
+}
@@ -3,6 +3,7 @@
 import { Menu, DollarSign } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { ThemeToggle } from "@/components/theme-toggle"
+import { FundSwitcher } from "./FundSwitcher"
 
 interface NavbarProps {
   onMenuClick?: () => void
@@ -26,7 +27,10 @@ export function Navbar({ onMenuClick }: NavbarProps) {
             </div>
           </div>
 
-          <ThemeToggle />
+          <div className="flex items-center space-x-4">
+            <FundSwitcher className="hidden sm:flex w-56" />
+            <ThemeToggle />
+          </div>
         </div>
       </div>
     </nav>
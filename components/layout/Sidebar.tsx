@@ -15,11 +15,20 @@ import {
   DollarSign,
   ChevronRight,
   HelpCircle,
+  ClipboardCheck,
+  ScrollText,
+  Contact,
+  HandCoins,
 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Separator } from "@/components/ui/separator"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { usePettyCash } from "@/contexts/PettyCashContext"
+import { useUser } from "@/contexts/UserContext"
+import { ROUTE_PERMISSIONS } from "@/lib/users"
 import { cn } from "@/lib/utils"
+import { FundSwitcher } from "./FundSwitcher"
 
 interface SidebarProps {
   isOpen: boolean
@@ -45,7 +54,7 @@ const navigationGroups = [
         name: "Initialize Fund",
         href: "/initialize",
         icon: DollarSign,
-        description: "Set up your petty cash fund",
+        description: "Set up a new petty cash fund",
       },
       {
         name: "Record Disbursement",
@@ -54,6 +63,13 @@ const navigationGroups = [
         description: "Record money going out",
         color: "text-red-600",
       },
+      {
+        name: "Cash Advances",
+        href: "/advances",
+        icon: HandCoins,
+        description: "Hand out cash and settle it later",
+        color: "text-orange-600",
+      },
       {
         name: "Replenish Fund",
         href: "/replenish",
@@ -72,6 +88,12 @@ const navigationGroups = [
         icon: History,
         description: "View all transactions",
       },
+      {
+        name: "Approvals",
+        href: "/approvals",
+        icon: ClipboardCheck,
+        description: "Approve or reject large disbursements",
+      },
       {
         name: "Reconcile",
         href: "/reconcile",
@@ -84,6 +106,18 @@ const navigationGroups = [
         icon: FileText,
         description: "Generate detailed reports",
       },
+      {
+        name: "Recipients",
+        href: "/recipients",
+        icon: Contact,
+        description: "Who cash is paid to, and their limits",
+      },
+      {
+        name: "Audit Trail",
+        href: "/audit",
+        icon: ScrollText,
+        description: "Who changed what, and when",
+      },
     ],
   },
   {
@@ -101,6 +135,21 @@ const navigationGroups = [
 
 export function Sidebar({ isOpen, onClose }: SidebarProps) {
   const pathname = usePathname()
+  const { state } = usePettyCash()
+  const { can } = useUser()
+
+  // Only what the signed-in role can open
+  const visibleGroups = navigationGroups
+    .map((group) => ({
+      ...group,
+      items: group.items.filter((item) => !ROUTE_PERMISSIONS[item.href] || can(ROUTE_PERMISSIONS[item.href])),
+    }))
+    .filter((group) => group.items.length > 0)
+
+  // Counts shown next to nav items that have something waiting
+  const itemCounts: Record<string, number> = {
+    "/approvals": state.transactions.filter((t) => t.approvalStatus === "pending").length,
+  }
 
   return (
     <TooltipProvider>
@@ -138,9 +187,14 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
           </Button>
         </div>
 
+        {/* Fund Switcher */}
+        <div className="p-4 pb-0">
+          <FundSwitcher />
+        </div>
+
         {/* Navigation Groups */}
         <nav className="p-4 space-y-6">
-          {navigationGroups.map((group, groupIndex) => (
+          {visibleGroups.map((group, groupIndex) => (
             <motion.div
               key={group.title}
               initial={{ opacity: 0, y: 20 }}
@@ -179,6 +233,12 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
                             <span className="truncate">{item.name}</span>
                           </div>
 
+                          {itemCounts[item.href] > 0 && !isActive && (
+                            <Badge variant="secondary" className="h-5 px-1.5 text-xs">
+                              {itemCounts[item.href]}
+                            </Badge>
+                          )}
+
                           {isActive && (
                             <motion.div initial={{ scale: 0 }} animate={{ scale: 1 }} className="flex-shrink-0">
                               <ChevronRight className="h-3 w-3" />
@@ -195,7 +255,7 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
                 })}
               </div>
 
-              {groupIndex < navigationGroups.length - 1 && <Separator className="mt-4" />}
+              {groupIndex < visibleGroups.length - 1 && <Separator className="mt-4" />}
             </motion.div>
           ))}
         </nav>
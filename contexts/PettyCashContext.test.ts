@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest"
+import { balanceEffect, canVoid, isPosted, pettyCashReducer, STATE_VERSION } from "@/contexts/PettyCashContext"
+import type { Fund, PettyCashState } from "@/contexts/PettyCashContext"
+
+type Action = Parameters<typeof pettyCashReducer>[1]
+
+const fund: Fund = {
+  id: "FUND-1",
+  name: "Main",
+  custodian: "Alex",
+  currency: "USD",
+  balance: 10000,
+  isInitialized: true,
+  transactions: [{ id: "TXN-1", type: "initialization", amount: 10000, date: "2024-01-01", timestamp: 1 }],
+}
+
+const start: PettyCashState = { version: STATE_VERSION, funds: [fund], activeFundId: fund.id }
+
+const run = (state: PettyCashState, ...actions: Action[]) => actions.reduce(pettyCashReducer, state).funds[0]
+
+const advance: Action = {
+  type: "ADVANCE",
+  payload: { amount: 3000, date: "2024-01-10", recipient: "Sam", purpose: "Supplies" },
+}
+
+const settle = (advanceId: string, spent: number, date = "2024-01-12"): Action => ({
+  type: "SETTLE_ADVANCE",
+  payload: { advanceId, spent, date, purpose: "Supplies", category: "Office Supplies" },
+})
+
+// The balance the integrity check expects from the transactions alone
+const ledgerBalance = (f: Fund) => f.transactions.filter(isPosted).reduce((sum, t) => sum + balanceEffect(t), 0)
+
+describe("SETTLE_ADVANCE", () => {
+  const advanced = { ...start, funds: [run(start, advance)] }
+  const advanceId = advanced.funds[0].transactions[1].id
+
+  it("takes the advance out of the drawer", () => {
+    expect(advanced.funds[0].balance).toBe(7000)
+  })
+
+  it("puts the change back and records the spending as a disbursement", () => {
+    const settled = run(advanced, settle(advanceId, 2200))
+    expect(settled.balance).toBe(7800)
+    expect(ledgerBalance(settled)).toBe(settled.balance)
+
+    const [expense, settlement] = settled.transactions.slice(2)
+    expect(expense).toMatchObject({ type: "disbursement", amount: 2200, recipient: "Sam", advanceId })
+    expect(settlement).toMatchObject({ type: "settlement", amount: 3000, advanceId, changeReturned: 800 })
+  })
+
+  it("pays out the difference when more was spent than advanced", () => {
+    const settled = run(advanced, settle(advanceId, 3500))
+    expect(settled.balance).toBe(6500)
+    expect(settled.transactions.at(-1)?.changeReturned).toBe(-500)
+    expect(ledgerBalance(settled)).toBe(settled.balance)
+  })
+
+  it("returns the whole advance when nothing was spent", () => {
+    const settled = run(advanced, settle(advanceId, 0))
+    expect(settled.balance).toBe(10000)
+    expect(settled.transactions.map((t) => t.type)).toEqual(["initialization", "advance", "settlement"])
+  })
+
+  it("settles an advance only once", () => {
+    const once = { ...advanced, funds: [run(advanced, settle(advanceId, 1000))] }
+    expect(run(once, settle(advanceId, 1000))).toBe(once.funds[0])
+  })
+
+  it("refuses a settlement dated before the advance or paying out more than the drawer holds", () => {
+    expect(run(advanced, settle(advanceId, 1000, "2024-01-09"))).toBe(advanced.funds[0])
+    expect(run(advanced, settle(advanceId, 20000))).toBe(advanced.funds[0])
+  })
+
+  it("won't void the spending a settlement recorded", () => {
+    const settled = { ...advanced, funds: [run(advanced, settle(advanceId, 2200))] }
+    const expense = settled.funds[0].transactions[2]
+    expect(canVoid(expense)).toBe(false)
+    const voided = run(settled, {
+      type: "VOID",
+      payload: { transactionId: expense.id, reason: "Mistake", date: "2024-01-13" },
+    })
+    expect(voided).toBe(settled.funds[0])
+  })
+
+  it("ignores anything that isn't an outstanding advance", () => {
+    expect(run(advanced, settle("TXN-1", 0))).toBe(advanced.funds[0])
+  })
+})
+
+describe("APPROVE", () => {
+  const held = {
+    ...start,
+    funds: [
+      run(start, {
+        type: "DISBURSE",
+        payload: {
+          amount: 6000,
+          date: "2024-01-10",
+          purpose: "Repairs",
+          category: "Maintenance",
+          recipient: "Sam",
+          requiresApproval: true,
+          enteredBy: "Alex",
+        },
+      }),
+    ],
+  }
+  const pendingId = held.funds[0].transactions[1].id
+  const approve = (approver: string): Action => ({ type: "APPROVE", payload: { transactionId: pendingId, approver } })
+
+  it("deducts the disbursement once someone else approves it", () => {
+    const approved = run(held, approve("Jordan"))
+    expect(approved.balance).toBe(4000)
+    expect(approved.transactions[1]).toMatchObject({ approvalStatus: "approved", approver: "Jordan" })
+  })
+
+  it("refuses approval by whoever entered it", () => {
+    expect(run(held, approve("alex"))).toBe(held.funds[0])
+  })
+
+  it("refuses approval by the recipient", () => {
+    expect(run(held, approve(" SAM "))).toBe(held.funds[0])
+  })
+})
+
+describe("advances over the approval threshold", () => {
+  // The default threshold is 500.00
+  const flush = {
+    ...start,
+    funds: [
+      {
+        ...fund,
+        balance: 200000,
+        transactions: [{ ...fund.transactions[0], amount: 200000 }],
+      },
+    ],
+  }
+  const advanceOf = (amount: number): Action => ({ type: "ADVANCE", payload: { ...advance.payload, amount } })
+
+  it("refuses an advance over the threshold", () => {
+    expect(run(flush, advanceOf(50001))).toBe(flush.funds[0])
+    expect(run(flush, advanceOf(50000)).balance).toBe(150000)
+  })
+
+  it("refuses a settlement that pays out more than the threshold", () => {
+    const advanced = { ...flush, funds: [run(flush, advanceOf(10000))] }
+    const advanceId = advanced.funds[0].transactions[1].id
+    expect(run(advanced, settle(advanceId, 60001))).toBe(advanced.funds[0])
+    expect(run(advanced, settle(advanceId, 60000)).balance).toBe(140000)
+  })
+})
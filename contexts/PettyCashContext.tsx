@@ -1,32 +1,199 @@
 "use client"
 
 import type React from "react"
-import { createContext, useContext, useReducer, useEffect } from "react"
+import { createContext, useCallback, useContext, useReducer, useEffect, useRef, useState } from "react"
+import { LoadingSpinner } from "@/components/common/LoadingSpinner"
+import { UnlockScreen } from "@/components/common/UnlockScreen"
+import { getApprovalThreshold } from "@/lib/approvals"
+import { toMinorUnits } from "@/lib/money"
+import { DEFAULT_AUTO_LOCK_MINUTES } from "@/lib/security"
+import { useToast } from "@/hooks/use-toast"
+import { prepareReceiptRekey } from "@/lib/receipts"
+import {
+  changePassphrase,
+  getSetting,
+  initStorage,
+  isEncryptionEnabled,
+  isStorageLocked,
+  loadState,
+  lockStorage,
+  onWriteError,
+  saveState,
+  unlockStorage,
+} from "@/lib/storage"
+import { chainHead, isHashingAvailable, sameHead, sealChain, verifyChain } from "@/lib/integrity"
+import { diffStates, recordAudit } from "@/lib/audit"
+import type { ChainHead, IntegrityReport } from "@/lib/integrity"
 
 export interface Transaction {
   id: string
-  type: "disbursement" | "replenishment" | "initialization"
+  type: "disbursement" | "replenishment" | "initialization" | "reversal" | "adjustment" | "advance" | "settlement"
+  // Integer amount in the fund currency's minor unit (see lib/money.ts)
   amount: number
   date: string
   purpose?: string
+  category?: string
+  notes?: string
+  // Receipt or invoice number
+  reference?: string
+  // Vendor that was paid, when different from the person who received the cash
+  payee?: string
   recipient?: string
+  // Where a replenishment's cash came from (see REPLENISHMENT_SOURCES in lib/ledger.ts)
+  source?: string
+  // Top-up an imprest fund called for when this replenishment was recorded (see lib/imprest.ts)
+  expectedAmount?: number
+  // Set on a settlement and the disbursement it recorded, pointing at the advance (see lib/advances.ts)
+  advanceId?: string
+  // Set on a settlement: cash handed back, negative when more was spent and the difference paid out
+  changeReturned?: number
   timestamp: number
+  // Name of the signed-in user who recorded it (see lib/users.ts); unset when no users are set up
+  enteredBy?: string
+  // Set on a voided transaction, pointing at the reversal that offsets it
+  voidedBy?: string
+  // Set on a reversal, pointing at the transaction it offsets
+  reversalOf?: string
+  reversedType?: "disbursement" | "replenishment"
+  // Void reason, or the explanation for an over/short adjustment
+  reason?: string
+  // Set on an adjustment: whether the count was over or short of the system balance
+  overShort?: "over" | "short"
+  // Reconciliation record the adjustment was posted from
+  reconciliationId?: string
+  // Ids of receipt files kept in IndexedDB (see lib/receipts.ts)
+  receiptIds?: string[]
+  // Large disbursements wait for approval and don't touch the balance until approved
+  approvalStatus?: "pending" | "approved" | "rejected"
+  approver?: string
+  reviewedAt?: number
+  rejectionReason?: string
+  // SHA-256 link in the fund's hash chain (see lib/integrity.ts); dropped whenever the transaction changes
+  hash?: string
 }
 
-interface PettyCashState {
+export interface Fund {
+  id: string
+  name: string
+  custodian: string
+  currency: string
+  // Minor units, like Transaction.amount
   balance: number
+  // Fixed amount an imprest fund is topped back up to; unset for funds replenished ad hoc
+  imprestAmount?: number
   transactions: Transaction[]
   isInitialized: boolean
+  // Transactions dated on or before this YYYY-MM-DD date are locked
+  closedThrough?: string
+  // Closes and reopens, oldest first
+  periodLog?: PeriodEvent[]
+  // Last sealed position of the hash chain (see lib/integrity.ts)
+  sealedThrough?: ChainHead
+}
+
+export interface PeriodEvent {
+  action: "close" | "reopen"
+  // Close date the fund was locked through after this event (undefined when fully open)
+  closedThrough?: string
+  reconciliationId?: string
+  reason?: string
+  enteredBy?: string
+  timestamp: number
+}
+
+// Bump when the persisted shape changes and add a step to migrateState
+export const STATE_VERSION = 5
+
+export interface PettyCashState {
+  version: number
+  funds: Fund[]
+  activeFundId: string | null
+}
+
+interface DisbursePayload {
+  amount: number
+  date: string
+  purpose: string
+  category: string
+  notes?: string
+  reference?: string
+  payee?: string
+  recipient: string
+  receiptIds?: string[]
+  requiresApproval?: boolean
+  enteredBy?: string
 }
 
 type PettyCashAction =
-  | { type: "INITIALIZE"; payload: { amount: number; date: string } }
-  | { type: "DISBURSE"; payload: { amount: number; date: string; purpose: string; recipient: string } }
-  | { type: "REPLENISH"; payload: { amount: number; date: string; source?: string } }
+  | {
+      type: "INITIALIZE"
+      payload: {
+        amount: number
+        date: string
+        name: string
+        custodian: string
+        currency: string
+        // Keep the initial amount as the fund's imprest amount
+        imprest?: boolean
+        enteredBy?: string
+      }
+    }
+  | { type: "DISBURSE"; payload: DisbursePayload }
+  // All rows are recorded, in order, or none are
+  | { type: "DISBURSE_BATCH"; payload: { disbursements: DisbursePayload[] } }
+  | {
+      type: "REPLENISH"
+      payload: {
+        amount: number
+        date: string
+        source?: string
+        notes?: string
+        // Bank statement line it was recorded from (see lib/statements.ts)
+        reference?: string
+        expectedAmount?: number
+        enteredBy?: string
+      }
+    }
+  | {
+      type: "ADVANCE"
+      payload: { amount: number; date: string; recipient: string; purpose: string; notes?: string; enteredBy?: string }
+    }
+  | {
+      type: "SETTLE_ADVANCE"
+      // spent is what the receipt comes to; anything left of the advance was handed back
+      payload: Omit<DisbursePayload, "amount" | "recipient" | "requiresApproval"> & { advanceId: string; spent: number }
+    }
+  | { type: "VOID"; payload: { transactionId: string; reason: string; date: string; enteredBy?: string } }
+  | {
+      type: "ADJUST"
+      // difference is physical minus system balance, in minor units
+      payload: { difference: number; date: string; reason: string; reconciliationId: string; enteredBy?: string }
+    }
+  | { type: "CLOSE_PERIOD"; payload: { through: string; reconciliationId: string; enteredBy?: string } }
+  | { type: "REOPEN_PERIOD"; payload: { reason: string; enteredBy?: string } }
+  | { type: "ATTACH_RECEIPTS"; payload: { transactionId: string; receiptIds: string[] } }
+  | { type: "APPROVE"; payload: { transactionId: string; approver: string } }
+  | { type: "REJECT"; payload: { transactionId: string; approver: string; reason: string } }
+  | {
+      type: "SEAL"
+      payload: { fundId: string; basis: Transaction[]; transactions: Transaction[]; sealedThrough?: ChainHead }
+    }
+  | { type: "SWITCH_FUND"; payload: { fundId: string } }
   | { type: "LOAD_FROM_STORAGE"; payload: PettyCashState }
   | { type: "RESET_FUND" }
 
 const initialState: PettyCashState = {
+  version: STATE_VERSION,
+  funds: [],
+  activeFundId: null,
+}
+
+// Stand-in for the active fund when no fund has been set up yet
+const emptyFund: Fund = {
+  id: "",
+  name: "",
+  custodian: "",
+  currency: "USD",
   balance: 0,
   transactions: [],
   isInitialized: false,
@@ -36,7 +203,211 @@ function generateTransactionId(): string {
   return `TXN-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 }
 
-function pettyCashReducer(state: PettyCashState, action: PettyCashAction): PettyCashState {
+function createDisbursement(payload: DisbursePayload, timestamp: number): Transaction {
+  return {
+    id: generateTransactionId(),
+    type: "disbursement",
+    amount: payload.amount,
+    date: payload.date,
+    purpose: payload.purpose,
+    category: payload.category,
+    notes: payload.notes || undefined,
+    reference: payload.reference || undefined,
+    payee: payload.payee || undefined,
+    recipient: payload.recipient,
+    timestamp,
+    enteredBy: payload.enteredBy,
+    receiptIds: payload.receiptIds?.length ? payload.receiptIds : undefined,
+    approvalStatus: payload.requiresApproval ? "pending" : undefined,
+  }
+}
+
+function generateFundId(): string {
+  return `FUND-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+// Signed effect of a transaction on the fund balance
+export function balanceEffect(transaction: Transaction): number {
+  switch (transaction.type) {
+    case "disbursement":
+    case "advance":
+      return -transaction.amount
+    case "reversal":
+      return transaction.reversedType === "disbursement" ? transaction.amount : -transaction.amount
+    case "adjustment":
+      return transaction.overShort === "short" ? -transaction.amount : transaction.amount
+    default:
+      return transaction.amount
+  }
+}
+
+// Voided transactions and their reversals cancel out and are left out of totals
+export function isVoidEntry(transaction: Transaction): boolean {
+  return !!transaction.voidedBy || transaction.type === "reversal"
+}
+
+// Pending and rejected disbursements have not moved any money
+export function isPosted(transaction: Transaction): boolean {
+  return transaction.approvalStatus !== "pending" && transaction.approvalStatus !== "rejected"
+}
+
+// Whether a transaction counts toward totals, charts and the balance trend
+export function isCounted(transaction: Transaction): boolean {
+  return isPosted(transaction) && !isVoidEntry(transaction)
+}
+
+// Whether a date falls in a period closed by reconciliation
+export function isClosedDate(fund: Fund, date: string): boolean {
+  return !!fund.closedThrough && date <= fund.closedThrough
+}
+
+// Disbursements still waiting for approval that closing through `date` would leave stuck
+export function pendingThrough(fund: Fund, date: string): Transaction[] {
+  return fund.transactions.filter((t) => t.approvalStatus === "pending" && t.date <= date)
+}
+
+// Earliest date new entries can use, for date pickers
+export function firstOpenDate(fund: Fund): string | undefined {
+  if (!fund.closedThrough) return undefined
+  const next = new Date(`${fund.closedThrough}T00:00:00Z`)
+  next.setUTCDate(next.getUTCDate() + 1)
+  return next.toISOString().split("T")[0]
+}
+
+// Close date a reopen falls back to: the close before the current one, skipping any already reopened
+export function previousCloseDate(fund: Fund): string | undefined {
+  const open: string[] = []
+  for (const event of fund.periodLog ?? []) {
+    if (event.action === "close" && event.closedThrough) open.push(event.closedThrough)
+    else if (event.action === "reopen") open.pop()
+  }
+  return open[open.length - 2]
+}
+
+/**
+ * Names of funds whose closed transactions would be added to, changed or
+ * removed by replacing the current funds with `incoming`.
+ */
+export function findClosedPeriodConflicts(current: Fund[], incoming: PettyCashState): string[] {
+  return current
+    .filter((fund) => fund.closedThrough)
+    .filter((fund) => {
+      // Hashes are left out since resealing later links can change them without touching the content
+      const closed = (transactions: Transaction[]) =>
+        JSON.stringify(
+          transactions
+            .filter((t) => isClosedDate(fund, t.date))
+            .map(({ hash: _hash, ...t }) => t)
+            .sort((a, b) => a.id.localeCompare(b.id)),
+        )
+      const replacement = incoming.funds.find((f) => f.id === fund.id)
+      return !replacement || closed(replacement.transactions) !== closed(fund.transactions)
+    })
+    .map((fund) => fund.name)
+}
+
+// Whoever entered a held disbursement can't also approve or reject it
+export function isOwnEntry(transaction: Transaction, approver: string): boolean {
+  return !!transaction.enteredBy && transaction.enteredBy.trim().toLowerCase() === approver.trim().toLowerCase()
+}
+
+// Nor approve money paid to themselves
+export function isOwnPayment(transaction: Transaction, approver: string): boolean {
+  return !!transaction.recipient && transaction.recipient.trim().toLowerCase() === approver.trim().toLowerCase()
+}
+
+// Spending recorded by a settlement stays put: voiding it alone would leave the advance settled with the cash back
+export function canVoid(transaction: Transaction): boolean {
+  return (
+    (transaction.type === "disbursement" || transaction.type === "replenishment") &&
+    !transaction.advanceId &&
+    !transaction.voidedBy &&
+    isPosted(transaction)
+  )
+}
+
+// Disbursements used to pack everything into purpose as "Category: purpose (notes)"
+function splitLegacyPurpose(transaction: Transaction): Transaction {
+  if (transaction.type !== "disbursement" || transaction.category || !transaction.purpose) return transaction
+
+  const match = transaction.purpose.match(/^([^:]+): ([\s\S]*?)(?: \(([^()]*)\))?$/)
+  if (!match) return transaction
+
+  const [, category, purpose, notes] = match
+  return { ...transaction, category: category.trim(), purpose: purpose.trim(), notes: notes?.trim() || undefined }
+}
+
+// Replenishments only recorded their source inside purpose
+function splitLegacySource(transaction: Transaction): Transaction {
+  if (transaction.type !== "replenishment" || transaction.source || !transaction.purpose) return transaction
+
+  const match = transaction.purpose.match(/^Replenishment from (.+)$/)
+  return match ? { ...transaction, source: match[1] } : transaction
+}
+
+/**
+ * Bring persisted or imported data up to the current shape:
+ *  - v0: legacy single fund ({ balance, transactions, isInitialized })
+ *  - v1: multi-fund, amounts as floating point major units
+ *  - v2: amounts as integer minor units
+ *  - v3: category and notes split out of purpose
+ *  - v4: replenishment source split out of purpose
+ *  - v5: how far the hash chain was sealed recorded on each fund
+ */
+export function migrateState(data: any): PettyCashState {
+  let funds: Fund[] = []
+  let activeFundId: string | null = null
+
+  if (data && Array.isArray(data.funds)) {
+    funds = data.funds
+    activeFundId = data.activeFundId ?? data.funds[0]?.id ?? null
+  } else if (data && data.isInitialized) {
+    const fund: Fund = {
+      ...emptyFund,
+      id: generateFundId(),
+      name: "Main Fund",
+      currency: getSetting("preferredCurrency", "USD"),
+      balance: data.balance ?? 0,
+      transactions: data.transactions ?? [],
+      isInitialized: true,
+    }
+    funds = [fund]
+    activeFundId = fund.id
+  }
+
+  if ((data?.version ?? 1) < 2) {
+    funds = funds.map((fund) => ({
+      ...fund,
+      balance: toMinorUnits(fund.balance, fund.currency),
+      transactions: fund.transactions.map((t) => ({ ...t, amount: toMinorUnits(t.amount, fund.currency) })),
+    }))
+  }
+
+  if ((data?.version ?? 1) < 3) {
+    funds = funds.map((fund) => ({ ...fund, transactions: fund.transactions.map(splitLegacyPurpose) }))
+  }
+
+  if ((data?.version ?? 1) < 4) {
+    funds = funds.map((fund) => ({ ...fund, transactions: fund.transactions.map(splitLegacySource) }))
+  }
+
+  // Taken from the hashes as they are; verifyChain still checks every link up to it
+  if ((data?.version ?? 1) < 5) {
+    funds = funds.map((fund) => ({ ...fund, sealedThrough: chainHead(fund.transactions) }))
+  }
+
+  return { version: STATE_VERSION, funds, activeFundId }
+}
+
+// Apply an update to the active fund only
+function updateActiveFund(state: PettyCashState, update: (fund: Fund) => Fund): PettyCashState {
+  return {
+    ...state,
+    funds: state.funds.map((fund) => (fund.id === state.activeFundId ? update(fund) : fund)),
+  }
+}
+
+export function pettyCashReducer(state: PettyCashState, action: PettyCashAction): PettyCashState {
   switch (action.type) {
     case "INITIALIZE":
       const initTransaction: Transaction = {
@@ -45,28 +416,122 @@ function pettyCashReducer(state: PettyCashState, action: PettyCashAction): Petty
         amount: action.payload.amount,
         date: action.payload.date,
         timestamp: Date.now(),
+        enteredBy: action.payload.enteredBy,
       }
-      return {
+      const fund: Fund = {
+        id: generateFundId(),
+        name: action.payload.name,
+        custodian: action.payload.custodian,
+        currency: action.payload.currency,
         balance: action.payload.amount,
+        imprestAmount: action.payload.imprest ? action.payload.amount : undefined,
         transactions: [initTransaction],
         isInitialized: true,
       }
+      return {
+        ...state,
+        funds: [...state.funds, fund],
+        activeFundId: fund.id,
+      }
 
     case "DISBURSE":
-      const disbursement: Transaction = {
+      const disbursement = createDisbursement(action.payload, Date.now())
+      return updateActiveFund(state, (fund) =>
+        isClosedDate(fund, disbursement.date)
+          ? fund
+          : {
+              ...fund,
+              balance: action.payload.requiresApproval ? fund.balance : fund.balance - action.payload.amount,
+              transactions: [...fund.transactions, disbursement],
+            },
+      )
+
+    case "DISBURSE_BATCH":
+      // One millisecond apart, so the hash chain keeps the rows in the order they were entered
+      const batchStart = Date.now()
+      const batch = action.payload.disbursements.map((payload, index) =>
+        createDisbursement(payload, batchStart + index),
+      )
+      return updateActiveFund(state, (fund) =>
+        batch.length === 0 || batch.some((t) => isClosedDate(fund, t.date))
+          ? fund
+          : {
+              ...fund,
+              balance: batch.filter(isPosted).reduce((balance, t) => balance + balanceEffect(t), fund.balance),
+              transactions: [...fund.transactions, ...batch],
+            },
+      )
+
+    case "ADVANCE":
+      const advance: Transaction = {
         id: generateTransactionId(),
-        type: "disbursement",
+        type: "advance",
         amount: action.payload.amount,
         date: action.payload.date,
         purpose: action.payload.purpose,
+        notes: action.payload.notes || undefined,
         recipient: action.payload.recipient,
         timestamp: Date.now(),
+        enteredBy: action.payload.enteredBy,
       }
-      return {
-        ...state,
-        balance: state.balance - action.payload.amount,
-        transactions: [...state.transactions, disbursement],
-      }
+      // Advances can't wait for approval the way disbursements do, so anything over the threshold is refused
+      return updateActiveFund(state, (fund) =>
+        isClosedDate(fund, advance.date) ||
+        advance.amount > fund.balance ||
+        advance.amount > getApprovalThreshold(fund.currency)
+          ? fund
+          : {
+              ...fund,
+              balance: fund.balance - advance.amount,
+              transactions: [...fund.transactions, advance],
+            },
+      )
+
+    case "SETTLE_ADVANCE":
+      return updateActiveFund(state, (fund) => {
+        const { advanceId, spent, ...details } = action.payload
+        const outstanding = fund.transactions.find((t) => t.id === advanceId)
+        if (!outstanding || outstanding.type !== "advance" || outstanding.voidedBy) return fund
+        if (fund.transactions.some((t) => t.type === "settlement" && t.advanceId === advanceId)) return fund
+        // Spending more than was advanced means paying the difference out of the drawer
+        const change = outstanding.amount - spent
+        if (details.date < outstanding.date || isClosedDate(fund, details.date) || -change > fund.balance) return fund
+        // Nor can paying out the difference; more than the threshold goes through a disbursement for approval
+        if (-change > getApprovalThreshold(fund.currency)) return fund
+
+        // What was bought is an ordinary disbursement, so reports, budgets and the journal pick it up;
+        // the settlement clears the advance, which leaves the change as the net effect on the balance
+        const settledAt = Date.now()
+        const expense: Transaction[] =
+          spent > 0
+            ? [
+                {
+                  ...createDisbursement(
+                    { ...details, amount: spent, recipient: outstanding.recipient ?? "" },
+                    settledAt,
+                  ),
+                  advanceId,
+                },
+              ]
+            : []
+        const settlement: Transaction = {
+          id: generateTransactionId(),
+          type: "settlement",
+          amount: outstanding.amount,
+          date: details.date,
+          purpose: `Settlement of ${advanceId}`,
+          recipient: outstanding.recipient,
+          timestamp: settledAt + 1,
+          enteredBy: details.enteredBy,
+          advanceId,
+          changeReturned: change,
+        }
+        return {
+          ...fund,
+          balance: fund.balance + change,
+          transactions: [...fund.transactions, ...expense, settlement],
+        }
+      })
 
     case "REPLENISH":
       const replenishment: Transaction = {
@@ -75,19 +540,202 @@ function pettyCashReducer(state: PettyCashState, action: PettyCashAction): Petty
         amount: action.payload.amount,
         date: action.payload.date,
         purpose: action.payload.source ? `Replenishment from ${action.payload.source}` : undefined,
+        source: action.payload.source || undefined,
+        notes: action.payload.notes || undefined,
+        reference: action.payload.reference || undefined,
+        expectedAmount: action.payload.expectedAmount,
+        timestamp: Date.now(),
+        enteredBy: action.payload.enteredBy,
+      }
+      return updateActiveFund(state, (fund) =>
+        isClosedDate(fund, replenishment.date)
+          ? fund
+          : {
+              ...fund,
+              balance: fund.balance + action.payload.amount,
+              transactions: [...fund.transactions, replenishment],
+            },
+      )
+
+    case "VOID":
+      return updateActiveFund(state, (fund) => {
+        const original = fund.transactions.find((t) => t.id === action.payload.transactionId)
+        if (!original || !canVoid(original)) return fund
+        if (isClosedDate(fund, original.date) || isClosedDate(fund, action.payload.date)) return fund
+
+        const reversal: Transaction = {
+          id: generateTransactionId(),
+          type: "reversal",
+          amount: original.amount,
+          date: action.payload.date,
+          purpose: `Reversal of ${original.id}`,
+          category: original.category,
+          source: original.source,
+          recipient: original.recipient,
+          timestamp: Date.now(),
+          enteredBy: action.payload.enteredBy,
+          reversalOf: original.id,
+          reversedType: original.type as "disbursement" | "replenishment",
+          reason: action.payload.reason,
+        }
+        return {
+          ...fund,
+          balance: fund.balance + balanceEffect(reversal),
+          transactions: [
+            ...fund.transactions.map((t) =>
+              t.id === original.id
+                ? { ...t, voidedBy: reversal.id, reason: action.payload.reason, hash: undefined }
+                : t,
+            ),
+            reversal,
+          ],
+        }
+      })
+
+    case "ADJUST":
+      if (action.payload.difference === 0) return state
+      const adjustment: Transaction = {
+        id: generateTransactionId(),
+        type: "adjustment",
+        amount: Math.abs(action.payload.difference),
+        date: action.payload.date,
+        purpose: action.payload.difference > 0 ? "Cash over" : "Cash short",
         timestamp: Date.now(),
+        enteredBy: action.payload.enteredBy,
+        reason: action.payload.reason,
+        overShort: action.payload.difference > 0 ? "over" : "short",
+        reconciliationId: action.payload.reconciliationId,
       }
+      return updateActiveFund(state, (fund) =>
+        isClosedDate(fund, adjustment.date)
+          ? fund
+          : {
+              ...fund,
+              balance: fund.balance + action.payload.difference,
+              transactions: [...fund.transactions, adjustment],
+            },
+      )
+
+    case "CLOSE_PERIOD":
+      return updateActiveFund(state, (fund) =>
+        isClosedDate(fund, action.payload.through) || pendingThrough(fund, action.payload.through).length > 0
+          ? fund
+          : {
+              ...fund,
+              closedThrough: action.payload.through,
+              periodLog: [
+                ...(fund.periodLog ?? []),
+                {
+                  action: "close",
+                  closedThrough: action.payload.through,
+                  reconciliationId: action.payload.reconciliationId,
+                  enteredBy: action.payload.enteredBy,
+                  timestamp: Date.now(),
+                },
+              ],
+            },
+      )
+
+    case "REOPEN_PERIOD":
+      return updateActiveFund(state, (fund) => {
+        if (!fund.closedThrough) return fund
+        const closedThrough = previousCloseDate(fund)
+        return {
+          ...fund,
+          closedThrough,
+          periodLog: [
+            ...(fund.periodLog ?? []),
+            {
+              action: "reopen",
+              closedThrough,
+              reason: action.payload.reason,
+              enteredBy: action.payload.enteredBy,
+              timestamp: Date.now(),
+            },
+          ],
+        }
+      })
+
+    case "ATTACH_RECEIPTS":
+      return updateActiveFund(state, (fund) => ({
+        ...fund,
+        transactions: fund.transactions.map((t) =>
+          t.id === action.payload.transactionId && !isClosedDate(fund, t.date)
+            ? { ...t, receiptIds: [...(t.receiptIds ?? []), ...action.payload.receiptIds], hash: undefined }
+            : t,
+        ),
+      }))
+
+    case "APPROVE":
+      return updateActiveFund(state, (fund) => {
+        const pending = fund.transactions.find((t) => t.id === action.payload.transactionId)
+        if (!pending || pending.approvalStatus !== "pending" || pending.amount > fund.balance) return fund
+        if (isClosedDate(fund, pending.date) || isOwnEntry(pending, action.payload.approver)) return fund
+        if (isOwnPayment(pending, action.payload.approver)) return fund
+
+        return {
+          ...fund,
+          balance: fund.balance - pending.amount,
+          transactions: fund.transactions.map((t) =>
+            t.id === pending.id
+              ? {
+                  ...t,
+                  approvalStatus: "approved" as const,
+                  approver: action.payload.approver,
+                  reviewedAt: Date.now(),
+                  hash: undefined,
+                }
+              : t,
+          ),
+        }
+      })
+
+    case "REJECT":
+      return updateActiveFund(state, (fund) => ({
+        ...fund,
+        transactions: fund.transactions.map((t) =>
+          t.id === action.payload.transactionId &&
+          t.approvalStatus === "pending" &&
+          !isClosedDate(fund, t.date) &&
+          !isOwnEntry(t, action.payload.approver)
+            ? {
+                ...t,
+                approvalStatus: "rejected" as const,
+                approver: action.payload.approver,
+                reviewedAt: Date.now(),
+                rejectionReason: action.payload.reason,
+                hash: undefined,
+              }
+            : t,
+        ),
+      }))
+
+    case "SEAL":
+      // Hashes were computed from `basis`; if the fund changed since, the next seal covers it
       return {
         ...state,
-        balance: state.balance + action.payload.amount,
-        transactions: [...state.transactions, replenishment],
+        funds: state.funds.map((f) =>
+          f.id === action.payload.fundId && f.transactions === action.payload.basis
+            ? { ...f, transactions: action.payload.transactions, sealedThrough: action.payload.sealedThrough }
+            : f,
+        ),
       }
 
+    case "SWITCH_FUND":
+      if (!state.funds.some((f) => f.id === action.payload.fundId)) return state
+      return { ...state, activeFundId: action.payload.fundId }
+
     case "LOAD_FROM_STORAGE":
-      return action.payload
+      return migrateState(action.payload)
 
     case "RESET_FUND":
-      return initialState
+      // Removes the active fund only; the other funds are left untouched
+      const remainingFunds = state.funds.filter((f) => f.id !== state.activeFundId)
+      return {
+        ...state,
+        funds: remainingFunds,
+        activeFundId: remainingFunds[0]?.id ?? null,
+      }
 
     default:
       return state
@@ -95,32 +743,282 @@ function pettyCashReducer(state: PettyCashState, action: PettyCashAction): Petty
 }
 
 const PettyCashContext = createContext<{
-  state: PettyCashState
+  state: Fund
+  funds: Fund[]
+  activeFundId: string | null
+  // Hash chain check per fund id, from the last load or import
+  integrity: Record<string, IntegrityReport>
+  // Accept a fund's current data and rebuild its hash chain from scratch
+  resealFund: (fundId: string) => Promise<void>
+  // Whether data is encrypted with a passphrase
+  isEncrypted: boolean
+  lock: () => Promise<void>
+  // Set, change or remove (next = null) the passphrase; resolves false when `current` is wrong
+  setPassphrase: (current: string | null, next: string | null) => Promise<boolean>
   dispatch: React.Dispatch<PettyCashAction>
 } | null>(null)
 
+// Any of these counts as activity for auto-lock
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart"] as const
+
 export function PettyCashProvider({ children }: { children: React.ReactNode }) {
-  const [state, dispatch] = useReducer(pettyCashReducer, initialState)
+  // Actions dispatched from the UI and the state change each one made, waiting to be written to the audit log
+  const audited = useRef(new WeakSet<PettyCashAction>())
+  const transitions = useRef(new Map<PettyCashAction, { before: PettyCashState; after: PettyCashState }>())
+  const auditingReducer = useCallback((state: PettyCashState, action: PettyCashAction) => {
+    const next = pettyCashReducer(state, action)
+    if (next !== state && audited.current.has(action)) transitions.current.set(action, { before: state, after: next })
+    return next
+  }, [])
+  const [rootState, dispatch] = useReducer(auditingReducer, initialState)
+  const [isLoaded, setIsLoaded] = useState(false)
+  const { toast } = useToast()
+  // Last state known to be in storage; saves only write what changed since
+  const savedState = useRef<PettyCashState | null>(initialState)
+  const [integrity, setIntegrity] = useState<Record<string, IntegrityReport>>({})
+  // Loaded or imported data is verified before anything new gets sealed onto it
+  const needsVerify = useRef(true)
+  const [isEncrypted, setIsEncrypted] = useState(false)
+  // While locked nothing is decrypted, saved or shown
+  const [isLocked, setIsLocked] = useState(false)
+
+  const applyStored = (stored: Awaited<ReturnType<typeof loadState>>) => {
+    if (!stored) return
+    const migrated = migrateState(stored.data)
+    // Legacy or older-version data is written out in full once
+    savedState.current =
+      stored.source === "storage" && (stored.data as PettyCashState).version === STATE_VERSION ? migrated : null
+    needsVerify.current = true
+    dispatch({ type: "LOAD_FROM_STORAGE", payload: migrated })
+  }
 
-  // Load from localStorage on mount
+  // Load from storage on mount, unless a passphrase is needed first
   useEffect(() => {
-    const stored = localStorage.getItem("pettyCashData")
-    if (stored) {
+    let cancelled = false
+
+    const load = async () => {
       try {
-        const parsedData = JSON.parse(stored)
-        dispatch({ type: "LOAD_FROM_STORAGE", payload: parsedData })
+        await initStorage()
+        if (cancelled) return
+        setIsEncrypted(isEncryptionEnabled())
+        if (isStorageLocked()) {
+          setIsLocked(true)
+        } else {
+          const stored = await loadState()
+          if (cancelled) return
+          applyStored(stored)
+        }
       } catch (error) {
-        console.error("Error loading data from localStorage:", error)
+        console.error("Error loading data from storage:", error)
       }
+      if (!cancelled) setIsLoaded(true)
     }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const unlock = async (passphrase: string) => {
+    if (!(await unlockStorage(passphrase))) return false
+    applyStored(await loadState())
+    setIsLocked(false)
+    return true
+  }
+
+  // Drop the decrypted data from memory; savedState matches so the empty state isn't written out
+  const lock = useCallback(async () => {
+    if (!isEncryptionEnabled()) return
+    await lockStorage()
+    savedState.current = initialState
+    dispatch({ type: "LOAD_FROM_STORAGE", payload: initialState })
+    setIntegrity({})
+    setIsLocked(true)
   }, [])
 
-  // Save to localStorage whenever state changes
+  const setPassphrase = async (current: string | null, next: string | null) => {
+    const wasEncrypted = isEncryptionEnabled()
+    if (!(await changePassphrase(current, next, prepareReceiptRekey))) return false
+    setIsEncrypted(isEncryptionEnabled())
+    recordAudit({
+      category: "security",
+      action: !next ? "Passphrase removed" : wasEncrypted ? "Passphrase changed" : "Passphrase set",
+      changes: [],
+    })
+    return true
+  }
+
+  // Auto-lock after a stretch without input; the timeout is read on each reset so settings changes apply
+  useEffect(() => {
+    if (!isLoaded || isLocked || !isEncrypted) return
+
+    let timer: ReturnType<typeof setTimeout>
+    const reset = () => {
+      clearTimeout(timer)
+      const minutes = Number(getSetting("autoLockMinutes", DEFAULT_AUTO_LOCK_MINUTES)) || 5
+      timer = setTimeout(lock, minutes * 60_000)
+    }
+
+    reset()
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, reset, { passive: true }))
+    return () => {
+      clearTimeout(timer)
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, reset))
+    }
+  }, [isLoaded, isLocked, isEncrypted, lock])
+
+  // Log what each UI action changed once it has committed; actions the reducer ignored leave no entry
   useEffect(() => {
-    localStorage.setItem("pettyCashData", JSON.stringify(state))
-  }, [state])
+    if (transitions.current.size === 0) return
+    const committed = Array.from(transitions.current.entries())
+    transitions.current.clear()
+    committed.forEach(([action, { before, after }]) => {
+      recordAudit({
+        category: action.type === "RESET_FUND" ? "reset" : action.type === "LOAD_FROM_STORAGE" ? "import" : "action",
+        action: action.type,
+        fundId: (action.type === "RESET_FUND" ? before.activeFundId : after.activeFundId) ?? undefined,
+        changes: diffStates(before, after),
+      })
+    })
+  }, [rootState])
+
+  // A failed write leaves storage behind what's on screen: say so, and write everything on the next save
+  useEffect(
+    () =>
+      onWriteError(() => {
+        savedState.current = null
+        toast({
+          title: "Changes Not Saved",
+          description: "Your latest changes could not be written to storage. They'll be retried on the next change.",
+          variant: "destructive",
+        })
+      }),
+    [toast],
+  )
+
+  // Persist changed records whenever state changes. Changes the chain is about to seal wait for it, so storage
+  // never holds a transaction whose hash was dropped ahead of hashed ones.
+  useEffect(() => {
+    if (!isLoaded || isLocked) return
+    const awaitingSeal = rootState.funds.some((fund) => {
+      const status = integrity[fund.id]?.status
+      return (
+        isHashingAvailable() &&
+        status !== "broken" &&
+        status !== "unavailable" &&
+        fund.transactions.some((t) => !t.hash)
+      )
+    })
+    if (awaitingSeal) return
+    saveState(savedState.current, rootState)
+    savedState.current = rootState
+  }, [rootState, isLoaded, isLocked, integrity])
+
+  // Verify after a load or import, then seal whatever changed. Broken chains are left alone as evidence.
+  useEffect(() => {
+    if (!isLoaded || isLocked) return
+    let cancelled = false
+
+    const run = async () => {
+      let reports = integrity
+      if (needsVerify.current) {
+        needsVerify.current = false
+        const checked = await Promise.all(rootState.funds.map(verifyChain))
+        if (cancelled) {
+          needsVerify.current = true
+          return
+        }
+        reports = Object.fromEntries(rootState.funds.map((fund, index) => [fund.id, checked[index]]))
+        setIntegrity(reports)
+      }
+
+      for (const fund of rootState.funds) {
+        const status = reports[fund.id]?.status
+        if (status === "broken" || status === "unavailable") continue
+        const sealed = await sealChain(fund)
+        if (cancelled) return
+        const transactions = sealed ?? fund.transactions
+        const sealedThrough = chainHead(transactions)
+        if (sealed || !sameHead(sealedThrough, fund.sealedThrough)) {
+          dispatch({
+            type: "SEAL",
+            payload: { fundId: fund.id, basis: fund.transactions, transactions, sealedThrough },
+          })
+        }
+        // Newly sealed chains are checked again rather than assumed good
+        if (status !== "verified") {
+          const report = await verifyChain({ ...fund, transactions, sealedThrough })
+          if (cancelled) return
+          setIntegrity((prev) => ({ ...prev, [fund.id]: report }))
+        }
+      }
+    }
+
+    // Without a working hash, nothing would ever be sealed and held-back changes would never be saved
+    run().catch((error) => {
+      console.error("Integrity check failed:", error)
+      setIntegrity(
+        Object.fromEntries(
+          rootState.funds.map((fund) => [
+            fund.id,
+            { status: "unavailable" as const, reason: String(error), checkedAt: Date.now() },
+          ]),
+        ),
+      )
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [rootState.funds, isLoaded, isLocked])
+
+  const resealFund = async (fundId: string) => {
+    const fund = rootState.funds.find((f) => f.id === fundId)
+    if (!fund) return
+    const unsealed = fund.transactions.map((t) => ({ ...t, hash: undefined }))
+    const transactions = (await sealChain({ ...fund, transactions: unsealed })) ?? unsealed
+    const sealedThrough = chainHead(transactions)
+    dispatch({ type: "SEAL", payload: { fundId, basis: fund.transactions, transactions, sealedThrough } })
+    // A fresh chain still has to agree with the balance
+    const report = await verifyChain({ ...fund, transactions, sealedThrough })
+    setIntegrity((prev) => ({ ...prev, [fundId]: report }))
+  }
+
+  // Imports replace the whole state, so they get verified like a fresh load. Everything dispatched here is audited.
+  const dispatchAction: React.Dispatch<PettyCashAction> = (action) => {
+    if (action.type === "LOAD_FROM_STORAGE") needsVerify.current = true
+    audited.current.add(action)
+    dispatch(action)
+  }
+
+  // Pages work against the active fund; funds and activeFundId are exposed for the switcher
+  const activeFund = rootState.funds.find((f) => f.id === rootState.activeFundId) ?? emptyFund
 
-  return <PettyCashContext.Provider value={{ state, dispatch }}>{children}</PettyCashContext.Provider>
+  return (
+    <PettyCashContext.Provider
+      value={{
+        state: activeFund,
+        funds: rootState.funds,
+        activeFundId: rootState.activeFundId,
+        integrity,
+        resealFund,
+        isEncrypted,
+        lock,
+        setPassphrase,
+        dispatch: dispatchAction,
+      }}
+    >
+      {isLoaded && isLocked ? (
+        <UnlockScreen onUnlock={unlock} />
+      ) : isLoaded ? (
+        children
+      ) : (
+        <div className="flex min-h-screen items-center justify-center">
+          <LoadingSpinner size="lg" className="text-primary" />
+        </div>
+      )}
+    </PettyCashContext.Provider>
+  )
 }
 
 export function usePettyCash() {
@@ -0,0 +1,67 @@
+"use client"
+
+import type React from "react"
+import { createContext, useContext, useEffect, useState } from "react"
+import { LoginScreen } from "@/components/common/LoginScreen"
+import { diffById, recordAudit, setAuditActor } from "@/lib/audit"
+import { getUsers, hasPermission, saveUsers, verifyPin } from "@/lib/users"
+import type { Permission, UserProfile } from "@/lib/users"
+
+const UserContext = createContext<{
+  users: UserProfile[]
+  // Null in single-user mode (no users set up)
+  currentUser: UserProfile | null
+  login: (userId: string, pin: string) => Promise<boolean>
+  logout: () => void
+  // Replace the user list; the first user added becomes the signed-in one
+  updateUsers: (users: UserProfile[]) => Promise<void>
+  can: (permission: Permission) => boolean
+} | null>(null)
+
+// Sits inside PettyCashProvider, so settings are loaded and locking the app signs the user out
+export function UserProvider({ children }: { children: React.ReactNode }) {
+  const [users, setUsers] = useState<UserProfile[]>(() => getUsers())
+  const [currentUser, setCurrentUser] = useState<UserProfile | null>(null)
+
+  useEffect(() => setAuditActor(currentUser?.name), [currentUser])
+
+  const login = async (userId: string, pin: string) => {
+    const user = users.find((u) => u.id === userId)
+    if (!user || !(await verifyPin(user, pin))) return false
+    setCurrentUser(user)
+    return true
+  }
+
+  const logout = () => setCurrentUser(null)
+
+  const updateUsers = async (next: UserProfile[]) => {
+    await saveUsers(next)
+    // PIN hashes stay out of the log
+    const withoutPins = (list: UserProfile[]) => list.map(({ pinHash: _hash, pinSalt: _salt, ...user }) => user)
+    recordAudit({
+      category: "users",
+      action: "Users updated",
+      changes: diffById("users", withoutPins(users), withoutPins(next)),
+    })
+    setUsers(next)
+    // Keep the signed-in profile current; whoever set up the first user is signed in as them
+    setCurrentUser((prev) => (prev ? (next.find((u) => u.id === prev.id) ?? null) : (next[0] ?? null)))
+  }
+
+  const can = (permission: Permission) =>
+    users.length === 0 || (!!currentUser && hasPermission(currentUser.role, permission))
+
+  return (
+    <UserContext.Provider value={{ users, currentUser, login, logout, updateUsers, can }}>
+      {users.length > 0 && !currentUser ? <LoginScreen users={users} onLogin={login} /> : children}
+    </UserContext.Provider>
+  )
+}
+
+export function useUser() {
+  const context = useContext(UserContext)
+  if (!context) {
+    throw new Error("useUser must be used within a UserProvider")
+  }
+  return context
+}
@@ -0,0 +1,64 @@
+import type { Fund, Transaction } from "@/contexts/PettyCashContext"
+
+/* ----------------------------------------------------------------
+ *  Cash advances
+ *
+ *  Cash handed to someone before a purchase, settled once they
+ *  bring back the receipt and any change. Until then the money is
+ *  still the fund's, just not in the drawer, so reconciliation
+ *  counts outstanding advances alongside the cash on hand.
+ * ---------------------------------------------------------------- */
+
+// Advances out longer than this are flagged on the dashboard
+export const OVERDUE_DAYS = 30
+
+export const AGING_BUCKETS: { label: string; maxDays: number }[] = [
+  { label: "0–7 days", maxDays: 7 },
+  { label: "8–30 days", maxDays: OVERDUE_DAYS },
+  { label: "31–60 days", maxDays: 60 },
+  { label: "Over 60 days", maxDays: Infinity },
+]
+
+export interface AgingBucket {
+  label: string
+  count: number
+  // Minor units
+  amount: number
+  // Every advance in the bucket is past OVERDUE_DAYS
+  overdue: boolean
+}
+
+export const settlementOf = (fund: Fund, advance: Transaction): Transaction | undefined =>
+  fund.transactions.find((t) => t.type === "settlement" && t.advanceId === advance.id)
+
+// Advances with no settlement yet, oldest first
+export function outstandingAdvances(transactions: Transaction[]): Transaction[] {
+  const settled = new Set(transactions.filter((t) => t.type === "settlement").map((t) => t.advanceId))
+  return transactions
+    .filter((t) => t.type === "advance" && !t.voidedBy && !settled.has(t.id))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.timestamp - b.timestamp)
+}
+
+export const outstandingTotal = (transactions: Transaction[]): number =>
+  outstandingAdvances(transactions).reduce((sum, t) => sum + t.amount, 0)
+
+// Whole days since the advance was handed out; `today` is YYYY-MM-DD
+export const advanceAge = (advance: Transaction, today = new Date().toISOString().split("T")[0]): number =>
+  Math.max(0, Math.round((Date.parse(today) - Date.parse(advance.date)) / 86_400_000))
+
+// Outstanding advances grouped by age, every bucket present even when empty
+export function ageAdvances(advances: Transaction[], today?: string): AgingBucket[] {
+  const buckets = AGING_BUCKETS.map((bucket, index) => ({
+    label: bucket.label,
+    count: 0,
+    amount: 0,
+    overdue: index > 0 && AGING_BUCKETS[index - 1].maxDays >= OVERDUE_DAYS,
+  }))
+  advances.forEach((advance) => {
+    const age = advanceAge(advance, today)
+    const bucket = buckets[AGING_BUCKETS.findIndex((b) => age <= b.maxDays)]
+    bucket.count += 1
+    bucket.amount += advance.amount
+  })
+  return buckets
+}
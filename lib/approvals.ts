@@ -0,0 +1,16 @@
+import { sanitizeAmount } from "@/lib/security"
+import { getSetting } from "@/lib/storage"
+
+/* ----------------------------------------------------------------
+ *  Disbursement approvals
+ * ---------------------------------------------------------------- */
+
+// Disbursements above this amount (major units, per fund currency) wait for an approver
+export const DEFAULT_APPROVAL_THRESHOLD = "500"
+
+// Threshold from settings, in the given currency's minor units
+export const getApprovalThreshold = (currency = "USD"): number =>
+  sanitizeAmount(getSetting("approvalThreshold", DEFAULT_APPROVAL_THRESHOLD), currency)
+
+// Names allowed to approve or reject pending disbursements
+export const getApprovers = (): string[] => getSetting<string[]>("approvers", [])
@@ -0,0 +1,155 @@
+import type { Fund, PettyCashState } from "@/contexts/PettyCashContext"
+import { appendAuditEntry } from "@/lib/storage"
+import type { AuditChange, AuditEntry } from "@/lib/storage"
+
+/* ----------------------------------------------------------------
+ *  Audit trail
+ *
+ *  Every action dispatched from the UI, settings save, import,
+ *  export and reset is appended to its own store with who did it
+ *  and what changed. Entries are never edited or deleted, and
+ *  resetting a fund leaves them in place.
+ * ---------------------------------------------------------------- */
+
+export const AUDIT_CATEGORIES: { value: AuditEntry["category"]; label: string }[] = [
+  { value: "action", label: "Transactions & funds" },
+  { value: "settings", label: "Settings" },
+  { value: "users", label: "Users" },
+  { value: "security", label: "Security" },
+  { value: "import", label: "Import" },
+  { value: "export", label: "Export" },
+  { value: "reset", label: "Reset" },
+]
+
+// Set by the user context on sign-in so entries written outside React still know who's acting
+let currentActor: string | undefined
+
+export const setAuditActor = (name: string | undefined) => {
+  currentActor = name
+}
+
+export function recordAudit(entry: Omit<AuditEntry, "id" | "timestamp" | "actor">): Promise<void> {
+  return appendAuditEntry({
+    id: `AUD-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    timestamp: Date.now(),
+    actor: currentActor,
+    ...entry,
+  })
+}
+
+/* ----------------------------------------------------------------
+ *  Diffs
+ * ---------------------------------------------------------------- */
+
+// Hashes and the chain head change with every edit and say nothing on their own
+const IGNORED_FIELDS = new Set(["hash", "sealedThrough"])
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+// Field-by-field changes between two versions of a record
+export function diffRecords(prefix: string, before: object | undefined, after: object | undefined): AuditChange[] {
+  if (!before || !after) return before === after ? [] : [{ path: prefix, before, after }]
+
+  const beforeFields = before as Record<string, unknown>
+  const afterFields = after as Record<string, unknown>
+  const keys = Array.from(new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]))
+  return keys
+    .filter((key) => !IGNORED_FIELDS.has(key) && !same(beforeFields[key], afterFields[key]))
+    .map((key) => ({ path: `${prefix}.${key}`, before: beforeFields[key], after: afterFields[key] }))
+}
+
+// Added, removed and edited items of a list, matched by id
+export function diffById<T extends { id: string }>(prefix: string, before: T[], after: T[]): AuditChange[] {
+  const changes: AuditChange[] = []
+  const previous = new Map(before.map((item) => [item.id, item]))
+  for (const item of after) {
+    const old = previous.get(item.id)
+    previous.delete(item.id)
+    if (old !== item) changes.push(...diffRecords(`${prefix}.${item.id}`, old, item))
+  }
+  previous.forEach((item) => changes.push({ path: `${prefix}.${item.id}`, before: item }))
+  return changes
+}
+
+// A fund row with a transaction count in place of the transactions themselves
+const fundSummary = ({ transactions, ...row }: Fund) => ({ ...row, transactions: transactions.length })
+
+/**
+ * What a reducer action changed. Funds and transactions are matched by
+ * id, so an added or removed one shows up once with its whole content
+ * and an edited one as the fields that changed.
+ */
+export function diffStates(before: PettyCashState, after: PettyCashState): AuditChange[] {
+  const changes: AuditChange[] = []
+  const beforeFunds = new Map(before.funds.map((fund) => [fund.id, fund]))
+  const afterFunds = new Map(after.funds.map((fund) => [fund.id, fund]))
+
+  for (const fund of before.funds) {
+    if (!afterFunds.has(fund.id)) changes.push({ path: fund.id, before: fundSummary(fund) })
+  }
+
+  for (const fund of after.funds) {
+    const previous = beforeFunds.get(fund.id)
+    if (previous === fund) continue
+    if (!previous) {
+      changes.push({ path: fund.id, after: fundSummary(fund) })
+      fund.transactions.forEach((t) => changes.push({ path: `${fund.id}.${t.id}`, after: t }))
+      continue
+    }
+
+    const { transactions: _before, ...previousRow } = previous
+    const { transactions: _after, ...row } = fund
+    changes.push(...diffRecords(fund.id, previousRow, row))
+    if (previous.transactions !== fund.transactions) {
+      changes.push(...diffById(fund.id, previous.transactions, fund.transactions))
+    }
+  }
+
+  if (before.activeFundId !== after.activeFundId) {
+    changes.push({ path: "activeFundId", before: before.activeFundId, after: after.activeFundId })
+  }
+  return changes
+}
+
+/* ----------------------------------------------------------------
+ *  Export
+ * ---------------------------------------------------------------- */
+
+const formatValue = (value: unknown): string =>
+  value === undefined ? "" : typeof value === "string" ? value : JSON.stringify(value)
+
+// One row per change, so the log can be filtered in a spreadsheet
+export function auditToCsv(entries: AuditEntry[]): string {
+  const headers = [
+    "Timestamp",
+    "Actor",
+    "Category",
+    "Action",
+    "Fund",
+    "Summary",
+    "Field",
+    "Before",
+    "After",
+    "Entry ID",
+  ]
+  const rows = entries.flatMap((entry) => {
+    const base = [
+      new Date(entry.timestamp).toISOString(),
+      entry.actor || "",
+      entry.category,
+      entry.action,
+      entry.fundId || "",
+      entry.summary || "",
+    ]
+    return entry.changes.length === 0
+      ? [[...base, "", "", "", entry.id]]
+      : entry.changes.map((change) => [
+          ...base,
+          change.path,
+          formatValue(change.before),
+          formatValue(change.after),
+          entry.id,
+        ])
+  })
+  return [headers, ...rows].map((row) => row.map((field) => `"${field.replace(/"/g, '""')}"`).join(",")).join("\n")
+}
@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest"
+import { STATE_VERSION } from "@/contexts/PettyCashContext"
+import type { Fund, PettyCashState, Transaction } from "@/contexts/PettyCashContext"
+import { BACKUP_VERSION, createBackup, mergeStates, parseBackup, previewImport, validateBackup } from "@/lib/backup"
+
+const transaction = (id: string, timestamp: number, fields: Partial<Transaction> = {}): Transaction => ({
+  id,
+  type: "disbursement",
+  amount: 1000,
+  date: "2024-01-15",
+  timestamp,
+  ...fields,
+})
+
+const fund = (transactions: Transaction[], fields: Partial<Fund> = {}): Fund => ({
+  id: "FUND-1",
+  name: "Main",
+  custodian: "Alex",
+  currency: "USD",
+  balance: 0,
+  isInitialized: true,
+  transactions,
+  ...fields,
+})
+
+const state = (...funds: Fund[]): PettyCashState => ({ version: STATE_VERSION, funds, activeFundId: funds[0].id })
+
+const backupOf = (data: PettyCashState) => JSON.stringify(createBackup(data, [], {}, []))
+
+describe("validateBackup", () => {
+  it("accepts a backup written by this version", () => {
+    const data = state(fund([transaction("TXN-1", 1, { type: "initialization", amount: 5000 })], { balance: 5000 }))
+    expect(validateBackup(JSON.parse(backupOf(data)))).toEqual([])
+  })
+
+  it("lists every problem with the file", () => {
+    const errors = validateBackup({
+      version: "9.9.9",
+      fundData: { funds: [{ id: "FUND-1", name: "Main", currency: "USD", balance: "lots", transactions: [{}] }] },
+    })
+    expect(errors).toContain("Backup version 9.9.9 isn't supported; this app reads 1.0.0, 2.0.0, 3.0.0, 3.1.0")
+    expect(errors).toContain("fundData.funds[0] has an invalid balance")
+    expect(errors).toContain("fundData.funds[0].transactions[0] has no id")
+  })
+
+  it("rejects repeated transaction ids and recipients", () => {
+    const errors = validateBackup({
+      version: BACKUP_VERSION,
+      fundData: state(fund([transaction("TXN-1", 1), transaction("TXN-1", 2)])),
+      recipients: [
+        { id: "RCP-1", name: "Sam" },
+        { id: "RCP-1", name: "Sam Again", capPeriod: "weekly" },
+      ],
+    })
+    expect(errors).toContain("fundData.funds[0].transactions has transaction TXN-1 more than once")
+    expect(errors).toContain('recipients[1] has unknown cap period "weekly"')
+    expect(errors).toContain("recipients has RCP-1 more than once")
+  })
+})
+
+describe("parseBackup", () => {
+  it("reports invalid JSON instead of throwing", () => {
+    expect(parseBackup("{not json").errors).toEqual(["The file isn't valid JSON"])
+  })
+
+  it("migrates a single-fund 1.0.0 backup to minor units", () => {
+    const { backup } = parseBackup(
+      JSON.stringify({
+        version: "1.0.0",
+        fundData: {
+          isInitialized: true,
+          balance: 80.5,
+          transactions: [
+            { id: "TXN-1", type: "initialization", amount: 100, date: "2024-01-01", timestamp: 1 },
+            { id: "TXN-2", type: "disbursement", amount: 19.5, date: "2024-01-02", timestamp: 2 },
+          ],
+        },
+      }),
+    )
+    const [migrated] = backup!.fundData!.funds
+    expect(backup!.fundData!.version).toBe(STATE_VERSION)
+    expect(migrated.balance).toBe(8050)
+    expect(migrated.transactions.map((t) => t.amount)).toEqual([10000, 1950])
+  })
+
+  it("keeps 2.0.0 amounts, which were already minor units", () => {
+    const data = state(fund([transaction("TXN-1", 1, { type: "initialization", amount: 5000 })], { balance: 5000 }))
+    const { backup } = parseBackup(JSON.stringify({ version: "2.0.0", fundData: { ...data, version: undefined } }))
+    expect(backup!.fundData!.funds[0].balance).toBe(5000)
+  })
+})
+
+describe("mergeStates", () => {
+  const here = fund(
+    [transaction("TXN-1", 1, { type: "initialization", amount: 10000 }), transaction("TXN-2", 2, { amount: 2500 })],
+    { balance: 7500 },
+  )
+
+  it("adds new transactions and recounts the balance from posted ones", () => {
+    const incoming = fund([
+      ...here.transactions,
+      transaction("TXN-3", 3, { amount: 500 }),
+      transaction("TXN-4", 4, { amount: 700, approvalStatus: "pending" }),
+    ])
+    const [merged] = mergeStates(state(here), state({ ...incoming, balance: 123 })).funds
+    expect(merged.transactions.map((t) => t.id)).toEqual(["TXN-1", "TXN-2", "TXN-3", "TXN-4"])
+    expect(merged.balance).toBe(7000)
+  })
+
+  it("keeps the version here of a conflicting transaction", () => {
+    const incoming = fund([...here.transactions.slice(0, 1), transaction("TXN-2", 2, { amount: 1 })])
+    const current = state(here)
+    expect(mergeStates(current, state(incoming)).funds[0]).toBe(here)
+    expect(previewImport(current, [], [], JSON.parse(backupOf(state(incoming)))).funds[0].conflicts).toHaveLength(1)
+  })
+
+  it("voids the original here when the backup adds its reversal", () => {
+    const reversal = transaction("TXN-3", 3, {
+      type: "reversal",
+      amount: 2500,
+      reversalOf: "TXN-2",
+      reversedType: "disbursement",
+      reason: "Duplicate",
+    })
+    const incoming = fund([here.transactions[0], { ...here.transactions[1], voidedBy: "TXN-3" }, reversal])
+    const current = state(here)
+    const [merged] = mergeStates(current, state(incoming)).funds
+    expect(merged.transactions.find((t) => t.id === "TXN-2")).toMatchObject({ voidedBy: "TXN-3", reason: "Duplicate" })
+    expect(merged.balance).toBe(10000)
+    expect(previewImport(current, [], [], JSON.parse(backupOf(state(incoming)))).funds[0].voids).toHaveLength(1)
+  })
+
+  it("skips a second reversal of a transaction already voided here", () => {
+    const voided = fund(
+      [
+        here.transactions[0],
+        { ...here.transactions[1], voidedBy: "TXN-3" },
+        transaction("TXN-3", 3, { type: "reversal", amount: 2500, reversalOf: "TXN-2", reversedType: "disbursement" }),
+      ],
+      { balance: 10000 },
+    )
+    const incoming = fund([
+      here.transactions[0],
+      { ...here.transactions[1], voidedBy: "TXN-9" },
+      transaction("TXN-9", 9, { type: "reversal", amount: 2500, reversalOf: "TXN-2", reversedType: "disbursement" }),
+    ])
+    const current = state(voided)
+    const [merged] = mergeStates(current, state(incoming)).funds
+    expect(merged.transactions.some((t) => t.id === "TXN-9")).toBe(false)
+    expect(merged.balance).toBe(10000)
+    const preview = previewImport(current, [], [], JSON.parse(backupOf(state(incoming)))).funds[0]
+    expect(preview.skippedReversals.map((t) => t.id)).toEqual(["TXN-9"])
+    expect(preview.added).toEqual([])
+  })
+
+  it("adds funds that aren't here whole", () => {
+    const other = fund([transaction("TXN-5", 5, { type: "initialization", amount: 300 })], {
+      id: "FUND-2",
+      balance: 300,
+    })
+    expect(mergeStates(state(here), state(other)).funds.map((f) => f.id)).toEqual(["FUND-1", "FUND-2"])
+  })
+})
+
+describe("advances in backups", () => {
+  const advanced = fund(
+    [
+      transaction("TXN-1", 1, { type: "initialization", amount: 10000 }),
+      transaction("TXN-2", 2, { type: "advance", amount: 3000, recipient: "Sam" }),
+      transaction("TXN-3", 3, { amount: 2200, recipient: "Sam", advanceId: "TXN-2" }),
+      transaction("TXN-4", 4, { type: "settlement", amount: 3000, advanceId: "TXN-2", changeReturned: 800 }),
+    ],
+    { balance: 7800 },
+  )
+
+  it("accepts advance and settlement rows", () => {
+    expect(validateBackup(JSON.parse(backupOf(state(advanced))))).toEqual([])
+  })
+
+  it("rejects a settlement whose advance is in another fund or missing", () => {
+    const other = fund([transaction("TXN-5", 5, { type: "settlement", amount: 3000, advanceId: "TXN-2" })], {
+      id: "FUND-2",
+    })
+    const errors = validateBackup(JSON.parse(backupOf(state(advanced, other))))
+    expect(errors).toEqual(["fundData.funds[1].transactions[0] refers to advance TXN-2, which isn't in this fund"])
+    expect(
+      validateBackup({
+        version: BACKUP_VERSION,
+        fundData: state(fund([transaction("TXN-1", 1, { type: "settlement", advanceId: undefined })])),
+      }),
+    ).toContain("fundData.funds[0].transactions[0] doesn't say which advance it settles")
+  })
+
+  it("recounts the balance from merged advance and settlement rows", () => {
+    const here = fund(advanced.transactions.slice(0, 2), { balance: 7000 })
+    const [merged] = mergeStates(state(here), state(advanced)).funds
+    expect(merged.balance).toBe(7800)
+  })
+})
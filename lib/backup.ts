@@ -0,0 +1,476 @@
+import {
+  STATE_VERSION,
+  balanceEffect,
+  findClosedPeriodConflicts,
+  isPosted,
+  migrateState,
+} from "@/contexts/PettyCashContext"
+import type { Fund, PettyCashState, Transaction } from "@/contexts/PettyCashContext"
+import { BUDGET_PERIODS } from "@/lib/budgets"
+import type { BudgetSettings } from "@/lib/budgets"
+import { canonical, chainHead } from "@/lib/integrity"
+import type { LedgerAccounts } from "@/lib/ledger"
+import { findRecipient } from "@/lib/recipients"
+import type { Recipient } from "@/lib/recipients"
+import { DATE_FORMATS } from "@/lib/statements"
+import type { StatementMapping } from "@/lib/statements"
+import type { ReconciliationRecord } from "@/lib/storage"
+
+/* ----------------------------------------------------------------
+ *  Backup files
+ *
+ *  1.0.0  single fund, amounts as decimals
+ *  2.0.0  multiple funds; fundData carries no state version
+ *  3.0.0  fundData carries its state version
+ *  3.1.0  recipient directory; older files leave it as it is here
+ *
+ *  Files are validated before anything is touched, migrated to
+ *  the current shape, then either replace the data here or are
+ *  merged into it by transaction id.
+ * ---------------------------------------------------------------- */
+
+export const BACKUP_VERSION = "3.1.0"
+const KNOWN_VERSIONS = ["1.0.0", "2.0.0", "3.0.0", BACKUP_VERSION]
+
+export interface BackupSettings {
+  lowBalanceThreshold?: string
+  receiptRequiredThreshold?: string
+  approvalThreshold?: string
+  approvers?: string[]
+  customCategories?: string[]
+  ledgerAccounts?: Partial<LedgerAccounts>
+  categoryBudgets?: Partial<BudgetSettings>
+  autoLockMinutes?: string
+  notifications?: Record<string, boolean>
+  appearance?: Record<string, boolean>
+  // Saved bank statement column mappings
+  statementMappings?: StatementMapping[]
+}
+
+export interface Backup {
+  fundData?: PettyCashState
+  reconciliationHistory?: ReconciliationRecord[]
+  recipients?: Recipient[]
+  settings?: BackupSettings
+  exportDate?: string
+  version: string
+}
+
+type FundData = Pick<PettyCashState, "funds" | "activeFundId">
+
+export function createBackup(
+  state: FundData,
+  reconciliationHistory: ReconciliationRecord[],
+  settings: BackupSettings,
+  recipients: Recipient[],
+): Backup {
+  return {
+    fundData: { version: STATE_VERSION, funds: state.funds, activeFundId: state.activeFundId },
+    reconciliationHistory,
+    recipients,
+    settings,
+    exportDate: new Date().toISOString(),
+    version: BACKUP_VERSION,
+  }
+}
+
+/* ----------------------------------------------------------------
+ *  Validation
+ * ---------------------------------------------------------------- */
+
+// Enough to point at the problem without flooding the dialog
+const MAX_ERRORS = 10
+
+const TRANSACTION_TYPES: Transaction["type"][] = [
+  "disbursement",
+  "replenishment",
+  "initialization",
+  "reversal",
+  "adjustment",
+  "advance",
+  "settlement",
+]
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value)
+
+const isStringArray = (value: unknown): boolean =>
+  Array.isArray(value) && value.every((item) => typeof item === "string")
+
+function validateTransaction(t: unknown, path: string, errors: string[]) {
+  if (!isObject(t)) return errors.push(`${path} is not a transaction`)
+  if (typeof t.id !== "string" || !t.id) errors.push(`${path} has no id`)
+  if (!TRANSACTION_TYPES.includes(t.type)) errors.push(`${path} has unknown type "${t.type}"`)
+  if (!isNumber(t.amount) || t.amount < 0) errors.push(`${path} has an invalid amount`)
+  if (typeof t.date !== "string" || Number.isNaN(new Date(t.date).getTime())) errors.push(`${path} has an invalid date`)
+  if (!isNumber(t.timestamp)) errors.push(`${path} has no timestamp`)
+  if (t.type === "settlement" && typeof t.advanceId !== "string")
+    errors.push(`${path} doesn't say which advance it settles`)
+  if (t.changeReturned !== undefined && !isNumber(t.changeReturned)) errors.push(`${path} has invalid change returned`)
+}
+
+function validateTransactions(transactions: unknown, path: string, errors: string[]) {
+  if (!Array.isArray(transactions)) return errors.push(`${path} is not a list`)
+  transactions.forEach((t, index) => validateTransaction(t, `${path}[${index}]`, errors))
+  const ids = transactions.map((t) => t?.id)
+  const repeated = ids.find((id, index) => ids.indexOf(id) !== index)
+  if (repeated) errors.push(`${path} has transaction ${repeated} more than once`)
+
+  // Settlements and the disbursements they record point at an advance, which has to be in the same fund
+  const advances = new Set(transactions.filter((t) => t?.type === "advance").map((t) => t.id))
+  transactions.forEach((t, index) => {
+    if (typeof t?.advanceId === "string" && !advances.has(t.advanceId)) {
+      errors.push(`${path}[${index}] refers to advance ${t.advanceId}, which isn't in this fund`)
+    }
+  })
+}
+
+function validateFundData(fundData: unknown, errors: string[]) {
+  if (!isObject(fundData)) return errors.push("fundData is not an object")
+
+  // Backups from before multiple funds hold a single fund's state
+  if (!Array.isArray(fundData.funds)) {
+    if (!isNumber(fundData.balance)) errors.push("fundData has no balance")
+    return validateTransactions(fundData.transactions ?? [], "fundData.transactions", errors)
+  }
+
+  fundData.funds.forEach((fund: unknown, index: number) => {
+    const path = `fundData.funds[${index}]`
+    if (!isObject(fund)) return errors.push(`${path} is not a fund`)
+    if (typeof fund.id !== "string" || !fund.id) errors.push(`${path} has no id`)
+    if (typeof fund.name !== "string") errors.push(`${path} has no name`)
+    if (typeof fund.currency !== "string") errors.push(`${path} has no currency`)
+    if (!isNumber(fund.balance)) errors.push(`${path} has an invalid balance`)
+    if (
+      fund.sealedThrough !== undefined &&
+      (!isObject(fund.sealedThrough) ||
+        !isNumber(fund.sealedThrough.count) ||
+        typeof fund.sealedThrough.hash !== "string")
+    ) {
+      errors.push(`${path} has an invalid seal record`)
+    }
+    validateTransactions(fund.transactions, `${path}.transactions`, errors)
+  })
+  if (fundData.version !== undefined && (!isNumber(fundData.version) || fundData.version > STATE_VERSION)) {
+    errors.push("fundData was saved by a newer version of the app")
+  }
+}
+
+function validateRecipients(recipients: unknown, errors: string[]) {
+  if (!Array.isArray(recipients)) return errors.push("recipients is not a list")
+  recipients.forEach((recipient: unknown, index: number) => {
+    const path = `recipients[${index}]`
+    if (!isObject(recipient)) return errors.push(`${path} is not a recipient`)
+    if (typeof recipient.id !== "string" || !recipient.id) errors.push(`${path} has no id`)
+    if (typeof recipient.name !== "string" || !recipient.name.trim()) errors.push(`${path} has no name`)
+    if (recipient.cap !== undefined && typeof recipient.cap !== "string") errors.push(`${path} has an invalid cap`)
+    if (recipient.capPeriod !== undefined && !BUDGET_PERIODS.some((p) => p.value === recipient.capPeriod)) {
+      errors.push(`${path} has unknown cap period "${recipient.capPeriod}"`)
+    }
+  })
+  const ids = recipients.map((recipient) => recipient?.id)
+  const repeated = ids.find((id, index) => ids.indexOf(id) !== index)
+  if (repeated) errors.push(`recipients has ${repeated} more than once`)
+}
+
+function validateSettings(settings: unknown, errors: string[]) {
+  if (!isObject(settings)) return errors.push("settings is not an object")
+  for (const key of ["lowBalanceThreshold", "receiptRequiredThreshold", "approvalThreshold", "autoLockMinutes"]) {
+    if (settings[key] !== undefined && typeof settings[key] !== "string") errors.push(`settings.${key} is not text`)
+  }
+  for (const key of ["approvers", "customCategories"]) {
+    if (settings[key] !== undefined && !isStringArray(settings[key])) errors.push(`settings.${key} is not a list`)
+  }
+  for (const key of ["ledgerAccounts", "categoryBudgets", "notifications", "appearance"]) {
+    if (settings[key] !== undefined && !isObject(settings[key])) errors.push(`settings.${key} is not an object`)
+  }
+  if (settings.statementMappings !== undefined) {
+    if (!Array.isArray(settings.statementMappings)) errors.push("settings.statementMappings is not a list")
+    else {
+      settings.statementMappings.forEach((mapping: unknown, index: number) => {
+        if (
+          !isObject(mapping) ||
+          typeof mapping.name !== "string" ||
+          typeof mapping.source !== "string" ||
+          !isNumber(mapping.dateColumn) ||
+          !DATE_FORMATS.includes(mapping.dateFormat)
+        ) {
+          errors.push(`settings.statementMappings[${index}] is not a statement mapping`)
+        }
+      })
+    }
+  }
+}
+
+// Every problem found, worded for the person importing the file
+export function validateBackup(data: unknown): string[] {
+  const errors: string[] = []
+  if (!isObject(data)) return ["The file doesn't contain a backup"]
+
+  if (typeof data.version !== "string") errors.push("The file has no backup version")
+  else if (!KNOWN_VERSIONS.includes(data.version)) {
+    errors.push(`Backup version ${data.version} isn't supported; this app reads ${KNOWN_VERSIONS.join(", ")}`)
+  }
+  if (data.fundData === undefined && data.settings === undefined) errors.push("The file has no fund data or settings")
+
+  if (data.fundData !== undefined) validateFundData(data.fundData, errors)
+  if (data.settings !== undefined) validateSettings(data.settings, errors)
+  if (data.recipients !== undefined) validateRecipients(data.recipients, errors)
+  if (data.reconciliationHistory !== undefined) {
+    if (!Array.isArray(data.reconciliationHistory)) errors.push("reconciliationHistory is not a list")
+    else {
+      data.reconciliationHistory.forEach((record: unknown, index: number) => {
+        if (!isObject(record) || typeof record.id !== "string" || !isNumber(record.timestamp)) {
+          errors.push(`reconciliationHistory[${index}] is not a reconciliation record`)
+        }
+      })
+    }
+  }
+
+  return errors.length > MAX_ERRORS
+    ? [...errors.slice(0, MAX_ERRORS), `…and ${errors.length - MAX_ERRORS} more problems`]
+    : errors
+}
+
+/**
+ * Read a backup file into the current shape. Returns the problems
+ * instead when it doesn't validate, so nothing half-imports.
+ */
+export function parseBackup(text: string): { backup: Backup; errors: [] } | { backup: null; errors: string[] } {
+  let data: any
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { backup: null, errors: ["The file isn't valid JSON"] }
+  }
+
+  const errors = validateBackup(data)
+  if (errors.length > 0) return { backup: null, errors }
+
+  // 2.0.0 files left the state version out; they were written with minor-unit amounts from version 2 on
+  const fundData =
+    data.fundData === undefined
+      ? undefined
+      : migrateState(
+          data.version === "2.0.0" && data.fundData.version === undefined
+            ? { ...data.fundData, version: 2 }
+            : data.fundData,
+        )
+
+  // Records without a fundId belong to the backup's first fund, which may not be first once merged
+  const firstFundId = fundData?.funds[0]?.id
+  const reconciliationHistory: ReconciliationRecord[] | undefined = data.reconciliationHistory?.map(
+    (record: ReconciliationRecord) => (record.fundId || !firstFundId ? record : { ...record, fundId: firstFundId }),
+  )
+
+  return {
+    backup: {
+      fundData,
+      reconciliationHistory,
+      recipients: data.recipients,
+      settings: data.settings,
+      exportDate: data.exportDate,
+      version: data.version,
+    },
+    errors: [],
+  }
+}
+
+/* ----------------------------------------------------------------
+ *  Preview and merge
+ * ---------------------------------------------------------------- */
+
+export interface FundPreview {
+  fundId: string
+  name: string
+  currency: string
+  // Not here yet, so both modes add it whole
+  isNew: boolean
+  added: Transaction[]
+  // Same id and same content as a transaction here
+  duplicates: Transaction[]
+  // Same id, different content; merge keeps the version here
+  conflicts: { current: Transaction; incoming: Transaction }[]
+  // Transactions here that merging voids, since the backup adds their reversal
+  voids: Transaction[]
+  // Reversals of transactions another reversal already voided here; merge leaves them out
+  skippedReversals: Transaction[]
+}
+
+export interface ImportPreview {
+  funds: FundPreview[]
+  // Funds here that the backup doesn't have; replacing removes them
+  missingFunds: string[]
+  reconciliations: { added: number; duplicates: number }
+  // Unset when the backup predates the directory
+  recipients?: { added: number; duplicates: number }
+  // Funds whose reconciled periods each mode would rewrite, which blocks it
+  replaceBlockedBy: string[]
+  mergeBlockedBy: string[]
+}
+
+const sameTransaction = (a: Transaction, b: Transaction) => canonical(a) === canonical(b)
+
+/**
+ * Pair new reversals with the transactions here they reverse. One whose
+ * original still stands voids it on merge; one whose original was
+ * already voided by a different reversal would take the cash back twice.
+ */
+function matchReversals(fund: Fund, added: Transaction[]) {
+  const here = new Map(fund.transactions.map((t) => [t.id, t]))
+  const voids: { original: Transaction; reversal: Transaction }[] = []
+  const doubled: Transaction[] = []
+  added.forEach((t) => {
+    const original = t.reversalOf ? here.get(t.reversalOf) : undefined
+    if (!original) return
+    if (!original.voidedBy && !voids.some((v) => v.original.id === original.id)) voids.push({ original, reversal: t })
+    else if (original.voidedBy !== t.id) doubled.push(t)
+  })
+  return { voids, doubled }
+}
+
+export function previewImport(
+  current: FundData,
+  currentHistory: ReconciliationRecord[],
+  currentRecipients: Recipient[],
+  backup: Backup,
+): ImportPreview {
+  const incoming = backup.fundData
+  const funds = (incoming?.funds ?? []).map((fund): FundPreview => {
+    const existing = current.funds.find((f) => f.id === fund.id)
+    const here = new Map((existing?.transactions ?? []).map((t) => [t.id, t]))
+    const preview: FundPreview = {
+      fundId: fund.id,
+      name: fund.name,
+      currency: fund.currency,
+      isNew: !existing,
+      added: [],
+      duplicates: [],
+      conflicts: [],
+      voids: [],
+      skippedReversals: [],
+    }
+    fund.transactions.forEach((t) => {
+      const match = here.get(t.id)
+      if (!match) preview.added.push(t)
+      else if (sameTransaction(match, t)) preview.duplicates.push(t)
+      else preview.conflicts.push({ current: match, incoming: t })
+    })
+    if (existing) {
+      const { voids, doubled } = matchReversals(existing, preview.added)
+      preview.added = preview.added.filter((t) => !doubled.includes(t))
+      preview.voids = voids.map((v) => v.original)
+      preview.skippedReversals = doubled
+    }
+    return preview
+  })
+
+  const historyIds = new Set(currentHistory.map((record) => record.id))
+  const incomingHistory = backup.reconciliationHistory ?? []
+  const duplicateRecords = incomingHistory.filter((record) => historyIds.has(record.id)).length
+  const addedRecipients = backup.recipients
+    ? mergeRecipients(currentRecipients, backup.recipients).length - currentRecipients.length
+    : 0
+
+  return {
+    funds,
+    missingFunds: incoming
+      ? current.funds.filter((fund) => !incoming.funds.some((f) => f.id === fund.id)).map((fund) => fund.name)
+      : [],
+    reconciliations: {
+      added: incomingHistory.length - duplicateRecords,
+      duplicates: duplicateRecords,
+    },
+    recipients: backup.recipients && {
+      added: addedRecipients,
+      duplicates: backup.recipients.length - addedRecipients,
+    },
+    replaceBlockedBy: incoming ? findClosedPeriodConflicts(current.funds, incoming) : [],
+    mergeBlockedBy: incoming ? findClosedPeriodConflicts(current.funds, mergeStates(current, incoming)) : [],
+  }
+}
+
+/**
+ * Adds the incoming fund's new transactions; everything already here,
+ * conflicts included, stays as it is, except that a new reversal voids
+ * its original the way voiding here would.
+ */
+function mergeFund(fund: Fund, incoming: Fund): Fund {
+  const ids = new Set(fund.transactions.map((t) => t.id))
+  const { voids, doubled } = matchReversals(
+    fund,
+    incoming.transactions.filter((t) => !ids.has(t.id)),
+  )
+  const added = incoming.transactions
+    .filter((t) => !ids.has(t.id) && !doubled.includes(t))
+    .map(({ hash: _hash, ...t }) => t)
+  if (added.length === 0) return fund
+
+  // New transactions can land mid-chain and voided ones change, so the chain is resealed from the earliest of them on
+  const reversals = new Map(voids.map(({ original, reversal }) => [original.id, reversal]))
+  const earliest = Math.min(...added.map((t) => t.timestamp), ...voids.map((v) => v.original.timestamp))
+  const transactions = [
+    ...fund.transactions.map((t) => {
+      const reversal = reversals.get(t.id)
+      const merged = reversal ? { ...t, voidedBy: reversal.id, reason: reversal.reason } : t
+      return merged.timestamp >= earliest ? { ...merged, hash: undefined } : merged
+    }),
+    ...added,
+  ]
+  return {
+    ...fund,
+    // Recounted rather than adjusted, so the merged fund always agrees with its own transactions
+    balance: transactions.filter(isPosted).reduce((sum, t) => sum + balanceEffect(t), 0),
+    transactions,
+    sealedThrough: chainHead(transactions),
+  }
+}
+
+export function mergeStates(current: FundData, incoming: FundData): PettyCashState {
+  const funds = current.funds.map((fund) => {
+    const match = incoming.funds.find((f) => f.id === fund.id)
+    return match ? mergeFund(fund, match) : fund
+  })
+  const newFunds = incoming.funds.filter((fund) => !current.funds.some((f) => f.id === fund.id))
+  return {
+    version: STATE_VERSION,
+    funds: [...funds, ...newFunds],
+    activeFundId: current.activeFundId ?? incoming.activeFundId,
+  }
+}
+
+export function mergeReconciliations(
+  current: ReconciliationRecord[],
+  incoming: ReconciliationRecord[],
+): ReconciliationRecord[] {
+  const ids = new Set(current.map((record) => record.id))
+  return [...current, ...incoming.filter((record) => !ids.has(record.id))]
+}
+
+// Adds recipients not here yet; one with the same id, name or employee ID as someone here is the same person
+export function mergeRecipients(current: Recipient[], incoming: Recipient[]): Recipient[] {
+  return incoming.reduce(
+    (merged, recipient) =>
+      merged.some((r) => r.id === recipient.id) ||
+      findRecipient(recipient.name, merged) ||
+      (recipient.employeeId && findRecipient(recipient.employeeId, merged))
+        ? merged
+        : [...merged, recipient],
+    current,
+  )
+}
+
+/* ----------------------------------------------------------------
+ *  Rollback
+ * ---------------------------------------------------------------- */
+
+// Everything as it was before the last import, until the app is closed or it's rolled back
+let rollbackSnapshot: Backup | null = null
+
+export const getRollbackSnapshot = (): Backup | null => rollbackSnapshot
+
+export const setRollbackSnapshot = (snapshot: Backup | null) => {
+  rollbackSnapshot = snapshot
+}
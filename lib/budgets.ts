@@ -0,0 +1,161 @@
+import { isVoidEntry } from "@/contexts/PettyCashContext"
+import type { Transaction } from "@/contexts/PettyCashContext"
+import { sanitizeAmount } from "@/lib/security"
+import { getSetting } from "@/lib/storage"
+
+/* ----------------------------------------------------------------
+ *  Category budgets
+ *
+ *  Each category can have a spending limit per month or quarter.
+ *  Amounts are kept in major units like the other thresholds and
+ *  apply to whichever fund is active, in its currency.
+ * ---------------------------------------------------------------- */
+
+export type BudgetPeriod = "monthly" | "quarterly"
+
+export const BUDGET_PERIODS: { value: BudgetPeriod; label: string }[] = [
+  { value: "monthly", label: "Monthly" },
+  { value: "quarterly", label: "Quarterly" },
+]
+
+export interface BudgetSettings {
+  period: BudgetPeriod
+  // Category name -> budget in major units; blank or missing means no budget
+  amounts: Record<string, string>
+}
+
+export const DEFAULT_BUDGETS: BudgetSettings = { period: "monthly", amounts: {} }
+
+export const getBudgetSettings = (): BudgetSettings => ({
+  ...DEFAULT_BUDGETS,
+  ...getSetting<Partial<BudgetSettings>>("categoryBudgets", {}),
+})
+
+// Budget for a category in the given currency's minor units, or 0 when it has none
+export const getCategoryBudget = (category: string, currency = "USD", settings = getBudgetSettings()): number =>
+  settings.amounts[category] ? sanitizeAmount(settings.amounts[category], currency) : 0
+
+/* ----------------------------------------------------------------
+ *  Periods
+ * ---------------------------------------------------------------- */
+
+export interface BudgetWindow {
+  // YYYY-MM-DD, inclusive
+  start: string
+  end: string
+  label: string
+}
+
+const isoDate = (year: number, month: number, day: number) =>
+  new Date(Date.UTC(year, month, day)).toISOString().split("T")[0]
+
+// Month or quarter containing a YYYY-MM-DD date
+export function budgetWindow(period: BudgetPeriod, date: string): BudgetWindow {
+  const [year, month] = date.split("-").map(Number)
+  if (period === "quarterly") {
+    const quarter = Math.floor((month - 1) / 3)
+    return {
+      start: isoDate(year, quarter * 3, 1),
+      end: isoDate(year, quarter * 3 + 3, 0),
+      label: `Q${quarter + 1} ${year}`,
+    }
+  }
+  return {
+    start: isoDate(year, month - 1, 1),
+    end: isoDate(year, month, 0),
+    label: new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      timeZone: "UTC",
+    }),
+  }
+}
+
+// Every budget period that overlaps [start, end], oldest first
+export function budgetWindows(period: BudgetPeriod, start: string, end: string): BudgetWindow[] {
+  const windows: BudgetWindow[] = []
+  for (let current = budgetWindow(period, start); current.start <= end;) {
+    windows.push(current)
+    const [year, month, day] = current.end.split("-").map(Number)
+    current = budgetWindow(period, isoDate(year, month - 1, day + 1))
+  }
+  return windows
+}
+
+/* ----------------------------------------------------------------
+ *  Budget vs. actual
+ * ---------------------------------------------------------------- */
+
+/**
+ * Disbursements that use up a budget or a recipient's cap: those
+ * waiting for approval count as well as approved ones, so splitting a
+ * payment across approvals doesn't get around either limit. Rejected
+ * and voided disbursements don't.
+ */
+export const isCommittedSpend = (transaction: Transaction): boolean =>
+  transaction.type === "disbursement" && transaction.approvalStatus !== "rejected" && !isVoidEntry(transaction)
+
+// Committed disbursements in a category dated within [start, end]
+export const categorySpend = (transactions: Transaction[], category: string, start: string, end: string): number =>
+  transactions
+    .filter((t) => isCommittedSpend(t) && (t.category || "Uncategorized") === category)
+    .filter((t) => t.date >= start && t.date <= end)
+    .reduce((sum, t) => sum + t.amount, 0)
+
+export interface BudgetStatus {
+  category: string
+  // Minor units; budget is the per-period amount times the number of periods
+  budget: number
+  spent: number
+  // Budget less spent; negative when over
+  remaining: number
+}
+
+/**
+ * Budget against committed spending for each budgeted category over the
+ * given periods, in the order categories are listed in.
+ */
+export function budgetStatuses(
+  transactions: Transaction[],
+  categories: string[],
+  currency: string,
+  windows: BudgetWindow[],
+  settings = getBudgetSettings(),
+): BudgetStatus[] {
+  if (windows.length === 0) return []
+  const start = windows[0].start
+  const end = windows[windows.length - 1].end
+
+  return categories
+    .map((category) => ({ category, perPeriod: getCategoryBudget(category, currency, settings) }))
+    .filter(({ perPeriod }) => perPeriod > 0)
+    .map(({ category, perPeriod }) => {
+      const budget = perPeriod * windows.length
+      const spent = categorySpend(transactions, category, start, end)
+      return { category, budget, spent, remaining: budget - spent }
+    })
+}
+
+export interface BudgetOverrun extends BudgetStatus {
+  period: BudgetWindow
+  // How far past the budget the new disbursement takes the category
+  over: number
+}
+
+// Whether a disbursement would push its category past budget for the period it's dated in
+export function checkBudget(
+  transactions: Transaction[],
+  category: string,
+  amount: number,
+  date: string,
+  currency: string,
+  settings = getBudgetSettings(),
+): BudgetOverrun | null {
+  const budget = getCategoryBudget(category, currency, settings)
+  if (!category || !budget || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return null
+
+  const period = budgetWindow(settings.period, date)
+  const spent = categorySpend(transactions, category, period.start, period.end)
+  const over = spent + amount - budget
+  return over > 0 ? { category, budget, spent, remaining: budget - spent, period, over } : null
+}
@@ -0,0 +1,66 @@
+/* ----------------------------------------------------------------
+ *  CSV reading
+ *
+ *  RFC 4180 style: fields may be quoted, quotes inside a quoted
+ *  field are doubled, and quoted fields may span lines. Tabs are
+ *  accepted as the delimiter too, since pasting from a spreadsheet
+ *  produces tab-separated text.
+ * ---------------------------------------------------------------- */
+
+// Tab when the first line has more tabs than commas, so spreadsheet pastes work as-is
+export function detectDelimiter(text: string): "," | "\t" | ";" {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? ""
+  const count = (char: string) => firstLine.split(char).length - 1
+  const tabs = count("\t")
+  const commas = count(",")
+  const semicolons = count(";")
+  if (tabs > commas && tabs >= semicolons) return "\t"
+  return semicolons > commas ? ";" : ","
+}
+
+/**
+ * Split CSV text into rows of fields. Blank lines are dropped and
+ * fields are trimmed.
+ */
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  const endField = () => {
+    row.push(field.trim())
+    field = ""
+  }
+  const endRow = () => {
+    endField()
+    if (row.some((value) => value !== "")) rows.push(row)
+    row = []
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field.trim() === "") {
+      field = ""
+      inQuotes = true
+    } else if (char === delimiter) {
+      endField()
+    } else if (char === "\n") {
+      endRow()
+    } else if (char !== "\r") {
+      field += char
+    }
+  }
+  if (field !== "" || row.length > 0) endRow()
+
+  return rows
+}
@@ -0,0 +1,57 @@
+import { currencyDecimals } from "@/lib/money"
+
+/* ----------------------------------------------------------------
+ *  Cash denominations
+ *
+ *  Bills and coins in circulation for each fund currency, largest
+ *  first. Values are minor units like every other amount.
+ * ---------------------------------------------------------------- */
+
+export interface Denomination {
+  value: number
+  kind: "bill" | "coin"
+}
+
+// One counted line of a cash count
+export interface DenominationCount extends Denomination {
+  quantity: number
+}
+
+const bills = (...values: number[]): Denomination[] => values.map((value) => ({ value, kind: "bill" }))
+const coins = (...values: number[]): Denomination[] => values.map((value) => ({ value, kind: "coin" }))
+
+const DENOMINATIONS: Record<string, Denomination[]> = {
+  USD: [...bills(10000, 5000, 2000, 1000, 500, 200, 100), ...coins(25, 10, 5, 1)],
+  EUR: [...bills(20000, 10000, 5000, 2000, 1000, 500), ...coins(200, 100, 50, 20, 10, 5, 2, 1)],
+  GBP: [...bills(5000, 2000, 1000, 500), ...coins(200, 100, 50, 20, 10, 5, 2, 1)],
+  // Canada stopped issuing the penny in 2013
+  CAD: [...bills(10000, 5000, 2000, 1000, 500), ...coins(200, 100, 25, 10, 5)],
+}
+
+// Currencies without a table get a generic 1-2-5 series
+const genericDenominations = (currency: string): Denomination[] => {
+  const unit = 10 ** currencyDecimals(currency)
+  const minor = unit > 1 ? coins(unit / 2, unit / 5, unit / 10, unit / 20, unit / 50, unit / 100) : []
+  return [
+    ...bills(100 * unit, 50 * unit, 20 * unit, 10 * unit, 5 * unit),
+    ...coins(2 * unit, unit),
+    ...minor.filter((d) => Number.isInteger(d.value) && d.value >= 1),
+  ]
+}
+
+export const getDenominations = (currency = "USD"): Denomination[] =>
+  DENOMINATIONS[currency] ?? genericDenominations(currency)
+
+const parseQuantity = (quantity: string | undefined): number => {
+  const parsed = parseInt(quantity ?? "", 10)
+  return isNaN(parsed) || parsed < 0 ? 0 : parsed
+}
+
+// Turn the quantities typed per denomination (keyed by value) into the counted lines, skipping empty ones
+export const toDenominationCounts = (currency: string, quantities: Record<number, string>): DenominationCount[] =>
+  getDenominations(currency)
+    .map((denomination) => ({ ...denomination, quantity: parseQuantity(quantities[denomination.value]) }))
+    .filter((count) => count.quantity > 0)
+
+export const countTotal = (counts: DenominationCount[]): number =>
+  counts.reduce((sum, count) => sum + count.value * count.quantity, 0)
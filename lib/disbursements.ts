@@ -0,0 +1,123 @@
+import { isClosedDate } from "@/contexts/PettyCashContext"
+import type { Fund } from "@/contexts/PettyCashContext"
+import { parseCsv } from "@/lib/csv"
+import { formatCurrency } from "@/lib/money"
+import { checkRecipientCap } from "@/lib/recipients"
+import type { RecipientPayment } from "@/lib/recipients"
+import { sanitizeAmount } from "@/lib/security"
+import { parseStatementDate } from "@/lib/statements"
+import { getSetting } from "@/lib/storage"
+
+/* ----------------------------------------------------------------
+ *  Disbursement entry
+ *
+ *  Shared by the single disbursement form and bulk entry, so a row
+ *  pasted from a spreadsheet is held to the same rules as a form.
+ * ---------------------------------------------------------------- */
+
+export const DEFAULT_CATEGORIES = [
+  "Office Supplies",
+  "Transportation",
+  "Postage & Shipping",
+  "Cleaning Supplies",
+  "Minor Repairs",
+  "Refreshments",
+  "Stationery",
+  "Utilities",
+  "Emergency Expenses",
+  "Other",
+]
+
+// Custom categories from settings
+export const getCategories = (): string[] => getSetting<string[]>("customCategories", DEFAULT_CATEGORIES)
+
+// Fields as typed, before amounts are converted to minor units
+export interface DisbursementInput {
+  date: string
+  amount: string
+  recipient: string
+  category: string
+  purpose: string
+}
+
+export type DisbursementErrors = Record<
+  "amount" | "recipient" | "recipientCap" | "purpose" | "category" | "date" | "balance" | "futureDate" | "closedPeriod",
+  string
+>
+
+/**
+ * Everything wrong with a disbursement, keyed by field, with "" for
+ * fields that are fine. `available` is the cash it has to come out
+ * of: the fund balance for one disbursement, or what's left after
+ * the rows above it in a batch. `earlier` is those rows themselves,
+ * which count towards the recipient's spending cap.
+ */
+export function validateDisbursement(
+  input: DisbursementInput,
+  fund: Fund,
+  available: number,
+  categories = getCategories(),
+  earlier: RecipientPayment[] = [],
+): DisbursementErrors {
+  const amountValue = sanitizeAmount(input.amount, fund.currency)
+  const capBreach =
+    amountValue > 0
+      ? checkRecipientCap(
+          fund.transactions,
+          { recipient: input.recipient, amount: amountValue, date: input.date },
+          fund.currency,
+          earlier,
+        )
+      : null
+  return {
+    amount: !input.amount || amountValue <= 0 ? "Amount must be greater than 0" : "",
+    recipient: !input.recipient.trim() ? "Recipient is required" : "",
+    recipientCap: capBreach
+      ? `${capBreach.recipient.name} has ${formatCurrency(Math.max(capBreach.cap - capBreach.spent, 0), fund.currency)} left of their ${formatCurrency(capBreach.cap, fund.currency)} cap for ${capBreach.period.label}`
+      : "",
+    purpose: !input.purpose.trim() ? "Purpose is required" : "",
+    category: !input.category ? "Category is required" : !categories.includes(input.category) ? "Unknown category" : "",
+    date: !input.date ? "Date is required" : !parseStatementDate(input.date, "YYYY-MM-DD") ? "Use YYYY-MM-DD" : "",
+    balance: amountValue > available ? "Insufficient funds" : "",
+    futureDate: new Date(input.date) > new Date() ? "Date cannot be in the future" : "",
+    closedPeriod: isClosedDate(fund, input.date)
+      ? `Reconciled through ${new Date(fund.closedThrough!).toLocaleDateString()}; reopen the period to back-date`
+      : "",
+  }
+}
+
+export const hasDisbursementErrors = (errors: DisbursementErrors): boolean =>
+  Object.values(errors).some((error) => error !== "")
+
+/* ----------------------------------------------------------------
+ *  Spreadsheet rows
+ * ---------------------------------------------------------------- */
+
+export const BULK_COLUMNS: (keyof DisbursementInput)[] = ["date", "amount", "recipient", "category", "purpose"]
+
+/**
+ * Rows pasted or uploaded as CSV. A header row naming the columns
+ * sets their order; without one they're read in BULK_COLUMNS order.
+ * Categories are matched to the configured list regardless of case.
+ */
+export function parseDisbursementRows(text: string, categories: string[]): DisbursementInput[] {
+  const rows = parseCsv(text)
+  if (rows.length === 0) return []
+
+  const header = rows[0].map((cell) => cell.toLowerCase())
+  const hasHeader = BULK_COLUMNS.some((column) => header.includes(column))
+  const columns = hasHeader ? BULK_COLUMNS.map((column) => header.indexOf(column)) : BULK_COLUMNS.map((_, i) => i)
+
+  return rows.slice(hasHeader ? 1 : 0).map((row) => {
+    const [date, amount, recipient, category, purpose] = columns.map((index) =>
+      index === -1 ? "" : (row[index] ?? ""),
+    )
+    return {
+      date,
+      amount,
+      recipient,
+      category: categories.find((c) => c.toLowerCase() === category.toLowerCase()) ?? category,
+      purpose,
+    }
+  })
+}
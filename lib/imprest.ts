@@ -0,0 +1,108 @@
+import { balanceEffect, isCounted, isPosted } from "@/contexts/PettyCashContext"
+import type { Fund, Transaction } from "@/contexts/PettyCashContext"
+import { outstandingTotal } from "@/lib/advances"
+
+/* ----------------------------------------------------------------
+ *  Replenishment periods
+ *
+ *  A period runs from a fund's last top-up to now. An imprest fund
+ *  is always topped back up to the fixed amount it was set up with,
+ *  so each replenishment should equal what was paid out in it.
+ *  Advances still outstanding are the fund's money and aren't
+ *  topped up until they're settled into disbursements.
+ * ---------------------------------------------------------------- */
+
+export interface CategoryTotal {
+  category: string
+  count: number
+  // Minor units
+  amount: number
+}
+
+export interface ReplenishmentPeriod {
+  // Replenishment (or the initialization) the period starts from
+  since?: Transaction
+  // Oldest first
+  disbursements: Transaction[]
+  // Largest first
+  byCategory: CategoryTotal[]
+  disbursed: number
+  // Cash handed out as advances in the period, less advances settled in it
+  advanced: number
+  // Advances not yet settled, whenever they were handed out
+  outstandingAdvances: number
+  // Balance just after the last top-up, and now
+  openingBalance: number
+  closingBalance: number
+}
+
+export interface ImprestReplenishment extends ReplenishmentPeriod {
+  // Top-up that brings cash and outstanding advances back to the imprest amount
+  expected: number
+  // Expected less disbursed; non-zero when voids of earlier entries or over/short adjustments moved the balance
+  unexplained: number
+}
+
+// When a transaction moved the balance: disbursements held for approval only count once approved
+const postedAt = (transaction: Transaction) => transaction.reviewedAt ?? transaction.timestamp
+
+export const isImprest = (fund: Fund): boolean => fund.imprestAmount !== undefined
+
+/**
+ * Latest top-up of the fund: its most recent replenishment that still
+ * stands, or the initialization when there hasn't been one.
+ */
+export function lastTopUp(fund: Fund): Transaction | undefined {
+  return fund.transactions
+    .filter((t) => (t.type === "replenishment" || t.type === "initialization") && isCounted(t))
+    .sort((a, b) => b.timestamp - a.timestamp)[0]
+}
+
+export function summarizeByCategory(disbursements: Transaction[]): CategoryTotal[] {
+  const totals = new Map<string, CategoryTotal>()
+  disbursements.forEach((t) => {
+    const category = t.category || "Uncategorized"
+    const total = totals.get(category) ?? { category, count: 0, amount: 0 }
+    totals.set(category, { category, count: total.count + 1, amount: total.amount + t.amount })
+  })
+  return Array.from(totals.values()).sort((a, b) => b.amount - a.amount || a.category.localeCompare(b.category))
+}
+
+// Disbursements posted since the last top-up, with the balance either side of them
+export function currentPeriod(fund: Fund): ReplenishmentPeriod {
+  const since = lastTopUp(fund)
+  const inPeriod = (t: Transaction) => !since || postedAt(t) > since.timestamp
+  const disbursements = fund.transactions
+    .filter((t) => t.type === "disbursement" && isCounted(t) && inPeriod(t))
+    .sort((a, b) => a.date.localeCompare(b.date) || postedAt(a) - postedAt(b))
+
+  return {
+    since,
+    disbursements,
+    byCategory: summarizeByCategory(disbursements),
+    disbursed: disbursements.reduce((sum, t) => sum + t.amount, 0),
+    advanced: fund.transactions
+      .filter((t) => (t.type === "advance" || t.type === "settlement") && isCounted(t) && inPeriod(t))
+      .reduce((sum, t) => sum - balanceEffect(t), 0),
+    outstandingAdvances: outstandingTotal(fund.transactions),
+    // Voided entries stay in, offset by their reversals, the way the balance itself counts them
+    openingBalance: fund.transactions
+      .filter((t) => isPosted(t) && !inPeriod(t))
+      .reduce((balance, t) => balance + balanceEffect(t), 0),
+    closingBalance: fund.balance,
+  }
+}
+
+/**
+ * What the next replenishment of an imprest fund should be, built from
+ * the disbursements posted since the last top-up. Returns null for
+ * funds that aren't run as an imprest.
+ */
+export function computeImprestReplenishment(fund: Fund): ImprestReplenishment | null {
+  if (fund.imprestAmount === undefined) return null
+
+  const period = currentPeriod(fund)
+  const expected = Math.max(0, fund.imprestAmount - fund.balance - period.outstandingAdvances)
+
+  return { ...period, expected, unexplained: expected - period.disbursed }
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest"
+import type { Fund, Transaction } from "@/contexts/PettyCashContext"
+import { chainHead, sealChain, verifyChain } from "@/lib/integrity"
+
+const transaction = (id: string, timestamp: number, fields: Partial<Transaction> = {}): Transaction => ({
+  id,
+  type: "disbursement",
+  amount: 1000,
+  date: "2024-01-15",
+  timestamp,
+  ...fields,
+})
+
+const unsealedFund = (): Fund => ({
+  id: "FUND-1",
+  name: "Main",
+  custodian: "Alex",
+  currency: "USD",
+  balance: 8000,
+  isInitialized: true,
+  transactions: [
+    transaction("TXN-1", 1, { type: "initialization", amount: 10000 }),
+    transaction("TXN-2", 2),
+    transaction("TXN-3", 3),
+  ],
+})
+
+// A fund as the provider leaves it: every transaction hashed and the head recorded
+async function sealedFund(): Promise<Fund> {
+  const fund = unsealedFund()
+  const transactions = (await sealChain(fund))!
+  return { ...fund, transactions, sealedThrough: chainHead(transactions) }
+}
+
+describe("sealChain", () => {
+  it("hashes every transaction and returns null once sealed", async () => {
+    const fund = await sealedFund()
+    expect(fund.transactions.every((t) => t.hash)).toBe(true)
+    expect(fund.sealedThrough).toEqual({ count: 3, hash: fund.transactions[2].hash })
+    expect(await sealChain(fund)).toBeNull()
+  })
+
+  it("reseals from the first unhashed transaction on", async () => {
+    const fund = await sealedFund()
+    const added = { ...fund, transactions: [...fund.transactions, transaction("TXN-4", 4)] }
+    const resealed = (await sealChain(added))!
+    expect(resealed.slice(0, 3)).toEqual(fund.transactions)
+    expect(resealed[3].hash).toBeTruthy()
+  })
+})
+
+describe("verifyChain", () => {
+  it("verifies a sealed fund", async () => {
+    expect((await verifyChain(await sealedFund())).status).toBe("verified")
+  })
+
+  it("reports a fund never sealed as unsealed", async () => {
+    expect((await verifyChain(unsealedFund())).status).toBe("unsealed")
+  })
+
+  it("accepts transactions added after the head as awaiting a seal", async () => {
+    const fund = await sealedFund()
+    const added = {
+      ...fund,
+      balance: fund.balance - 1000,
+      transactions: [...fund.transactions, transaction("TXN-4", 4)],
+    }
+    expect((await verifyChain(added)).status).toBe("verified")
+  })
+
+  it("catches a changed transaction", async () => {
+    const fund = await sealedFund()
+    const transactions = fund.transactions.map((t) => (t.id === "TXN-2" ? { ...t, purpose: "Edited" } : t))
+    const report = await verifyChain({ ...fund, transactions })
+    expect(report.status).toBe("broken")
+    expect(report.brokenAt?.transactionId).toBe("TXN-2")
+  })
+
+  it("catches hashes stripped from the end of the chain", async () => {
+    const fund = await sealedFund()
+    const transactions = fund.transactions.map((t) => (t.id === "TXN-3" ? { ...t, hash: undefined } : t))
+    const report = await verifyChain({ ...fund, transactions })
+    expect(report.status).toBe("broken")
+    expect(report.reason).toBe("Transaction is missing its hash")
+  })
+
+  it("catches every hash and the head stripped together with a changed amount", async () => {
+    const fund = await sealedFund()
+    const transactions = fund.transactions.map(({ hash: _hash, ...t }) => (t.id === "TXN-2" ? { ...t, amount: 1 } : t))
+    const report = await verifyChain({ ...fund, transactions, sealedThrough: undefined })
+    expect(report.status).toBe("broken")
+    expect(report.reason).toBe("Balance doesn't match the transaction log")
+  })
+
+  it("catches a removed head record while hashes remain", async () => {
+    const fund = await sealedFund()
+    const report = await verifyChain({ ...fund, sealedThrough: undefined })
+    expect(report.reason).toBe("The record of how far the chain was sealed is missing")
+  })
+
+  it("catches sealed transactions removed from the end", async () => {
+    const fund = await sealedFund()
+    const report = await verifyChain({ ...fund, balance: 9000, transactions: fund.transactions.slice(0, 2) })
+    expect(report.status).toBe("broken")
+    expect(report.reason).toBe("Sealed transactions were removed")
+  })
+
+  it("checks the balance even when the chain links hold", async () => {
+    const fund = await sealedFund()
+    const report = await verifyChain({ ...fund, balance: 5 })
+    expect(report.status).toBe("broken")
+    expect(report.reason).toBe("Balance doesn't match the transaction log")
+  })
+})
@@ -0,0 +1,156 @@
+import { balanceEffect, isPosted } from "@/contexts/PettyCashContext"
+import type { Fund, Transaction } from "@/contexts/PettyCashContext"
+
+/* ----------------------------------------------------------------
+ *  Transaction hash chain
+ *
+ *  Every transaction carries a SHA-256 hash of its own content plus
+ *  the hash before it, starting from the fund id. Editing, removing
+ *  or reordering a stored transaction breaks every link after it.
+ *
+ *  The reducer drops the hash of any transaction it changes; the
+ *  provider then re-seals the chain from that point before saving.
+ *  Each fund records how far it was sealed, so stripping hashes
+ *  outside the app can't pass for transactions awaiting a seal.
+ * ---------------------------------------------------------------- */
+
+export interface IntegrityReport {
+  status: "verified" | "broken" | "unsealed" | "unavailable"
+  // First link that doesn't check out
+  brokenAt?: { index: number; transactionId: string }
+  reason?: string
+  checkedAt: number
+}
+
+// How far a fund's chain was sealed: the first `count` transactions in chain order, ending at `hash`
+export interface ChainHead {
+  count: number
+  hash: string
+}
+
+export const isHashingAvailable = (): boolean => typeof crypto !== "undefined" && !!crypto.subtle
+
+// Chain order is fixed by timestamp and id so it survives storage returning rows in any order
+const chainOrder = (transactions: Transaction[]): Transaction[] =>
+  [...transactions].sort((a, b) => a.timestamp - b.timestamp || a.id.localeCompare(b.id))
+
+// Stable serialization: sorted keys, no hash, no undefined fields
+export const canonical = (transaction: Transaction): string =>
+  JSON.stringify(
+    Object.entries(transaction)
+      .filter(([key, value]) => key !== "hash" && value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b)),
+  )
+
+export async function hashTransaction(transaction: Transaction, previousHash: string): Promise<string> {
+  const bytes = new TextEncoder().encode(`${previousHash}\n${canonical(transaction)}`)
+  const digest = await crypto.subtle.digest("SHA-256", bytes)
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+// The hashed run at the start of the chain, or undefined when the first transaction has no hash
+export function chainHead(transactions: Transaction[]): ChainHead | undefined {
+  const ordered = chainOrder(transactions)
+  const firstUnsealed = ordered.findIndex((t) => !t.hash)
+  const count = firstUnsealed === -1 ? ordered.length : firstUnsealed
+  return count > 0 ? { count, hash: ordered[count - 1].hash! } : undefined
+}
+
+export const sameHead = (a: ChainHead | undefined, b: ChainHead | undefined): boolean =>
+  a?.count === b?.count && a?.hash === b?.hash
+
+/**
+ * Hash every transaction from the first unsealed one to the end.
+ * Returns the fund's transactions in their original order, or null
+ * when the chain is already sealed.
+ */
+export async function sealChain(fund: Fund): Promise<Transaction[] | null> {
+  const ordered = chainOrder(fund.transactions)
+  const start = ordered.findIndex((t) => !t.hash)
+  if (start === -1) return null
+
+  const hashes = new Map<string, string>()
+  let previous = start === 0 ? fund.id : ordered[start - 1].hash!
+  for (const transaction of ordered.slice(start)) {
+    previous = await hashTransaction(transaction, previous)
+    hashes.set(transaction.id, previous)
+  }
+
+  return fund.transactions.map((t) => {
+    const hash = hashes.get(t.id)
+    return !hash || hash === t.hash ? t : { ...t, hash }
+  })
+}
+
+/**
+ * Check every link of a fund's chain and that the balance matches the
+ * posted transactions. Unhashed transactions after the fund's recorded
+ * head are waiting to be sealed and don't count as a break; a missing
+ * hash at or before the head, or before a hashed one, does.
+ */
+export async function verifyChain(fund: Fund): Promise<IntegrityReport> {
+  const checkedAt = Date.now()
+  if (!isHashingAvailable()) return { status: "unavailable", checkedAt }
+
+  const ordered = chainOrder(fund.transactions)
+  const head = fund.sealedThrough
+  if (!head && ordered.some((t) => t.hash)) {
+    return { status: "broken", reason: "The record of how far the chain was sealed is missing", checkedAt }
+  }
+
+  let previous = fund.id
+  let firstUnsealed = -1
+  for (let index = 0; index < ordered.length; index++) {
+    const transaction = ordered[index]
+    if (!transaction.hash) {
+      if (firstUnsealed === -1) firstUnsealed = index
+      continue
+    }
+    if (firstUnsealed !== -1) {
+      const gap = ordered[firstUnsealed]
+      return {
+        status: "broken",
+        brokenAt: { index: firstUnsealed, transactionId: gap.id },
+        reason: "Transaction is missing its hash",
+        checkedAt,
+      }
+    }
+    if ((await hashTransaction(transaction, previous)) !== transaction.hash) {
+      return {
+        status: "broken",
+        brokenAt: { index, transactionId: transaction.id },
+        reason: "Transaction was changed, removed or reordered",
+        checkedAt,
+      }
+    }
+    previous = transaction.hash
+  }
+
+  if (head) {
+    const sealedCount = firstUnsealed === -1 ? ordered.length : firstUnsealed
+    if (sealedCount < head.count) {
+      const gap = ordered[sealedCount]
+      return {
+        status: "broken",
+        brokenAt: gap ? { index: sealedCount, transactionId: gap.id } : undefined,
+        reason: gap ? "Transaction is missing its hash" : "Sealed transactions were removed",
+        checkedAt,
+      }
+    }
+    if (ordered[head.count - 1].hash !== head.hash) {
+      return {
+        status: "broken",
+        brokenAt: { index: head.count - 1, transactionId: ordered[head.count - 1].id },
+        reason: "Chain doesn't match where it was last sealed",
+        checkedAt,
+      }
+    }
+  }
+
+  const expectedBalance = fund.transactions.filter(isPosted).reduce((sum, t) => sum + balanceEffect(t), 0)
+  if (fund.isInitialized && expectedBalance !== fund.balance) {
+    return { status: "broken", reason: "Balance doesn't match the transaction log", checkedAt }
+  }
+
+  return { status: !head && ordered.length > 0 ? "unsealed" : "verified", checkedAt }
+}
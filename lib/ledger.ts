@@ -0,0 +1,259 @@
+import { isPosted } from "@/contexts/PettyCashContext"
+import type { Transaction } from "@/contexts/PettyCashContext"
+import { formatAmount } from "@/lib/money"
+import { getSetting } from "@/lib/storage"
+
+/* ----------------------------------------------------------------
+ *  General ledger accounts
+ *
+ *  Each disbursement category and replenishment source maps to a GL
+ *  account code. Anything without its own code falls back to the
+ *  default expense or bank account.
+ * ---------------------------------------------------------------- */
+
+export const REPLENISHMENT_SOURCES = [
+  "Petty Cash Account",
+  "Operating Account",
+  "Main Bank Account",
+  "Cash Advance",
+  "Expense Reimbursement",
+  "Other",
+]
+
+export interface LedgerAccounts {
+  pettyCash: string
+  defaultExpense: string
+  defaultBank: string
+  // Cash over/short found on reconciliation
+  overShort: string
+  // Cash advances not yet settled (see lib/advances.ts)
+  advances: string
+  // Category name -> account code
+  categories: Record<string, string>
+  // Replenishment source -> account code
+  sources: Record<string, string>
+}
+
+export const DEFAULT_LEDGER_ACCOUNTS: LedgerAccounts = {
+  pettyCash: "1010",
+  defaultExpense: "6000",
+  defaultBank: "1000",
+  overShort: "6990",
+  advances: "1015",
+  categories: {},
+  sources: {},
+}
+
+export const getLedgerAccounts = (): LedgerAccounts => ({
+  ...DEFAULT_LEDGER_ACCOUNTS,
+  ...getSetting<Partial<LedgerAccounts>>("ledgerAccounts", {}),
+})
+
+export const expenseAccount = (accounts: LedgerAccounts, category?: string): string =>
+  (category && accounts.categories[category]?.trim()) || accounts.defaultExpense.trim()
+
+export const sourceAccount = (accounts: LedgerAccounts, source?: string): string =>
+  (source && accounts.sources[source]?.trim()) || accounts.defaultBank.trim()
+
+/* ----------------------------------------------------------------
+ *  Journal entries
+ * ---------------------------------------------------------------- */
+
+// One balanced two-line entry per transaction; amount is in minor units
+export interface JournalEntry {
+  date: string
+  transactionId: string
+  description: string
+  name?: string
+  reference?: string
+  debitAccount: string
+  creditAccount: string
+  amount: number
+}
+
+/**
+ * Journal entries for posted transactions dated within [from, to]
+ * (inclusive YYYY-MM-DD). Voided transactions stay in, offset by their
+ * reversal, so periods that were already exported don't change.
+ */
+export function buildJournal(
+  transactions: Transaction[],
+  accounts: LedgerAccounts,
+  from: string,
+  to: string,
+): JournalEntry[] {
+  const byId = new Map(transactions.map((t) => [t.id, t]))
+  const pettyCash = accounts.pettyCash.trim()
+
+  return transactions
+    .filter((t) => isPosted(t) && t.date >= from && t.date <= to)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.timestamp - b.timestamp)
+    .map((t): JournalEntry => {
+      const entry = {
+        date: t.date,
+        transactionId: t.id,
+        name: t.payee || t.recipient || undefined,
+        reference: t.reference,
+        amount: t.amount,
+      }
+
+      switch (t.type) {
+        case "disbursement":
+          return {
+            ...entry,
+            description: t.purpose || t.category || "Disbursement",
+            debitAccount: expenseAccount(accounts, t.category),
+            creditAccount: pettyCash,
+          }
+        case "reversal": {
+          // Older reversals didn't copy the source, so fall back to the original
+          const original = t.reversalOf ? byId.get(t.reversalOf) : undefined
+          const description = `Reversal of ${t.reversalOf}${t.reason ? `: ${t.reason}` : ""}`
+          return t.reversedType === "disbursement"
+            ? {
+                ...entry,
+                description,
+                debitAccount: pettyCash,
+                creditAccount: expenseAccount(accounts, t.category ?? original?.category),
+              }
+            : {
+                ...entry,
+                description,
+                debitAccount: sourceAccount(accounts, t.source ?? original?.source),
+                creditAccount: pettyCash,
+              }
+        }
+        case "adjustment":
+          return {
+            ...entry,
+            description: `${t.purpose}${t.reason ? `: ${t.reason}` : ""}`,
+            debitAccount: t.overShort === "short" ? accounts.overShort.trim() : pettyCash,
+            creditAccount: t.overShort === "short" ? pettyCash : accounts.overShort.trim(),
+          }
+        case "advance":
+          return {
+            ...entry,
+            description: `Cash advance${t.purpose ? `: ${t.purpose}` : ""}`,
+            debitAccount: accounts.advances.trim(),
+            creditAccount: pettyCash,
+          }
+        case "settlement":
+          // The spend is its own disbursement entry; this clears the advance against it and the change
+          return {
+            ...entry,
+            description: `Settlement of ${t.advanceId}`,
+            debitAccount: pettyCash,
+            creditAccount: accounts.advances.trim(),
+          }
+        case "initialization":
+          return {
+            ...entry,
+            description: "Petty cash fund established",
+            debitAccount: pettyCash,
+            creditAccount: sourceAccount(accounts),
+          }
+        default:
+          return {
+            ...entry,
+            description: t.purpose || "Replenishment",
+            debitAccount: pettyCash,
+            creditAccount: sourceAccount(accounts, t.source),
+          }
+      }
+    })
+}
+
+/* ----------------------------------------------------------------
+ *  Export formats
+ * ---------------------------------------------------------------- */
+
+export type LedgerFormat = "csv" | "iif" | "xero"
+
+export const LEDGER_FORMATS: { value: LedgerFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: "csv", label: "Journal CSV", extension: "csv", mimeType: "text/csv" },
+  { value: "iif", label: "QuickBooks Desktop (IIF)", extension: "iif", mimeType: "text/plain" },
+  { value: "xero", label: "Xero manual journal CSV", extension: "csv", mimeType: "text/csv" },
+]
+
+const toCsv = (rows: (string | number)[][]): string =>
+  rows.map((row) => row.map((field) => `"${String(field).replace(/"/g, '""')}"`).join(",")).join("\n")
+
+// Generic debit/credit layout, two rows per entry
+function journalCsv(entries: JournalEntry[], currency: string): string {
+  const headers = [
+    "Entry",
+    "Date",
+    "Account",
+    "Debit",
+    "Credit",
+    "Currency",
+    "Description",
+    "Name",
+    "Reference",
+    "Transaction ID",
+  ]
+  const rows = entries.flatMap((entry, index) => {
+    const amount = formatAmount(entry.amount, currency)
+    const details = [currency, entry.description, entry.name || "", entry.reference || "", entry.transactionId]
+    return [
+      [index + 1, entry.date, entry.debitAccount, amount, "", ...details],
+      [index + 1, entry.date, entry.creditAccount, "", amount, ...details],
+    ]
+  })
+  return toCsv([headers, ...rows])
+}
+
+// IIF is tab-delimited with no quoting, so tabs and line breaks are flattened
+const iifField = (value: string): string => value.replace(/[\t\r\n]+/g, " ").replace(/"/g, "'")
+
+// QuickBooks wants MM/DD/YYYY
+const iifDate = (date: string): string => {
+  const [year, month, day] = date.split("-")
+  return `${month}/${day}/${year}`
+}
+
+// General journal transactions; positive amounts are debits and the split carries the credit
+function quickBooksIif(entries: JournalEntry[], currency: string): string {
+  const lines = [
+    ["!TRNS", "TRNSTYPE", "DATE", "ACCNT", "AMOUNT", "DOCNUM", "MEMO"],
+    ["!SPL", "TRNSTYPE", "DATE", "ACCNT", "AMOUNT", "DOCNUM", "MEMO"],
+    ["!ENDTRNS"],
+  ]
+  for (const entry of entries) {
+    const amount = formatAmount(entry.amount, currency)
+    const memo = iifField([entry.description, entry.name].filter(Boolean).join(" - "))
+    const docNum = iifField(entry.reference || entry.transactionId)
+    lines.push(
+      ["TRNS", "GENERAL JOURNAL", iifDate(entry.date), iifField(entry.debitAccount), amount, docNum, memo],
+      ["SPL", "GENERAL JOURNAL", iifDate(entry.date), iifField(entry.creditAccount), `-${amount}`, docNum, memo],
+      ["ENDTRNS"],
+    )
+  }
+  return lines.map((line) => line.join("\t")).join("\r\n")
+}
+
+// Xero groups lines into one manual journal by narration and date, so the narration carries the transaction id
+function xeroCsv(entries: JournalEntry[], currency: string): string {
+  const headers = ["*Narration", "*Date", "Description", "*AccountCode", "*TaxRate", "*Amount"]
+  const rows = entries.flatMap((entry) => {
+    const amount = formatAmount(entry.amount, currency)
+    const narration = `${entry.description} (${entry.transactionId})`
+    const description = [entry.name, entry.reference].filter(Boolean).join(" - ")
+    return [
+      [narration, entry.date, description, entry.debitAccount, "Tax Exempt", amount],
+      [narration, entry.date, description, entry.creditAccount, "Tax Exempt", `-${amount}`],
+    ]
+  })
+  return toCsv([headers, ...rows])
+}
+
+export function formatJournal(entries: JournalEntry[], format: LedgerFormat, currency: string): string {
+  switch (format) {
+    case "iif":
+      return quickBooksIif(entries, currency)
+    case "xero":
+      return xeroCsv(entries, currency)
+    default:
+      return journalCsv(entries, currency)
+  }
+}
@@ -0,0 +1,82 @@
+/* ----------------------------------------------------------------
+ *  Money helpers
+ *
+ *  Amounts are stored as integers in the currency's minor unit
+ *  (cents for USD, pence for GBP, yen for JPY) so sums never drift.
+ *  Only parse at the input boundary and format at the display one.
+ * ---------------------------------------------------------------- */
+
+// Currencies a fund can be set up in
+export const CURRENCIES = [
+  { code: "USD", name: "US Dollar" },
+  { code: "EUR", name: "Euro" },
+  { code: "GBP", name: "British Pound" },
+  { code: "CAD", name: "Canadian Dollar" },
+]
+
+// Intl formatters are expensive to build, so keep one per currency/sign combination
+const formatters = new Map<string, Intl.NumberFormat>()
+
+const getFormatter = (currency: string, signDisplay: Intl.NumberFormatOptions["signDisplay"] = "auto") => {
+  const key = `${currency}:${signDisplay}`
+  let formatter = formatters.get(key)
+  if (!formatter) {
+    try {
+      formatter = new Intl.NumberFormat(undefined, { style: "currency", currency, signDisplay })
+    } catch {
+      // Unknown currency code: fall back to a plain two-decimal number
+      formatter = new Intl.NumberFormat(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2, signDisplay })
+    }
+    formatters.set(key, formatter)
+  }
+  return formatter
+}
+
+// Number of minor-unit digits, per ISO 4217 (2 for USD, 0 for JPY, 3 for KWD)
+export const currencyDecimals = (currency = "USD"): number =>
+  getFormatter(currency).resolvedOptions().maximumFractionDigits ?? 2
+
+// Symbol as the user's locale writes it, e.g. "$", "€", "CA$"
+export const currencySymbol = (currency = "USD"): string =>
+  getFormatter(currency)
+    .formatToParts(0)
+    .find((part) => part.type === "currency")?.value ?? currency
+
+/**
+ * Parse a user-entered decimal string into minor units.
+ * Rounds half away from zero at the currency's precision; returns NaN for
+ * anything that isn't a number.
+ */
+export const parseMoney = (input: string, currency = "USD"): number => {
+  const cleaned = input.replace(/[^0-9.-]/g, "")
+  if (!/^-?\d*\.?\d*$/.test(cleaned) || !/\d/.test(cleaned)) return NaN
+
+  // Shift the decimal point in the string itself ("12.345e2") to stay clear of binary float error
+  const shifted = Number(`${cleaned}e${currencyDecimals(currency)}`)
+  return Math.sign(shifted) * Math.round(Math.abs(shifted))
+}
+
+// Convert a major-unit number (e.g. 12.34 from legacy data) into minor units
+export const toMinorUnits = (amount: number, currency = "USD"): number =>
+  Number.isFinite(amount) ? parseMoney(amount.toString(), currency) || 0 : 0
+
+export const fromMinorUnits = (minor: number, currency = "USD"): number => minor / 10 ** currencyDecimals(currency)
+
+// Plain decimal string with the currency's precision, e.g. 1234 -> "12.34"; for inputs and CSV columns
+export const formatAmount = (minor: number, currency = "USD"): string =>
+  fromMinorUnits(minor, currency).toFixed(currencyDecimals(currency))
+
+/**
+ * Localized currency string for display, e.g. 1234 -> "$12.34", "12,34 €".
+ * Pass signDisplay "always" or "exceptZero" to show a leading +.
+ */
+export const formatCurrency = (
+  minor: number,
+  currency = "USD",
+  signDisplay: Intl.NumberFormatOptions["signDisplay"] = "auto",
+): string => getFormatter(currency, signDisplay).format(fromMinorUnits(minor, currency))
+
+// Smallest step an amount input should accept, e.g. "0.01"
+export const amountStep = (currency = "USD"): string => formatAmount(1, currency)
+
+export const sumMoney = (amounts: number[]): number => amounts.reduce((sum, amount) => sum + amount, 0)
@@ -0,0 +1,292 @@
+/* ----------------------------------------------------------------
+ *  PDF writing
+ *
+ *  A small PDF 1.4 writer for reports: text in the standard
+ *  Helvetica fonts (WinAnsi, so Latin-1 plus € and typographic
+ *  punctuation), lines, filled rectangles and JPEG images.
+ *  Coordinates are in points from the top-left of the page.
+ * ---------------------------------------------------------------- */
+
+// A4 portrait, in points
+export const PAGE_WIDTH = 595.28
+export const PAGE_HEIGHT = 841.89
+
+export type Rgb = [number, number, number]
+
+export interface TextOptions {
+  size?: number
+  bold?: boolean
+  color?: Rgb
+  // x is the left edge, centre or right edge of the text
+  align?: "left" | "center" | "right"
+}
+
+export interface JpegImage {
+  data: Uint8Array
+  // Pixels
+  width: number
+  height: number
+}
+
+// Advance widths (per 1000 em) of characters 32-126
+// prettier-ignore
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+]
+// prettier-ignore
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+]
+
+// Characters WinAnsiEncoding places outside Latin-1
+const WIN_ANSI: Record<string, number> = {
+  "€": 0x80,
+  "‚": 0x82,
+  "„": 0x84,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99,
+  // Narrow no-break and thin spaces from Intl number formatting
+  "\u202f": 0x20,
+  "\u2009": 0x20,
+}
+
+function winAnsiCode(char: string): number | undefined {
+  const code = char.charCodeAt(0)
+  if (code === 0xa0) return 0x20
+  if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa1 && code <= 0xff)) return code
+  return WIN_ANSI[char]
+}
+
+// Whether every character can be shown in the standard fonts
+export const isPdfEncodable = (text: string): boolean =>
+  Array.from(text).every((char) => winAnsiCode(char) !== undefined)
+
+// Width of text in points; characters outside ASCII are taken as digit-wide
+export function textWidth(text: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+  const units = Array.from(text).reduce((sum, char) => {
+    const code = winAnsiCode(char) ?? 0x3f
+    return sum + (code >= 32 && code <= 126 ? widths[code - 32] : 556)
+  }, 0)
+  return (units * size) / 1000
+}
+
+// Longest prefix of text that fits, with an ellipsis when anything was cut
+export function truncateText(text: string, maxWidth: number, size: number, bold = false): string {
+  if (textWidth(text, size, bold) <= maxWidth) return text
+  let end = text.length
+  while (end > 0 && textWidth(`${text.slice(0, end)}…`, size, bold) > maxWidth) end--
+  return `${text.slice(0, end).trimEnd()}…`
+}
+
+// PDF string literal bytes, as a binary string
+function pdfString(text: string): string {
+  const bytes = Array.from(text).map((char) => {
+    const code = winAnsiCode(char) ?? 0x3f
+    const byte = String.fromCharCode(code)
+    return byte === "(" || byte === ")" || byte === "\\" ? `\\${byte}` : byte
+  })
+  return `(${bytes.join("")})`
+}
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString()
+const rgb = ([r, g, b]: Rgb) => `${num(r / 255)} ${num(g / 255)} ${num(b / 255)}`
+
+/**
+ * Writer for one document. Draw on the current page, call addPage()
+ * to start the next, and finish with toBlob().
+ */
+export function createPdf() {
+  const pages: string[][] = []
+  const images: JpegImage[] = []
+  let current: string[] = []
+
+  const addPage = () => {
+    current = []
+    pages.push(current)
+  }
+  addPage()
+
+  return {
+    addPage,
+    get pageCount() {
+      return pages.length
+    },
+    // Switch back to an earlier page (zero-based), e.g. to add page numbers once the count is known
+    setPage(index: number) {
+      current = pages[index]
+    },
+
+    text(text: string, x: number, y: number, options: TextOptions = {}) {
+      const size = options.size ?? 10
+      const width = textWidth(text, size, options.bold)
+      const left = options.align === "right" ? x - width : options.align === "center" ? x - width / 2 : x
+      // y is the top of the line; PDF places text by its baseline
+      const baseline = PAGE_HEIGHT - y - size * 0.8
+      current.push(
+        `BT /${options.bold ? "F2" : "F1"} ${num(size)} Tf ${rgb(options.color ?? [0, 0, 0])} rg ${num(left)} ${num(baseline)} Td ${pdfString(text)} Tj ET`,
+      )
+    },
+
+    line(x1: number, y1: number, x2: number, y2: number, color: Rgb = [0, 0, 0], width = 0.5) {
+      current.push(
+        `${rgb(color)} RG ${num(width)} w ${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`,
+      )
+    },
+
+    rect(x: number, y: number, width: number, height: number, fill?: Rgb, stroke?: Rgb) {
+      const path = `${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re`
+      if (fill && stroke) current.push(`${rgb(fill)} rg ${rgb(stroke)} RG 0.5 w ${path} B`)
+      else if (fill) current.push(`${rgb(fill)} rg ${path} f`)
+      else current.push(`${rgb(stroke ?? [0, 0, 0])} RG 0.5 w ${path} S`)
+    },
+
+    image(image: JpegImage, x: number, y: number, width: number, height: number) {
+      images.push(image)
+      current.push(
+        `q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(PAGE_HEIGHT - y - height)} cm /Im${images.length} Do Q`,
+      )
+    },
+
+    toBlob(): Blob {
+      return new Blob([serialize(pages, images)], { type: "application/pdf" })
+    },
+  }
+}
+
+export type PdfWriter = ReturnType<typeof createPdf>
+
+// Objects: 1 catalog, 2 page tree, 3-4 fonts, then images, then a page and its content stream per page
+function serialize(pages: string[][], images: JpegImage[]): Uint8Array {
+  const chunks: Uint8Array[] = []
+  const offsets: number[] = []
+  let length = 0
+
+  // Everything but image data is ASCII or WinAnsi bytes held one per char
+  const push = (data: string | Uint8Array) => {
+    const bytes = typeof data === "string" ? Uint8Array.from(data, (char) => char.charCodeAt(0) & 0xff) : data
+    chunks.push(bytes)
+    length += bytes.length
+  }
+  const object = (id: number, body: string) => {
+    offsets[id] = length
+    push(`${id} 0 obj\n${body}\nendobj\n`)
+  }
+
+  const firstImage = 5
+  const firstPage = firstImage + images.length
+  const pageIds = pages.map((_, i) => firstPage + i * 2)
+
+  push("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n")
+  object(1, "<< /Type /Catalog /Pages 2 0 R >>")
+  object(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`)
+  object(3, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>")
+  object(4, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>")
+
+  images.forEach((image, i) => {
+    const id = firstImage + i
+    offsets[id] = length
+    push(
+      `${id} 0 obj\n<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`,
+    )
+    push(image.data)
+    push("\nendstream\nendobj\n")
+  })
+
+  const xObjects = images.map((_, i) => `/Im${i + 1} ${firstImage + i} 0 R`).join(" ")
+  pages.forEach((ops, i) => {
+    const pageId = pageIds[i]
+    const content = ops.join("\n")
+    object(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >>${
+        xObjects ? ` /XObject << ${xObjects} >>` : ""
+      } >> /Contents ${pageId + 1} 0 R >>`,
+    )
+    object(pageId + 1, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`)
+  })
+
+  const objectCount = firstPage + pages.length * 2
+  const xref = length
+  push(`xref\n0 ${objectCount}\n0000000000 65535 f \n`)
+  for (let id = 1; id < objectCount; id++) push(`${offsets[id].toString().padStart(10, "0")} 00000 n \n`)
+  push(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`)
+
+  const output = new Uint8Array(length)
+  let position = 0
+  chunks.forEach((chunk) => {
+    output.set(chunk, position)
+    position += chunk.length
+  })
+  return output
+}
+
+/* ----------------------------------------------------------------
+ *  Charts
+ * ---------------------------------------------------------------- */
+
+// Presentation properties charts take from stylesheets and CSS variables, which a standalone SVG loses
+const INLINED_STYLES = ["fill", "stroke", "stroke-width", "opacity", "font-size", "font-family", "font-weight"]
+
+/**
+ * Render an on-screen SVG (e.g. a recharts chart) to a JPEG on a white
+ * background, at `scale` times its displayed size for sharper print.
+ */
+export async function svgToJpeg(svg: SVGSVGElement, scale = 2): Promise<JpegImage> {
+  const { width, height } = svg.getBoundingClientRect()
+  const clone = svg.cloneNode(true) as SVGSVGElement
+  const originals = [svg, ...Array.from(svg.querySelectorAll("*"))]
+  const copies = [clone, ...Array.from(clone.querySelectorAll("*"))]
+  originals.forEach((original, i) => {
+    const computed = getComputedStyle(original)
+    const copy = copies[i] as SVGElement
+    INLINED_STYLES.forEach((property) => copy.style.setProperty(property, computed.getPropertyValue(property)))
+  })
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg")
+  clone.setAttribute("width", String(width))
+  clone.setAttribute("height", String(height))
+
+  const url = URL.createObjectURL(
+    new Blob([new XMLSerializer().serializeToString(clone)], { type: "image/svg+xml;charset=utf-8" }),
+  )
+  try {
+    const img = new Image()
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve()
+      img.onerror = () => reject(new Error("Chart could not be rendered"))
+      img.src = url
+    })
+
+    const canvas = document.createElement("canvas")
+    canvas.width = Math.round(width * scale)
+    canvas.height = Math.round(height * scale)
+    const context = canvas.getContext("2d")!
+    context.fillStyle = "#ffffff"
+    context.fillRect(0, 0, canvas.width, canvas.height)
+    context.drawImage(img, 0, 0, canvas.width, canvas.height)
+
+    const base64 = canvas.toDataURL("image/jpeg", 0.92).split(",")[1]
+    return {
+      data: Uint8Array.from(atob(base64), (char) => char.charCodeAt(0)),
+      width: canvas.width,
+      height: canvas.height,
+    }
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
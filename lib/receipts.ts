@@ -0,0 +1,183 @@
+import type { Transaction } from "@/contexts/PettyCashContext"
+import { decryptBytes, decryptJson, encryptBytes, encryptJson, sanitizeAmount } from "@/lib/security"
+import type { EncryptedPayload } from "@/lib/security"
+import { getEncryptionKey, getSetting } from "@/lib/storage"
+import type { Rekey } from "@/lib/storage"
+
+/* ----------------------------------------------------------------
+ *  Receipt attachments
+ *
+ *  Receipt files are far too large for localStorage, so they live in
+ *  their own IndexedDB database. Transactions only keep the ids.
+ *  With a passphrase set, the file and its name are encrypted with
+ *  the same key as the fund data.
+ * ---------------------------------------------------------------- */
+
+export interface StoredReceipt {
+  id: string
+  name: string
+  type: string
+  size: number
+  data: Blob
+  createdAt: number
+}
+
+// What's written when encryption is on; name, type and size are in `meta`
+interface EncryptedReceipt {
+  id: string
+  iv: Uint8Array
+  data: ArrayBuffer
+  meta: EncryptedPayload
+  createdAt: number
+}
+
+type ReceiptRecord = StoredReceipt | EncryptedReceipt
+
+const isEncrypted = (record: ReceiptRecord): record is EncryptedReceipt => "meta" in record
+
+const DB_NAME = "pettyCashReceipts"
+const DB_VERSION = 1
+const STORE_NAME = "receipts"
+
+export const RECEIPT_ACCEPT = "image/*,application/pdf"
+export const MAX_RECEIPT_SIZE = 10 * 1024 * 1024 // 10 MB per file
+
+// Disbursements above this amount (major units, per fund currency) are flagged when they have no receipt
+export const DEFAULT_RECEIPT_THRESHOLD = "25"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser"))
+        return
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Let the next call try again instead of caching the failure
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+// Run work against the receipts store and settle once the IndexedDB transaction completes
+const withStore = async <T>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => T): Promise<T> => {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode)
+    const result = work(tx.objectStore(STORE_NAME))
+    tx.oncomplete = () => resolve(result)
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+function generateReceiptId(): string {
+  return `RCPT-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+// Returns an error message, or "" when the file can be attached
+export const validateReceiptFile = (file: File): string => {
+  if (!file.type.startsWith("image/") && file.type !== "application/pdf") {
+    return `${file.name} is not an image or PDF`
+  }
+  if (file.size > MAX_RECEIPT_SIZE) return `${file.name} is larger than 10 MB`
+  return ""
+}
+
+const seal = async (receipt: StoredReceipt, key: CryptoKey | null): Promise<ReceiptRecord> => {
+  if (!key) return receipt
+  const { iv, data } = await encryptBytes(key, await receipt.data.arrayBuffer())
+  const meta = await encryptJson(key, { name: receipt.name, type: receipt.type, size: receipt.size })
+  return { id: receipt.id, iv, data, meta, createdAt: receipt.createdAt }
+}
+
+const open = async (record: ReceiptRecord, key: CryptoKey | null): Promise<StoredReceipt> => {
+  if (!isEncrypted(record)) return record
+  if (!key) throw new Error("Receipts are locked")
+  const meta = await decryptJson<Pick<StoredReceipt, "name" | "type" | "size">>(key, record.meta)
+  const data = await decryptBytes(key, record.iv, record.data)
+  return { ...meta, id: record.id, data: new Blob([data], { type: meta.type }), createdAt: record.createdAt }
+}
+
+// Store the files and return their ids, in the same order
+export const saveReceipts = async (files: File[]): Promise<string[]> => {
+  const receipts: StoredReceipt[] = files.map((file) => ({
+    id: generateReceiptId(),
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    data: file,
+    createdAt: Date.now(),
+  }))
+  const key = getEncryptionKey()
+  const records = await Promise.all(receipts.map((receipt) => seal(receipt, key)))
+  await withStore("readwrite", (store) => records.forEach((record) => store.put(record)))
+  return receipts.map((receipt) => receipt.id)
+}
+
+// Receipts that can't be found (e.g. data restored on another device) or decrypted are left out
+export const getReceipts = async (ids: string[]): Promise<StoredReceipt[]> => {
+  const requests = await withStore("readonly", (store) => ids.map((id) => store.get(id) as IDBRequest<ReceiptRecord>))
+  const key = getEncryptionKey()
+  const receipts = await Promise.all(
+    requests
+      .map((request) => request.result)
+      .filter(Boolean)
+      .map((record) =>
+        open(record, key).catch((error) => {
+          console.error(`Could not decrypt receipt ${record.id}:`, error)
+          return null
+        }),
+      ),
+  )
+  return receipts.filter((receipt): receipt is StoredReceipt => receipt !== null)
+}
+
+/**
+ * Every stored receipt re-encrypted from one key to another for a
+ * passphrase change (null for plaintext). Throws before anything is
+ * written if one can't be opened; each write is a single IndexedDB
+ * transaction, so the store is either all old or all new.
+ */
+export const prepareReceiptRekey = async (from: CryptoKey | null, to: CryptoKey | null): Promise<Rekey> => {
+  // Without IndexedDB there are no receipts to rewrite
+  if (typeof indexedDB === "undefined") return { commit: async () => {}, rollback: async () => {} }
+  const request = await withStore("readonly", (store) => store.getAll() as IDBRequest<ReceiptRecord[]>)
+  const stored = request.result
+  const rekeyed = await Promise.all(stored.map(async (record) => seal(await open(record, from), to)))
+  const putAll = async (records: ReceiptRecord[]) => {
+    await withStore("readwrite", (store) => records.forEach((record) => store.put(record)))
+  }
+  return { commit: () => putAll(rekeyed), rollback: () => putAll(stored) }
+}
+
+export const deleteReceipts = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return
+  await withStore("readwrite", (store) => ids.forEach((id) => store.delete(id)))
+}
+
+/* ----------------------------------------------------------------
+ *  Missing receipt checks
+ * ---------------------------------------------------------------- */
+
+// Threshold from settings, in the given currency's minor units
+export const getReceiptThreshold = (currency = "USD"): number =>
+  sanitizeAmount(getSetting("receiptRequiredThreshold", DEFAULT_RECEIPT_THRESHOLD), currency)
+
+// Live disbursements above the threshold must carry at least one receipt
+export const isMissingReceipt = (transaction: Transaction, threshold: number): boolean =>
+  transaction.type === "disbursement" &&
+  !transaction.voidedBy &&
+  transaction.approvalStatus !== "rejected" &&
+  transaction.amount > threshold &&
+  !transaction.receiptIds?.length
@@ -0,0 +1,159 @@
+import type { Transaction } from "@/contexts/PettyCashContext"
+import { outstandingAdvances } from "@/lib/advances"
+import { budgetWindow, isCommittedSpend } from "@/lib/budgets"
+import type { BudgetPeriod, BudgetWindow } from "@/lib/budgets"
+import { sanitizeAmount } from "@/lib/security"
+import { getStoredRecipients, replaceRecipients } from "@/lib/storage"
+
+/* ----------------------------------------------------------------
+ *  Recipient directory
+ *
+ *  The people cash is handed to, so "J. Smith" and "john smith"
+ *  end up as one person in reports. Anyone can have a cap on what
+ *  they're paid per month or quarter; like budgets, caps are kept
+ *  in major units and apply in the active fund's currency. The
+ *  directory is stored with the fund data, encrypted along with it.
+ * ---------------------------------------------------------------- */
+
+export interface Recipient {
+  id: string
+  name: string
+  department?: string
+  employeeId?: string
+  // Major units; unset or blank means no cap
+  cap?: string
+  capPeriod?: BudgetPeriod
+}
+
+export const getRecipients = (): Recipient[] => getStoredRecipients()
+
+export const saveRecipients = (recipients: Recipient[]): Promise<void> => replaceRecipients(recipients)
+
+export const createRecipient = (fields: Omit<Recipient, "id">): Recipient => ({
+  id: `RCP-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  ...fields,
+})
+
+const normalize = (value: string) => value.trim().replace(/\s+/g, " ").toLowerCase()
+
+// Directory entry a typed recipient refers to, by name or employee ID regardless of case and spacing
+export function findRecipient(text: string | undefined, recipients = getRecipients()): Recipient | undefined {
+  const typed = normalize(text || "")
+  if (!typed) return undefined
+  return (
+    recipients.find((r) => normalize(r.name) === typed) ??
+    recipients.find((r) => !!r.employeeId && normalize(r.employeeId) === typed)
+  )
+}
+
+// What to record for a typed recipient: the directory's spelling when there's a match
+export const canonicalRecipient = (text: string, recipients = getRecipients()): string =>
+  findRecipient(text, recipients)?.name ?? text.trim()
+
+/* ----------------------------------------------------------------
+ *  Spending caps
+ * ---------------------------------------------------------------- */
+
+export interface RecipientPayment {
+  recipient: string
+  // Minor units
+  amount: number
+  date: string
+}
+
+export interface CapBreach {
+  recipient: Recipient
+  // Minor units
+  cap: number
+  spent: number
+  period: BudgetWindow
+  // How far past the cap the new disbursement would go
+  over: number
+}
+
+// Cap in the given currency's minor units, or 0 when the recipient has none
+export const getRecipientCap = (recipient: Recipient, currency = "USD"): number =>
+  recipient.cap?.trim() ? sanitizeAmount(recipient.cap, currency) : 0
+
+/**
+ * What a recipient has been paid in a period: committed disbursements,
+ * counted the same way as against budgets, and advances not yet
+ * settled. `earlier` holds payments not yet recorded, such as the rows
+ * above in a batch.
+ */
+export function recipientSpend(
+  transactions: Transaction[],
+  recipient: Recipient,
+  period: BudgetWindow,
+  earlier: RecipientPayment[] = [],
+  recipients = getRecipients(),
+): number {
+  const recorded = [...transactions.filter(isCommittedSpend), ...outstandingAdvances(transactions)].map((t) => ({
+    recipient: t.recipient || "",
+    amount: t.amount,
+    date: t.date,
+  }))
+
+  return [...recorded, ...earlier]
+    .filter((p) => p.date >= period.start && p.date <= period.end)
+    .filter((p) => findRecipient(p.recipient, recipients)?.id === recipient.id)
+    .reduce((sum, p) => sum + p.amount, 0)
+}
+
+// Whether paying `amount` would take a recipient past their cap for the period it's dated in
+export function checkRecipientCap(
+  transactions: Transaction[],
+  payment: RecipientPayment,
+  currency: string,
+  earlier: RecipientPayment[] = [],
+  recipients = getRecipients(),
+): CapBreach | null {
+  const recipient = findRecipient(payment.recipient, recipients)
+  if (!recipient || !/^\d{4}-\d{2}-\d{2}$/.test(payment.date)) return null
+  const cap = getRecipientCap(recipient, currency)
+  if (!cap) return null
+
+  const period = budgetWindow(recipient.capPeriod ?? "monthly", payment.date)
+  const spent = recipientSpend(transactions, recipient, period, earlier, recipients)
+  const over = spent + payment.amount - cap
+  return over > 0 ? { recipient, cap, spent, period, over } : null
+}
+
+/* ----------------------------------------------------------------
+ *  Reporting
+ * ---------------------------------------------------------------- */
+
+export interface RecipientTotal {
+  // Directory name, or the text as entered for people not in the directory
+  recipient: string
+  department?: string
+  employeeId?: string
+  inDirectory: boolean
+  // Minor units
+  amount: number
+  count: number
+}
+
+// Disbursement totals per person, largest first; pass only the transactions that should count
+export function recipientTotals(disbursements: Transaction[], recipients = getRecipients()): RecipientTotal[] {
+  const totals = new Map<string, RecipientTotal>()
+  disbursements
+    .filter((t) => t.type === "disbursement")
+    .forEach((t) => {
+      const match = findRecipient(t.recipient, recipients)
+      const name = match?.name ?? (t.recipient?.trim() || "Unknown")
+      const key = match ? match.id : normalize(name)
+      const total = totals.get(key) ?? {
+        recipient: name,
+        department: match?.department,
+        employeeId: match?.employeeId,
+        inDirectory: !!match,
+        amount: 0,
+        count: 0,
+      }
+      total.amount += t.amount
+      total.count += 1
+      totals.set(key, total)
+    })
+  return Array.from(totals.values()).sort((a, b) => b.amount - a.amount)
+}
@@ -0,0 +1,476 @@
+import type { Fund, Transaction } from "@/contexts/PettyCashContext"
+import { currencyDecimals, formatAmount, formatCurrency, fromMinorUnits } from "@/lib/money"
+import { isMissingReceipt } from "@/lib/receipts"
+import type { RecipientTotal } from "@/lib/recipients"
+import { PAGE_HEIGHT, PAGE_WIDTH, createPdf, isPdfEncodable, truncateText } from "@/lib/pdf"
+import type { JpegImage, Rgb } from "@/lib/pdf"
+import { buildXlsx } from "@/lib/xlsx"
+
+/* ----------------------------------------------------------------
+ *  Report exports
+ *
+ *  The report page's figures as a PDF (summary cards, charts and a
+ *  paginated transaction table) or an XLSX workbook. Both are built
+ *  in the browser from the same ReportData the page shows.
+ * ---------------------------------------------------------------- */
+
+// Amounts are minor units
+export interface ReportData {
+  totalDisbursed: number
+  totalReplenished: number
+  netChange: number
+  transactionCount: number
+  voidedCount: number
+  unpostedCount: number
+  chartData: { month: string; disbursed: number; replenished: number }[]
+  typeDistribution: { name: string; value: number; count: number }[]
+  categoryTotals: { category: string; amount: number; count: number }[]
+  recipientTotals: RecipientTotal[]
+  totalOver: number
+  totalShort: number
+  overShortByMonth: { month: string; over: number; short: number; count: number }[]
+  missingReceipts: Transaction[]
+  // Everything dated in the period, including voided and pending entries
+  transactions: Transaction[]
+}
+
+export interface ReportOptions {
+  fund: Fund
+  // YYYY-MM-DD, inclusive
+  startDate: string
+  endDate: string
+  receiptThreshold: number
+}
+
+// Chart images for the PDF, captured from the page (see svgToJpeg)
+export interface ReportCharts {
+  monthly?: JpegImage
+  distribution?: JpegImage
+}
+
+const TYPE_LABELS: Record<Transaction["type"], string> = {
+  disbursement: "Disbursement",
+  replenishment: "Replenishment",
+  initialization: "Initialization",
+  reversal: "Reversal",
+  adjustment: "Adjustment",
+  advance: "Cash Advance",
+  settlement: "Advance Settlement",
+}
+
+// Why a transaction is left out of the totals, if it is
+function statusOf(transaction: Transaction): string {
+  if (transaction.voidedBy) return "Voided"
+  if (transaction.approvalStatus === "pending") return "Pending"
+  if (transaction.approvalStatus === "rejected") return "Rejected"
+  return ""
+}
+
+const share = (amount: number, total: number) => (total > 0 ? amount / total : 0)
+
+/* ----------------------------------------------------------------
+ *  PDF
+ * ---------------------------------------------------------------- */
+
+const MARGIN = 40
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+// Lowest y content may reach before the footer
+const CONTENT_BOTTOM = PAGE_HEIGHT - 50
+
+const COLORS: Record<"text" | "muted" | "border" | "panel" | "red" | "green" | "blue", Rgb> = {
+  text: [17, 24, 39],
+  muted: [107, 114, 128],
+  border: [209, 213, 219],
+  panel: [243, 244, 246],
+  red: [220, 38, 38],
+  green: [22, 163, 74],
+  blue: [37, 99, 235],
+}
+
+interface Column {
+  label: string
+  width: number
+  align?: "left" | "right"
+}
+
+const TRANSACTION_COLUMNS: Column[] = [
+  { label: "Date", width: 55 },
+  { label: "Type", width: 85 },
+  { label: "Category", width: 80 },
+  { label: "Purpose", width: 125 },
+  { label: "Recipient", width: 75 },
+  { label: "Ref", width: 35 },
+  { label: "Amount", width: 60, align: "right" },
+]
+
+const ROW_HEIGHT = 14
+
+export function buildReportPdf(report: ReportData, options: ReportOptions, charts: ReportCharts = {}): Blob {
+  const { fund } = options
+  const pdf = createPdf()
+  let y = MARGIN
+
+  // Standard fonts only cover Latin-1, so other currency symbols fall back to the code
+  const money = (minor: number, signDisplay: "auto" | "exceptZero" = "auto") => {
+    const formatted = formatCurrency(minor, fund.currency, signDisplay)
+    if (isPdfEncodable(formatted)) return formatted
+    const sign = signDisplay === "exceptZero" && minor > 0 ? "+" : ""
+    return `${sign}${formatAmount(minor, fund.currency)} ${fund.currency}`
+  }
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= CONTENT_BOTTOM) return false
+    pdf.addPage()
+    y = MARGIN
+    return true
+  }
+
+  const heading = (text: string) => {
+    ensureSpace(40)
+    y += 10
+    pdf.text(text, MARGIN, y, { size: 13, bold: true, color: COLORS.text })
+    y += 22
+  }
+
+  // Table with a shaded header that repeats on every page it runs onto
+  const table = (columns: Column[], rows: string[][], boldLast = false) => {
+    const header = () => {
+      pdf.rect(MARGIN, y, CONTENT_WIDTH, ROW_HEIGHT + 2, COLORS.panel)
+      drawRow(
+        columns.map((c) => c.label),
+        true,
+      )
+    }
+    const drawRow = (cells: string[], bold: boolean) => {
+      let x = MARGIN
+      cells.forEach((cell, i) => {
+        const column = columns[i]
+        const text = truncateText(cell, column.width - 6, 8, bold)
+        pdf.text(text, column.align === "right" ? x + column.width - 3 : x + 3, y + 4, {
+          size: 8,
+          bold,
+          color: COLORS.text,
+          align: column.align,
+        })
+        x += column.width
+      })
+      y += ROW_HEIGHT + (bold ? 2 : 0)
+    }
+
+    ensureSpace(ROW_HEIGHT * 3)
+    header()
+    rows.forEach((row, i) => {
+      if (ensureSpace(ROW_HEIGHT)) header()
+      const isTotal = boldLast && i === rows.length - 1
+      drawRow(row, isTotal)
+      pdf.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, COLORS.border)
+    })
+    y += 8
+  }
+
+  // Title
+  pdf.text("Petty Cash Report", MARGIN, y, { size: 20, bold: true, color: COLORS.text })
+  y += 30
+  pdf.text(`Fund: ${fund.name}${fund.custodian ? ` (Custodian: ${fund.custodian})` : ""}`, MARGIN, y, {
+    color: COLORS.muted,
+  })
+  y += 14
+  pdf.text(
+    `Period: ${new Date(options.startDate).toLocaleDateString()} - ${new Date(options.endDate).toLocaleDateString()}`,
+    MARGIN,
+    y,
+    { color: COLORS.muted },
+  )
+  y += 14
+  pdf.text(`Generated: ${new Date().toLocaleString()}`, MARGIN, y, { color: COLORS.muted })
+  y += 26
+
+  // Summary cards, as on the page
+  const cards: { label: string; value: string; color: Rgb }[] = [
+    { label: "Total Disbursed", value: money(report.totalDisbursed), color: COLORS.red },
+    { label: "Total Replenished", value: money(report.totalReplenished), color: COLORS.green },
+    {
+      label: "Net Change",
+      value: money(report.netChange, "exceptZero"),
+      color: report.netChange >= 0 ? COLORS.green : COLORS.red,
+    },
+    { label: "Current Balance", value: money(fund.balance), color: COLORS.blue },
+  ]
+  const gap = 8
+  const cardWidth = (CONTENT_WIDTH - gap * (cards.length - 1)) / cards.length
+  cards.forEach((card, i) => {
+    const x = MARGIN + i * (cardWidth + gap)
+    pdf.rect(x, y, cardWidth, 50, COLORS.panel, COLORS.border)
+    pdf.text(card.label, x + 8, y + 9, { size: 8, color: COLORS.muted })
+    pdf.text(truncateText(card.value, cardWidth - 16, 13, true), x + 8, y + 26, {
+      size: 13,
+      bold: true,
+      color: card.color,
+    })
+  })
+  y += 64
+
+  const notes = [
+    `Transactions counted: ${report.transactionCount}`,
+    `Voided / reversal entries (excluded): ${report.voidedCount}`,
+    `Pending / rejected disbursements (excluded): ${report.unpostedCount}`,
+    `Missing receipts (over ${money(options.receiptThreshold)}): ${report.missingReceipts.length}`,
+  ]
+  notes.forEach((note) => {
+    pdf.text(note, MARGIN, y, { size: 9, color: COLORS.text })
+    y += 13
+  })
+
+  // Charts side by side, scaled to half the content width each
+  const chartImages = [
+    { title: "Monthly Trends", image: charts.monthly },
+    { title: "Transaction Distribution", image: charts.distribution },
+  ].filter((chart): chart is { title: string; image: JpegImage } => !!chart.image)
+  if (chartImages.length > 0) {
+    const chartWidth = (CONTENT_WIDTH - gap) / 2
+    const chartHeight = Math.max(...chartImages.map((c) => (c.image.height / c.image.width) * chartWidth))
+    ensureSpace(chartHeight + 40)
+    y += 10
+    chartImages.forEach((chart, i) => {
+      const x = MARGIN + i * (chartWidth + gap)
+      pdf.text(chart.title, x, y, { size: 11, bold: true, color: COLORS.text })
+      pdf.image(chart.image, x, y + 18, chartWidth, (chart.image.height / chart.image.width) * chartWidth)
+    })
+    y += chartHeight + 26
+  }
+
+  // Disbursements by category
+  if (report.categoryTotals.length > 0) {
+    heading("Disbursements by Category")
+    table(
+      [
+        { label: "Category", width: CONTENT_WIDTH - 160 },
+        { label: "Share", width: 60, align: "right" },
+        { label: "Amount", width: 100, align: "right" },
+      ],
+      [
+        ...report.categoryTotals.map((c) => [
+          c.category,
+          `${(share(c.amount, report.totalDisbursed) * 100).toFixed(1)}%`,
+          money(c.amount),
+        ]),
+        ["Total", "100.0%", money(report.totalDisbursed)],
+      ],
+      true,
+    )
+  }
+
+  // Disbursements by recipient
+  if (report.recipientTotals.length > 0) {
+    heading("Disbursements by Recipient")
+    table(
+      [
+        { label: "Recipient", width: CONTENT_WIDTH - 320 },
+        { label: "Department", width: 110 },
+        { label: "Count", width: 50, align: "right" },
+        { label: "Share", width: 60, align: "right" },
+        { label: "Amount", width: 100, align: "right" },
+      ],
+      [
+        ...report.recipientTotals.map((r) => [
+          `${r.recipient}${r.employeeId ? ` (${r.employeeId})` : ""}`,
+          r.department || "",
+          String(r.count),
+          `${(share(r.amount, report.totalDisbursed) * 100).toFixed(1)}%`,
+          money(r.amount),
+        ]),
+        ["Total", "", "", "100.0%", money(report.totalDisbursed)],
+      ],
+      true,
+    )
+  }
+
+  // Cash over/short
+  if (report.overShortByMonth.length > 0) {
+    heading("Cash Over/Short")
+    table(
+      [
+        { label: "Month", width: CONTENT_WIDTH - 300 },
+        { label: "Over", width: 100, align: "right" },
+        { label: "Short", width: 100, align: "right" },
+        { label: "Net", width: 100, align: "right" },
+      ],
+      [
+        ...report.overShortByMonth.map((m) => [
+          m.month,
+          money(m.over),
+          money(m.short),
+          money(m.over - m.short, "exceptZero"),
+        ]),
+        [
+          "Total",
+          money(report.totalOver),
+          money(report.totalShort),
+          money(report.totalOver - report.totalShort, "exceptZero"),
+        ],
+      ],
+      true,
+    )
+  }
+
+  // Transactions, on their own pages
+  if (report.transactions.length > 0) {
+    pdf.addPage()
+    y = MARGIN
+    heading(`Transactions (${report.transactions.length})`)
+    table(
+      TRANSACTION_COLUMNS,
+      report.transactions.map((t) => {
+        const status = statusOf(t)
+        const missing = isMissingReceipt(t, options.receiptThreshold)
+        return [
+          new Date(t.date).toLocaleDateString(),
+          `${TYPE_LABELS[t.type]}${status ? ` (${status})` : ""}`,
+          t.category || "",
+          `${t.purpose || ""}${missing ? " [no receipt]" : ""}`,
+          t.recipient || "",
+          t.reference || "",
+          money(t.amount),
+        ]
+      }),
+    )
+  }
+
+  // Footers, now the page count is known
+  for (let page = 0; page < pdf.pageCount; page++) {
+    pdf.setPage(page)
+    const footerY = PAGE_HEIGHT - 34
+    pdf.line(MARGIN, footerY - 6, MARGIN + CONTENT_WIDTH, footerY - 6, COLORS.border)
+    pdf.text(`${fund.name} • ${options.startDate} to ${options.endDate}`, MARGIN, footerY, {
+      size: 8,
+      color: COLORS.muted,
+    })
+    pdf.text(`Page ${page + 1} of ${pdf.pageCount}`, MARGIN + CONTENT_WIDTH, footerY, {
+      size: 8,
+      color: COLORS.muted,
+      align: "right",
+    })
+  }
+
+  return pdf.toBlob()
+}
+
+/* ----------------------------------------------------------------
+ *  XLSX
+ * ---------------------------------------------------------------- */
+
+export function buildReportXlsx(report: ReportData, options: ReportOptions): Blob {
+  const { fund } = options
+  // Cells hold major units so spreadsheet formulas work on them directly
+  const major = (minor: number) => fromMinorUnits(minor, fund.currency)
+
+  const counted = report.transactions.filter((t) => !statusOf(t) && t.type !== "reversal")
+  const countOf = (type: Transaction["type"]) => counted.filter((t) => t.type === type).length
+
+  const summary = {
+    name: "Summary",
+    widths: [44, 20, 12],
+    moneyColumns: [1],
+    rows: [
+      ["Petty Cash Report"],
+      ["Fund", fund.name],
+      ["Custodian", fund.custodian || ""],
+      ["Currency", fund.currency],
+      ["Period", `${options.startDate} to ${options.endDate}`],
+      ["Generated", new Date().toLocaleString()],
+      [],
+      ["", "Amount", "Count"],
+      ["Total Disbursed", major(report.totalDisbursed), countOf("disbursement")],
+      ["Total Replenished", major(report.totalReplenished), countOf("replenishment")],
+      ["Cash Over", major(report.totalOver)],
+      ["Cash Short", major(report.totalShort)],
+      ["Net Change", major(report.netChange)],
+      ["Current Balance", major(fund.balance)],
+      [],
+      ["Transactions Counted", "", report.transactionCount],
+      ["Voided / Reversal Entries (excluded)", "", report.voidedCount],
+      ["Pending / Rejected Disbursements (excluded)", "", report.unpostedCount],
+      [
+        `Missing Receipts (over ${formatCurrency(options.receiptThreshold, fund.currency)})`,
+        "",
+        report.missingReceipts.length,
+      ],
+    ],
+  }
+
+  const transactions = {
+    name: "Transactions",
+    header: true,
+    widths: [12, 16, 10, 20, 36, 20, 20, 14, 14, 12, 16, 30],
+    dateColumns: [0],
+    moneyColumns: [8],
+    rows: [
+      [
+        "Date",
+        "Type",
+        "Status",
+        "Category",
+        "Purpose",
+        "Recipient",
+        "Payee",
+        "Source",
+        "Amount",
+        "Receipt",
+        "Entered By",
+        "ID",
+      ],
+      ...report.transactions.map((t) => [
+        t.date,
+        TYPE_LABELS[t.type],
+        statusOf(t),
+        t.category || "",
+        t.purpose || "",
+        t.recipient || "",
+        t.payee || "",
+        t.source || "",
+        major(t.amount),
+        isMissingReceipt(t, options.receiptThreshold) ? "Missing" : t.receiptIds?.length ? "Attached" : "",
+        t.enteredBy || "",
+        t.id,
+      ]),
+    ],
+  }
+
+  const byCategory = {
+    name: "By Category",
+    header: true,
+    widths: [28, 10, 16, 10],
+    moneyColumns: [2],
+    rows: [
+      ["Category", "Count", "Amount", "Share"],
+      ...report.categoryTotals.map((c) => [
+        c.category,
+        c.count,
+        major(c.amount),
+        `${(share(c.amount, report.totalDisbursed) * 100).toFixed(1)}%`,
+      ]),
+      ["Total", "", major(report.totalDisbursed), report.totalDisbursed > 0 ? "100.0%" : ""],
+    ],
+  }
+
+  const byRecipient = {
+    name: "By Recipient",
+    header: true,
+    widths: [28, 20, 14, 10, 16, 10],
+    moneyColumns: [4],
+    rows: [
+      ["Recipient", "Department", "Employee ID", "Count", "Amount", "Share"],
+      ...report.recipientTotals.map((r) => [
+        r.recipient,
+        r.department || "",
+        r.employeeId || "",
+        r.count,
+        major(r.amount),
+        `${(share(r.amount, report.totalDisbursed) * 100).toFixed(1)}%`,
+      ]),
+      ["Total", "", "", "", major(report.totalDisbursed), report.totalDisbursed > 0 ? "100.0%" : ""],
+    ],
+  }
+
+  return buildXlsx([summary, transactions, byCategory, byRecipient], currencyDecimals(fund.currency))
+}
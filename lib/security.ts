@@ -1,4 +1,5 @@
 import DOMPurify from "isomorphic-dompurify"
+import { formatAmount, parseMoney } from "@/lib/money"
 
 /* ----------------------------------------------------------------
  *  Sanitation helpers
@@ -6,12 +7,11 @@ import DOMPurify from "isomorphic-dompurify"
 export const sanitizeInput = (input: string): string => (input ? DOMPurify.sanitize(input.trim()) : "")
 
 /**
- * Convert a user-entered money string to a positive number.
- * Strips everything except digits, - (minus) & . (decimal point).
+ * Convert a user-entered money string to a non-negative integer amount
+ * in the currency's minor unit (see lib/money.ts).
  */
-export const sanitizeAmount = (amount: string): number => {
-  const numeric = amount.replace(/[^0-9.-]/g, "")
-  const parsed = Number.parseFloat(numeric)
+export const sanitizeAmount = (amount: string, currency = "USD"): number => {
+  const parsed = parseMoney(amount, currency)
   return isNaN(parsed) ? 0 : Math.max(0, parsed)
 }
 
@@ -20,12 +20,18 @@ export const sanitizeAmount = (amount: string): number => {
  * ---------------------------------------------------------------- */
 export const validateEmail = (email: string): boolean => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)
 
-export const validateAmount = (amount: number, max?: number): { isValid: boolean; error?: string } => {
+// Amounts are in minor units, as returned by sanitizeAmount
+export const validateAmount = (
+  amount: number,
+  max?: number,
+  currency = "USD",
+): { isValid: boolean; error?: string } => {
+  if (!Number.isInteger(amount)) return { isValid: false, error: "Invalid amount" }
   if (amount <= 0) return { isValid: false, error: "Amount must be greater than 0" }
   if (max && amount > max)
     return {
       isValid: false,
-      error: `Amount cannot exceed ${max.toFixed(2)}`,
+      error: `Amount cannot exceed ${formatAmount(max, currency)}`,
     }
   return { isValid: true }
 }
@@ -154,3 +160,87 @@ export const secureStorage = {
     localStorage.removeItem(key)
   },
 }
+
+/* ----------------------------------------------------------------
+ *  Encryption at rest
+ *
+ *  The passphrase is stretched with PBKDF2 into an AES-GCM key. Each
+ *  record gets a fresh random IV, stored next to its ciphertext. The
+ *  passphrase itself is never stored; a known value encrypted with
+ *  the key tells whether a passphrase is right.
+ * ---------------------------------------------------------------- */
+export const PBKDF2_ITERATIONS = 310_000
+// Minutes without input before the app locks again
+export const DEFAULT_AUTO_LOCK_MINUTES = "5"
+const PASSPHRASE_CHECK = "petty-cash"
+
+export interface EncryptedPayload {
+  iv: string
+  cipher: string
+}
+
+// Stored in plain settings so the app can ask for the passphrase before anything is decrypted
+export interface EncryptionSettings {
+  salt: string
+  iterations: number
+  check: EncryptedPayload
+}
+
+export const isEncryptionAvailable = (): boolean => typeof crypto !== "undefined" && !!crypto.subtle
+
+const toBase64 = (bytes: Uint8Array): string => btoa(Array.from(bytes, (b) => String.fromCharCode(b)).join(""))
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), (c) => c.charCodeAt(0))
+
+const randomBytes = (length: number): Uint8Array => crypto.getRandomValues(new Uint8Array(length))
+
+export async function deriveKey(passphrase: string, salt: string, iterations = PBKDF2_ITERATIONS): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, [
+    "deriveKey",
+  ])
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt: fromBase64(salt), iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  )
+}
+
+export async function encryptBytes(key: CryptoKey, data: BufferSource): Promise<{ iv: Uint8Array; data: ArrayBuffer }> {
+  const iv = randomBytes(12)
+  return { iv, data: await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, data) }
+}
+
+// Rejects when the key is wrong or the data was tampered with
+export const decryptBytes = (key: CryptoKey, iv: Uint8Array, data: BufferSource): Promise<ArrayBuffer> =>
+  crypto.subtle.decrypt({ name: "AES-GCM", iv }, key, data)
+
+export async function encryptJson(key: CryptoKey, value: unknown): Promise<EncryptedPayload> {
+  const { iv, data } = await encryptBytes(key, new TextEncoder().encode(JSON.stringify(value)))
+  return { iv: toBase64(iv), cipher: toBase64(new Uint8Array(data)) }
+}
+
+export async function decryptJson<T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> {
+  const data = await decryptBytes(key, fromBase64(payload.iv), fromBase64(payload.cipher))
+  return JSON.parse(new TextDecoder().decode(data)) as T
+}
+
+// New salt and check value for a passphrase
+export async function createEncryptionSettings(
+  passphrase: string,
+): Promise<{ key: CryptoKey; settings: EncryptionSettings }> {
+  const salt = toBase64(randomBytes(16))
+  const key = await deriveKey(passphrase, salt)
+  return { key, settings: { salt, iterations: PBKDF2_ITERATIONS, check: await encryptJson(key, PASSPHRASE_CHECK) } }
+}
+
+// The key for this passphrase, or null when it's wrong
+export async function unlockKey(passphrase: string, settings: EncryptionSettings): Promise<CryptoKey | null> {
+  const key = await deriveKey(passphrase, settings.salt, settings.iterations)
+  try {
+    return (await decryptJson<string>(key, settings.check)) === PASSPHRASE_CHECK ? key : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest"
+import type { Transaction } from "@/contexts/PettyCashContext"
+import { applyMapping, matchStatement, parseOfx, parseStatementAmount, parseStatementDate } from "@/lib/statements"
+import type { StatementLine } from "@/lib/statements"
+
+describe("parseStatementAmount", () => {
+  it("reads plain and thousands-separated amounts as minor units", () => {
+    expect(parseStatementAmount("12.34", "USD")).toBe(1234)
+    expect(parseStatementAmount("1,234.56", "USD")).toBe(123456)
+  })
+
+  it("reads the negative forms accounting exports use", () => {
+    expect(parseStatementAmount("-50.00", "USD")).toBe(-5000)
+    expect(parseStatementAmount("(50.00)", "USD")).toBe(-5000)
+    expect(parseStatementAmount("50.00-", "USD")).toBe(-5000)
+  })
+
+  it("reads decimal commas when asked", () => {
+    expect(parseStatementAmount("1.234,56", "EUR", true)).toBe(123456)
+  })
+
+  it("follows the currency's minor units", () => {
+    expect(parseStatementAmount("1,500", "JPY")).toBe(1500)
+  })
+
+  it("returns NaN for text that isn't an amount", () => {
+    expect(parseStatementAmount("n/a", "USD")).toBeNaN()
+  })
+})
+
+describe("parseStatementDate", () => {
+  it("reads each supported format", () => {
+    expect(parseStatementDate("2024-03-05", "YYYY-MM-DD")).toBe("2024-03-05")
+    expect(parseStatementDate("03/05/2024", "MM/DD/YYYY")).toBe("2024-03-05")
+    expect(parseStatementDate("05/03/2024", "DD/MM/YYYY")).toBe("2024-03-05")
+  })
+
+  it("rejects dates that don't exist", () => {
+    expect(parseStatementDate("2024-02-30", "YYYY-MM-DD")).toBeNull()
+  })
+})
+
+describe("applyMapping", () => {
+  it("signs split debit and credit columns and skips unreadable rows", () => {
+    const rows = [
+      ["Date", "Details", "Debit", "Credit"],
+      ["2024-03-05", "ATM withdrawal", "200.00", ""],
+      ["2024-03-06", "Deposit", "", "50.00"],
+      ["soon", "Broken", "1.00", ""],
+    ]
+    const { lines, skippedRows } = applyMapping(
+      rows,
+      {
+        name: "Bank",
+        source: "Bank",
+        hasHeader: true,
+        dateColumn: 0,
+        descriptionColumn: 1,
+        debitColumn: 2,
+        creditColumn: 3,
+        dateFormat: "YYYY-MM-DD",
+      },
+      "USD",
+    )
+    expect(lines.map((line) => line.amount)).toEqual([-20000, 5000])
+    expect(skippedRows).toEqual([4])
+  })
+})
+
+describe("parseOfx", () => {
+  it("reads SGML transactions without closing tags", () => {
+    const lines = parseOfx(
+      "<OFX><STMTTRN><TRNTYPE>DEBIT\n<DTPOSTED>20240305\n<TRNAMT>-200.00\n<FITID>ABC1\n<NAME>ATM\n</STMTTRN></OFX>",
+      "USD",
+    )
+    expect(lines).toEqual([{ id: "ofx-1", date: "2024-03-05", amount: -20000, description: "ATM", reference: "ABC1" }])
+  })
+})
+
+describe("matchStatement", () => {
+  const line = (id: string, date: string, amount: number, reference?: string): StatementLine => ({
+    id,
+    date,
+    amount,
+    description: "ATM withdrawal",
+    reference,
+  })
+  const replenishment = (id: string, date: string, amount: number, fields: Partial<Transaction> = {}): Transaction => ({
+    id,
+    type: "replenishment",
+    amount,
+    date,
+    timestamp: 1,
+    ...fields,
+  })
+
+  it("matches by bank reference before amount and date", () => {
+    const [match] = matchStatement(
+      [line("row-1", "2024-03-05", -20000, "REF-1")],
+      [
+        replenishment("TXN-1", "2024-03-05", 20000),
+        replenishment("TXN-2", "2024-03-20", 20000, { reference: "REF-1" }),
+      ],
+    )
+    expect(match.match?.id).toBe("TXN-2")
+  })
+
+  it("pairs equal amounts within the tolerance, closest date first, each replenishment once", () => {
+    const matches = matchStatement(
+      [line("row-1", "2024-03-05", -20000), line("row-2", "2024-03-06", -20000)],
+      [replenishment("TXN-1", "2024-03-07", 20000), replenishment("TXN-2", "2024-03-05", 20000)],
+    )
+    expect(matches.map((m) => m.match?.id)).toEqual(["TXN-2", "TXN-1"])
+  })
+
+  it("leaves withdrawals unmatched when nothing fits", () => {
+    const matches = matchStatement(
+      [line("row-1", "2024-03-05", -20000), line("row-2", "2024-03-05", 5000)],
+      [
+        replenishment("TXN-1", "2024-03-20", 20000),
+        replenishment("TXN-2", "2024-03-05", 20000, { voidedBy: "TXN-3" }),
+        replenishment("TXN-4", "2024-03-05", 20000, { approvalStatus: "pending" }),
+      ],
+    )
+    expect(matches).toEqual([{ line: line("row-1", "2024-03-05", -20000), match: undefined }])
+  })
+})
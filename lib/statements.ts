@@ -0,0 +1,243 @@
+import { isPosted } from "@/contexts/PettyCashContext"
+import type { Transaction } from "@/contexts/PettyCashContext"
+import { parseMoney } from "@/lib/money"
+import { getSetting, setSetting } from "@/lib/storage"
+
+/* ----------------------------------------------------------------
+ *  Bank statements
+ *
+ *  Statement lines come from an OFX file or from a CSV mapped
+ *  column by column. Withdrawals are matched against the fund's
+ *  replenishments so the ones never recorded stand out.
+ * ---------------------------------------------------------------- */
+
+export interface StatementLine {
+  // Position in the file, for keys and selection
+  id: string
+  // YYYY-MM-DD
+  date: string
+  // Signed minor units; negative for money leaving the account
+  amount: number
+  description: string
+  // Bank's own id for the line (OFX FITID or a reference column); kept on replenishments created from it
+  reference?: string
+}
+
+export type DateFormat = "YYYY-MM-DD" | "MM/DD/YYYY" | "DD/MM/YYYY"
+
+export const DATE_FORMATS: DateFormat[] = ["YYYY-MM-DD", "MM/DD/YYYY", "DD/MM/YYYY"]
+
+export interface StatementMapping {
+  // Bank the mapping is saved under
+  name: string
+  hasHeader: boolean
+  // Column indexes
+  dateColumn: number
+  descriptionColumn: number
+  referenceColumn?: number
+  // Either one signed amount column or separate debit and credit columns
+  amountColumn?: number
+  debitColumn?: number
+  creditColumn?: number
+  // Some banks list withdrawals as positive numbers in a single amount column
+  withdrawalsPositive?: boolean
+  dateFormat: DateFormat
+  // "1.234,56" rather than "1,234.56"
+  decimalComma?: boolean
+  // Replenishment source recorded for withdrawals from this account (see REPLENISHMENT_SOURCES)
+  source: string
+}
+
+// Replenishments this many days either side of a withdrawal can match it
+export const MATCH_TOLERANCE_DAYS = 3
+
+const PETTY_CASH_PATTERN = /petty|cash|atm|withdraw/i
+
+/* ----------------------------------------------------------------
+ *  Saved mappings
+ * ---------------------------------------------------------------- */
+
+const MAPPINGS_KEY = "statementMappings"
+
+export const getStatementMappings = (): StatementMapping[] => getSetting<StatementMapping[]>(MAPPINGS_KEY, [])
+
+// Replaces any mapping saved under the same bank name
+export const saveStatementMapping = (mapping: StatementMapping): Promise<void> =>
+  setSetting(MAPPINGS_KEY, [
+    ...getStatementMappings().filter((m) => m.name.toLowerCase() !== mapping.name.toLowerCase()),
+    mapping,
+  ])
+
+/* ----------------------------------------------------------------
+ *  Parsing
+ * ---------------------------------------------------------------- */
+
+export const isOfx = (text: string): boolean => /<OFX>/i.test(text)
+
+// Pre-fills the wizard from the header row's wording
+export function guessMapping(headers: string[]): Omit<StatementMapping, "name" | "source"> {
+  const find = (pattern: RegExp) => {
+    const index = headers.findIndex((header) => pattern.test(header))
+    return index === -1 ? undefined : index
+  }
+  const debitColumn = find(/debit|withdrawal|paid out|money out/i)
+  const creditColumn = find(/credit|deposit|paid in|money in/i)
+  const split = debitColumn !== undefined && creditColumn !== undefined
+
+  return {
+    hasHeader: true,
+    dateColumn: find(/date/i) ?? 0,
+    descriptionColumn: find(/description|details|memo|narrative|payee|name/i) ?? 1,
+    referenceColumn: find(/ref|fitid|check|cheque|transaction id/i),
+    amountColumn: split ? undefined : (find(/amount|value/i) ?? 2),
+    debitColumn: split ? debitColumn : undefined,
+    creditColumn: split ? creditColumn : undefined,
+    dateFormat: "YYYY-MM-DD",
+  }
+}
+
+// Statement date in the given format as YYYY-MM-DD, or null when it doesn't fit
+export function parseStatementDate(value: string, format: DateFormat): string | null {
+  const parts =
+    format === "YYYY-MM-DD"
+      ? value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/)?.slice(1, 4)
+      : value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/)?.slice(1, 4)
+  if (!parts) return null
+
+  const [year, month, day] =
+    format === "YYYY-MM-DD"
+      ? parts
+      : format === "MM/DD/YYYY"
+        ? [parts[2], parts[0], parts[1]]
+        : [parts[2], parts[1], parts[0]]
+  const fullYear = year.length === 2 ? `20${year}` : year
+  const iso = `${fullYear}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`
+  const date = new Date(`${iso}T00:00:00Z`)
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(iso) ? iso : null
+}
+
+// Signed minor units; "(12.00)" and "12.00-" are negative the way accounting exports write them
+export function parseStatementAmount(value: string, currency: string, decimalComma = false): number {
+  const trimmed = value.trim()
+  const negative = /^\(.*\)$/.test(trimmed) || /-$/.test(trimmed) || trimmed.startsWith("-")
+  let digits = trimmed.replace(/[()\s]/g, "").replace(/^-|-$/g, "")
+  digits = decimalComma ? digits.replace(/\./g, "").replace(",", ".") : digits.replace(/,/g, "")
+  const parsed = parseMoney(digits, currency)
+  return Number.isNaN(parsed) ? NaN : negative ? -parsed : parsed
+}
+
+/**
+ * Turn CSV rows into statement lines. Rows whose date or amount
+ * can't be read are returned by their 1-based row number.
+ */
+export function applyMapping(
+  rows: string[][],
+  mapping: StatementMapping,
+  currency: string,
+): { lines: StatementLine[]; skippedRows: number[] } {
+  const lines: StatementLine[] = []
+  const skippedRows: number[] = []
+  const cell = (row: string[], column?: number) => (column === undefined ? "" : (row[column] ?? ""))
+  const amountOf = (row: string[]) => {
+    if (mapping.amountColumn !== undefined) {
+      const amount = parseStatementAmount(cell(row, mapping.amountColumn), currency, mapping.decimalComma)
+      return mapping.withdrawalsPositive ? -amount : amount
+    }
+    // Blank debit or credit cells are zero
+    const debit = cell(row, mapping.debitColumn)
+    const credit = cell(row, mapping.creditColumn)
+    const debitAmount = debit ? Math.abs(parseStatementAmount(debit, currency, mapping.decimalComma)) : 0
+    const creditAmount = credit ? Math.abs(parseStatementAmount(credit, currency, mapping.decimalComma)) : 0
+    return creditAmount - debitAmount
+  }
+
+  rows.forEach((row, index) => {
+    if (mapping.hasHeader && index === 0) return
+    const date = parseStatementDate(cell(row, mapping.dateColumn), mapping.dateFormat)
+    const amount = amountOf(row)
+    if (!date || Number.isNaN(amount)) {
+      skippedRows.push(index + 1)
+      return
+    }
+    lines.push({
+      id: `row-${index + 1}`,
+      date,
+      amount,
+      description: cell(row, mapping.descriptionColumn),
+      reference: cell(row, mapping.referenceColumn) || undefined,
+    })
+  })
+
+  return { lines, skippedRows }
+}
+
+// OFX 1.x is SGML, so leaf elements usually have no closing tag; read each value up to the next tag or line end
+export function parseOfx(text: string, currency: string): StatementLine[] {
+  return text
+    .split(/<STMTTRN>/i)
+    .slice(1)
+    .map((block, index) => {
+      const tag = (name: string) => block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, "i"))?.[1]?.trim() ?? ""
+      const posted = tag("DTPOSTED")
+      return {
+        id: `ofx-${index + 1}`,
+        date: `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`,
+        amount: parseStatementAmount(tag("TRNAMT"), currency),
+        description: [tag("NAME"), tag("MEMO")].filter(Boolean).join(" • "),
+        reference: tag("FITID") || undefined,
+      }
+    })
+    .filter((line) => /^\d{4}-\d{2}-\d{2}$/.test(line.date) && !Number.isNaN(line.amount))
+}
+
+/* ----------------------------------------------------------------
+ *  Matching
+ * ---------------------------------------------------------------- */
+
+export const isWithdrawal = (line: StatementLine): boolean => line.amount < 0
+
+export const isLikelyPettyCash = (line: StatementLine): boolean =>
+  isWithdrawal(line) && PETTY_CASH_PATTERN.test(line.description)
+
+const daysApart = (a: string, b: string) => Math.abs(new Date(a).getTime() - new Date(b).getTime()) / 86_400_000
+
+export interface StatementMatch {
+  line: StatementLine
+  // Replenishment already recorded for this withdrawal
+  match?: Transaction
+}
+
+/**
+ * Pair each withdrawal with at most one replenishment: first by the
+ * bank reference a replenishment was created with, then by equal
+ * amount within MATCH_TOLERANCE_DAYS, closest date first.
+ */
+export function matchStatement(lines: StatementLine[], transactions: Transaction[]): StatementMatch[] {
+  const withdrawals = lines.filter(isWithdrawal)
+  const available = transactions.filter((t) => t.type === "replenishment" && !t.voidedBy && isPosted(t))
+  const used = new Set<string>()
+  const matches = new Map<string, Transaction>()
+
+  withdrawals.forEach((line) => {
+    const byReference = line.reference && available.find((t) => t.reference === line.reference && !used.has(t.id))
+    if (byReference) {
+      matches.set(line.id, byReference)
+      used.add(byReference.id)
+    }
+  })
+
+  withdrawals.forEach((line) => {
+    if (matches.has(line.id)) return
+    const closest = available
+      .filter(
+        (t) => !used.has(t.id) && t.amount === -line.amount && daysApart(t.date, line.date) <= MATCH_TOLERANCE_DAYS,
+      )
+      .sort((a, b) => daysApart(a.date, line.date) - daysApart(b.date, line.date))[0]
+    if (closest) {
+      matches.set(line.id, closest)
+      used.add(closest.id)
+    }
+  })
+
+  return withdrawals.map((line) => ({ line, match: matches.get(line.id) }))
+}
@@ -0,0 +1,103 @@
+import type { Fund, Transaction } from "@/contexts/PettyCashContext"
+import type { DenominationCount } from "@/lib/denominations"
+import type { Recipient } from "@/lib/recipients"
+
+/* ----------------------------------------------------------------
+ *  Storage backend contract
+ *
+ *  Funds, transactions, reconciliations, recipients and audit entries
+ *  are stored one record each so a change only rewrites what it touched. Both backends
+ *  implement this interface; see lib/storage/index.ts for the facade
+ *  the app talks to.
+ * ---------------------------------------------------------------- */
+
+// A fund row without its transactions, which are stored separately
+export type StoredFund = Omit<Fund, "transactions">
+
+export type StoredTransaction = Transaction & { fundId: string }
+
+export interface ReconciliationRecord {
+  id: string
+  fundId?: string
+  // Amounts below are minor units in this currency; records without it predate that and hold floats
+  currency?: string
+  date: string
+  systemBalance: number
+  physicalBalance: number
+  difference: number
+  // Bills and coins counted, when the count was done by denomination
+  denominations?: DenominationCount[]
+  // Cash advances out at the time (see lib/advances.ts); the fund's assets are the count plus these
+  outstandingAdvances?: number
+  // Set when this count closed the period through that date
+  closedThrough?: string
+  notes?: string
+  // Signed-in user who did the count
+  enteredBy?: string
+  timestamp: number
+}
+
+// One field that changed; a missing before/after means the record was added/removed
+export interface AuditChange {
+  path: string
+  before?: unknown
+  after?: unknown
+}
+
+export interface AuditEntry {
+  id: string
+  timestamp: number
+  // Signed-in user's name, unset in single-user mode
+  actor?: string
+  category: "action" | "settings" | "users" | "security" | "import" | "export" | "reset"
+  // Reducer action type, or a short name for what happened
+  action: string
+  fundId?: string
+  summary?: string
+  changes: AuditChange[]
+}
+
+export interface TransactionQuery {
+  fundId: string
+  type?: Transaction["type"]
+  // Inclusive YYYY-MM-DD bounds
+  from?: string
+  to?: string
+  category?: string
+}
+
+export interface StorageBackend {
+  readonly name: "IndexedDB" | "localStorage"
+
+  getFunds(): Promise<StoredFund[]>
+  putFund(fund: StoredFund): Promise<void>
+  // Removes the fund row and all of its transactions
+  deleteFund(fundId: string): Promise<void>
+
+  getTransactions(query: TransactionQuery): Promise<StoredTransaction[]>
+  putTransactions(transactions: StoredTransaction[]): Promise<void>
+  deleteTransactions(fundId: string, ids: string[]): Promise<void>
+
+  getReconciliations(): Promise<ReconciliationRecord[]>
+  putReconciliations(records: ReconciliationRecord[]): Promise<void>
+  deleteReconciliations(ids: string[]): Promise<void>
+
+  getRecipients(): Promise<Recipient[]>
+  putRecipients(recipients: Recipient[]): Promise<void>
+  deleteRecipients(ids: string[]): Promise<void>
+
+  // Append-only: there is no delete, and nothing else touches this store
+  getAuditEntries(): Promise<AuditEntry[]>
+  putAuditEntries(entries: AuditEntry[]): Promise<void>
+
+  getSettings(): Promise<Record<string, unknown>>
+  putSetting(key: string, value: unknown): Promise<void>
+  deleteSetting(key: string): Promise<void>
+}
+
+export const matchesQuery = (transaction: StoredTransaction, query: TransactionQuery): boolean =>
+  transaction.fundId === query.fundId &&
+  (!query.type || transaction.type === query.type) &&
+  (!query.from || transaction.date >= query.from) &&
+  (!query.to || transaction.date <= query.to) &&
+  (!query.category || transaction.category === query.category)
@@ -0,0 +1,75 @@
+import type { Recipient } from "@/lib/recipients"
+import { decryptJson, encryptJson } from "@/lib/security"
+import type { EncryptedPayload } from "@/lib/security"
+import { matchesQuery } from "./backend"
+import type { AuditEntry, ReconciliationRecord, StorageBackend, StoredFund, StoredTransaction } from "./backend"
+
+/* ----------------------------------------------------------------
+ *  Encrypted backend
+ *
+ *  Wraps another backend and stores each fund, transaction,
+ *  reconciliation, recipient and audit entry as ciphertext. Only the keys stay readable (id and
+ *  fundId), so the per-fund lookups still work but date, type and
+ *  category filters run in memory after decrypting. Settings are
+ *  passed through as-is.
+ * ---------------------------------------------------------------- */
+
+type EncryptedRecord = EncryptedPayload & { id: string; fundId?: string }
+
+const isEncrypted = (record: object): record is EncryptedRecord => "cipher" in record && "iv" in record
+
+export function createEncryptedBackend(inner: StorageBackend, key: CryptoKey): StorageBackend {
+  const seal = async <T extends { id: string; fundId?: string }>(record: T): Promise<T> => {
+    const sealed: EncryptedRecord = { id: record.id, ...(await encryptJson(key, record)) }
+    if (record.fundId) sealed.fundId = record.fundId
+    // The inner backend only looks at id and fundId, which are kept
+    return sealed as unknown as T
+  }
+
+  // Records written before encryption was turned on are read as they are
+  const open = <T extends object>(record: T): Promise<T> =>
+    isEncrypted(record) ? decryptJson<T>(key, record) : Promise.resolve(record)
+
+  const sealAll = <T extends { id: string; fundId?: string }>(records: T[]): Promise<T[]> =>
+    Promise.all(records.map(seal))
+  const openAll = <T extends object>(records: T[]): Promise<T[]> => Promise.all(records.map(open))
+
+  return {
+    name: inner.name,
+
+    getFunds: async () => openAll<StoredFund>(await inner.getFunds()),
+
+    putFund: async (fund) => inner.putFund(await seal(fund)),
+
+    deleteFund: (fundId) => inner.deleteFund(fundId),
+
+    getTransactions: async (query) =>
+      (await openAll<StoredTransaction>(await inner.getTransactions({ fundId: query.fundId }))).filter((t) =>
+        matchesQuery(t, query),
+      ),
+
+    putTransactions: async (transactions) => inner.putTransactions(await sealAll(transactions)),
+
+    deleteTransactions: (fundId, ids) => inner.deleteTransactions(fundId, ids),
+
+    getReconciliations: async () => openAll<ReconciliationRecord>(await inner.getReconciliations()),
+
+    putReconciliations: async (records) => inner.putReconciliations(await sealAll(records)),
+
+    deleteReconciliations: (ids) => inner.deleteReconciliations(ids),
+
+    getRecipients: async () => openAll<Recipient>(await inner.getRecipients()),
+
+    putRecipients: async (recipients) => inner.putRecipients(await sealAll(recipients)),
+
+    deleteRecipients: (ids) => inner.deleteRecipients(ids),
+
+    getAuditEntries: async () => openAll<AuditEntry>(await inner.getAuditEntries()),
+
+    putAuditEntries: async (entries) => inner.putAuditEntries(await sealAll(entries)),
+
+    getSettings: () => inner.getSettings(),
+    putSetting: (key, value) => inner.putSetting(key, value),
+    deleteSetting: (key) => inner.deleteSetting(key),
+  }
+}
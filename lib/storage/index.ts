@@ -0,0 +1,463 @@
+import type { Fund, PettyCashState } from "@/contexts/PettyCashContext"
+import type { Recipient } from "@/lib/recipients"
+import { createEncryptionSettings, unlockKey } from "@/lib/security"
+import type { EncryptionSettings } from "@/lib/security"
+import type { AuditEntry, ReconciliationRecord, StorageBackend, StoredTransaction, TransactionQuery } from "./backend"
+import { createEncryptedBackend } from "./encrypted"
+import { openIndexedDBBackend } from "./indexeddb"
+import { createLocalStorageBackend } from "./local"
+
+export type { AuditChange, AuditEntry, ReconciliationRecord, StoredTransaction, TransactionQuery } from "./backend"
+
+/* ----------------------------------------------------------------
+ *  Storage facade
+ *
+ *  The app goes through these functions instead of localStorage.
+ *  IndexedDB is used when available, with localStorage as fallback.
+ *  Settings are cached in memory at startup so they can be read
+ *  synchronously during render; writes are queued in order.
+ *
+ *  With a passphrase set, fund data and the recipient directory go
+ *  through the encrypted backend and stay unreadable until
+ *  unlockStorage. Settings are never encrypted.
+ * ---------------------------------------------------------------- */
+
+// Keys the app used to write straight to localStorage, moved into storage on first run
+const LEGACY_STATE_KEY = "pettyCashData"
+const LEGACY_RECONCILIATIONS_KEY = "reconciliationHistory"
+const LEGACY_STRING_SETTINGS = [
+  "lowBalanceThreshold",
+  "receiptRequiredThreshold",
+  "hasSeenInitializeTour",
+  "preferredCurrency",
+]
+const LEGACY_JSON_SETTINGS = ["customCategories", "notificationSettings", "appearanceSettings"]
+
+// State-level values kept alongside the settings
+const ACTIVE_FUND_KEY = "activeFundId"
+const STATE_VERSION_KEY = "stateVersion"
+const ENCRYPTION_KEY = "encryption"
+// Where the recipient directory was kept before it moved in with the fund data
+const LEGACY_RECIPIENTS_KEY = "recipients"
+
+// The backend as opened, used for settings
+let rawBackend: StorageBackend | null = null
+// The backend for fund data; null while locked
+let backend: StorageBackend | null = null
+let encryptionKey: CryptoKey | null = null
+let initPromise: Promise<void> | null = null
+let writeQueue: Promise<void> = Promise.resolve()
+const settingsCache = new Map<string, unknown>()
+// Loaded with the fund state, so the directory can be read during render like settings
+let recipientsCache: Recipient[] = []
+const writeErrorListeners = new Set<(error: unknown) => void>()
+// Audit entries recorded while fund data was locked or not yet open, written as soon as it is
+let heldAuditEntries: AuditEntry[] = []
+
+/**
+ * Writes run one after another so a later change never lands before an
+ * earlier one. A write whose backend isn't open by the time its turn
+ * comes is dropped, or handed to `whenClosed` to keep.
+ */
+const enqueue = (
+  write: (db: StorageBackend) => Promise<void>,
+  target: "data" | "settings" = "data",
+  whenClosed?: () => void,
+): Promise<void> => {
+  writeQueue = writeQueue
+    .then(() => {
+      const db = target === "data" ? backend : rawBackend
+      return db ? write(db) : whenClosed?.()
+    })
+    .catch((error) => {
+      console.error("Storage write failed:", error)
+      writeErrorListeners.forEach((listener) => listener(error))
+    })
+  return writeQueue
+}
+
+/** Be told whenever a queued write fails, since callers don't wait on them. Returns an unsubscribe function. */
+export function onWriteError(listener: (error: unknown) => void): () => void {
+  writeErrorListeners.add(listener)
+  return () => {
+    writeErrorListeners.delete(listener)
+  }
+}
+
+async function migrateLegacyKeys(db: StorageBackend) {
+  for (const key of [...LEGACY_STRING_SETTINGS, ...LEGACY_JSON_SETTINGS]) {
+    const stored = localStorage.getItem(key)
+    if (stored === null) continue
+    try {
+      await db.putSetting(key, LEGACY_JSON_SETTINGS.includes(key) ? JSON.parse(stored) : stored)
+      localStorage.removeItem(key)
+    } catch (error) {
+      console.error(`Could not migrate setting "${key}":`, error)
+    }
+  }
+
+  const reconciliations = localStorage.getItem(LEGACY_RECONCILIATIONS_KEY)
+  if (reconciliations) {
+    try {
+      await db.putReconciliations(JSON.parse(reconciliations))
+      localStorage.removeItem(LEGACY_RECONCILIATIONS_KEY)
+    } catch (error) {
+      console.error("Could not migrate reconciliation history:", error)
+    }
+  }
+}
+
+/** Open the backend, move legacy keys over and load the settings cache. Safe to call more than once. */
+export function initStorage(): Promise<void> {
+  if (!initPromise) {
+    initPromise = (async () => {
+      let db: StorageBackend
+      try {
+        db = await openIndexedDBBackend()
+      } catch (error) {
+        console.warn("IndexedDB unavailable, falling back to localStorage:", error)
+        db = createLocalStorageBackend()
+      }
+      await migrateLegacyKeys(db)
+      Object.entries(await db.getSettings()).forEach(([key, value]) => settingsCache.set(key, value))
+      rawBackend = db
+      if (!isEncryptionEnabled()) {
+        backend = db
+        writeHeldAuditEntries()
+      }
+    })()
+  }
+  return initPromise
+}
+
+export const storageBackendName = (): string =>
+  rawBackend ? `${rawBackend.name}${isEncryptionEnabled() ? " (encrypted)" : ""}` : "Not loaded"
+
+/* ----------------------------------------------------------------
+ *  Passphrase
+ * ---------------------------------------------------------------- */
+export const isEncryptionEnabled = (): boolean => settingsCache.has(ENCRYPTION_KEY)
+
+export const isStorageLocked = (): boolean => isEncryptionEnabled() && !encryptionKey
+
+// Key for other stores that encrypt with the same passphrase (receipts); null when encryption is off or locked
+export const getEncryptionKey = (): CryptoKey | null => encryptionKey
+
+/** Derive the key and open fund data. Returns false when the passphrase is wrong. */
+export async function unlockStorage(passphrase: string): Promise<boolean> {
+  await initStorage()
+  const settings = getSetting<EncryptionSettings | null>(ENCRYPTION_KEY, null)
+  if (!settings || !rawBackend) return true
+
+  const key = await unlockKey(passphrase, settings)
+  if (!key) return false
+  encryptionKey = key
+  backend = createEncryptedBackend(rawBackend, key)
+  writeHeldAuditEntries()
+  return true
+}
+
+/** Let pending writes finish, then forget the key. */
+export async function lockStorage(): Promise<void> {
+  if (!isEncryptionEnabled()) return
+  await writeQueue
+  encryptionKey = null
+  backend = null
+  recipientsCache = []
+}
+
+// A store's records re-encrypted in memory, ready to be written, with a way back to what was there
+export interface Rekey {
+  commit: () => Promise<void>
+  rollback: () => Promise<void>
+}
+
+/**
+ * Read and decrypt every fund, transaction, reconciliation, recipient
+ * and audit entry up front, so a record that won't open stops a passphrase change
+ * before anything is written. Rolling back puts the stored records
+ * back exactly as they were read.
+ */
+async function prepareRekey(raw: StorageBackend, from: CryptoKey | null, to: CryptoKey | null): Promise<Rekey> {
+  const source = from ? createEncryptedBackend(raw, from) : raw
+  const target = to ? createEncryptedBackend(raw, to) : raw
+
+  const storedFunds = await raw.getFunds()
+  const stored = {
+    funds: storedFunds,
+    transactions: (await Promise.all(storedFunds.map((fund) => raw.getTransactions({ fundId: fund.id })))).flat(),
+    reconciliations: await raw.getReconciliations(),
+    recipients: await raw.getRecipients(),
+    auditEntries: await raw.getAuditEntries(),
+  }
+  const funds = await source.getFunds()
+  const opened = {
+    funds,
+    transactions: (await Promise.all(funds.map((fund) => source.getTransactions({ fundId: fund.id })))).flat(),
+    reconciliations: await source.getReconciliations(),
+    recipients: await source.getRecipients(),
+    auditEntries: await source.getAuditEntries(),
+  }
+
+  const write = async (db: StorageBackend, records: typeof stored) => {
+    for (const fund of records.funds) await db.putFund(fund)
+    await db.putTransactions(records.transactions)
+    await db.putReconciliations(records.reconciliations)
+    await db.putRecipients(records.recipients)
+    await db.putAuditEntries(records.auditEntries)
+  }
+
+  return { commit: () => write(target, opened), rollback: () => write(raw, stored) }
+}
+
+/**
+ * Set, change or remove the passphrase (pass null for none). Fund data
+ * and anything `prepareOther` covers (receipts) are all decrypted before
+ * the first write; the new key only takes effect once every store has
+ * been rewritten, and a failed write puts all of them back under the old
+ * one. Returns false when the current passphrase is wrong.
+ */
+export async function changePassphrase(
+  current: string | null,
+  next: string | null,
+  prepareOther?: (from: CryptoKey | null, to: CryptoKey | null) => Promise<Rekey>,
+): Promise<boolean> {
+  await initStorage()
+  const existing = getSetting<EncryptionSettings | null>(ENCRYPTION_KEY, null)
+  const from = existing ? await unlockKey(current ?? "", existing) : null
+  if (existing && !from) return false
+
+  const created = next ? await createEncryptionSettings(next) : null
+  const to = created?.key ?? null
+
+  // The queue swallows write errors, so keep this one to report it
+  let failure: unknown = null
+  await enqueue(async (raw) => {
+    try {
+      const rekeys = [await prepareRekey(raw, from, to)]
+      if (prepareOther) rekeys.push(await prepareOther(from, to))
+
+      const committed: Rekey[] = []
+      try {
+        for (const rekey of rekeys) {
+          committed.push(rekey)
+          await rekey.commit()
+        }
+        if (created) await raw.putSetting(ENCRYPTION_KEY, created.settings)
+        else await raw.deleteSetting(ENCRYPTION_KEY)
+      } catch (error) {
+        for (const rekey of committed.reverse()) await rekey.rollback()
+        throw error
+      }
+
+      backend = to ? createEncryptedBackend(raw, to) : raw
+      encryptionKey = to
+      if (created) settingsCache.set(ENCRYPTION_KEY, created.settings)
+      else settingsCache.delete(ENCRYPTION_KEY)
+    } catch (error) {
+      failure = error
+    }
+  }, "settings")
+  if (failure) throw failure
+
+  return true
+}
+
+/* ----------------------------------------------------------------
+ *  Settings
+ * ---------------------------------------------------------------- */
+export function getSetting<T>(key: string, fallback: T): T {
+  return settingsCache.has(key) ? (settingsCache.get(key) as T) : fallback
+}
+
+export function setSetting(key: string, value: unknown): Promise<void> {
+  settingsCache.set(key, value)
+  return enqueue((db) => db.putSetting(key, value), "settings")
+}
+
+export function removeSetting(key: string): Promise<void> {
+  settingsCache.delete(key)
+  return enqueue((db) => db.deleteSetting(key), "settings")
+}
+
+/* ----------------------------------------------------------------
+ *  Fund state
+ * ---------------------------------------------------------------- */
+
+/**
+ * Read the persisted fund state. `source` is "legacy" when it came from
+ * the old single-key localStorage blob and still needs to be saved.
+ */
+export async function loadState(): Promise<{ data: unknown; source: "storage" | "legacy" } | null> {
+  if (!backend) return null
+  await loadRecipients(backend)
+
+  const storedFunds = await backend.getFunds()
+  if (storedFunds.length === 0) {
+    const legacy = localStorage.getItem(LEGACY_STATE_KEY)
+    return legacy ? { data: JSON.parse(legacy), source: "legacy" } : null
+  }
+
+  const funds: Fund[] = []
+  for (const fund of storedFunds) {
+    const transactions = await backend.getTransactions({ fundId: fund.id })
+    funds.push({
+      ...fund,
+      transactions: transactions
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .map(({ fundId: _fundId, ...transaction }) => transaction),
+    })
+  }
+
+  return {
+    data: {
+      version: getSetting(STATE_VERSION_KEY, 1),
+      funds,
+      activeFundId: getSetting<string | null>(ACTIVE_FUND_KEY, null),
+    },
+    source: "storage",
+  }
+}
+
+/**
+ * Persist the difference between two states. The reducer keeps unchanged
+ * funds and transactions by reference, so only records that are new or
+ * replaced get written. Pass `previous` as null to write everything.
+ */
+export function saveState(previous: PettyCashState | null, next: PettyCashState): Promise<void> {
+  return enqueue(async (db) => {
+    const previousFunds = new Map((previous?.funds ?? []).map((fund) => [fund.id, fund]))
+
+    for (const fund of next.funds) {
+      const before = previousFunds.get(fund.id)
+      previousFunds.delete(fund.id)
+      if (before === fund) continue
+
+      const { transactions, ...row } = fund
+      await db.putFund(row)
+      if (before?.transactions === transactions) continue
+
+      const beforeTransactions = new Map((before?.transactions ?? []).map((t) => [t.id, t]))
+      const changed = transactions.filter((t) => beforeTransactions.get(t.id) !== t)
+      const kept = new Set(transactions.map((t) => t.id))
+      const removed = Array.from(beforeTransactions.keys()).filter((id) => !kept.has(id))
+
+      await db.putTransactions(changed.map((t): StoredTransaction => ({ ...t, fundId: fund.id })))
+      await db.deleteTransactions(fund.id, removed)
+    }
+
+    // Whatever is left was removed from state
+    for (const fundId of Array.from(previousFunds.keys())) {
+      await db.deleteFund(fundId)
+    }
+
+    if (previous?.activeFundId !== next.activeFundId) {
+      settingsCache.set(ACTIVE_FUND_KEY, next.activeFundId)
+      await db.putSetting(ACTIVE_FUND_KEY, next.activeFundId)
+    }
+    if (previous?.version !== next.version) {
+      settingsCache.set(STATE_VERSION_KEY, next.version)
+      await db.putSetting(STATE_VERSION_KEY, next.version)
+    }
+
+    // The legacy blob has been copied over once a full write succeeds
+    if (!previous) localStorage.removeItem(LEGACY_STATE_KEY)
+  })
+}
+
+// Indexed lookup of a fund's transactions by type, category and/or date range
+export async function queryTransactions(query: TransactionQuery): Promise<StoredTransaction[]> {
+  await initStorage()
+  await writeQueue
+  return backend ? backend.getTransactions(query) : []
+}
+
+/* ----------------------------------------------------------------
+ *  Reconciliation history
+ * ---------------------------------------------------------------- */
+
+// Newest first
+export async function getReconciliations(): Promise<ReconciliationRecord[]> {
+  await initStorage()
+  await writeQueue
+  const records = backend ? await backend.getReconciliations() : []
+  return records.sort((a, b) => b.timestamp - a.timestamp)
+}
+
+export const saveReconciliation = (record: ReconciliationRecord): Promise<void> =>
+  enqueue((db) => db.putReconciliations([record]))
+
+export const deleteReconciliations = (ids: string[]): Promise<void> => enqueue((db) => db.deleteReconciliations(ids))
+
+// Used by data import, which replaces the whole history
+export const replaceReconciliations = (records: ReconciliationRecord[]): Promise<void> =>
+  enqueue(async (db) => {
+    await db.deleteReconciliations((await db.getReconciliations()).map((record) => record.id))
+    await db.putReconciliations(records)
+  })
+
+/* ----------------------------------------------------------------
+ *  Recipient directory
+ * ---------------------------------------------------------------- */
+
+// Reads the directory into the cache, moving one still kept in settings over to the fund data first
+async function loadRecipients(db: StorageBackend) {
+  const legacy = getSetting<Recipient[] | null>(LEGACY_RECIPIENTS_KEY, null)
+  if (legacy) {
+    await enqueue(async (data) => {
+      await data.putRecipients(legacy)
+      await rawBackend?.deleteSetting(LEGACY_RECIPIENTS_KEY)
+      settingsCache.delete(LEGACY_RECIPIENTS_KEY)
+    })
+  }
+  recipientsCache = await db.getRecipients()
+}
+
+// Empty until the fund state has been loaded
+export const getStoredRecipients = (): Recipient[] => recipientsCache
+
+// Replaces the whole directory, removing anyone no longer in it
+export function replaceRecipients(recipients: Recipient[]): Promise<void> {
+  const kept = new Set(recipients.map((recipient) => recipient.id))
+  const removed = recipientsCache.filter((recipient) => !kept.has(recipient.id)).map((recipient) => recipient.id)
+  recipientsCache = recipients
+  return enqueue(async (db) => {
+    await db.deleteRecipients(removed)
+    await db.putRecipients(recipients)
+  })
+}
+
+/* ----------------------------------------------------------------
+ *  Audit log
+ * ---------------------------------------------------------------- */
+
+// Kept in memory while locked, e.g. when auto-lock races an action, so the log has no gaps
+export const appendAuditEntry = (entry: AuditEntry): Promise<void> =>
+  enqueue(
+    (db) => db.putAuditEntries([entry]),
+    "data",
+    () => {
+      heldAuditEntries.push(entry)
+    },
+  )
+
+function writeHeldAuditEntries() {
+  if (heldAuditEntries.length === 0) return
+  const entries = heldAuditEntries
+  heldAuditEntries = []
+  enqueue(
+    (db) => db.putAuditEntries(entries),
+    "data",
+    () => {
+      heldAuditEntries = [...entries, ...heldAuditEntries]
+    },
+  )
+}
+
+// Newest first
+export async function getAuditEntries(): Promise<AuditEntry[]> {
+  await initStorage()
+  await writeQueue
+  const entries = backend ? await backend.getAuditEntries() : []
+  return entries.sort((a, b) => b.timestamp - a.timestamp)
+}
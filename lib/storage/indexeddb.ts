@@ -0,0 +1,197 @@
+import { matchesQuery } from "./backend"
+import type { Recipient } from "@/lib/recipients"
+import type {
+  AuditEntry,
+  ReconciliationRecord,
+  StorageBackend,
+  StoredFund,
+  StoredTransaction,
+  TransactionQuery,
+} from "./backend"
+
+const DB_NAME = "pettyCash"
+
+/**
+ * Schema upgrades, one per database version. Entry n takes the schema
+ * from version n to n + 1. Append new steps; never edit a shipped one.
+ */
+const UPGRADES: Array<(db: IDBDatabase, tx: IDBTransaction) => void> = [
+  // v1: funds, transactions with per-fund indexes, reconciliations and settings
+  (db) => {
+    db.createObjectStore("funds", { keyPath: "id" })
+
+    const transactions = db.createObjectStore("transactions", { keyPath: "id" })
+    transactions.createIndex("fundId", "fundId")
+    transactions.createIndex("fundId_date", ["fundId", "date"])
+    transactions.createIndex("fundId_type", ["fundId", "type"])
+    transactions.createIndex("fundId_category", ["fundId", "category"])
+
+    const reconciliations = db.createObjectStore("reconciliations", { keyPath: "id" })
+    reconciliations.createIndex("fundId", "fundId")
+
+    // Keyed by setting name
+    db.createObjectStore("settings")
+  },
+  // v2: audit log, kept apart from fund data so deleting a fund leaves its history
+  (db) => {
+    db.createObjectStore("audit", { keyPath: "id" })
+  },
+  // v3: recipient directory, moved out of settings so it can be encrypted
+  (db) => {
+    db.createObjectStore("recipients", { keyPath: "id" })
+  },
+]
+
+const DB_VERSION = UPGRADES.length
+
+type StoreName = "funds" | "transactions" | "reconciliations" | "recipients" | "settings" | "audit"
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this browser"))
+      return
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = (event) => {
+      const tx = request.transaction
+      if (!tx) return
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        UPGRADES[version](request.result, tx)
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+    request.onblocked = () => reject(new Error("Database upgrade is blocked by another open tab"))
+  })
+
+export async function openIndexedDBBackend(): Promise<StorageBackend> {
+  const db = await openDatabase()
+
+  // Run work in one IndexedDB transaction and settle once it commits
+  const run = <T>(stores: StoreName[], mode: IDBTransactionMode, work: (tx: IDBTransaction) => T): Promise<T> =>
+    new Promise((resolve, reject) => {
+      const tx = db.transaction(stores, mode)
+      const result = work(tx)
+      tx.oncomplete = () => resolve(result)
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
+    })
+
+  const getAll = async <T>(store: StoreName): Promise<T[]> => {
+    const request = await run([store], "readonly", (tx) => tx.objectStore(store).getAll())
+    return request.result as T[]
+  }
+
+  return {
+    name: "IndexedDB",
+
+    getFunds: () => getAll<StoredFund>("funds"),
+
+    putFund: async (fund) => {
+      await run(["funds"], "readwrite", (tx) => tx.objectStore("funds").put(fund))
+    },
+
+    deleteFund: async (fundId) => {
+      await run(["funds", "transactions"], "readwrite", (tx) => {
+        tx.objectStore("funds").delete(fundId)
+        const transactions = tx.objectStore("transactions")
+        const keys = transactions.index("fundId").getAllKeys(fundId)
+        keys.onsuccess = () => keys.result.forEach((key) => transactions.delete(key))
+      })
+    },
+
+    getTransactions: async (query: TransactionQuery) => {
+      // Pick the narrowest index for the query; remaining conditions are checked in memory
+      const request = await run(["transactions"], "readonly", (tx) => {
+        const store = tx.objectStore("transactions")
+        if (query.type) return store.index("fundId_type").getAll([query.fundId, query.type])
+        if (query.category) return store.index("fundId_category").getAll([query.fundId, query.category])
+        // Encrypted rows only expose id and fundId, so an unfiltered read can't go through the date index
+        if (!query.from && !query.to) return store.index("fundId").getAll(query.fundId)
+        return store
+          .index("fundId_date")
+          .getAll(IDBKeyRange.bound([query.fundId, query.from ?? ""], [query.fundId, query.to ?? "\uffff"]))
+      })
+      return (request.result as StoredTransaction[]).filter((t) => matchesQuery(t, query))
+    },
+
+    putTransactions: async (transactions) => {
+      if (transactions.length === 0) return
+      await run(["transactions"], "readwrite", (tx) => {
+        const store = tx.objectStore("transactions")
+        transactions.forEach((transaction) => store.put(transaction))
+      })
+    },
+
+    deleteTransactions: async (_fundId, ids) => {
+      if (ids.length === 0) return
+      await run(["transactions"], "readwrite", (tx) => {
+        const store = tx.objectStore("transactions")
+        ids.forEach((id) => store.delete(id))
+      })
+    },
+
+    getReconciliations: () => getAll<ReconciliationRecord>("reconciliations"),
+
+    putReconciliations: async (records) => {
+      if (records.length === 0) return
+      await run(["reconciliations"], "readwrite", (tx) => {
+        const store = tx.objectStore("reconciliations")
+        records.forEach((record) => store.put(record))
+      })
+    },
+
+    deleteReconciliations: async (ids) => {
+      if (ids.length === 0) return
+      await run(["reconciliations"], "readwrite", (tx) => {
+        const store = tx.objectStore("reconciliations")
+        ids.forEach((id) => store.delete(id))
+      })
+    },
+
+    getRecipients: () => getAll<Recipient>("recipients"),
+
+    putRecipients: async (recipients) => {
+      if (recipients.length === 0) return
+      await run(["recipients"], "readwrite", (tx) => {
+        const store = tx.objectStore("recipients")
+        recipients.forEach((recipient) => store.put(recipient))
+      })
+    },
+
+    deleteRecipients: async (ids) => {
+      if (ids.length === 0) return
+      await run(["recipients"], "readwrite", (tx) => {
+        const store = tx.objectStore("recipients")
+        ids.forEach((id) => store.delete(id))
+      })
+    },
+
+    getAuditEntries: () => getAll<AuditEntry>("audit"),
+
+    putAuditEntries: async (entries) => {
+      if (entries.length === 0) return
+      await run(["audit"], "readwrite", (tx) => {
+        const store = tx.objectStore("audit")
+        entries.forEach((entry) => store.put(entry))
+      })
+    },
+
+    getSettings: async () => {
+      const { keys, values } = await run(["settings"], "readonly", (tx) => {
+        const store = tx.objectStore("settings")
+        return { keys: store.getAllKeys(), values: store.getAll() }
+      })
+      return Object.fromEntries(keys.result.map((key, i) => [String(key), values.result[i]]))
+    },
+
+    putSetting: async (key, value) => {
+      await run(["settings"], "readwrite", (tx) => tx.objectStore("settings").put(value, key))
+    },
+
+    deleteSetting: async (key) => {
+      await run(["settings"], "readwrite", (tx) => tx.objectStore("settings").delete(key))
+    },
+  }
+}
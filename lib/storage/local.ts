@@ -0,0 +1,110 @@
+import type { Recipient } from "@/lib/recipients"
+import { matchesQuery } from "./backend"
+import type { AuditEntry, ReconciliationRecord, StorageBackend, StoredFund, StoredTransaction } from "./backend"
+
+// Fallback for browsers without IndexedDB (e.g. some private modes). Transactions are kept in one key per fund.
+const FUNDS_KEY = "pettyCash.funds"
+const RECONCILIATIONS_KEY = "pettyCash.reconciliations"
+const RECIPIENTS_KEY = "pettyCash.recipients"
+const SETTINGS_KEY = "pettyCash.settings"
+const AUDIT_KEY = "pettyCash.audit"
+const transactionsKey = (fundId: string) => `pettyCash.transactions.${fundId}`
+
+const read = <T>(key: string, fallback: T): T => {
+  const stored = localStorage.getItem(key)
+  return stored ? (JSON.parse(stored) as T) : fallback
+}
+
+const write = (key: string, value: unknown) => localStorage.setItem(key, JSON.stringify(value))
+
+// Replace records by id, keeping the existing order and appending new ones
+const upsert = <T extends { id: string }>(records: T[], updates: T[]): T[] => {
+  const byId = new Map(updates.map((record) => [record.id, record]))
+  const merged = records.map((record) => byId.get(record.id) ?? record)
+  const existing = new Set(records.map((record) => record.id))
+  return [...merged, ...updates.filter((record) => !existing.has(record.id))]
+}
+
+export function createLocalStorageBackend(): StorageBackend {
+  return {
+    name: "localStorage",
+
+    getFunds: async () => read<StoredFund[]>(FUNDS_KEY, []),
+
+    putFund: async (fund) => {
+      write(FUNDS_KEY, upsert(read<StoredFund[]>(FUNDS_KEY, []), [fund]))
+    },
+
+    deleteFund: async (fundId) => {
+      write(
+        FUNDS_KEY,
+        read<StoredFund[]>(FUNDS_KEY, []).filter((fund) => fund.id !== fundId),
+      )
+      localStorage.removeItem(transactionsKey(fundId))
+    },
+
+    getTransactions: async (query) =>
+      read<StoredTransaction[]>(transactionsKey(query.fundId), []).filter((t) => matchesQuery(t, query)),
+
+    putTransactions: async (transactions) => {
+      const byFund = new Map<string, StoredTransaction[]>()
+      transactions.forEach((t) => byFund.set(t.fundId, [...(byFund.get(t.fundId) ?? []), t]))
+      byFund.forEach((updates, fundId) => {
+        write(transactionsKey(fundId), upsert(read<StoredTransaction[]>(transactionsKey(fundId), []), updates))
+      })
+    },
+
+    deleteTransactions: async (fundId, ids) => {
+      const removed = new Set(ids)
+      write(
+        transactionsKey(fundId),
+        read<StoredTransaction[]>(transactionsKey(fundId), []).filter((t) => !removed.has(t.id)),
+      )
+    },
+
+    getReconciliations: async () => read<ReconciliationRecord[]>(RECONCILIATIONS_KEY, []),
+
+    putReconciliations: async (records) => {
+      write(RECONCILIATIONS_KEY, upsert(read<ReconciliationRecord[]>(RECONCILIATIONS_KEY, []), records))
+    },
+
+    deleteReconciliations: async (ids) => {
+      const removed = new Set(ids)
+      write(
+        RECONCILIATIONS_KEY,
+        read<ReconciliationRecord[]>(RECONCILIATIONS_KEY, []).filter((record) => !removed.has(record.id)),
+      )
+    },
+
+    getRecipients: async () => read<Recipient[]>(RECIPIENTS_KEY, []),
+
+    putRecipients: async (recipients) => {
+      write(RECIPIENTS_KEY, upsert(read<Recipient[]>(RECIPIENTS_KEY, []), recipients))
+    },
+
+    deleteRecipients: async (ids) => {
+      const removed = new Set(ids)
+      write(
+        RECIPIENTS_KEY,
+        read<Recipient[]>(RECIPIENTS_KEY, []).filter((recipient) => !removed.has(recipient.id)),
+      )
+    },
+
+    getAuditEntries: async () => read<AuditEntry[]>(AUDIT_KEY, []),
+
+    putAuditEntries: async (entries) => {
+      write(AUDIT_KEY, upsert(read<AuditEntry[]>(AUDIT_KEY, []), entries))
+    },
+
+    getSettings: async () => read<Record<string, unknown>>(SETTINGS_KEY, {}),
+
+    putSetting: async (key, value) => {
+      write(SETTINGS_KEY, { ...read<Record<string, unknown>>(SETTINGS_KEY, {}), [key]: value })
+    },
+
+    deleteSetting: async (key) => {
+      const { [key]: _removed, ...rest } = read<Record<string, unknown>>(SETTINGS_KEY, {})
+      write(SETTINGS_KEY, rest)
+    },
+  }
+}
@@ -0,0 +1,111 @@
+import { generateSessionId } from "@/lib/security"
+import { getSetting, setSetting } from "@/lib/storage"
+
+/* ----------------------------------------------------------------
+ *  Local users and roles
+ *
+ *  Users are profiles on this device, each signing in with a PIN.
+ *  Until the first one is added the app runs in single-user mode
+ *  and every permission is granted.
+ * ---------------------------------------------------------------- */
+
+export type Role = "admin" | "custodian" | "approver" | "auditor" | "viewer"
+
+export type Permission =
+  // Initialize funds, disburse, replenish, void and attach receipts
+  | "record"
+  | "approve"
+  | "reconcile"
+  | "viewReports"
+  | "manageSettings"
+  // Import and reset
+  | "manageData"
+  // Users, roles and the passphrase
+  | "manageUsers"
+  | "viewAudit"
+
+export const ROLES: { value: Role; label: string; description: string }[] = [
+  { value: "admin", label: "Admin", description: "Everything, including users, import and reset" },
+  { value: "custodian", label: "Custodian", description: "Records transactions, reconciles and edits settings" },
+  { value: "approver", label: "Approver", description: "Approves or rejects large disbursements" },
+  { value: "auditor", label: "Auditor", description: "Read-only access to history, reports and the audit trail" },
+  { value: "viewer", label: "Viewer", description: "Dashboard and history only" },
+]
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: ["record", "approve", "reconcile", "viewReports", "manageSettings", "manageData", "manageUsers", "viewAudit"],
+  custodian: ["record", "reconcile", "viewReports", "manageSettings"],
+  approver: ["approve", "viewReports"],
+  auditor: ["viewReports", "viewAudit"],
+  viewer: [],
+}
+
+export const hasPermission = (role: Role, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role].includes(permission)
+
+// Permission needed to open each route; routes not listed are open to anyone signed in
+export const ROUTE_PERMISSIONS: Record<string, Permission> = {
+  "/initialize": "record",
+  "/disburse": "record",
+  "/disburse/bulk": "record",
+  "/advances": "record",
+  "/replenish": "record",
+  "/replenish/statement": "record",
+  "/replenish/voucher": "viewReports",
+  "/approvals": "approve",
+  "/reconcile": "reconcile",
+  "/report": "viewReports",
+  "/recipients": "manageSettings",
+  "/settings": "manageSettings",
+  "/audit": "viewAudit",
+}
+
+export const roleLabel = (role: Role): string => ROLES.find((r) => r.value === role)?.label ?? role
+
+/* ----------------------------------------------------------------
+ *  Profiles and PINs
+ * ---------------------------------------------------------------- */
+
+export interface UserProfile {
+  id: string
+  name: string
+  role: Role
+  // PBKDF2 of the PIN; the PIN itself is never stored
+  pinHash: string
+  pinSalt: string
+  createdAt: number
+}
+
+const USERS_KEY = "users"
+const PIN_ITERATIONS = 100_000
+
+export const isValidPin = (pin: string): boolean => /^\d{4,8}$/.test(pin)
+
+export const getUsers = (): UserProfile[] => getSetting<UserProfile[]>(USERS_KEY, [])
+
+export const saveUsers = (users: UserProfile[]): Promise<void> => setSetting(USERS_KEY, users)
+
+async function hashPin(pin: string, salt: string): Promise<string> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(pin), "PBKDF2", false, ["deriveBits"])
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", salt: new TextEncoder().encode(salt), iterations: PIN_ITERATIONS, hash: "SHA-256" },
+    material,
+    256,
+  )
+  return Array.from(new Uint8Array(bits), (b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+export async function createUser(name: string, role: Role, pin: string): Promise<UserProfile> {
+  const pinSalt = generateSessionId()
+  return {
+    id: `USR-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    role,
+    pinHash: await hashPin(pin, pinSalt),
+    pinSalt,
+    createdAt: Date.now(),
+  }
+}
+
+export const verifyPin = async (user: UserProfile, pin: string): Promise<boolean> =>
+  (await hashPin(pin, user.pinSalt)) === user.pinHash
@@ -0,0 +1,240 @@
+/* ----------------------------------------------------------------
+ *  XLSX writing
+ *
+ *  Just enough of SpreadsheetML to hand managers a workbook: inline
+ *  strings, numbers, bold header rows, money and date formats, and
+ *  column widths. The package is an uncompressed (stored) zip, so
+ *  nothing beyond the browser is needed to build it.
+ * ---------------------------------------------------------------- */
+
+export type CellValue = string | number | null | undefined
+
+export interface Sheet {
+  // Up to 31 characters; []:*?/\ are replaced
+  name: string
+  rows: CellValue[][]
+  // Bold the first row
+  header?: boolean
+  // Zero-based columns holding major-unit amounts, or YYYY-MM-DD dates stored as Excel dates
+  moneyColumns?: number[]
+  dateColumns?: number[]
+  // Character widths, by column
+  widths?: number[]
+}
+
+// Cell style indexes in styles.xml
+const STYLE = { plain: 0, bold: 1, money: 2, date: 3 }
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters aren't allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+
+// 0 -> A, 25 -> Z, 26 -> AA
+function columnName(index: number): string {
+  let name = ""
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+// Days since 1899-12-30, the way Excel stores dates
+function excelDate(value: string): number | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (!match) return null
+  return (Date.UTC(+match[1], +match[2] - 1, +match[3]) - Date.UTC(1899, 11, 30)) / 86_400_000
+}
+
+function cellXml(value: CellValue, ref: string, style: number): string {
+  if (value === null || value === undefined || value === "") return ""
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? `<c r="${ref}"${style ? ` s="${style}"` : ""}><v>${value}</v></c>` : ""
+  }
+  const serial = style === STYLE.date ? excelDate(value) : null
+  if (serial !== null) return `<c r="${ref}" s="${STYLE.date}"><v>${serial}</v></c>`
+  // Number formats mean nothing to text, so strings only keep the bold style
+  const s = style === STYLE.bold ? ` s="${STYLE.bold}"` : ""
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`
+}
+
+function sheetXml(sheet: Sheet): string {
+  const cols = sheet.widths?.length
+    ? `<cols>${sheet.widths.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join("")}</cols>`
+    : ""
+  const rows = sheet.rows
+    .map((row, r) => {
+      const cells = row
+        .map((value, c) => {
+          const style =
+            sheet.header && r === 0
+              ? STYLE.bold
+              : sheet.moneyColumns?.includes(c)
+                ? STYLE.money
+                : sheet.dateColumns?.includes(c)
+                  ? STYLE.date
+                  : STYLE.plain
+          return cellXml(value, `${columnName(c)}${r + 1}`, style)
+        })
+        .join("")
+      return `<row r="${r + 1}">${cells}</row>`
+    })
+    .join("")
+  const frozen = sheet.header
+    ? `<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>`
+    : ""
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${frozen}${cols}<sheetData>${rows}</sheetData></worksheet>`
+}
+
+function stylesXml(decimals: number): string {
+  const moneyFormat = decimals > 0 ? `#,##0.${"0".repeat(decimals)}` : "#,##0"
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="${moneyFormat}"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="4">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`
+}
+
+/* ----------------------------------------------------------------
+ *  Zip packaging
+ * ---------------------------------------------------------------- */
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff
+  bytes.forEach((byte) => {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  })
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// Stored (uncompressed) zip of the given files
+function zip(files: { name: string; data: Uint8Array }[]): Uint8Array {
+  const encoder = new TextEncoder()
+  const local: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  files.forEach((file) => {
+    const name = encoder.encode(file.name)
+    const crc = crc32(file.data)
+    const size = file.data.length
+
+    const header = new DataView(new ArrayBuffer(30))
+    header.setUint32(0, 0x04034b50, true)
+    header.setUint16(4, 20, true) // version needed
+    header.setUint16(12, 0x21, true) // 1980-01-01
+    header.setUint32(14, crc, true)
+    header.setUint32(18, size, true)
+    header.setUint32(22, size, true)
+    header.setUint16(26, name.length, true)
+    local.push(new Uint8Array(header.buffer), name, file.data)
+
+    const entry = new DataView(new ArrayBuffer(46))
+    entry.setUint32(0, 0x02014b50, true)
+    entry.setUint16(4, 20, true) // version made by
+    entry.setUint16(6, 20, true) // version needed
+    entry.setUint16(14, 0x21, true)
+    entry.setUint32(16, crc, true)
+    entry.setUint32(20, size, true)
+    entry.setUint32(24, size, true)
+    entry.setUint16(28, name.length, true)
+    entry.setUint32(42, offset, true)
+    central.push(new Uint8Array(entry.buffer), name)
+
+    offset += 30 + name.length + size
+  })
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, files.length, true)
+  end.setUint16(10, files.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  const parts = [...local, ...central, new Uint8Array(end.buffer)]
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let position = 0
+  parts.forEach((part) => {
+    output.set(part, position)
+    position += part.length
+  })
+  return output
+}
+
+/* ----------------------------------------------------------------
+ *  Workbook
+ * ---------------------------------------------------------------- */
+
+export const XLSX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+
+/**
+ * Build a workbook with one worksheet per sheet, in order. `decimals`
+ * sets the precision of money columns (see currencyDecimals).
+ */
+export function buildXlsx(sheets: Sheet[], decimals = 2): Blob {
+  const encoder = new TextEncoder()
+  const names = sheets.map((sheet, i) => sheet.name.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || `Sheet${i + 1}`)
+
+  const files = [
+    {
+      name: "[Content_Types].xml",
+      xml: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join("\n")}
+</Types>`,
+    },
+    {
+      name: "_rels/.rels",
+      xml: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`,
+    },
+    {
+      name: "xl/workbook.xml",
+      xml: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("")}</sheets>
+</workbook>`,
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      xml: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join("\n")}
+<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`,
+    },
+    { name: "xl/styles.xml", xml: stylesXml(decimals) },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, xml: sheetXml(sheet) })),
+  ]
+
+  const data = zip(files.map((file) => ({ name: file.name, data: encoder.encode(file.xml) })))
+  return new Blob([data], { type: XLSX_MIME_TYPE })
+}